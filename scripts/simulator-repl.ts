@@ -0,0 +1,122 @@
+import axios from 'axios';
+import * as readline from 'readline/promises';
+
+/**
+ * REPL del simulador: chatear con el bot desde la terminal, sin Meta.
+ * Requiere la app corriendo con WHATSAPP_PROVIDER=simulator.
+ *
+ * Comandos:
+ *   /como <telefono>      cambia el número que escribe
+ *   /admin                escribe como ADMIN_PHONE_NUMBER
+ *   /boton <id> [titulo]  toca un botón o fila de lista
+ *   /audio                manda una nota de voz (usar TRANSCRIPTION_PROVIDER=stub)
+ *   /salir
+ */
+const API_URL = process.env.SIMULATOR_URL ?? 'http://localhost:3000/simulator';
+const ADMIN_PHONE = process.env.ADMIN_PHONE_NUMBER;
+
+interface SimulatorReply {
+  to: string;
+  type: string;
+  text: string;
+}
+
+interface SimulatorResponse {
+  replies: SimulatorReply[];
+}
+
+async function send(body: Record<string, unknown>): Promise<void> {
+  try {
+    const response = await axios.post<SimulatorResponse>(
+      `${API_URL}/messages`,
+      body,
+      { timeout: 120_000 },
+    );
+
+    if (response.data.replies.length === 0) {
+      console.log('   (sin respuesta)');
+    }
+
+    for (const reply of response.data.replies) {
+      const indented = reply.text.split('\n').join('\n      ');
+
+      console.log(`🤖 → ${reply.to} [${reply.type}]\n      ${indented}`);
+    }
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const data: unknown = error.response?.data;
+
+      console.error(
+        `❌ ${error.response?.status ?? 'NO_STATUS'} ${error.message}${data ? ` | ${JSON.stringify(data)}` : ''}`,
+      );
+    } else {
+      console.error(error);
+    }
+  }
+}
+
+async function runRepl(): Promise<void> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  let from = process.env.SIMULATOR_PHONE ?? '5491100000000';
+
+  console.log(`🧪 Simulador conectado a ${API_URL}. Escribís como ${from}.`);
+
+  for (;;) {
+    const line = (await rl.question(`${from}> `)).trim();
+
+    if (!line) {
+      continue;
+    }
+
+    const [command, ...args] = line.split(' ');
+
+    switch (command.toLowerCase()) {
+      case '/salir':
+        rl.close();
+        return;
+
+      case '/como':
+        if (!args[0]) {
+          console.log('Uso: /como <telefono>');
+        } else {
+          from = args[0];
+        }
+        break;
+
+      case '/admin':
+        if (!ADMIN_PHONE) {
+          console.log('⚠️ Definí ADMIN_PHONE_NUMBER para usar /admin');
+        } else {
+          from = ADMIN_PHONE;
+        }
+        break;
+
+      case '/boton':
+        if (!args[0]) {
+          console.log('Uso: /boton <id> [titulo]');
+        } else {
+          await send({
+            from,
+            replyId: args[0],
+            text: args.slice(1).join(' ') || undefined,
+          });
+        }
+        break;
+
+      case '/audio':
+        await send({ from, voice: true });
+        break;
+
+      default:
+        await send({ from, text: line });
+    }
+  }
+}
+
+void runRepl().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,312 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  EntityManager,
+  IsNull,
+  LessThanOrEqual,
+  MoreThan,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { Appointment } from './entities/appointment.entity';
+import { AvailabilitySlot } from './entities/availability-slot.entity';
+import { AppointmentStatus } from './enums/appointment-status.enum';
+import type {
+  AppointmentData,
+  AppointmentPort,
+  ReminderKind,
+  SlotData,
+} from '../whatsapp/ports/appointment.port';
+
+const REMINDER_COLUMNS = {
+  '24h': 'reminder24hSentAt',
+  '2h': 'reminder2hSentAt',
+} as const;
+
+// Corta la transacción de `reschedule` cuando el horario nuevo ya está tomado
+class SlotTakenError extends Error {}
+
+/**
+ * Adaptador: Implementa el puerto AppointmentPort usando TypeORM.
+ */
+@Injectable()
+export class AppointmentAdapter implements AppointmentPort {
+  constructor(
+    @InjectRepository(Appointment)
+    private readonly appointmentRepository: Repository<Appointment>,
+    @InjectRepository(AvailabilitySlot)
+    private readonly slotRepository: Repository<AvailabilitySlot>,
+  ) {}
+
+  async findAvailableSlots(from: Date, to: Date): Promise<SlotData[]> {
+    const slots = await this.slotRepository
+      .createQueryBuilder('slot')
+      .innerJoinAndSelect('slot.instructor', 'instructor')
+      .leftJoinAndSelect('slot.vehicle', 'vehicle')
+      .where('slot.startsAt >= :from', { from })
+      .andWhere('slot.startsAt < :to', { to })
+      .andWhere('instructor.isActive = :isActive', { isActive: true })
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM appointments a
+          WHERE a."slotId" = slot.id AND a.status = :booked
+        )`,
+        { booked: AppointmentStatus.BOOKED },
+      )
+      .orderBy('slot.startsAt', 'ASC')
+      .addOrderBy('instructor.name', 'ASC')
+      .getMany();
+
+    return slots.map((slot) => this.toSlotData(slot));
+  }
+
+  async findSlot(slotId: string): Promise<SlotData | null> {
+    // Un id viejo (lista ya mandada) no puede reservar con un instructor dado de baja
+    const slot = await this.slotRepository.findOne({
+      where: { id: slotId, instructor: { isActive: true } },
+      relations: { instructor: true, vehicle: true },
+    });
+
+    return slot ? this.toSlotData(slot) : null;
+  }
+
+  async book(
+    studentId: string,
+    slotId: string,
+  ): Promise<AppointmentData | null> {
+    const id = await this.insertBooking(
+      this.appointmentRepository.manager,
+      studentId,
+      slotId,
+      null,
+    );
+
+    return id ? this.findById(id) : null;
+  }
+
+  async reschedule(
+    appointmentId: string,
+    slotId: string,
+  ): Promise<AppointmentData | null> {
+    let id: string;
+
+    try {
+      id = await this.appointmentRepository.manager.transaction(
+        async (manager) => {
+          const current = await manager.findOneBy(Appointment, {
+            id: appointmentId,
+            status: AppointmentStatus.BOOKED,
+          });
+
+          if (!current) {
+            throw new SlotTakenError();
+          }
+
+          await manager.update(Appointment, current.id, {
+            status: AppointmentStatus.CANCELLED,
+            cancelledAt: new Date(),
+          });
+
+          const newId = await this.insertBooking(
+            manager,
+            current.studentId,
+            slotId,
+            current.id,
+          );
+
+          if (!newId) {
+            throw new SlotTakenError();
+          }
+
+          return newId;
+        },
+      );
+    } catch (error) {
+      if (error instanceof SlotTakenError) {
+        return null;
+      }
+
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  async cancel(appointmentId: string): Promise<boolean> {
+    const result = await this.appointmentRepository.update(
+      { id: appointmentId, status: AppointmentStatus.BOOKED },
+      { status: AppointmentStatus.CANCELLED, cancelledAt: new Date() },
+    );
+
+    return result.affected === 1;
+  }
+
+  async findById(appointmentId: string): Promise<AppointmentData | null> {
+    const appointment = await this.appointmentRepository.findOne({
+      where: { id: appointmentId },
+      relations: { slot: { instructor: true, vehicle: true } },
+    });
+
+    return appointment ? this.toData(appointment) : null;
+  }
+
+  async findUpcomingByStudent(
+    studentId: string,
+    now: Date,
+  ): Promise<AppointmentData[]> {
+    const appointments = await this.appointmentRepository.find({
+      where: {
+        studentId,
+        status: AppointmentStatus.BOOKED,
+        slot: { startsAt: MoreThan(now) },
+      },
+      relations: { slot: { instructor: true, vehicle: true } },
+      order: { slot: { startsAt: 'ASC' } },
+    });
+
+    return appointments.map((appointment) => this.toData(appointment));
+  }
+
+  async findDueReminders(
+    kind: ReminderKind,
+    leadMs: number,
+    now: Date,
+  ): Promise<AppointmentData[]> {
+    const column = REMINDER_COLUMNS[kind];
+    const appointments = await this.appointmentRepository
+      .createQueryBuilder('appointment')
+      .innerJoinAndSelect('appointment.slot', 'slot')
+      .innerJoinAndSelect('slot.instructor', 'instructor')
+      .leftJoinAndSelect('slot.vehicle', 'vehicle')
+      .where('appointment.status = :booked', {
+        booked: AppointmentStatus.BOOKED,
+      })
+      .andWhere(`appointment.${column} IS NULL`)
+      .andWhere('slot.startsAt > :now', { now })
+      .andWhere('slot.startsAt <= :until', {
+        until: new Date(now.getTime() + leadMs),
+      })
+      // Reservado antes del momento del recordatorio
+      .andWhere(
+        'EXTRACT(EPOCH FROM (slot.startsAt - appointment.createdAt)) * 1000 >= :leadMs',
+        { leadMs },
+      )
+      .orderBy('slot.startsAt', 'ASC')
+      .getMany();
+
+    return appointments.map((appointment) => this.toData(appointment));
+  }
+
+  async claimReminder(
+    appointmentId: string,
+    kind: ReminderKind,
+  ): Promise<boolean> {
+    const column = REMINDER_COLUMNS[kind];
+    const result = await this.appointmentRepository.update(
+      { id: appointmentId, [column]: IsNull() },
+      { [column]: new Date() },
+    );
+
+    return result.affected === 1;
+  }
+
+  async confirm(appointmentId: string): Promise<boolean> {
+    const result = await this.appointmentRepository.update(
+      { id: appointmentId, status: AppointmentStatus.BOOKED },
+      { confirmedAt: new Date() },
+    );
+
+    return result.affected === 1;
+  }
+
+  async markAttendance(
+    appointmentId: string,
+    attended: boolean,
+    now: Date,
+  ): Promise<AppointmentData | null> {
+    const appointment = await this.appointmentRepository.findOne({
+      where: {
+        id: appointmentId,
+        status: AppointmentStatus.BOOKED,
+        slot: { startsAt: LessThanOrEqual(now) },
+      },
+    });
+
+    if (!appointment) {
+      return null;
+    }
+
+    const result = await this.appointmentRepository.update(
+      { id: appointment.id, status: AppointmentStatus.BOOKED },
+      {
+        status: attended
+          ? AppointmentStatus.ATTENDED
+          : AppointmentStatus.NO_SHOW,
+        attendanceMarkedAt: now,
+      },
+    );
+
+    return result.affected === 1 ? this.findById(appointment.id) : null;
+  }
+
+  countNoShows(studentId: string, since: Date): Promise<number> {
+    return this.appointmentRepository.count({
+      where: {
+        studentId,
+        status: AppointmentStatus.NO_SHOW,
+        slot: { startsAt: MoreThanOrEqual(since) },
+      },
+    });
+  }
+
+  /**
+   * Inserta el turno; el índice único parcial descarta la doble reserva.
+   * @returns el id del turno o `null` si el horario ya estaba tomado.
+   */
+  private async insertBooking(
+    manager: EntityManager,
+    studentId: string,
+    slotId: string,
+    rescheduledFromId: string | null,
+  ): Promise<string | null> {
+    const result = await manager
+      .createQueryBuilder()
+      .insert()
+      .into(Appointment)
+      .values({
+        studentId,
+        slotId,
+        rescheduledFromId,
+        status: AppointmentStatus.BOOKED,
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+    const [row] = result.raw as Array<{ id: string }>;
+
+    return row?.id ?? null;
+  }
+
+  /**
+   * Mapper: Entidad -> DTO de dominio
+   */
+  private toData(appointment: Appointment): AppointmentData {
+    return {
+      id: appointment.id,
+      studentId: appointment.studentId,
+      status: appointment.status,
+      slot: this.toSlotData(appointment.slot),
+      confirmedAt: appointment.confirmedAt,
+    };
+  }
+
+  private toSlotData(slot: AvailabilitySlot): SlotData {
+    return {
+      id: slot.id,
+      startsAt: slot.startsAt,
+      endsAt: slot.endsAt,
+      instructorName: slot.instructor.name,
+      vehicleName: slot.vehicle?.name ?? null,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Instructor } from './entities/instructor.entity';
+import { Vehicle } from './entities/vehicle.entity';
+import { AvailabilitySlot } from './entities/availability-slot.entity';
+import { Appointment } from './entities/appointment.entity';
+import { AppointmentAdapter } from './appointment.adapter';
+import { CalendarService } from './calendar.service';
+import { CalendarController } from './calendar.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Instructor,
+      Vehicle,
+      AvailabilitySlot,
+      Appointment,
+    ]),
+  ],
+  controllers: [CalendarController],
+  providers: [AppointmentAdapter, CalendarService],
+  exports: [AppointmentAdapter],
+})
+export class AppointmentModule {}
@@ -0,0 +1,264 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+import {
+  argentinaDate,
+  argentinaDateTime,
+  parseLocalTime,
+} from '../whatsapp/utils/argentina-time';
+import { CalendarService } from './calendar.service';
+
+type JsonBody = Record<string, unknown> | undefined;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function requiredString(body: JsonBody, key: string): string {
+  const value = body?.[key];
+
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new BadRequestException(`"${key}" es obligatorio`);
+  }
+
+  return value.trim();
+}
+
+function optionalString(body: JsonBody, key: string): string | undefined {
+  const value = body?.[key];
+
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== 'string') {
+    throw new BadRequestException(`"${key}" debe ser texto`);
+  }
+
+  return value.trim();
+}
+
+function optionalBoolean(body: JsonBody, key: string): boolean | undefined {
+  const value = body?.[key];
+
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new BadRequestException(`"${key}" debe ser true o false`);
+  }
+
+  return value;
+}
+
+function parseDay(value: string, key: string): string {
+  if (!DATE_PATTERN.test(value)) {
+    throw new BadRequestException(`"${key}" debe tener formato YYYY-MM-DD`);
+  }
+
+  return value;
+}
+
+function parseTime(value: string, key: string): string {
+  const time = parseLocalTime(value);
+
+  if (!time) {
+    throw new BadRequestException(`"${key}" debe tener formato HH:MM`);
+  }
+
+  return time;
+}
+
+/**
+ * Rango de días (hora argentina, `to` incluido). Sin fechas: los próximos 7 días.
+ */
+function parseRange(from?: string, to?: string): { from: Date; to: Date } {
+  const fromDay = from ? parseDay(from, 'from') : argentinaDate();
+  const start = argentinaDateTime(fromDay, '00:00');
+  const end = to
+    ? new Date(
+        argentinaDateTime(parseDay(to, 'to'), '00:00').getTime() + DAY_MS,
+      )
+    : new Date(start.getTime() + 7 * DAY_MS);
+
+  return { from: start, to: end };
+}
+
+/**
+ * Calendario de clases de manejo (instructores, vehículos, horarios y turnos).
+ * Los días y horas son siempre en hora argentina.
+ */
+@Controller('admin/calendar')
+@UseGuards(AdminApiKeyGuard)
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Get('instructors')
+  async findInstructors() {
+    return this.calendarService.findInstructors();
+  }
+
+  /**
+   * Ejemplo: POST /admin/calendar/instructors { "name": "Carlos", "phoneNumber": "5492255..." }
+   */
+  @Post('instructors')
+  async createInstructor(@Body() body: JsonBody) {
+    return this.calendarService.createInstructor({
+      name: requiredString(body, 'name'),
+      phoneNumber: optionalString(body, 'phoneNumber') || null,
+    });
+  }
+
+  /**
+   * Ejemplo: PATCH /admin/calendar/instructors/:id { "isActive": false }
+   */
+  @Patch('instructors/:id')
+  async updateInstructor(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: JsonBody,
+  ) {
+    const phoneNumber = optionalString(body, 'phoneNumber');
+
+    return this.calendarService.updateInstructor(id, {
+      ...(body?.name !== undefined && { name: requiredString(body, 'name') }),
+      ...(phoneNumber !== undefined && { phoneNumber: phoneNumber || null }),
+      ...(body?.isActive !== undefined && {
+        isActive: optionalBoolean(body, 'isActive'),
+      }),
+    });
+  }
+
+  @Get('vehicles')
+  async findVehicles() {
+    return this.calendarService.findVehicles();
+  }
+
+  /**
+   * Ejemplo: POST /admin/calendar/vehicles { "name": "Fiat Cronos manual", "plate": "AF123BC" }
+   */
+  @Post('vehicles')
+  async createVehicle(@Body() body: JsonBody) {
+    return this.calendarService.createVehicle({
+      name: requiredString(body, 'name'),
+      plate: requiredString(body, 'plate').toUpperCase().replace(/\s+/g, ''),
+    });
+  }
+
+  @Patch('vehicles/:id')
+  async updateVehicle(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: JsonBody,
+  ) {
+    return this.calendarService.updateVehicle(id, {
+      ...(body?.name !== undefined && { name: requiredString(body, 'name') }),
+      ...(body?.isActive !== undefined && {
+        isActive: optionalBoolean(body, 'isActive'),
+      }),
+    });
+  }
+
+  /**
+   * Horarios con su turno reservado.
+   * Ejemplo: GET /admin/calendar/slots?from=2026-03-02&to=2026-03-08&instructorId=...
+   */
+  @Get('slots')
+  async findSlots(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('instructorId') instructorId?: string,
+  ) {
+    if (instructorId && !isUUID(instructorId)) {
+      throw new BadRequestException('"instructorId" debe ser un UUID');
+    }
+
+    const range = parseRange(from, to);
+
+    return this.calendarService.findSlots(range.from, range.to, instructorId);
+  }
+
+  /**
+   * Crea los horarios de un día, de `from` a `to`, cada `durationMinutes` (60 por defecto).
+   * 409 si alguno se superpone con otro horario del instructor o del vehículo.
+   * Ejemplo: POST /admin/calendar/slots
+   *   { "instructorId": "...", "vehicleId": "...", "date": "2026-03-02", "from": "09:00", "to": "13:00" }
+   */
+  @Post('slots')
+  async createSlots(@Body() body: JsonBody) {
+    const instructorId = requiredString(body, 'instructorId');
+    const vehicleId = optionalString(body, 'vehicleId') || null;
+    const durationMinutes = body?.durationMinutes ?? 60;
+
+    if (!isUUID(instructorId) || (vehicleId && !isUUID(vehicleId))) {
+      throw new BadRequestException(
+        '"instructorId" y "vehicleId" deben ser UUIDs',
+      );
+    }
+
+    if (
+      typeof durationMinutes !== 'number' ||
+      !Number.isInteger(durationMinutes) ||
+      durationMinutes < 15
+    ) {
+      throw new BadRequestException(
+        '"durationMinutes" debe ser un entero de al menos 15',
+      );
+    }
+
+    return this.calendarService.createSlots({
+      instructorId,
+      vehicleId,
+      date: parseDay(requiredString(body, 'date'), 'date'),
+      from: parseTime(requiredString(body, 'from'), 'from'),
+      to: parseTime(requiredString(body, 'to'), 'to'),
+      durationMinutes,
+    });
+  }
+
+  @Delete('slots/:id')
+  @HttpCode(204)
+  async deleteSlot(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.calendarService.deleteSlot(id);
+  }
+
+  /**
+   * Ejemplo: GET /admin/calendar/appointments?from=2026-03-02&to=2026-03-08&studentId=...
+   */
+  @Get('appointments')
+  async findAppointments(
+    @Query('from') from: string | undefined,
+    @Query('to') to: string | undefined,
+    @Query('studentId') studentId: string | undefined,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @Query('offset', new DefaultValuePipe(0), ParseIntPipe) offset: number,
+  ) {
+    if (studentId && !isUUID(studentId)) {
+      throw new BadRequestException('"studentId" debe ser un UUID');
+    }
+
+    return this.calendarService.findAppointments({
+      ...parseRange(from, to),
+      studentId,
+      limit: Math.min(limit, 200),
+      offset,
+    });
+  }
+
+  @Post('appointments/:id/cancel')
+  @HttpCode(204)
+  async cancelAppointment(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.calendarService.cancelAppointment(id);
+  }
+}
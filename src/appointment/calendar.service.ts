@@ -0,0 +1,308 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, Repository } from 'typeorm';
+import { Appointment } from './entities/appointment.entity';
+import { AvailabilitySlot } from './entities/availability-slot.entity';
+import { Instructor } from './entities/instructor.entity';
+import { Vehicle } from './entities/vehicle.entity';
+import { AppointmentStatus } from './enums/appointment-status.enum';
+import {
+  argentinaDateTime,
+  argentinaTime,
+} from '../whatsapp/utils/argentina-time';
+
+export type SlotRangeRequest = {
+  instructorId: string;
+  vehicleId: string | null;
+  // Día y horas en hora argentina
+  date: string;
+  from: string;
+  to: string;
+  durationMinutes: number;
+};
+
+type SlotValues = Pick<
+  AvailabilitySlot,
+  'instructorId' | 'vehicleId' | 'startsAt' | 'endsAt'
+>;
+
+/**
+ * Administración del calendario: instructores, vehículos, horarios y turnos.
+ */
+@Injectable()
+export class CalendarService {
+  constructor(
+    @InjectRepository(Instructor)
+    private readonly instructorRepository: Repository<Instructor>,
+    @InjectRepository(Vehicle)
+    private readonly vehicleRepository: Repository<Vehicle>,
+    @InjectRepository(AvailabilitySlot)
+    private readonly slotRepository: Repository<AvailabilitySlot>,
+    @InjectRepository(Appointment)
+    private readonly appointmentRepository: Repository<Appointment>,
+  ) {}
+
+  findInstructors(): Promise<Instructor[]> {
+    return this.instructorRepository.find({ order: { name: 'ASC' } });
+  }
+
+  createInstructor(
+    data: Pick<Instructor, 'name' | 'phoneNumber'>,
+  ): Promise<Instructor> {
+    return this.instructorRepository.save(
+      this.instructorRepository.create(data),
+    );
+  }
+
+  async updateInstructor(
+    id: string,
+    changes: Partial<Pick<Instructor, 'name' | 'phoneNumber' | 'isActive'>>,
+  ): Promise<Instructor> {
+    const instructor = await this.instructorRepository.findOneBy({ id });
+
+    if (!instructor) {
+      throw new NotFoundException('Instructor no encontrado');
+    }
+
+    return this.instructorRepository.save({ ...instructor, ...changes });
+  }
+
+  findVehicles(): Promise<Vehicle[]> {
+    return this.vehicleRepository.find({ order: { name: 'ASC' } });
+  }
+
+  async createVehicle(data: Pick<Vehicle, 'name' | 'plate'>): Promise<Vehicle> {
+    const existing = await this.vehicleRepository.findOneBy({
+      plate: data.plate,
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Ya existe un vehículo con patente ${data.plate}`,
+      );
+    }
+
+    return this.vehicleRepository.save(this.vehicleRepository.create(data));
+  }
+
+  async updateVehicle(
+    id: string,
+    changes: Partial<Pick<Vehicle, 'name' | 'isActive'>>,
+  ): Promise<Vehicle> {
+    const vehicle = await this.vehicleRepository.findOneBy({ id });
+
+    if (!vehicle) {
+      throw new NotFoundException('Vehículo no encontrado');
+    }
+
+    return this.vehicleRepository.save({ ...vehicle, ...changes });
+  }
+
+  /**
+   * Horarios del rango con su turno reservado (si lo tienen).
+   */
+  async findSlots(
+    from: Date,
+    to: Date,
+    instructorId?: string,
+  ): Promise<Array<AvailabilitySlot & { appointment: Appointment | null }>> {
+    const slots = await this.slotRepository.find({
+      where: {
+        startsAt: Between(from, to),
+        ...(instructorId && { instructorId }),
+      },
+      relations: { instructor: true, vehicle: true },
+      order: { startsAt: 'ASC' },
+    });
+    const appointments = slots.length
+      ? await this.appointmentRepository.find({
+          where: slots.map((slot) => ({
+            slotId: slot.id,
+            status: AppointmentStatus.BOOKED,
+          })),
+          relations: { student: true },
+        })
+      : [];
+    const bySlot = new Map(appointments.map((a) => [a.slotId, a]));
+
+    return slots.map((slot) => ({
+      ...slot,
+      appointment: bySlot.get(slot.id) ?? null,
+    }));
+  }
+
+  /**
+   * Crea horarios consecutivos de `durationMinutes` entre `from` y `to`.
+   * Los que ya existían (mismo instructor y hora) se saltean.
+   * @returns cuántos horarios nuevos se crearon.
+   * @throws ConflictException si alguno se superpone con otro horario del
+   * instructor o del vehículo.
+   */
+  async createSlots(request: SlotRangeRequest): Promise<{ created: number }> {
+    const instructor = await this.instructorRepository.findOneBy({
+      id: request.instructorId,
+    });
+
+    if (!instructor) {
+      throw new NotFoundException('Instructor no encontrado');
+    }
+
+    if (
+      request.vehicleId &&
+      !(await this.vehicleRepository.existsBy({ id: request.vehicleId }))
+    ) {
+      throw new NotFoundException('Vehículo no encontrado');
+    }
+
+    const end = argentinaDateTime(request.date, request.to);
+    const durationMs = request.durationMinutes * 60 * 1000;
+    const values: SlotValues[] = [];
+
+    for (
+      let startsAt = argentinaDateTime(request.date, request.from);
+      startsAt.getTime() + durationMs <= end.getTime();
+      startsAt = new Date(startsAt.getTime() + durationMs)
+    ) {
+      values.push({
+        instructorId: request.instructorId,
+        vehicleId: request.vehicleId,
+        startsAt,
+        endsAt: new Date(startsAt.getTime() + durationMs),
+      });
+    }
+
+    const newValues = await this.withoutDuplicates(values);
+
+    if (newValues.length === 0) {
+      return { created: 0 };
+    }
+
+    const result = await this.slotRepository
+      .createQueryBuilder()
+      .insert()
+      .into(AvailabilitySlot)
+      .values(newValues)
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+
+    return { created: (result.raw as unknown[]).length };
+  }
+
+  /**
+   * Descarta los horarios que ya existen tal cual (reintento de la misma carga).
+   *
+   * Why: Las exclusion constraints igual frenan la superposición en la base,
+   * pero con `orIgnore` la descartarían en silencio; acá se rechaza con un 409
+   * que dice con qué choca.
+   */
+  private async withoutDuplicates(values: SlotValues[]): Promise<SlotValues[]> {
+    if (values.length === 0) {
+      return [];
+    }
+
+    const { instructorId, vehicleId, startsAt } = values[0];
+    const { endsAt } = values[values.length - 1];
+    const existing = await this.slotRepository
+      .createQueryBuilder('slot')
+      .where('slot.startsAt < :endsAt AND slot.endsAt > :startsAt', {
+        startsAt,
+        endsAt,
+      })
+      .andWhere(
+        vehicleId
+          ? '(slot.instructorId = :instructorId OR slot.vehicleId = :vehicleId)'
+          : 'slot.instructorId = :instructorId',
+        { instructorId, vehicleId },
+      )
+      .getMany();
+
+    return values.filter((value) => {
+      const overlapping = existing.filter(
+        (slot) => slot.startsAt < value.endsAt && value.startsAt < slot.endsAt,
+      );
+      const duplicate = overlapping.find(
+        (slot) =>
+          slot.instructorId === value.instructorId &&
+          slot.startsAt.getTime() === value.startsAt.getTime() &&
+          slot.endsAt.getTime() === value.endsAt.getTime(),
+      );
+
+      if (overlapping.some((slot) => slot !== duplicate)) {
+        throw new ConflictException(
+          `El horario de las ${argentinaTime(value.startsAt)} se superpone con otro del instructor o del vehículo`,
+        );
+      }
+
+      return !duplicate;
+    });
+  }
+
+  /**
+   * Borra un horario que nunca se reservó. Uno con turno se cancela primero;
+   * uno con historial queda, para no perder cancelaciones ni ausencias.
+   */
+  async deleteSlot(id: string): Promise<void> {
+    const booked = await this.appointmentRepository.existsBy({
+      slotId: id,
+      status: AppointmentStatus.BOOKED,
+    });
+
+    if (booked) {
+      throw new ConflictException(
+        'El horario tiene un turno reservado: cancelalo antes de borrarlo',
+      );
+    }
+
+    if (await this.appointmentRepository.existsBy({ slotId: id })) {
+      throw new ConflictException(
+        'El horario tiene turnos en el historial y no se puede borrar',
+      );
+    }
+
+    const result = await this.slotRepository.delete(id);
+
+    if (!result.affected) {
+      throw new NotFoundException('Horario no encontrado');
+    }
+  }
+
+  /**
+   * Turnos del rango (por fecha del horario), del más próximo al más lejano.
+   */
+  async findAppointments(filters: {
+    from: Date;
+    to: Date;
+    studentId?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ items: Appointment[]; total: number }> {
+    const [items, total] = await this.appointmentRepository.findAndCount({
+      where: {
+        slot: { startsAt: Between(filters.from, filters.to) },
+        ...(filters.studentId && { studentId: filters.studentId }),
+      },
+      relations: { student: true, slot: { instructor: true, vehicle: true } },
+      order: { slot: { startsAt: 'ASC' } },
+      take: filters.limit,
+      skip: filters.offset,
+    });
+
+    return { items, total };
+  }
+
+  async cancelAppointment(id: string): Promise<void> {
+    const result = await this.appointmentRepository.update(
+      { id, status: AppointmentStatus.BOOKED },
+      { status: AppointmentStatus.CANCELLED, cancelledAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException('No hay un turno reservado con ese id');
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { AppointmentStatus } from '../enums/appointment-status.enum';
+import type { Student } from '../../student/entities/student.entity';
+import type { AvailabilitySlot } from './availability-slot.entity';
+
+/**
+ * Turno de un alumno para una clase de manejo.
+ *
+ * Why: El índice único parcial (un solo `BOOKED` por horario) es el que
+ * impide la doble reserva: dos alumnos que confirman a la vez no pueden
+ * ganar los dos, sin locks en la aplicación.
+ */
+@Entity('appointments')
+@Index('UQ_appointments_slot_booked', ['slotId'], {
+  unique: true,
+  where: `"status" = 'BOOKED'`,
+})
+@Index('IDX_appointments_student', ['studentId'])
+export class Appointment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  studentId: string;
+
+  @ManyToOne('Student', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentId' })
+  student: Student;
+
+  @Column({ type: 'uuid' })
+  slotId: string;
+
+  // Un horario con historial de turnos (cancelados, ausencias) no se borra
+  @ManyToOne('AvailabilitySlot', { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'slotId' })
+  slot: AvailabilitySlot;
+
+  @Column({
+    type: 'enum',
+    enum: AppointmentStatus,
+    default: AppointmentStatus.BOOKED,
+  })
+  status: AppointmentStatus;
+
+  // Turno que éste reemplaza (`cambiar turno`)
+  @Column({ type: 'uuid', nullable: true })
+  rescheduledFromId: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  cancelledAt: Date | null;
+
+  // Recordatorios enviados (24h y 2h antes de la clase)
+  @Column({ type: 'timestamp', nullable: true })
+  reminder24hSentAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reminder2hSentAt: Date | null;
+
+  // El alumno confirmó que viene (botón del recordatorio)
+  @Column({ type: 'timestamp', nullable: true })
+  confirmedAt: Date | null;
+
+  // Cuándo el instructor marcó asistencia o falta
+  @Column({ type: 'timestamp', nullable: true })
+  attendanceMarkedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
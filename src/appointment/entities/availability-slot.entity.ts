@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  Exclusion,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import type { Instructor } from './instructor.entity';
+import type { Vehicle } from './vehicle.entity';
+
+/**
+ * Horario que un instructor ofrece para una clase. Queda libre mientras no
+ * tenga un turno `BOOKED`.
+ */
+@Entity('availability_slots')
+@Index('UQ_availability_slots_instructor_start', ['instructorId', 'startsAt'], {
+  unique: true,
+})
+@Index('IDX_availability_slots_starts_at', ['startsAt'])
+@Exclusion(
+  'EX_availability_slots_instructor',
+  'USING gist ("instructorId" WITH =, tsrange("startsAt", "endsAt") WITH &&)',
+)
+@Exclusion(
+  'EX_availability_slots_vehicle',
+  'USING gist ("vehicleId" WITH =, tsrange("startsAt", "endsAt") WITH &&) WHERE ("vehicleId" IS NOT NULL)',
+)
+export class AvailabilitySlot {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  instructorId: string;
+
+  // Los instructores se retiran con isActive=false: borrarlos se llevaría la agenda
+  @ManyToOne('Instructor', { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'instructorId' })
+  instructor: Instructor;
+
+  @Column({ type: 'uuid', nullable: true })
+  vehicleId: string | null;
+
+  @ManyToOne('Vehicle', { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'vehicleId' })
+  vehicle: Vehicle | null;
+
+  @Column({ type: 'timestamp' })
+  startsAt: Date;
+
+  @Column({ type: 'timestamp' })
+  endsAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Instructor de manejo de la academia.
+ */
+@Entity('instructors')
+export class Instructor {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  phoneNumber: string | null;
+
+  // Un instructor inactivo no ofrece horarios (los turnos ya tomados siguen)
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
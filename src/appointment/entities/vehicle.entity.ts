@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Auto (o moto) de la academia para las clases.
+ */
+@Entity('vehicles')
+export class Vehicle {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Cómo lo ve el alumno (ej: "Fiat Cronos manual")
+  @Column()
+  name: string;
+
+  @Column({ type: 'varchar', unique: true })
+  plate: string;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
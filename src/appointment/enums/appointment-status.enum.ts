@@ -0,0 +1,9 @@
+/**
+ * Estado de un turno de clase de manejo.
+ */
+export enum AppointmentStatus {
+  BOOKED = 'BOOKED', // Reservado (ocupa el horario)
+  CANCELLED = 'CANCELLED', // Cancelado por el alumno o la academia (libera el horario)
+  ATTENDED = 'ATTENDED', // El instructor marcó que vino
+  NO_SHOW = 'NO_SHOW', // El instructor marcó que faltó sin avisar
+}
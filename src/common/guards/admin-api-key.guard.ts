@@ -0,0 +1,52 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import type { Request } from 'express';
+
+/**
+ * Protege los endpoints de administración con una API key compartida
+ * enviada en el header `X-Admin-Api-Key`.
+ */
+@Injectable()
+export class AdminApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(AdminApiKeyGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const apiKey = this.configService.get<string>('ADMIN_API_KEY');
+    const received = request.headers['x-admin-api-key'];
+
+    // A diferencia del webhook, acá NO dejamos pasar si falta configuración:
+    // estos endpoints exponen datos de alumnos.
+    if (!apiKey) {
+      this.logger.warn(
+        'ADMIN_API_KEY no está configurada. Endpoints de admin deshabilitados.',
+      );
+      throw new UnauthorizedException('Endpoints de admin deshabilitados');
+    }
+
+    if (typeof received !== 'string' || !this.safeEqual(received, apiKey)) {
+      throw new UnauthorizedException('API key de admin inválida');
+    }
+
+    return true;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+
+    return (
+      bufferA.length === bufferB.length &&
+      crypto.timingSafeEqual(bufferA, bufferB)
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Conversation } from './entities/conversation.entity';
+import { ConversationTurn } from './entities/conversation-turn.entity';
+import { ConversationTurnRole } from './enums/conversation-turn-role.enum';
+import type { ChatTurn } from '../knowledge/types/chat-history.type';
+import type {
+  ConversationHistoryData,
+  ConversationHistoryPort,
+} from '../whatsapp/ports/conversation-history.port';
+
+/**
+ * Adaptador: Implementa el puerto ConversationHistoryPort usando TypeORM.
+ */
+@Injectable()
+export class ConversationHistoryAdapter implements ConversationHistoryPort {
+  constructor(
+    @InjectRepository(ConversationTurn)
+    private readonly turnRepository: Repository<ConversationTurn>,
+    @InjectRepository(Conversation)
+    private readonly conversationRepository: Repository<Conversation>,
+  ) {}
+
+  async append(conversationId: string, turns: ChatTurn[]): Promise<void> {
+    // De a uno: cada insert toma su propio now() y el orden queda en createdAt
+    for (const turn of turns) {
+      await this.turnRepository.insert({
+        conversationId,
+        role: ConversationTurnRole[turn.role],
+        content: turn.content,
+      });
+    }
+  }
+
+  async load(conversationId: string): Promise<ConversationHistoryData> {
+    const [conversation, turns] = await Promise.all([
+      this.conversationRepository.findOne({
+        where: { id: conversationId },
+        select: { id: true, historySummary: true },
+      }),
+      this.turnRepository.find({
+        where: { conversationId, summarized: false },
+        order: { createdAt: 'ASC' },
+      }),
+    ]);
+
+    return {
+      summary: conversation?.historySummary ?? null,
+      turns: turns.map((turn) => ({
+        id: turn.id,
+        role: turn.role,
+        content: turn.content,
+        createdAt: turn.createdAt,
+      })),
+    };
+  }
+
+  async saveSummary(
+    conversationId: string,
+    summary: string,
+    summarizedTurnIds: string[],
+  ): Promise<void> {
+    await this.turnRepository.manager.transaction(async (manager) => {
+      await manager.update(Conversation, conversationId, {
+        historySummary: summary,
+      });
+
+      if (summarizedTurnIds.length > 0) {
+        await manager.update(
+          ConversationTurn,
+          { id: In(summarizedTurnIds) },
+          { summarized: true },
+        );
+      }
+    });
+  }
+}
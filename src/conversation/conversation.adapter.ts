@@ -1,11 +1,15 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DeepPartial } from 'typeorm';
+import { Repository, DeepPartial, EntityManager, In, LessThan } from 'typeorm';
 import { Conversation } from './entities/conversation.entity';
+import { ConversationTurn } from './entities/conversation-turn.entity';
 import { ConversationStep } from './enums/conversation-step.enum';
+import { ConversationCloseReason } from './enums/conversation-close-reason.enum';
+import { Channel } from '../student/enums/channel.enum';
 import type {
   ConversationPort,
   ConversationData,
+  ConversationCloseReasonValue,
 } from '../whatsapp/ports/conversation.port';
 import type { StudentData } from '../whatsapp/ports/student.port';
 
@@ -25,10 +29,12 @@ export class ConversationAdapter implements ConversationPort {
 
   async findActiveByStudent(
     studentId: string,
+    channel: Channel,
   ): Promise<ConversationData | null> {
     const conversation = await this.conversationRepository.findOne({
       where: {
         student: { id: studentId },
+        channel,
         isActive: true,
       },
       order: { lastInteractionAt: 'DESC' },
@@ -42,17 +48,30 @@ export class ConversationAdapter implements ConversationPort {
     return this.toData(conversation);
   }
 
-  async create(student: StudentData): Promise<ConversationData> {
-    // Desactivar conversaciones anteriores
-    await this.conversationRepository.update(
-      { student: { id: student.id }, isActive: true },
-      { isActive: false },
-    );
+  async create(
+    student: StudentData,
+    channel: Channel,
+    context: Record<string, unknown> = {},
+  ): Promise<ConversationData> {
+    // Cerrar las conversaciones anteriores del mismo canal
+    await this.conversationRepository.manager.transaction(async (manager) => {
+      const previous = await manager.find(Conversation, {
+        where: { student: { id: student.id }, channel, isActive: true },
+        select: { id: true },
+      });
+
+      await this.close(
+        manager,
+        previous.map((conversation) => conversation.id),
+        ConversationCloseReason.REPLACED,
+      );
+    });
 
     const newConversation = this.conversationRepository.create({
       student: { id: student.id },
+      channel,
       step: ConversationStep.WELCOME,
-      context: {},
+      context,
     } as DeepPartial<Conversation>);
     const saved = await this.conversationRepository.save(newConversation);
 
@@ -60,11 +79,15 @@ export class ConversationAdapter implements ConversationPort {
     return {
       id: saved.id,
       step: saved.step,
+      channel: saved.channel,
       context: saved.context,
       isActive: saved.isActive,
+      lastInteractionAt: saved.lastInteractionAt,
       student: {
         id: student.id,
         name: student.name,
+        channel: student.channel,
+        externalId: student.externalId,
         phoneNumber: student.phoneNumber,
       },
     };
@@ -72,7 +95,7 @@ export class ConversationAdapter implements ConversationPort {
 
   async updateStep(
     conversationId: string,
-    step: ConversationStep,
+    step: string,
     context?: Record<string, unknown>,
   ): Promise<void> {
     // Usamos save en lugar de update para evitar problemas con QueryDeepPartialEntity
@@ -85,6 +108,8 @@ export class ConversationAdapter implements ConversationPort {
     }
 
     conversation.step = step;
+    // Aunque no cambie nada: los timeouts de cada paso se miden desde acá
+    conversation.lastInteractionAt = new Date();
 
     if (context !== undefined) {
       conversation.context = context;
@@ -93,12 +118,67 @@ export class ConversationAdapter implements ConversationPort {
     await this.conversationRepository.save(conversation);
   }
 
-  async deactivate(conversationId: string): Promise<void> {
-    await this.conversationRepository.update(conversationId, {
-      isActive: false,
+  async deactivate(
+    conversationId: string,
+    reason: ConversationCloseReasonValue,
+  ): Promise<void> {
+    await this.conversationRepository.manager.transaction((manager) =>
+      this.close(manager, [conversationId], ConversationCloseReason[reason]),
+    );
+  }
+
+  async closeInactive(before: Date): Promise<number> {
+    return this.conversationRepository.manager.transaction(async (manager) => {
+      const stale = await manager.find(Conversation, {
+        where: { isActive: true, lastInteractionAt: LessThan(before) },
+        select: { id: true },
+      });
+      const ids = stale.map((conversation) => conversation.id);
+
+      await this.close(manager, ids, ConversationCloseReason.INACTIVITY);
+      return ids.length;
     });
   }
 
+  async findLastClosed(
+    studentId: string,
+    channel: Channel,
+  ): Promise<ConversationData | null> {
+    const conversation = await this.conversationRepository.findOne({
+      where: { student: { id: studentId }, channel, isActive: false },
+      order: { createdAt: 'DESC' },
+      relations: ['student'],
+    });
+
+    return conversation ? this.toData(conversation) : null;
+  }
+
+  /**
+   * Cierra las conversaciones sin tocar `step` ni `context` (quedan archivados).
+   * Su historial se borra: la próxima conversación no arrastra el contexto.
+   */
+  private async close(
+    manager: EntityManager,
+    ids: string[],
+    reason: ConversationCloseReason,
+  ): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await manager.delete(ConversationTurn, { conversationId: In(ids) });
+    await manager.update(
+      Conversation,
+      { id: In(ids) },
+      {
+        isActive: false,
+        closedAt: new Date(),
+        closeReason: reason,
+        historySummary: null,
+      },
+    );
+  }
+
   /**
    * Mapper: Entidad -> DTO de dominio
    */
@@ -106,11 +186,17 @@ export class ConversationAdapter implements ConversationPort {
     return {
       id: conversation.id,
       step: conversation.step,
+      channel: conversation.channel,
       context: conversation.context,
       isActive: conversation.isActive,
+      lastInteractionAt: conversation.lastInteractionAt,
+      closedAt: conversation.closedAt,
+      closeReason: conversation.closeReason,
       student: {
         id: conversation.student.id,
         name: conversation.student.name,
+        channel: conversation.student.channel,
+        externalId: conversation.student.externalId,
         phoneNumber: conversation.student.phoneNumber,
       },
     };
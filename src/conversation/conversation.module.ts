@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Conversation } from './entities/conversation.entity';
+import { ConversationTurn } from './entities/conversation-turn.entity';
 import { ConversationService } from './conversation.service';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Conversation])],
+  imports: [TypeOrmModule.forFeature([Conversation, ConversationTurn])],
   providers: [ConversationService],
   exports: [ConversationService],
 })
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import type { Conversation } from './conversation.entity';
+import { ConversationTurnRole } from '../enums/conversation-turn-role.enum';
+
+/**
+ * Un mensaje (del alumno o del bot) dentro de una conversación.
+ * Es la memoria de corto plazo que se le pasa al RAG.
+ */
+@Entity('conversation_turns')
+@Index('IDX_conversation_turns_conversation_created', [
+  'conversationId',
+  'createdAt',
+])
+export class ConversationTurn {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  conversationId: string;
+
+  @ManyToOne('Conversation', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'conversationId' })
+  conversation: Conversation;
+
+  @Column({ type: 'enum', enum: ConversationTurnRole })
+  role: ConversationTurnRole;
+
+  @Column({ type: 'text' })
+  content: string;
+
+  // Ya quedó incluido en `conversations.historySummary`
+  @Column({ default: false })
+  summarized: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -7,19 +7,22 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 import type { Student } from '../../student/entities/student.entity';
+import { Channel } from '../../student/enums/channel.enum';
 import { ConversationStep } from '../enums/conversation-step.enum';
+import { ConversationCloseReason } from '../enums/conversation-close-reason.enum';
 
 @Entity('conversations')
 export class Conversation {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({
-    type: 'enum',
-    enum: ConversationStep,
-    default: ConversationStep.WELCOME,
-  })
-  step: ConversationStep;
+  // Texto y no enum: cada flujo registra sus pasos (ver FlowRegistry)
+  @Column({ type: 'varchar', length: 64, default: ConversationStep.WELCOME })
+  step: string;
+
+  // Un alumno registrado puede tener a la vez su chat de WhatsApp y uno en la web
+  @Column({ type: 'enum', enum: Channel, default: Channel.WHATSAPP })
+  channel: Channel;
 
   // JSONB es clave: nos permite guardar datos variables (ej: { fecha: '2025-01-20', servicio: 'clase_manejo' })
   @Column({ type: 'jsonb', default: {} })
@@ -28,6 +31,17 @@ export class Conversation {
   @Column({ default: true })
   isActive: boolean;
 
+  // Al cerrarse, `step` y `context` quedan como estaban (ej: progreso de un quiz)
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt: Date | null;
+
+  @Column({ type: 'enum', enum: ConversationCloseReason, nullable: true })
+  closeReason: ConversationCloseReason | null;
+
+  // Resumen de los mensajes viejos (los recientes se pasan completos al RAG)
+  @Column({ type: 'text', nullable: true })
+  historySummary: string | null;
+
   @ManyToOne('Student', 'conversations')
   student: Student;
 
@@ -0,0 +1,4 @@
+export enum ConversationCloseReason {
+  INACTIVITY = 'INACTIVITY', // El alumno no escribió durante el tiempo configurado
+  REPLACED = 'REPLACED', // Se abrió otra conversación (ej: `reset`)
+}
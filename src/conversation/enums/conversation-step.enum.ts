@@ -1,3 +1,7 @@
+/**
+ * Pasos del flujo principal. Otros flujos definen sus propios pasos
+ * (la columna es texto, no un enum de Postgres).
+ */
 export enum ConversationStep {
   WELCOME = 'WELCOME', // Estado inicial (no ha interactuado aún)
   LEARNING = 'LEARNING', // Modo instructor (RAG)
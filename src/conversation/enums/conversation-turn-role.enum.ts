@@ -0,0 +1,4 @@
+export enum ConversationTurnRole {
+  USER = 'USER', // Mensaje del alumno
+  ASSISTANT = 'ASSISTANT', // Respuesta del bot
+}
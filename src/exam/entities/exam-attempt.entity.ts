@@ -0,0 +1,80 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ExamAttemptStatus } from '../enums/exam-attempt-status.enum';
+import type { Student } from '../../student/entities/student.entity';
+
+/**
+ * Respuesta a una pregunta del simulacro.
+ */
+export type ExamAnswer = {
+  questionId: string;
+  selectedOption: number;
+  correct: boolean;
+  // Desde que se mandó la pregunta hasta que respondió
+  elapsedMs: number;
+};
+
+/**
+ * Intento de simulacro del examen teórico: preguntas, respuestas, tiempos y
+ * resultado, para revisarlo después y comparar la evolución del alumno.
+ */
+@Entity('exam_attempts')
+@Index('IDX_exam_attempts_student_started', ['studentId', 'startedAt'])
+export class ExamAttempt {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  studentId: string;
+
+  @ManyToOne('Student', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentId' })
+  student: Student;
+
+  @Column({ type: 'uuid', nullable: true })
+  conversationId: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: ExamAttemptStatus,
+    default: ExamAttemptStatus.IN_PROGRESS,
+  })
+  status: ExamAttemptStatus;
+
+  // Ids de quiz_questions, en el orden en que se preguntaron
+  @Column({ type: 'jsonb' })
+  questionIds: string[];
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  answers: ExamAnswer[];
+
+  @Column({ type: 'integer', default: 0 })
+  correctCount: number;
+
+  // Reglas con las que se rindió (la configuración puede cambiar después)
+  @Column({ type: 'integer' })
+  passScore: number;
+
+  @Column({ type: 'integer' })
+  timeLimitMinutes: number;
+
+  // Terminó porque se acabó el tiempo (las que faltaban cuentan como mal)
+  @Column({ type: 'boolean', default: false })
+  timedOut: boolean;
+
+  @Column({ type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,6 @@
+export enum ExamAttemptStatus {
+  IN_PROGRESS = 'IN_PROGRESS',
+  PASSED = 'PASSED', // Llegó al puntaje mínimo
+  FAILED = 'FAILED',
+  ABANDONED = 'ABANDONED', // Escribió `salir` o arrancó otro simulacro sin terminar este
+}
@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import { ExamAttempt } from './entities/exam-attempt.entity';
+import { ExamAttemptStatus } from './enums/exam-attempt-status.enum';
+import type {
+  ExamAnswerData,
+  ExamAttemptData,
+  ExamAttemptPort,
+  ExamAttemptStatusValue,
+  NewExamAttempt,
+} from '../whatsapp/ports/exam-attempt.port';
+
+/**
+ * Adaptador: Implementa el puerto ExamAttemptPort usando TypeORM.
+ */
+@Injectable()
+export class ExamAttemptAdapter implements ExamAttemptPort {
+  constructor(
+    @InjectRepository(ExamAttempt)
+    private readonly attemptRepository: Repository<ExamAttempt>,
+  ) {}
+
+  async start(attempt: NewExamAttempt): Promise<ExamAttemptData> {
+    return this.attemptRepository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(ExamAttempt);
+      const now = new Date();
+
+      await repository.update(
+        {
+          studentId: attempt.studentId,
+          status: ExamAttemptStatus.IN_PROGRESS,
+        },
+        { status: ExamAttemptStatus.ABANDONED, finishedAt: now },
+      );
+
+      const saved = await repository.save(
+        repository.create({ ...attempt, startedAt: now }),
+      );
+
+      return this.toData(saved);
+    });
+  }
+
+  async recordAnswer(attemptId: string, answer: ExamAnswerData): Promise<void> {
+    // Append atómico: no hace falta leer el intento para sumar una respuesta
+    await this.attemptRepository
+      .createQueryBuilder()
+      .update(ExamAttempt)
+      .set({
+        answers: () => `"answers" || :answer::jsonb`,
+        correctCount: () =>
+          answer.correct ? `"correctCount" + 1` : `"correctCount"`,
+      })
+      .where('id = :attemptId', { attemptId })
+      .setParameter('answer', JSON.stringify([answer]))
+      .execute();
+  }
+
+  async finish(
+    attemptId: string,
+    status: ExamAttemptStatusValue,
+    timedOut: boolean,
+  ): Promise<void> {
+    await this.attemptRepository.update(
+      { id: attemptId, status: ExamAttemptStatus.IN_PROGRESS },
+      { status: ExamAttemptStatus[status], timedOut, finishedAt: new Date() },
+    );
+  }
+
+  async findById(attemptId: string): Promise<ExamAttemptData | null> {
+    const attempt = await this.attemptRepository.findOneBy({ id: attemptId });
+
+    return attempt ? this.toData(attempt) : null;
+  }
+
+  async findPreviousFinished(
+    studentId: string,
+    attemptId: string,
+  ): Promise<ExamAttemptData | null> {
+    const current = await this.attemptRepository.findOneBy({ id: attemptId });
+
+    if (!current) {
+      return null;
+    }
+
+    const previous = await this.attemptRepository.findOne({
+      where: {
+        studentId,
+        status: In([ExamAttemptStatus.PASSED, ExamAttemptStatus.FAILED]),
+        startedAt: LessThan(current.startedAt),
+      },
+      order: { startedAt: 'DESC' },
+    });
+
+    return previous ? this.toData(previous) : null;
+  }
+
+  /**
+   * Mapper: Entidad -> DTO de dominio
+   */
+  private toData(attempt: ExamAttempt): ExamAttemptData {
+    return {
+      id: attempt.id,
+      studentId: attempt.studentId,
+      status: attempt.status,
+      questionIds: attempt.questionIds,
+      answers: attempt.answers,
+      correctCount: attempt.correctCount,
+      passScore: attempt.passScore,
+      timeLimitMinutes: attempt.timeLimitMinutes,
+      timedOut: attempt.timedOut,
+      startedAt: attempt.startedAt,
+      finishedAt: attempt.finishedAt,
+    };
+  }
+}
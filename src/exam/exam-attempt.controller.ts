@@ -0,0 +1,34 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ExamAttemptService } from './exam-attempt.service';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+
+@Controller('admin/students')
+@UseGuards(AdminApiKeyGuard)
+export class ExamAttemptController {
+  constructor(private readonly examAttemptService: ExamAttemptService) {}
+
+  /**
+   * Simulacros de un alumno (más nuevo primero), con respuestas y tiempos.
+   * Ejemplo: GET /admin/students/:id/exam-attempts?limit=20&offset=0
+   */
+  @Get(':id/exam-attempts')
+  async findAttempts(
+    @Param('id', ParseUUIDPipe) studentId: string,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('offset', new DefaultValuePipe(0), ParseIntPipe) offset: number,
+  ) {
+    return this.examAttemptService.findByStudent(studentId, {
+      limit: Math.min(limit, 100),
+      offset,
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ExamAttempt } from './entities/exam-attempt.entity';
+
+/**
+ * Consultas de administración sobre los simulacros.
+ */
+@Injectable()
+export class ExamAttemptService {
+  constructor(
+    @InjectRepository(ExamAttempt)
+    private readonly attemptRepository: Repository<ExamAttempt>,
+  ) {}
+
+  /**
+   * Simulacros de un alumno, del más nuevo al más viejo.
+   */
+  async findByStudent(
+    studentId: string,
+    filters: { limit: number; offset: number },
+  ): Promise<{ items: ExamAttempt[]; total: number }> {
+    const [items, total] = await this.attemptRepository.findAndCount({
+      where: { studentId },
+      order: { startedAt: 'DESC' },
+      take: filters.limit,
+      skip: filters.offset,
+    });
+
+    return { items, total };
+  }
+}
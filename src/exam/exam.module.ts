@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExamAttempt } from './entities/exam-attempt.entity';
+import { ExamAttemptAdapter } from './exam-attempt.adapter';
+import { ExamAttemptService } from './exam-attempt.service';
+import { ExamAttemptController } from './exam-attempt.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ExamAttempt])],
+  controllers: [ExamAttemptController],
+  providers: [ExamAttemptAdapter, ExamAttemptService],
+  exports: [ExamAttemptAdapter],
+})
+export class ExamModule {}
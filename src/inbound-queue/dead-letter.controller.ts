@@ -0,0 +1,42 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { DeadLetterService } from './dead-letter.service';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+
+@Controller('admin/dead-letters')
+@UseGuards(AdminApiKeyGuard)
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  // GET /admin/dead-letters?limit=20&offset=0
+  @Get()
+  async findAll(
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('offset', new DefaultValuePipe(0), ParseIntPipe) offset: number,
+  ) {
+    return this.deadLetterService.findAll(Math.min(limit, 100), offset);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.deadLetterService.findOne(id);
+  }
+
+  /**
+   * Reencola el payload del dead letter para procesarlo de nuevo.
+   * POST /admin/dead-letters/:id/replay
+   */
+  @Post(':id/replay')
+  async replay(@Param('id', ParseUUIDPipe) id: string) {
+    return this.deadLetterService.replay(id);
+  }
+}
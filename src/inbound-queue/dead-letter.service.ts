@@ -0,0 +1,83 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DeepPartial, Repository } from 'typeorm';
+import { DeadLetterJob } from './entities/dead-letter-job.entity';
+import { InboundJob } from './entities/inbound-job.entity';
+import { InboundJobStatus } from './enums/inbound-job-status.enum';
+
+/**
+ * Operaciones de administración sobre los jobs que agotaron sus reintentos.
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  constructor(
+    @InjectRepository(DeadLetterJob)
+    private readonly deadLetterRepository: Repository<DeadLetterJob>,
+  ) {}
+
+  async findAll(
+    limit: number,
+    offset: number,
+  ): Promise<{ items: DeadLetterJob[]; total: number }> {
+    const [items, total] = await this.deadLetterRepository.findAndCount({
+      order: { failedAt: 'DESC' },
+      take: limit,
+      skip: offset,
+    });
+
+    return { items, total };
+  }
+
+  async findOne(id: string): Promise<DeadLetterJob> {
+    const deadLetter = await this.deadLetterRepository.findOneBy({ id });
+
+    if (!deadLetter) {
+      throw new NotFoundException(`No existe el dead letter ${id}`);
+    }
+
+    return deadLetter;
+  }
+
+  /**
+   * Vuelve a encolar el payload original como un job nuevo (con reintentos desde cero).
+   * La idempotencia por message id evita duplicar mensajes que sí se habían procesado.
+   */
+  async replay(id: string): Promise<{ jobId: string }> {
+    const deadLetter = await this.findOne(id);
+
+    if (deadLetter.replayedAt) {
+      throw new ConflictException(
+        `El dead letter ${id} ya fue reprocesado el ${deadLetter.replayedAt.toISOString()}`,
+      );
+    }
+
+    const jobId = await this.deadLetterRepository.manager.transaction(
+      async (manager) => {
+        const job = await manager.save(
+          manager.create(InboundJob, {
+            source: deadLetter.source,
+            payload: deadLetter.payload,
+            status: InboundJobStatus.PENDING,
+            runAt: new Date(),
+          } as DeepPartial<InboundJob>),
+        );
+
+        await manager.update(DeadLetterJob, deadLetter.id, {
+          replayedAt: new Date(),
+        });
+
+        return job.id;
+      },
+    );
+
+    this.logger.log(`♻️ Dead letter ${id} reencolado como job ${jobId}`);
+    return { jobId };
+  }
+}
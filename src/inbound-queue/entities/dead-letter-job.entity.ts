@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Job que agotó sus reintentos. Queda guardado para inspección y replay manual.
+ */
+@Entity('dead_letter_jobs')
+export class DeadLetterJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  originalJobId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  source: string;
+
+  @Column({ type: 'jsonb' })
+  payload: unknown;
+
+  @Column({ type: 'int' })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  failedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  replayedAt: Date | null;
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { InboundJobStatus } from '../enums/inbound-job-status.enum';
+
+/**
+ * Webhook entrante pendiente de procesar.
+ * Se borra al completarse; si agota los reintentos pasa a `dead_letter_jobs`.
+ */
+@Entity('inbound_jobs')
+@Index('IDX_inbound_jobs_status_run_at', ['status', 'runAt'])
+export class InboundJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Canal de origen del payload (ej: 'whatsapp')
+  @Column({ type: 'varchar', length: 20 })
+  source: string;
+
+  // Jobs con la misma key se procesan en orden de llegada (ej: teléfono del alumno)
+  @Index('IDX_inbound_jobs_ordering_key')
+  @Column({ type: 'varchar', nullable: true })
+  orderingKey: string | null;
+
+  // Payload crudo tal cual llegó al webhook
+  @Column({ type: 'jsonb' })
+  payload: unknown;
+
+  @Column({
+    type: 'enum',
+    enum: InboundJobStatus,
+    default: InboundJobStatus.PENDING,
+  })
+  status: InboundJobStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  // Próximo momento en el que el job puede ser tomado (backoff)
+  @Column({ type: 'timestamp' })
+  runAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lockedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,4 @@
+export enum InboundJobStatus {
+  PENDING = 'PENDING', // Esperando a que un worker lo tome (o a su próximo reintento)
+  PROCESSING = 'PROCESSING', // Tomado por un worker
+}
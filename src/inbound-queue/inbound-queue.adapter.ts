@@ -0,0 +1,139 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DeepPartial, Repository } from 'typeorm';
+import { InboundJob } from './entities/inbound-job.entity';
+import { DeadLetterJob } from './entities/dead-letter-job.entity';
+import { InboundJobStatus } from './enums/inbound-job-status.enum';
+import type {
+  InboundQueuePort,
+  InboundJobData,
+  InboundJobSource,
+} from '../whatsapp/ports/inbound-queue.port';
+
+/** Fila devuelta por el UPDATE ... RETURNING de `claimNext` */
+interface ClaimedJobRow {
+  id: string;
+  source: InboundJobSource;
+  payload: unknown;
+  attempts: number;
+}
+
+/**
+ * Adaptador: Implementa el puerto InboundQueuePort sobre Postgres.
+ *
+ * Why: `FOR UPDATE SKIP LOCKED` permite que varias instancias consuman la
+ * misma tabla sin tomar dos veces el mismo job y sin bloquearse entre sí.
+ */
+@Injectable()
+export class InboundQueueAdapter implements InboundQueuePort {
+  constructor(
+    @InjectRepository(InboundJob)
+    private readonly jobRepository: Repository<InboundJob>,
+  ) {}
+
+  async enqueue(
+    source: InboundJobSource,
+    payload: unknown,
+    orderingKey: string | null,
+  ): Promise<void> {
+    const job = this.jobRepository.create({
+      source,
+      payload,
+      orderingKey,
+      status: InboundJobStatus.PENDING,
+      runAt: new Date(),
+    } as DeepPartial<InboundJob>);
+
+    await this.jobRepository.save(job);
+  }
+
+  async claimNext(lockTimeoutMs: number): Promise<InboundJobData | null> {
+    const now = new Date();
+    const staleLockBefore = new Date(now.getTime() - lockTimeoutMs);
+
+    // En Postgres, UPDATE ... RETURNING devuelve [filas, cantidad]
+    const [rows] = await this.jobRepository.query<[ClaimedJobRow[], number]>(
+      `
+      UPDATE inbound_jobs
+      SET status = $1, "lockedAt" = $3, attempts = attempts + 1
+      WHERE id = (
+        SELECT j.id FROM inbound_jobs j
+        WHERE (
+            (j.status = $2 AND j."runAt" <= $3)
+            OR (j.status = $1 AND j."lockedAt" < $4)
+          )
+          -- Orden por alumno: si hay un job anterior con la misma key
+          -- (pendiente, reintentando o en proceso), este espera su turno
+          AND (
+            j."orderingKey" IS NULL
+            OR NOT EXISTS (
+              SELECT 1 FROM inbound_jobs prev
+              WHERE prev."orderingKey" = j."orderingKey"
+                AND (
+                  prev."createdAt" < j."createdAt"
+                  OR (prev."createdAt" = j."createdAt" AND prev.id < j.id)
+                )
+            )
+          )
+        ORDER BY j."createdAt"
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id, source, payload, attempts
+      `,
+      [
+        InboundJobStatus.PROCESSING,
+        InboundJobStatus.PENDING,
+        now,
+        staleLockBefore,
+      ],
+    );
+
+    const job = rows[0];
+
+    if (!job) {
+      return null;
+    }
+
+    return {
+      id: job.id,
+      source: job.source,
+      payload: job.payload,
+      attempts: job.attempts,
+    };
+  }
+
+  async complete(jobId: string): Promise<void> {
+    await this.jobRepository.delete(jobId);
+  }
+
+  async reschedule(jobId: string, runAt: Date, error: string): Promise<void> {
+    await this.jobRepository.update(jobId, {
+      status: InboundJobStatus.PENDING,
+      runAt,
+      lockedAt: null,
+      lastError: error,
+    });
+  }
+
+  async moveToDeadLetter(jobId: string, error: string): Promise<void> {
+    await this.jobRepository.manager.transaction(async (manager) => {
+      const job = await manager.findOneBy(InboundJob, { id: jobId });
+
+      if (!job) {
+        return;
+      }
+
+      await manager.save(
+        manager.create(DeadLetterJob, {
+          originalJobId: job.id,
+          source: job.source,
+          payload: job.payload,
+          attempts: job.attempts,
+          lastError: error,
+        } as DeepPartial<DeadLetterJob>),
+      );
+      await manager.delete(InboundJob, job.id);
+    });
+  }
+}
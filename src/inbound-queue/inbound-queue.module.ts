@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { InboundJob } from './entities/inbound-job.entity';
+import { DeadLetterJob } from './entities/dead-letter-job.entity';
+import { InboundQueueAdapter } from './inbound-queue.adapter';
+import { DeadLetterService } from './dead-letter.service';
+import { DeadLetterController } from './dead-letter.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([InboundJob, DeadLetterJob])],
+  controllers: [DeadLetterController],
+  providers: [InboundQueueAdapter, DeadLetterService],
+  exports: [InboundQueueAdapter],
+})
+export class InboundQueueModule {}
@@ -10,10 +10,20 @@ import type { Cache } from 'cache-manager';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { KnowledgeEntry } from './entities/knowledge-entry.entity';
+import type { ChatHistory, ChatTurn } from './types/chat-history.type';
+import type { GeneratedQuizQuestion } from './types/quiz-question.type';
+import type { RagAnswer } from './types/rag-answer.type';
+import { parseGeneratedQuizQuestions } from './utils/quiz-question.parser';
 
 /** Dimensión por defecto para text-embedding-3-small */
 const DEFAULT_EMBEDDING_DIMENSION = 1536;
 
+/** Un mensaje muy largo (ej: una respuesta del bot) no debe comerse el prompt */
+const MAX_HISTORY_TURN_CHARS = 500;
+
+/** Fuente de la batería de preguntas del examen (ver scripts/ingest-pdfs.ts) */
+const QUIZ_SOURCE = 'bateria_preguntas';
+
 /** Resultado de la query híbrida de búsqueda de conocimiento */
 interface HybridSearchResult {
   id: string;
@@ -46,6 +56,7 @@ export class KnowledgeService {
   private readonly logger = new Logger(KnowledgeService.name);
   private embeddingsModel: OpenAIEmbeddings;
   private chatModel: ChatOpenAI;
+  private readonly chatModelName: string;
 
   // Pesos configurables para búsqueda híbrida (desde .env)
   private readonly semanticWeight: number;
@@ -90,6 +101,7 @@ export class KnowledgeService {
     // Chat: OpenRouter - Cambiá CHAT_MODEL en .env para probar otros cerebros
     const chatModel =
       this.configService.get<string>('CHAT_MODEL') ?? 'google/gemini-flash-1.5';
+    this.chatModelName = chatModel;
     const openRouterKey = this.configService.get<string>('OPENROUTER_API_KEY');
 
     if (!openRouterKey) {
@@ -398,24 +410,265 @@ export class KnowledgeService {
     return embedding;
   }
 
-  async ask(userQuery: string): Promise<string> {
+  /**
+   * Responde una pregunta con el RAG.
+   *
+   * @param history - Mensajes previos de la conversación. Se usan para entender
+   * preguntas de seguimiento (ej: "¿y en moto?") tanto al buscar como al responder.
+   */
+  async ask(userQuery: string, history?: ChatHistory): Promise<RagAnswer> {
+    const searchQuery = history
+      ? await this.condenseQuestion(userQuery, history)
+      : userQuery;
+
     // Buscamos en la nueva tabla unificada
-    const relevantDocs = await this.searchKnowledge(userQuery);
+    const relevantDocs = await this.searchKnowledge(searchQuery);
 
     if (relevantDocs.length === 0) {
-      return 'Lo siento, no tengo información sobre eso en mis manuales. 🤷‍♂️';
+      return {
+        answer: 'Lo siento, no tengo información sobre eso en mis manuales. 🤷‍♂️',
+        model: null,
+        topic: null,
+      };
     }
 
     const contextText = relevantDocs
       .map((doc) => `[FUENTE: ${doc.source}] ${doc.content}`)
       .join('\n\n');
 
-    return this.generateResponse(userQuery, contextText);
+    return {
+      answer: await this.generateResponse(userQuery, contextText, history),
+      model: this.chatModelName,
+      topic:
+        relevantDocs
+          .map((doc) => this.categoryOf(doc.metadata))
+          .find((category) => category !== null) ?? null,
+    };
+  }
+
+  /**
+   * Categorías de la base de conocimiento (knowledge-base.json y reglas
+   * locales), para etiquetar el progreso de cada alumno por tema.
+   */
+  async getCategories(): Promise<string[]> {
+    const rows: { category: string }[] = await this.knowledgeRepo.query(
+      `SELECT DISTINCT COALESCE(metadata ->> 'category', metadata ->> 'original_category') AS category
+       FROM knowledge_entries
+       WHERE COALESCE(metadata ->> 'category', metadata ->> 'original_category') IS NOT NULL
+       ORDER BY 1`,
+    );
+
+    return rows.map((row) => row.category);
+  }
+
+  /**
+   * Resume los mensajes viejos de una conversación (sumando el resumen anterior),
+   * para que el historial que va al prompt tenga un tamaño acotado.
+   */
+  async summarizeHistory(
+    previousSummary: string | null,
+    turns: ChatTurn[],
+  ): Promise<string> {
+    const promptTemplate =
+      PromptTemplate.fromTemplate(`Resumí esta conversación entre un alumno de la "Autoescuela GMC" y su instructor virtual.
+
+Resumen anterior:
+{summary}
+
+Mensajes nuevos:
+{history}
+
+Instrucciones:
+- Escribí un único resumen (máximo 3 oraciones) que reemplace al anterior.
+- Conservá los temas consultados y los datos que dio el alumno (ej: qué licencia saca, en qué localidad vive).
+- No agregues información que no esté en la conversación.`);
+
+    const chain = promptTemplate
+      .pipe(this.chatModel)
+      .pipe(new StringOutputParser());
+
+    const summary = await chain.invoke({
+      summary: previousSummary ?? '(sin resumen)',
+      history: this.formatTurns(turns),
+    });
+
+    return summary.trim();
+  }
+
+  /**
+   * Arma preguntas de opción múltiple (una por fragmento) a partir de
+   * fragmentos al azar de la batería de preguntas del examen.
+   *
+   * @param topic - Filtra los fragmentos por texto (ej: "señales"); `null` = cualquiera.
+   * @returns Puede devolver menos de `count` si no hay fragmentos suficientes
+   * o el LLM no devuelve preguntas válidas.
+   */
+  async generateQuizQuestions(
+    topic: string | null,
+    count: number,
+  ): Promise<GeneratedQuizQuestion[]> {
+    const fragments: { id: string; content: string }[] = topic
+      ? await this.knowledgeRepo.query(
+          `SELECT id, content FROM knowledge_entries
+           WHERE source = $1 AND search_vector @@ plainto_tsquery('spanish', $2)
+           ORDER BY RANDOM()
+           LIMIT $3`,
+          [QUIZ_SOURCE, topic, count],
+        )
+      : await this.knowledgeRepo.query(
+          `SELECT id, content FROM knowledge_entries
+           WHERE source = $1
+           ORDER BY RANDOM()
+           LIMIT $2`,
+          [QUIZ_SOURCE, count],
+        );
+
+    const categories = await this.getCategories();
+    const promptTemplate =
+      PromptTemplate.fromTemplate(`Sos un instructor de la "Autoescuela GMC". A partir de este fragmento de la batería de preguntas del examen de manejo, armá UNA pregunta de opción múltiple.
+
+Fragmento:
+{fragment}
+
+Instrucciones:
+- La pregunta y la respuesta correcta tienen que salir del fragmento; no inventes datos.
+- Exactamente 3 opciones cortas (máximo 20 caracteres cada una), una sola correcta.
+- La explicación (máximo 2 oraciones) justifica la respuesta con el fragmento.
+- En "category" elegí el tema que mejor corresponda de esta lista (o null si ninguno): {categories}
+- Usá español rioplatense.
+- Respondé SOLO con un array JSON, sin texto extra:
+[{{"question": "...", "options": ["...", "...", "..."], "correctOption": 0, "explanation": "...", "category": "..."}}]
+  (correctOption es el índice, desde 0, de la opción correcta)`);
+
+    const chain = promptTemplate
+      .pipe(this.chatModel)
+      .pipe(new StringOutputParser());
+    const questions: GeneratedQuizQuestion[] = [];
+
+    for (const fragment of fragments) {
+      try {
+        const raw = await chain.invoke({
+          fragment: fragment.content,
+          categories: categories.join(', ') || '(sin categorías)',
+        });
+
+        questions.push(
+          ...parseGeneratedQuizQuestions(raw, fragment.id, categories).slice(
+            0,
+            1,
+          ),
+        );
+      } catch (error) {
+        const err = error as Error;
+
+        // Un fragmento que falla no arruina el resto del quiz
+        this.logger.warn(
+          `No se pudo armar una pregunta del fragmento ${fragment.id}: ${err.message}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `📝 Quiz: ${questions.length}/${fragments.length} preguntas generadas (tema: ${topic ?? 'general'})`,
+    );
+
+    return questions;
+  }
+
+  /**
+   * Reescribe una pregunta de seguimiento para que se entienda sola
+   * (ej: "¿y en moto?" → "¿Cuál es la velocidad máxima en ruta para motos?").
+   *
+   * Why: La búsqueda híbrida no ve la conversación; con "¿y en moto?" sola
+   * recupera cualquier cosa sobre motos.
+   */
+  private async condenseQuestion(
+    userQuery: string,
+    history: ChatHistory,
+  ): Promise<string> {
+    if (!history.summary && history.turns.length === 0) {
+      return userQuery;
+    }
+
+    const promptTemplate =
+      PromptTemplate.fromTemplate(`Dada una conversación entre un alumno y su instructor de manejo y un nuevo mensaje del alumno, reescribí el mensaje como una pregunta que se entienda sola, sin la conversación.
+
+Conversación:
+{history}
+
+Nuevo mensaje:
+{question}
+
+Instrucciones:
+- Si el mensaje ya se entiende solo, devolvelo igual.
+- Respondé SOLO con la pregunta reescrita, sin comillas ni explicaciones.`);
+
+    const chain = promptTemplate
+      .pipe(this.chatModel)
+      .pipe(new StringOutputParser());
+
+    try {
+      const condensed = (
+        await chain.invoke({
+          history: this.formatHistory(history),
+          question: userQuery,
+        })
+      ).trim();
+
+      if (!condensed) {
+        return userQuery;
+      }
+
+      this.logger.debug(`🔁 Pregunta reescrita: "${condensed.slice(0, 80)}"`);
+      return condensed;
+    } catch (error) {
+      const err = error as Error;
+
+      // Sin reescritura igual se puede responder (peor búsqueda, no un error)
+      this.logger.warn(`No se pudo reescribir la pregunta: ${err.message}`);
+      return userQuery;
+    }
+  }
+
+  private categoryOf(metadata: Record<string, unknown>): string | null {
+    const category: unknown =
+      metadata?.['category'] ?? metadata?.['original_category'];
+
+    return typeof category === 'string' && category.trim()
+      ? category.trim()
+      : null;
+  }
+
+  private formatHistory(history?: ChatHistory): string {
+    if (!history || (!history.summary && history.turns.length === 0)) {
+      return '(sin mensajes previos)';
+    }
+
+    const summary = history.summary
+      ? `Resumen de lo anterior: ${history.summary}\n`
+      : '';
+
+    return `${summary}${this.formatTurns(history.turns)}`;
+  }
+
+  private formatTurns(turns: ChatTurn[]): string {
+    return turns
+      .map((turn) => {
+        const speaker = turn.role === 'USER' ? 'Alumno' : 'Instructor';
+        const content =
+          turn.content.length > MAX_HISTORY_TURN_CHARS
+            ? `${turn.content.slice(0, MAX_HISTORY_TURN_CHARS)}…`
+            : turn.content;
+
+        return `${speaker}: ${content}`;
+      })
+      .join('\n');
   }
 
   private async generateResponse(
     userQuery: string,
     contextText: string,
+    history?: ChatHistory,
   ): Promise<string> {
     const promptTemplate =
       PromptTemplate.fromTemplate(`Sos un instructor experto de la "Autoescuela GMC" con presencia en Villa Gesell y Pinamar, Buenos Aires, cuyo fundador e instructor principal es Guido Cucco.
@@ -438,12 +691,16 @@ Tu base de conocimiento tiene 3 niveles de prioridad:
 Contexto recuperado:
 {context}
 
+Conversación previa (solo para entender la pregunta, NO es una fuente de información):
+{history}
+
 Pregunta del Alumno:
 {question}
 
 Instrucciones:
 - Respondé de forma corta, amable y directa (como por WhatsApp).
 - NO uses saludos al inicio (ej: "Hola", "Buenos días"), andá directo a la respuesta, ya que el usuario ya fue saludado.
+- Si la pregunta sigue la conversación previa (ej: "¿y en moto?"), interpretala en ese contexto.
 - Si hay conflicto entre fuentes, SIEMPRE ganan las Reglas Locales.
 - Si hay info de varias localidades, priorizá VILLA GESELL salvo que pregunten por otra.
 - Si no sabés (pero está dentro del alcance de conducción/autoescuela), decí "No estoy seguro, mejor consultalo con tu instructor 🏢".
@@ -455,6 +712,7 @@ Instrucciones:
 
     const response = await chain.invoke({
       context: contextText,
+      history: this.formatHistory(history),
       question: userQuery,
     });
 
@@ -0,0 +1,15 @@
+/**
+ * Un mensaje previo de la conversación, tal como lo ve el RAG.
+ */
+export interface ChatTurn {
+  role: 'USER' | 'ASSISTANT';
+  content: string;
+}
+
+/**
+ * Memoria de corto plazo: resumen de lo viejo + los últimos mensajes completos.
+ */
+export interface ChatHistory {
+  summary: string | null;
+  turns: ChatTurn[];
+}
@@ -0,0 +1,15 @@
+/**
+ * Pregunta de opción múltiple armada por el LLM a partir de un fragmento
+ * de la batería de preguntas del examen.
+ */
+export interface GeneratedQuizQuestion {
+  question: string;
+  options: string[];
+  // Índice (desde 0) de la opción correcta
+  correctOption: number;
+  // Explicación tomada del fragmento fuente
+  explanation: string;
+  // Categoría de la base de conocimiento (ej: "Señales"); `null` si no encaja en ninguna
+  category: string | null;
+  sourceEntryId: string;
+}
@@ -0,0 +1,10 @@
+/**
+ * Respuesta del RAG.
+ */
+export interface RagAnswer {
+  answer: string;
+  // Modelo de chat que la generó (`null` si no hubo llamada al LLM)
+  model: string | null;
+  // Categoría del fragmento más relevante (ej: "Alcohol"); `null` si ninguno tiene
+  topic: string | null;
+}
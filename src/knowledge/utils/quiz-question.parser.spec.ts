@@ -0,0 +1,49 @@
+import { parseGeneratedQuizQuestions } from './quiz-question.parser';
+
+describe('parseGeneratedQuizQuestions', () => {
+  const valid = {
+    question: '¿Cuál es la velocidad máxima en autopista?',
+    options: ['100 km/h', '130 km/h', '80 km/h'],
+    correctOption: 1,
+    explanation: 'En autopistas el máximo para autos es 130 km/h.',
+  };
+
+  it('should read a JSON array wrapped in a markdown block', () => {
+    const raw = `Acá van:\n\`\`\`json\n${JSON.stringify([valid])}\n\`\`\``;
+
+    expect(parseGeneratedQuizQuestions(raw, 'entry-1')).toEqual([
+      { ...valid, category: null, sourceEntryId: 'entry-1' },
+    ]);
+  });
+
+  it('should drop questions with the wrong number of options or an invalid answer', () => {
+    const raw = JSON.stringify([
+      valid,
+      { ...valid, options: ['Sí', 'No'] },
+      { ...valid, correctOption: 3 },
+      { ...valid, explanation: '' },
+    ]);
+
+    expect(parseGeneratedQuizQuestions(raw, 'entry-1')).toHaveLength(1);
+  });
+
+  it('should keep only categories from the knowledge base', () => {
+    const raw = JSON.stringify([
+      { ...valid, category: 'Velocidades' },
+      { ...valid, category: 'Inventada' },
+    ]);
+
+    expect(
+      parseGeneratedQuizQuestions(raw, 'entry-1', [
+        'Velocidades',
+        'Alcohol',
+      ]).map((question) => question.category),
+    ).toEqual(['Velocidades', null]);
+  });
+
+  it('should return nothing when the output is not JSON', () => {
+    expect(
+      parseGeneratedQuizQuestions('No pude armar preguntas [sic]', 'entry-1'),
+    ).toEqual([]);
+  });
+});
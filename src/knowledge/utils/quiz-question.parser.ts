@@ -0,0 +1,81 @@
+import type { GeneratedQuizQuestion } from '../types/quiz-question.type';
+
+// Los botones de WhatsApp admiten hasta 3 opciones
+export const QUIZ_OPTIONS_PER_QUESTION = 3;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Interpreta la respuesta del LLM (un array JSON, a veces envuelto en un
+ * bloque ```json) y descarta las preguntas que no tengan la forma esperada.
+ * Una categoría que no está en `categories` queda en `null`.
+ */
+export function parseGeneratedQuizQuestions(
+  raw: string,
+  sourceEntryId: string,
+  categories: string[] = [],
+): GeneratedQuizQuestion[] {
+  const start = raw.indexOf('[');
+  const end = raw.lastIndexOf(']');
+
+  if (start === -1 || end <= start) {
+    return [];
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const questions: GeneratedQuizQuestion[] = [];
+
+  for (const item of parsed) {
+    if (!isRecord(item)) {
+      continue;
+    }
+
+    const { question, options, correctOption, explanation, category } = item;
+
+    if (
+      typeof question !== 'string' ||
+      !question.trim() ||
+      typeof explanation !== 'string' ||
+      !explanation.trim() ||
+      !Array.isArray(options) ||
+      options.length !== QUIZ_OPTIONS_PER_QUESTION ||
+      !options.every(
+        (option): option is string =>
+          typeof option === 'string' && option.trim().length > 0,
+      ) ||
+      typeof correctOption !== 'number' ||
+      !Number.isInteger(correctOption) ||
+      correctOption < 0 ||
+      correctOption >= QUIZ_OPTIONS_PER_QUESTION
+    ) {
+      continue;
+    }
+
+    questions.push({
+      question: question.trim(),
+      options: options.map((option) => option.trim()),
+      correctOption,
+      explanation: explanation.trim(),
+      category:
+        typeof category === 'string' && categories.includes(category)
+          ? category
+          : null,
+      sourceEntryId,
+    });
+  }
+
+  return questions;
+}
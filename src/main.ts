@@ -1,10 +1,21 @@
 import { NestFactory } from '@nestjs/core';
+import type { NestExpressApplication } from '@nestjs/platform-express';
+import { WsAdapter } from '@nestjs/platform-ws';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     rawBody: true, // Importante para verificar firma de Webhooks
   });
+  // Detrás de un proxy la IP real viene en X-Forwarded-For (límite de sesiones del chat web)
+  const trustProxyHops = parseInt(process.env.TRUST_PROXY_HOPS ?? '', 10);
+  if (trustProxyHops > 0) {
+    app.set('trust proxy', trustProxyHops);
+  }
+  // Dispara OnModuleDestroy en SIGTERM/SIGINT (drenado de la cola de webhooks)
+  app.enableShutdownHooks();
+  // Chat web: WebSockets nativos (el widget no necesita cliente de socket.io)
+  app.useWebSocketAdapter(new WsAdapter(app));
   await app.listen(process.env.PORT ?? 3000);
 }
 void bootstrap();
@@ -0,0 +1,74 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { MessageDirection } from '../enums/message-direction.enum';
+import type { Student } from '../../student/entities/student.entity';
+import type { Conversation } from '../../conversation/entities/conversation.entity';
+
+/**
+ * Registro permanente de cada mensaje con un alumno (lo que preguntó y lo
+ * que le respondió el bot), para que los instructores revisen las charlas.
+ *
+ * Why: `conversation_turns` es la memoria del RAG y se borra con cada
+ * conversación nueva; este log queda (solo se va junto con el alumno).
+ */
+@Entity('messages')
+@Index('IDX_messages_student_sent', ['studentId', 'sentAt'])
+export class Message {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  studentId: string;
+
+  @ManyToOne('Student', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentId' })
+  student: Student;
+
+  // `null` si no llegó a tener conversación (ej: lo frenó el gatekeeper)
+  @Index('IDX_messages_conversation')
+  @Column({ type: 'uuid', nullable: true })
+  conversationId: string | null;
+
+  // El log sobrevive a la conversación: si se borra, el mensaje queda sin ella
+  @ManyToOne('Conversation', { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'conversationId' })
+  conversation: Conversation | null;
+
+  @Column({ type: 'enum', enum: MessageDirection })
+  direction: MessageDirection;
+
+  // Entrante: text, voice, interactive, button, location o media.
+  // Saliente: text, buttons o list
+  @Column({ type: 'varchar' })
+  type: string;
+
+  // Entrante de voz: la transcripción. `null` si no hubo texto (ej: imagen sin caption)
+  @Column({ type: 'text', nullable: true })
+  text: string | null;
+
+  // Id del mensaje en el canal. En WhatsApp es el wamid
+  @Column({ type: 'varchar', nullable: true })
+  waMessageId: string | null;
+
+  // Entrante: cuándo lo mandó el alumno (según el canal). Saliente: cuándo salió
+  @Column({ type: 'timestamp' })
+  sentAt: Date;
+
+  // Saliente: cuánto tardó desde que empezamos a procesar el mensaje del alumno
+  @Column({ type: 'integer', nullable: true })
+  latencyMs: number | null;
+
+  // Saliente generado por el RAG: modelo de chat usado
+  @Column({ type: 'varchar', nullable: true })
+  model: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,4 @@
+export enum MessageDirection {
+  INBOUND = 'INBOUND', // Lo escribió el alumno
+  OUTBOUND = 'OUTBOUND', // Lo respondió el bot
+}
@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Message } from './entities/message.entity';
+import { MessageDirection } from './enums/message-direction.enum';
+import type {
+  MessageLogPort,
+  MessageLogRecord,
+} from '../whatsapp/ports/message-log.port';
+
+/**
+ * Adaptador: Implementa el puerto MessageLogPort usando TypeORM.
+ */
+@Injectable()
+export class MessageLogAdapter implements MessageLogPort {
+  constructor(
+    @InjectRepository(Message)
+    private readonly messageRepository: Repository<Message>,
+  ) {}
+
+  async record(message: MessageLogRecord): Promise<void> {
+    await this.messageRepository.insert({
+      ...message,
+      direction: MessageDirection[message.direction],
+    });
+  }
+}
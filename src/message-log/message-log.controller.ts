@@ -0,0 +1,38 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { MessageLogService } from './message-log.service';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+
+@Controller('admin/students')
+@UseGuards(AdminApiKeyGuard)
+export class MessageLogController {
+  constructor(private readonly messageLogService: MessageLogService) {}
+
+  /**
+   * Transcript de un alumno (más nuevo primero), para revisar sus dudas
+   * y auditar respuestas.
+   * Ejemplo: GET /admin/students/:id/messages?limit=50&offset=0&conversationId=...
+   */
+  @Get(':id/messages')
+  async findMessages(
+    @Param('id', ParseUUIDPipe) studentId: string,
+    @Query('conversationId', new ParseUUIDPipe({ optional: true }))
+    conversationId: string | undefined,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @Query('offset', new DefaultValuePipe(0), ParseIntPipe) offset: number,
+  ) {
+    return this.messageLogService.findByStudent(studentId, {
+      conversationId,
+      limit: Math.min(limit, 200),
+      offset,
+    });
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Student } from '../student/entities/student.entity';
+import { Message } from './entities/message.entity';
+import { MessageLogAdapter } from './message-log.adapter';
+import { MessageLogService } from './message-log.service';
+import { MessageLogController } from './message-log.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Message, Student])],
+  controllers: [MessageLogController],
+  providers: [MessageLogAdapter, MessageLogService],
+  exports: [MessageLogAdapter],
+})
+export class MessageLogModule {}
@@ -0,0 +1,46 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { Student } from '../student/entities/student.entity';
+import { Message } from './entities/message.entity';
+
+/**
+ * Consultas de administración sobre el historial de mensajes.
+ */
+@Injectable()
+export class MessageLogService {
+  constructor(
+    @InjectRepository(Message)
+    private readonly messageRepository: Repository<Message>,
+    @InjectRepository(Student)
+    private readonly studentRepository: Repository<Student>,
+  ) {}
+
+  /**
+   * Mensajes de un alumno, del más nuevo al más viejo.
+   * @throws NotFoundException si el alumno no existe.
+   */
+  async findByStudent(
+    studentId: string,
+    filters: { conversationId?: string; limit: number; offset: number },
+  ): Promise<{ items: Message[]; total: number }> {
+    if (!(await this.studentRepository.existsBy({ id: studentId }))) {
+      throw new NotFoundException(`Alumno ${studentId} no encontrado`);
+    }
+
+    const where: FindOptionsWhere<Message> = { studentId };
+
+    if (filters.conversationId) {
+      where.conversationId = filters.conversationId;
+    }
+
+    const [items, total] = await this.messageRepository.findAndCount({
+      where,
+      order: { sentAt: 'DESC', createdAt: 'DESC' },
+      take: filters.limit,
+      skip: filters.offset,
+    });
+
+    return { items, total };
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Tabla de mensajes procesados (idempotencia del webhook)
+ *
+ * Meta reintenta las entregas del webhook. Guardamos el `id` de cada mensaje
+ * para que un reintento dentro de la ventana configurada sea un no-op.
+ */
+export class AddProcessedMessages1770400000000 implements MigrationInterface {
+  name = 'AddProcessedMessages1770400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "processed_messages" (
+        "messageId" character varying NOT NULL,
+        "processedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_processed_messages" PRIMARY KEY ("messageId")
+      )`,
+    );
+
+    // Índice para la purga periódica por antigüedad
+    await queryRunner.query(
+      `CREATE INDEX "IDX_processed_messages_processed_at" ON "processed_messages" ("processedAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_processed_messages_processed_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "processed_messages"`);
+  }
+}
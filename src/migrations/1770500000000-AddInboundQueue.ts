@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Cola durable de webhooks entrantes
+ *
+ * - `inbound_jobs`: payloads pendientes de procesar (con reintentos y backoff)
+ * - `dead_letter_jobs`: jobs que agotaron sus reintentos, para inspección y replay
+ */
+export class AddInboundQueue1770500000000 implements MigrationInterface {
+  name = 'AddInboundQueue1770500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."inbound_jobs_status_enum" AS ENUM('PENDING', 'PROCESSING')`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "inbound_jobs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "source" character varying(20) NOT NULL,
+        "payload" jsonb NOT NULL,
+        "status" "public"."inbound_jobs_status_enum" NOT NULL DEFAULT 'PENDING',
+        "attempts" integer NOT NULL DEFAULT 0,
+        "runAt" TIMESTAMP NOT NULL,
+        "lockedAt" TIMESTAMP,
+        "lastError" text,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_inbound_jobs" PRIMARY KEY ("id")
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_inbound_jobs_status_run_at" ON "inbound_jobs" ("status", "runAt")`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "dead_letter_jobs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "originalJobId" uuid NOT NULL,
+        "source" character varying(20) NOT NULL,
+        "payload" jsonb NOT NULL,
+        "attempts" integer NOT NULL,
+        "lastError" text,
+        "failedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "replayedAt" TIMESTAMP,
+        CONSTRAINT "PK_dead_letter_jobs" PRIMARY KEY ("id")
+      )`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "dead_letter_jobs"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_inbound_jobs_status_run_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "inbound_jobs"`);
+    await queryRunner.query(`DROP TYPE "public"."inbound_jobs_status_enum"`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Ordering key en la cola de webhooks
+ *
+ * Los jobs con la misma key (teléfono del alumno) se procesan de a uno y en
+ * orden de llegada, aunque haya varias instancias consumiendo la cola.
+ */
+export class AddInboundJobOrderingKey1770600000000 implements MigrationInterface {
+  name = 'AddInboundJobOrderingKey1770600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "inbound_jobs" ADD "orderingKey" character varying`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_inbound_jobs_ordering_key" ON "inbound_jobs" ("orderingKey")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_inbound_jobs_ordering_key"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "inbound_jobs" DROP COLUMN "orderingKey"`,
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Registro de mensajes salientes y su estado de entrega
+ *
+ * Se actualiza con los callbacks `statuses` del webhook (sent/delivered/read/failed),
+ * incluyendo el código de error de Meta cuando el envío falla.
+ */
+export class AddOutboundMessages1770700000000 implements MigrationInterface {
+  name = 'AddOutboundMessages1770700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // El orden del enum importa: los estados solo avanzan
+    await queryRunner.query(
+      `CREATE TYPE "public"."outbound_messages_status_enum" AS ENUM('ACCEPTED', 'SENT', 'DELIVERED', 'READ', 'FAILED')`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "outbound_messages" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "waMessageId" character varying NOT NULL,
+        "recipient" character varying NOT NULL,
+        "status" "public"."outbound_messages_status_enum" NOT NULL DEFAULT 'ACCEPTED',
+        "errorCode" integer,
+        "errorTitle" character varying,
+        "errorDetails" text,
+        "sentAt" TIMESTAMP,
+        "deliveredAt" TIMESTAMP,
+        "readAt" TIMESTAMP,
+        "failedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_outbound_messages_wa_message_id" UNIQUE ("waMessageId"),
+        CONSTRAINT "PK_outbound_messages" PRIMARY KEY ("id")
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_outbound_messages_recipient" ON "outbound_messages" ("recipient")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_outbound_messages_recipient"`,
+    );
+    await queryRunner.query(`DROP TABLE "outbound_messages"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."outbound_messages_status_enum"`,
+    );
+  }
+}
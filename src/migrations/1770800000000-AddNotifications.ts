@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Notificaciones proactivas
+ *
+ * - `students.lastInboundAt`: último mensaje del alumno, para saber si la
+ *   ventana de 24h de Meta sigue abierta (texto libre) o hace falta un template.
+ * - `notifications`: registro de cada notificación enviada.
+ */
+export class AddNotifications1770800000000 implements MigrationInterface {
+  name = 'AddNotifications1770800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "students" ADD "lastInboundAt" TIMESTAMP`,
+    );
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."notifications_delivery_enum" AS ENUM('FREE_FORM', 'TEMPLATE')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."notifications_status_enum" AS ENUM('SENT', 'FAILED')`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "notifications" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "studentId" uuid NOT NULL,
+        "recipient" character varying NOT NULL,
+        "kind" character varying NOT NULL,
+        "delivery" "public"."notifications_delivery_enum" NOT NULL,
+        "templateName" character varying,
+        "params" jsonb NOT NULL,
+        "status" "public"."notifications_status_enum" NOT NULL,
+        "waMessageId" character varying,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_notifications" PRIMARY KEY ("id")
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_notifications_student" ON "notifications" ("studentId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_notifications_student"`);
+    await queryRunner.query(`DROP TABLE "notifications"`);
+    await queryRunner.query(`DROP TYPE "public"."notifications_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."notifications_delivery_enum"`);
+    await queryRunner.query(
+      `ALTER TABLE "students" DROP COLUMN "lastInboundAt"`,
+    );
+  }
+}
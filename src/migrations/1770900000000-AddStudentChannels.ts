@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Alumnos multi-canal (WhatsApp y Telegram)
+ *
+ * El alumno pasa a identificarse por `channel` + `externalId`.
+ * Los existentes son de WhatsApp y su `externalId` es el teléfono.
+ */
+export class AddStudentChannels1770900000000 implements MigrationInterface {
+  name = 'AddStudentChannels1770900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."students_channel_enum" AS ENUM('WHATSAPP', 'TELEGRAM')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ADD "channel" "public"."students_channel_enum" NOT NULL DEFAULT 'WHATSAPP'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ADD "externalId" character varying`,
+    );
+    await queryRunner.query(
+      `UPDATE "students" SET "externalId" = "phoneNumber"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ALTER COLUMN "externalId" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_students_channel_external_id" ON "students" ("channel", "externalId")`,
+    );
+
+    // Los alumnos de Telegram no tienen teléfono
+    await queryRunner.query(
+      `ALTER TABLE "students" ALTER COLUMN "phoneNumber" DROP NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Sin teléfono no hay forma de representar a los alumnos de Telegram
+    await queryRunner.query(
+      `DELETE FROM "conversations" WHERE "studentId" IN (SELECT "id" FROM "students" WHERE "channel" <> 'WHATSAPP')`,
+    );
+    await queryRunner.query(
+      `DELETE FROM "students" WHERE "channel" <> 'WHATSAPP'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ALTER COLUMN "phoneNumber" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."UQ_students_channel_external_id"`,
+    );
+    await queryRunner.query(`ALTER TABLE "students" DROP COLUMN "externalId"`);
+    await queryRunner.query(`ALTER TABLE "students" DROP COLUMN "channel"`);
+    await queryRunner.query(`DROP TYPE "public"."students_channel_enum"`);
+  }
+}
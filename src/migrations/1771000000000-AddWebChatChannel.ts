@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Canal web (widget del sitio)
+ *
+ * - Los alumnos pueden ser `WEB` (visitantes anónimos del sitio).
+ * - Cada conversación guarda su canal: un alumno registrado puede chatear
+ *   desde la web sin pisar su conversación de WhatsApp.
+ */
+export class AddWebChatChannel1771000000000 implements MigrationInterface {
+  name = 'AddWebChatChannel1771000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."students_channel_enum" ADD VALUE IF NOT EXISTS 'WEB'`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."conversations_channel_enum" AS ENUM('WHATSAPP', 'TELEGRAM', 'WEB')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ADD "channel" "public"."conversations_channel_enum" NOT NULL DEFAULT 'WHATSAPP'`,
+    );
+
+    // Hasta ahora la conversación siempre era del canal del alumno
+    await queryRunner.query(
+      `UPDATE "conversations" c SET "channel" = s."channel"::text::"public"."conversations_channel_enum" FROM "students" s WHERE c."studentId" = s."id"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DELETE FROM "conversations" WHERE "channel" = 'WEB' OR "studentId" IN (SELECT "id" FROM "students" WHERE "channel" = 'WEB')`,
+    );
+    await queryRunner.query(`DELETE FROM "students" WHERE "channel" = 'WEB'`);
+    await queryRunner.query(
+      `ALTER TABLE "conversations" DROP COLUMN "channel"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."conversations_channel_enum"`);
+
+    // Postgres no permite quitar un valor de un enum: se recrea el tipo
+    await queryRunner.query(
+      `ALTER TYPE "public"."students_channel_enum" RENAME TO "students_channel_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."students_channel_enum" AS ENUM('WHATSAPP', 'TELEGRAM')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ALTER COLUMN "channel" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ALTER COLUMN "channel" TYPE "public"."students_channel_enum" USING "channel"::text::"public"."students_channel_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ALTER COLUMN "channel" SET DEFAULT 'WHATSAPP'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."students_channel_enum_old"`);
+  }
+}
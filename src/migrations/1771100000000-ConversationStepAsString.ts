@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: `conversations.step` pasa de enum a texto
+ *
+ * Why: Cada flujo (quiz, turnos, etc.) registra sus propios pasos desde su
+ * módulo; con un enum de Postgres cada flujo nuevo exigiría una migración.
+ */
+export class ConversationStepAsString1771100000000 implements MigrationInterface {
+  name = 'ConversationStepAsString1771100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ALTER COLUMN "step" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ALTER COLUMN "step" TYPE character varying(64) USING "step"::text`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ALTER COLUMN "step" SET DEFAULT 'WELCOME'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."conversations_step_enum"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Los pasos de flujos nuevos no existen en el enum: vuelven al modo instructor
+    await queryRunner.query(
+      `UPDATE "conversations" SET "step" = 'LEARNING', "context" = '{}' WHERE "step" NOT IN ('WELCOME', 'MENU', 'LEARNING', 'FINISHED')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."conversations_step_enum" AS ENUM('WELCOME', 'MENU', 'LEARNING', 'FINISHED')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ALTER COLUMN "step" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ALTER COLUMN "step" TYPE "public"."conversations_step_enum" USING "step"::"public"."conversations_step_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ALTER COLUMN "step" SET DEFAULT 'WELCOME'`,
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Memoria de la conversación
+ *
+ * - `conversation_turns`: cada mensaje del alumno y del bot, por conversación.
+ * - `conversations.historySummary`: resumen de los mensajes más viejos, para
+ *   que el prompt del RAG no crezca sin límite.
+ */
+export class AddConversationTurns1771200000000 implements MigrationInterface {
+  name = 'AddConversationTurns1771200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ADD "historySummary" text`,
+    );
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."conversation_turns_role_enum" AS ENUM('USER', 'ASSISTANT')`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "conversation_turns" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "conversationId" uuid NOT NULL,
+        "role" "public"."conversation_turns_role_enum" NOT NULL,
+        "content" text NOT NULL,
+        "summarized" boolean NOT NULL DEFAULT false,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_conversation_turns" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_conversation_turns_conversation" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_conversation_turns_conversation_created" ON "conversation_turns" ("conversationId", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_conversation_turns_conversation_created"`,
+    );
+    await queryRunner.query(`DROP TABLE "conversation_turns"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."conversation_turns_role_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" DROP COLUMN "historySummary"`,
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Historial de mensajes
+ *
+ * - `messages`: cada mensaje entrante y saliente de un alumno, con su
+ *   conversación, el id del canal, latencia y modelo usado.
+ */
+export class AddMessageLog1771300000000 implements MigrationInterface {
+  name = 'AddMessageLog1771300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."messages_direction_enum" AS ENUM('INBOUND', 'OUTBOUND')`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "messages" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "studentId" uuid NOT NULL,
+        "conversationId" uuid,
+        "direction" "public"."messages_direction_enum" NOT NULL,
+        "type" character varying NOT NULL,
+        "text" text,
+        "waMessageId" character varying,
+        "sentAt" TIMESTAMP NOT NULL,
+        "latencyMs" integer,
+        "model" character varying,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_messages" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_messages_student" FOREIGN KEY ("studentId")
+          REFERENCES "students"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_messages_conversation" FOREIGN KEY ("conversationId")
+          REFERENCES "conversations"("id") ON DELETE SET NULL
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_messages_student_sent" ON "messages" ("studentId", "sentAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_messages_conversation" ON "messages" ("conversationId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_messages_conversation"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_messages_student_sent"`);
+    await queryRunner.query(`DROP TABLE "messages"`);
+    await queryRunner.query(`DROP TYPE "public"."messages_direction_enum"`);
+  }
+}
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Cierre de conversaciones inactivas
+ *
+ * - `closedAt` / `closeReason`: cuándo y por qué se cerró una conversación.
+ *   El paso y el contexto se conservan (archivo).
+ * - Índice parcial para que el barrido de inactivas no recorra las cerradas.
+ */
+export class AddConversationClosing1771400000000 implements MigrationInterface {
+  name = 'AddConversationClosing1771400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."conversations_closereason_enum" AS ENUM('INACTIVITY', 'REPLACED')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ADD "closedAt" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" ADD "closeReason" "public"."conversations_closereason_enum"`,
+    );
+
+    // Hasta ahora solo se cerraban al abrir otra (alta o `reset`)
+    await queryRunner.query(
+      `UPDATE "conversations" SET "closedAt" = "lastInteractionAt", "closeReason" = 'REPLACED' WHERE "isActive" = false`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_conversations_active_last_interaction" ON "conversations" ("lastInteractionAt") WHERE "isActive" = true`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_conversations_active_last_interaction"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" DROP COLUMN "closeReason"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversations" DROP COLUMN "closedAt"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."conversations_closereason_enum"`,
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Banco de preguntas para el modo quiz
+ *
+ * - `quiz_questions`: preguntas de opción múltiple generadas a partir de la
+ *   batería de preguntas del examen (`bateria_preguntas`).
+ */
+export class AddQuizQuestions1771500000000 implements MigrationInterface {
+  name = 'AddQuizQuestions1771500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "quiz_questions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "topic" character varying,
+        "question" text NOT NULL,
+        "options" jsonb NOT NULL,
+        "correctOption" integer NOT NULL,
+        "explanation" text NOT NULL,
+        "sourceEntryId" uuid,
+        "contentHash" character varying NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_quiz_questions" PRIMARY KEY ("id")
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_quiz_questions_topic" ON "quiz_questions" ("topic")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_quiz_questions_hash" ON "quiz_questions" ("contentHash")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."UQ_quiz_questions_hash"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_quiz_questions_topic"`);
+    await queryRunner.query(`DROP TABLE "quiz_questions"`);
+  }
+}
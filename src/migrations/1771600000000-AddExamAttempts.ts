@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Simulacros del examen teórico
+ *
+ * - `exam_attempts`: cada intento con sus preguntas, respuestas (con el tiempo
+ *   de cada una) y el resultado final.
+ */
+export class AddExamAttempts1771600000000 implements MigrationInterface {
+  name = 'AddExamAttempts1771600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."exam_attempts_status_enum" AS ENUM('IN_PROGRESS', 'PASSED', 'FAILED', 'ABANDONED')`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "exam_attempts" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "studentId" uuid NOT NULL,
+        "conversationId" uuid,
+        "status" "public"."exam_attempts_status_enum" NOT NULL DEFAULT 'IN_PROGRESS',
+        "questionIds" jsonb NOT NULL,
+        "answers" jsonb NOT NULL DEFAULT '[]',
+        "correctCount" integer NOT NULL DEFAULT 0,
+        "passScore" integer NOT NULL,
+        "timeLimitMinutes" integer NOT NULL,
+        "timedOut" boolean NOT NULL DEFAULT false,
+        "startedAt" TIMESTAMP NOT NULL,
+        "finishedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_exam_attempts" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_exam_attempts_student" FOREIGN KEY ("studentId")
+          REFERENCES "students"("id") ON DELETE CASCADE
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_exam_attempts_student_started" ON "exam_attempts" ("studentId", "startedAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_exam_attempts_student_started"`,
+    );
+    await queryRunner.query(`DROP TABLE "exam_attempts"`);
+    await queryRunner.query(`DROP TYPE "public"."exam_attempts_status_enum"`);
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Repaso espaciado de preguntas
+ *
+ * - `question_reviews`: estado de SM-2 de cada alumno para las preguntas
+ *   del banco en las que se equivocó.
+ */
+export class AddQuestionReviews1771700000000 implements MigrationInterface {
+  name = 'AddQuestionReviews1771700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "question_reviews" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "studentId" uuid NOT NULL,
+        "questionId" uuid NOT NULL,
+        "repetitions" integer NOT NULL DEFAULT 0,
+        "easeFactor" real NOT NULL DEFAULT 2.5,
+        "intervalDays" integer NOT NULL DEFAULT 1,
+        "lapses" integer NOT NULL DEFAULT 0,
+        "dueAt" TIMESTAMP NOT NULL,
+        "lastReviewedAt" TIMESTAMP NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_question_reviews" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_question_reviews_question" FOREIGN KEY ("questionId")
+          REFERENCES "quiz_questions"("id") ON DELETE CASCADE
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_question_reviews_student_question" ON "question_reviews" ("studentId", "questionId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_question_reviews_student_due" ON "question_reviews" ("studentId", "dueAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_question_reviews_student_due"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."UQ_question_reviews_student_question"`,
+    );
+    await queryRunner.query(`DROP TABLE "question_reviews"`);
+  }
+}
@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Progreso por tema
+ *
+ * - `quiz_questions.category`: categoría de la base de conocimiento.
+ * - `topic_events`: preguntas y respuestas de cada alumno, por tema.
+ */
+export class AddTopicProgress1771800000000 implements MigrationInterface {
+  name = 'AddTopicProgress1771800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "quiz_questions" ADD "category" character varying`,
+    );
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."topic_events_kind_enum" AS ENUM('QUESTION', 'ANSWER')`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "topic_events" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "studentId" uuid NOT NULL,
+        "kind" "public"."topic_events_kind_enum" NOT NULL,
+        "topic" character varying NOT NULL,
+        "correct" boolean,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_topic_events" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_topic_events_student" FOREIGN KEY ("studentId")
+          REFERENCES "students"("id") ON DELETE CASCADE
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_topic_events_student_topic" ON "topic_events" ("studentId", "topic")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_topic_events_student_topic"`,
+    );
+    await queryRunner.query(`DROP TABLE "topic_events"`);
+    await queryRunner.query(`DROP TYPE "public"."topic_events_kind_enum"`);
+    await queryRunner.query(
+      `ALTER TABLE "quiz_questions" DROP COLUMN "category"`,
+    );
+  }
+}
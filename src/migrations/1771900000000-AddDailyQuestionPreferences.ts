@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Pregunta diaria
+ *
+ * - `students.dailyQuestionEnabled` / `dailyQuestionTime`: opt-in y hora local.
+ * - `students.dailyQuestionLastSentOn`: evita mandar dos el mismo día.
+ */
+export class AddDailyQuestionPreferences1771900000000 implements MigrationInterface {
+  name = 'AddDailyQuestionPreferences1771900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "students" ADD "dailyQuestionEnabled" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ADD "dailyQuestionTime" character varying(5)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ADD "dailyQuestionLastSentOn" date`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "students" DROP COLUMN "dailyQuestionLastSentOn"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" DROP COLUMN "dailyQuestionTime"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" DROP COLUMN "dailyQuestionEnabled"`,
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Turnos de clases de manejo
+ *
+ * - `instructors` y `vehicles`: recursos de la academia.
+ * - `availability_slots`: horarios que ofrece cada instructor. Dos exclusion
+ *   constraints (`btree_gist`) impiden que se superpongan los de un mismo
+ *   instructor o los de un mismo vehículo.
+ * - `appointments`: turnos de los alumnos. Un índice único parcial deja un
+ *   solo turno `BOOKED` por horario (sin doble reserva).
+ */
+export class AddAppointments1772000000000 implements MigrationInterface {
+  name = 'AddAppointments1772000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Para combinar `=` sobre uuid con `&&` sobre rangos en un índice gist
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS btree_gist`);
+
+    await queryRunner.query(
+      `CREATE TABLE "instructors" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying NOT NULL,
+        "phoneNumber" character varying,
+        "isActive" boolean NOT NULL DEFAULT true,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_instructors" PRIMARY KEY ("id")
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "vehicles" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying NOT NULL,
+        "plate" character varying NOT NULL,
+        "isActive" boolean NOT NULL DEFAULT true,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_vehicles" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_vehicles_plate" UNIQUE ("plate")
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "availability_slots" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "instructorId" uuid NOT NULL,
+        "vehicleId" uuid,
+        "startsAt" TIMESTAMP NOT NULL,
+        "endsAt" TIMESTAMP NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_availability_slots" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_availability_slots_instructor" FOREIGN KEY ("instructorId")
+          REFERENCES "instructors"("id") ON DELETE RESTRICT,
+        CONSTRAINT "FK_availability_slots_vehicle" FOREIGN KEY ("vehicleId")
+          REFERENCES "vehicles"("id") ON DELETE SET NULL,
+        CONSTRAINT "EX_availability_slots_instructor" EXCLUDE USING gist
+          ("instructorId" WITH =, tsrange("startsAt", "endsAt") WITH &&),
+        CONSTRAINT "EX_availability_slots_vehicle" EXCLUDE USING gist
+          ("vehicleId" WITH =, tsrange("startsAt", "endsAt") WITH &&)
+          WHERE ("vehicleId" IS NOT NULL)
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_availability_slots_instructor_start" ON "availability_slots" ("instructorId", "startsAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_availability_slots_starts_at" ON "availability_slots" ("startsAt")`,
+    );
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."appointments_status_enum" AS ENUM('BOOKED', 'CANCELLED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "appointments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "studentId" uuid NOT NULL,
+        "slotId" uuid NOT NULL,
+        "status" "public"."appointments_status_enum" NOT NULL DEFAULT 'BOOKED',
+        "rescheduledFromId" uuid,
+        "cancelledAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_appointments" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_appointments_student" FOREIGN KEY ("studentId")
+          REFERENCES "students"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_appointments_slot" FOREIGN KEY ("slotId")
+          REFERENCES "availability_slots"("id") ON DELETE RESTRICT
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_appointments_slot_booked" ON "appointments" ("slotId") WHERE "status" = 'BOOKED'`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_appointments_student" ON "appointments" ("studentId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_appointments_student"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."UQ_appointments_slot_booked"`,
+    );
+    await queryRunner.query(`DROP TABLE "appointments"`);
+    await queryRunner.query(`DROP TYPE "public"."appointments_status_enum"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_availability_slots_starts_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."UQ_availability_slots_instructor_start"`,
+    );
+    await queryRunner.query(`DROP TABLE "availability_slots"`);
+    await queryRunner.query(`DROP TABLE "vehicles"`);
+    await queryRunner.query(`DROP TABLE "instructors"`);
+    await queryRunner.query(`DROP EXTENSION IF EXISTS btree_gist`);
+  }
+}
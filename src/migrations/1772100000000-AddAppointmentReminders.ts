@@ -0,0 +1,84 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Recordatorios y asistencia de turnos
+ *
+ * - `appointments`: recordatorios enviados, confirmación del alumno y
+ *   asistencia (`ATTENDED` / `NO_SHOW`).
+ * - `students.noShowFlaggedAt`: alumno marcado por faltar sin avisar.
+ */
+export class AddAppointmentReminders1772100000000 implements MigrationInterface {
+  name = 'AddAppointmentReminders1772100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."appointments_status_enum" ADD VALUE IF NOT EXISTS 'ATTENDED'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."appointments_status_enum" ADD VALUE IF NOT EXISTS 'NO_SHOW'`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "appointments" ADD "reminder24hSentAt" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" ADD "reminder2hSentAt" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" ADD "confirmedAt" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" ADD "attendanceMarkedAt" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "students" ADD "noShowFlaggedAt" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "students" DROP COLUMN "noShowFlaggedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" DROP COLUMN "attendanceMarkedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" DROP COLUMN "confirmedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" DROP COLUMN "reminder2hSentAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" DROP COLUMN "reminder24hSentAt"`,
+    );
+
+    // Postgres no borra valores de un enum: se recrea el tipo sin ellos
+    await queryRunner.query(
+      `UPDATE "appointments" SET "status" = 'CANCELLED' WHERE "status" IN ('ATTENDED', 'NO_SHOW')`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."UQ_appointments_slot_booked"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."appointments_status_enum" RENAME TO "appointments_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."appointments_status_enum" AS ENUM('BOOKED', 'CANCELLED')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" ALTER COLUMN "status" TYPE "public"."appointments_status_enum" USING "status"::text::"public"."appointments_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "appointments" ALTER COLUMN "status" SET DEFAULT 'BOOKED'`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."appointments_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_appointments_slot_booked" ON "appointments" ("slotId") WHERE "status" = 'BOOKED'`,
+    );
+  }
+}
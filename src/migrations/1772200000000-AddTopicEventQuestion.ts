@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Preguntas del banco ya respondidas
+ *
+ * - `topic_events.questionId`: pregunta respondida (solo ANSWER del quiz, la
+ *   pregunta diaria o el simulacro), para no repetírsela al alumno enseguida.
+ */
+export class AddTopicEventQuestion1772200000000 implements MigrationInterface {
+  name = 'AddTopicEventQuestion1772200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "topic_events" ADD "questionId" uuid`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_topic_events_student_created" ON "topic_events" ("studentId", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_topic_events_student_created"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "topic_events" DROP COLUMN "questionId"`,
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migración: Estado de los mensajes procesados
+ *
+ * - `status`: `PROCESSING` mientras se procesa, `DONE` al terminar bien.
+ * - `claimedAt`: cuándo se reservó. Una reserva `PROCESSING` vieja es de un
+ *   proceso que se cayó a mitad y se puede volver a tomar.
+ *
+ * Los registros existentes ya se procesaron: quedan `DONE`.
+ */
+export class AddProcessedMessageStatus1772300000000 implements MigrationInterface {
+  name = 'AddProcessedMessageStatus1772300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."processed_messages_status_enum" AS ENUM('PROCESSING', 'DONE')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "processed_messages" ADD "status" "public"."processed_messages_status_enum" NOT NULL DEFAULT 'DONE'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "processed_messages" ADD "claimedAt" TIMESTAMP NOT NULL DEFAULT now()`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "processed_messages" DROP COLUMN "claimedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "processed_messages" DROP COLUMN "status"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."processed_messages_status_enum"`,
+    );
+  }
+}
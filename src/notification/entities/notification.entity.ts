@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { NotificationDelivery } from '../enums/notification-delivery.enum';
+import { NotificationStatus } from '../enums/notification-status.enum';
+
+/**
+ * Notificación proactiva enviada a un alumno (la inició el bot, no el alumno).
+ */
+@Entity('notifications')
+export class Notification {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index('IDX_notifications_student')
+  @Column({ type: 'uuid' })
+  studentId: string;
+
+  // Id externo del alumno (teléfono o chat id de Telegram)
+  @Column({ type: 'varchar' })
+  recipient: string;
+
+  // Tipo de notificación (ej: access_expiring, class_reminder)
+  @Column({ type: 'varchar' })
+  kind: string;
+
+  @Column({ type: 'enum', enum: NotificationDelivery })
+  delivery: NotificationDelivery;
+
+  @Column({ type: 'varchar', nullable: true })
+  templateName: string | null;
+
+  @Column({ type: 'jsonb' })
+  params: Record<string, string>;
+
+  @Column({ type: 'enum', enum: NotificationStatus })
+  status: NotificationStatus;
+
+  // Id del mensaje en el canal. En WhatsApp es el wamid, para cruzar con
+  // outbound_messages (estado de entrega)
+  @Column({ type: 'varchar', nullable: true })
+  waMessageId: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,8 @@
+/**
+ * Cómo salió la notificación: texto libre (dentro de la ventana de 24h)
+ * o template aprobado (fuera de la ventana).
+ */
+export enum NotificationDelivery {
+  FREE_FORM = 'FREE_FORM',
+  TEMPLATE = 'TEMPLATE',
+}
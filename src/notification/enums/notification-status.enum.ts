@@ -0,0 +1,4 @@
+export enum NotificationStatus {
+  SENT = 'SENT', // Meta aceptó el envío
+  FAILED = 'FAILED', // El proveedor rechazó el envío
+}
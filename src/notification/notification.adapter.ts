@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Notification } from './entities/notification.entity';
+import { NotificationDelivery } from './enums/notification-delivery.enum';
+import { NotificationStatus } from './enums/notification-status.enum';
+import type {
+  NotificationPort,
+  NotificationRecord,
+} from '../whatsapp/ports/notification.port';
+
+/**
+ * Adaptador: Implementa el puerto NotificationPort usando TypeORM.
+ */
+@Injectable()
+export class NotificationAdapter implements NotificationPort {
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+  ) {}
+
+  async record(notification: NotificationRecord): Promise<void> {
+    await this.notificationRepository.insert({
+      ...notification,
+      delivery: NotificationDelivery[notification.delivery],
+      status: NotificationStatus[notification.status],
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { OutboundMessageStatus } from '../enums/outbound-message-status.enum';
+
+/**
+ * Mensaje enviado por el bot, actualizado con los callbacks de estado de Meta.
+ */
+@Entity('outbound_messages')
+export class OutboundMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // ID que devuelve Meta al enviar (wamid.*)
+  @Column({ type: 'varchar', unique: true })
+  waMessageId: string;
+
+  @Index('IDX_outbound_messages_recipient')
+  @Column({ type: 'varchar' })
+  recipient: string;
+
+  @Column({
+    type: 'enum',
+    enum: OutboundMessageStatus,
+    default: OutboundMessageStatus.ACCEPTED,
+  })
+  status: OutboundMessageStatus;
+
+  // Código de error de Meta (ej: 131047 = fuera de la ventana de 24h)
+  @Column({ type: 'int', nullable: true })
+  errorCode: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  errorTitle: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  errorDetails: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  sentAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  readAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  failedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
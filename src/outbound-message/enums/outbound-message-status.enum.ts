@@ -0,0 +1,11 @@
+/**
+ * Estado de entrega de un mensaje saliente.
+ * El orden importa: un estado solo puede avanzar (Postgres compara enums por orden).
+ */
+export enum OutboundMessageStatus {
+  ACCEPTED = 'ACCEPTED', // Meta aceptó el envío (respuesta de la API)
+  SENT = 'SENT',
+  DELIVERED = 'DELIVERED',
+  READ = 'READ',
+  FAILED = 'FAILED',
+}
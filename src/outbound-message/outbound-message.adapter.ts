@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { OutboundMessage } from './entities/outbound-message.entity';
+import { OutboundMessageStatus } from './enums/outbound-message-status.enum';
+import type { OutboundMessagePort } from '../whatsapp/ports/outbound-message.port';
+import type {
+  WhatsappDeliveryStatus,
+  WhatsappStatusUpdate,
+} from '../whatsapp/types/whatsapp-webhook.type';
+
+const STATUS_MAP: Record<
+  WhatsappDeliveryStatus,
+  {
+    status: OutboundMessageStatus;
+    timestampColumn: 'sentAt' | 'deliveredAt' | 'readAt' | 'failedAt';
+  }
+> = {
+  sent: { status: OutboundMessageStatus.SENT, timestampColumn: 'sentAt' },
+  delivered: {
+    status: OutboundMessageStatus.DELIVERED,
+    timestampColumn: 'deliveredAt',
+  },
+  read: { status: OutboundMessageStatus.READ, timestampColumn: 'readAt' },
+  failed: { status: OutboundMessageStatus.FAILED, timestampColumn: 'failedAt' },
+};
+
+/**
+ * Adaptador: Implementa el puerto OutboundMessagePort usando TypeORM.
+ */
+@Injectable()
+export class OutboundMessageAdapter implements OutboundMessagePort {
+  constructor(
+    @InjectRepository(OutboundMessage)
+    private readonly outboundMessageRepository: Repository<OutboundMessage>,
+  ) {}
+
+  async recordAccepted(waMessageId: string, recipient: string): Promise<void> {
+    await this.insertIfMissing(waMessageId, recipient);
+  }
+
+  async applyStatus(update: WhatsappStatusUpdate): Promise<void> {
+    // El callback puede llegar antes de que registremos el envío (carrera)
+    await this.insertIfMissing(update.messageId, update.recipientId);
+
+    const { status, timestampColumn } = STATUS_MAP[update.status];
+    const error = update.errors[0];
+
+    // Why: Meta no garantiza el orden de los callbacks. Postgres compara los
+    // enums por orden de declaración, así que `status < :status` solo avanza.
+    await this.outboundMessageRepository
+      .createQueryBuilder()
+      .update(OutboundMessage)
+      .set({
+        status,
+        [timestampColumn]: update.timestamp ?? new Date(),
+        ...(error
+          ? {
+              errorCode: error.code,
+              errorTitle: error.title ?? null,
+              errorDetails: error.details ?? null,
+            }
+          : {}),
+      })
+      .where('"waMessageId" = :waMessageId', { waMessageId: update.messageId })
+      .andWhere('status < :status', { status })
+      .execute();
+  }
+
+  private async insertIfMissing(
+    waMessageId: string,
+    recipient: string,
+  ): Promise<void> {
+    await this.outboundMessageRepository
+      .createQueryBuilder()
+      .insert()
+      .into(OutboundMessage)
+      .values({
+        waMessageId,
+        recipient,
+        status: OutboundMessageStatus.ACCEPTED,
+      })
+      .orIgnore()
+      .execute();
+  }
+}
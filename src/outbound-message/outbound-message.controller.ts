@@ -0,0 +1,43 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  DefaultValuePipe,
+  ParseIntPipe,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import { OutboundMessageService } from './outbound-message.service';
+import { OutboundMessageStatus } from './enums/outbound-message-status.enum';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+
+@Controller('admin/outbound-messages')
+@UseGuards(AdminApiKeyGuard)
+export class OutboundMessageController {
+  constructor(
+    private readonly outboundMessageService: OutboundMessageService,
+  ) {}
+
+  /**
+   * Lista los mensajes enviados con su estado de entrega.
+   * Ejemplo (quién no recibió respuesta): GET /admin/outbound-messages?status=FAILED
+   */
+  @Get()
+  async findAll(
+    @Query(
+      'status',
+      new ParseEnumPipe(OutboundMessageStatus, { optional: true }),
+    )
+    status: OutboundMessageStatus | undefined,
+    @Query('recipient') recipient: string | undefined,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('offset', new DefaultValuePipe(0), ParseIntPipe) offset: number,
+  ) {
+    return this.outboundMessageService.findAll({
+      status,
+      recipient,
+      limit: Math.min(limit, 100),
+      offset,
+    });
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OutboundMessage } from './entities/outbound-message.entity';
+import { OutboundMessageAdapter } from './outbound-message.adapter';
+import { OutboundMessageService } from './outbound-message.service';
+import { OutboundMessageController } from './outbound-message.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OutboundMessage])],
+  controllers: [OutboundMessageController],
+  providers: [OutboundMessageAdapter, OutboundMessageService],
+  exports: [OutboundMessageAdapter],
+})
+export class OutboundMessageModule {}
@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { OutboundMessage } from './entities/outbound-message.entity';
+import { OutboundMessageStatus } from './enums/outbound-message-status.enum';
+
+/**
+ * Consultas de administración sobre los mensajes enviados.
+ */
+@Injectable()
+export class OutboundMessageService {
+  constructor(
+    @InjectRepository(OutboundMessage)
+    private readonly outboundMessageRepository: Repository<OutboundMessage>,
+  ) {}
+
+  async findAll(filters: {
+    status?: OutboundMessageStatus;
+    recipient?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ items: OutboundMessage[]; total: number }> {
+    const where: FindOptionsWhere<OutboundMessage> = {};
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.recipient) {
+      where.recipient = filters.recipient;
+    }
+
+    const [items, total] = await this.outboundMessageRepository.findAndCount({
+      where,
+      order: { createdAt: 'DESC' },
+      take: filters.limit,
+      skip: filters.offset,
+    });
+
+    return { items, total };
+  }
+}
@@ -0,0 +1,25 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+import { ProcessedMessageStatus } from '../enums/processed-message-status.enum';
+
+/**
+ * Registro de mensajes de WhatsApp ya procesados (idempotencia del webhook).
+ * La PK es el `id` que asigna Meta (wamid.*), así un reintento no se procesa dos veces.
+ */
+@Entity('processed_messages')
+export class ProcessedMessage {
+  @PrimaryColumn({ type: 'varchar' })
+  messageId: string;
+
+  @Column({
+    type: 'enum',
+    enum: ProcessedMessageStatus,
+    default: ProcessedMessageStatus.DONE,
+  })
+  status: ProcessedMessageStatus;
+
+  @Column({ type: 'timestamp', default: () => 'now()' })
+  claimedAt: Date;
+
+  @Column({ type: 'timestamp' })
+  processedAt: Date;
+}
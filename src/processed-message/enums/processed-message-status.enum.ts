@@ -0,0 +1,4 @@
+export enum ProcessedMessageStatus {
+  PROCESSING = 'PROCESSING', // Reservado; si la reserva envejece, el dueño se cayó a mitad
+  DONE = 'DONE',
+}
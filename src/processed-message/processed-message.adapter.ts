@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { ProcessedMessage } from './entities/processed-message.entity';
+import { ProcessedMessageStatus } from './enums/processed-message-status.enum';
+import type {
+  ClaimResult,
+  ProcessedMessagePort,
+} from '../whatsapp/ports/processed-message.port';
+
+/**
+ * Adaptador: Implementa el puerto ProcessedMessagePort usando TypeORM.
+ */
+@Injectable()
+export class ProcessedMessageAdapter implements ProcessedMessagePort {
+  constructor(
+    @InjectRepository(ProcessedMessage)
+    private readonly processedMessageRepository: Repository<ProcessedMessage>,
+  ) {}
+
+  async claim(
+    messageId: string,
+    windowStart: Date,
+    staleBefore: Date,
+  ): Promise<ClaimResult> {
+    // Un solo statement atómico: inserta si es nuevo, o "renueva" si el registro
+    // quedó fuera de la ventana o es una reserva abandonada. Si ninguna, RETURNING viene vacío.
+    const rows: Array<{ messageId: string }> =
+      await this.processedMessageRepository.query(
+        `
+        INSERT INTO processed_messages ("messageId", "status", "claimedAt", "processedAt")
+        VALUES ($1, $2, $3, $3)
+        ON CONFLICT ("messageId") DO UPDATE
+          SET "status" = $2, "claimedAt" = $3, "processedAt" = $3
+          WHERE (processed_messages."status" = $4 AND processed_messages."processedAt" < $5)
+            OR (processed_messages."status" = $2 AND processed_messages."claimedAt" < $6)
+        RETURNING "messageId"
+        `,
+        [
+          messageId,
+          ProcessedMessageStatus.PROCESSING,
+          new Date(),
+          ProcessedMessageStatus.DONE,
+          windowStart,
+          staleBefore,
+        ],
+      );
+
+    if (rows.length > 0) {
+      return 'CLAIMED';
+    }
+
+    const existing = await this.processedMessageRepository.findOneBy({
+      messageId,
+    });
+
+    return existing?.status === ProcessedMessageStatus.DONE
+      ? 'DUPLICATE'
+      : 'IN_PROGRESS';
+  }
+
+  async complete(messageId: string): Promise<void> {
+    await this.processedMessageRepository.update(
+      { messageId },
+      { status: ProcessedMessageStatus.DONE, processedAt: new Date() },
+    );
+  }
+
+  async release(messageId: string): Promise<void> {
+    await this.processedMessageRepository.delete({ messageId });
+  }
+
+  async purgeOlderThan(date: Date): Promise<number> {
+    const result = await this.processedMessageRepository.delete({
+      processedAt: LessThan(date),
+    });
+
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { TopicEventKind } from '../enums/topic-event-kind.enum';
+import type { Student } from '../../student/entities/student.entity';
+
+/**
+ * Cada pregunta o respuesta de un alumno, etiquetada con su tema
+ * (la categoría de la base de conocimiento). De acá sale su progreso.
+ */
+@Entity('topic_events')
+@Index('IDX_topic_events_student_topic', ['studentId', 'topic'])
+@Index('IDX_topic_events_student_created', ['studentId', 'createdAt'])
+export class TopicEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  studentId: string;
+
+  @ManyToOne('Student', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentId' })
+  student: Student;
+
+  @Column({ type: 'enum', enum: TopicEventKind })
+  kind: TopicEventKind;
+
+  // Categoría (ej: "Alcohol"); "General" si no se pudo etiquetar
+  @Column({ type: 'varchar' })
+  topic: string;
+
+  // Solo ANSWER: si acertó
+  @Column({ type: 'boolean', nullable: true })
+  correct: boolean | null;
+
+  // Solo ANSWER de una pregunta del banco (quiz, pregunta diaria o simulacro)
+  @Column({ type: 'uuid', nullable: true })
+  questionId: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,4 @@
+export enum TopicEventKind {
+  QUESTION = 'QUESTION', // Pregunta al modo instructor (RAG)
+  ANSWER = 'ANSWER', // Respuesta a una pregunta de quiz, repaso o simulacro
+}
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TopicEvent } from './entities/topic-event.entity';
+import { TopicEventKind } from './enums/topic-event-kind.enum';
+import { ProgressService } from './progress.service';
+import type {
+  ProgressPort,
+  StudentProgressData,
+  TopicEventRecord,
+} from '../whatsapp/ports/progress.port';
+
+/**
+ * Adaptador: Implementa el puerto ProgressPort usando TypeORM.
+ */
+@Injectable()
+export class ProgressAdapter implements ProgressPort {
+  constructor(
+    @InjectRepository(TopicEvent)
+    private readonly eventRepository: Repository<TopicEvent>,
+    private readonly progressService: ProgressService,
+  ) {}
+
+  async record(event: TopicEventRecord): Promise<void> {
+    await this.eventRepository.insert({
+      ...event,
+      kind: TopicEventKind[event.kind],
+    });
+  }
+
+  getProgress(studentId: string): Promise<StudentProgressData> {
+    return this.progressService.getProgress(studentId);
+  }
+
+  async findAnsweredQuestionIds(
+    studentId: string,
+    since: Date,
+  ): Promise<string[]> {
+    const rows = await this.eventRepository
+      .createQueryBuilder('e')
+      .select('DISTINCT e.questionId', 'questionId')
+      .where('e.studentId = :studentId', { studentId })
+      .andWhere('e.questionId IS NOT NULL')
+      .andWhere('e.createdAt >= :since', { since })
+      .getRawMany<{ questionId: string }>();
+
+    return rows.map((row) => row.questionId);
+  }
+}
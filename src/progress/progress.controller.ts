@@ -0,0 +1,24 @@
+import {
+  Controller,
+  Get,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ProgressService } from './progress.service';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+
+@Controller('admin/students')
+@UseGuards(AdminApiKeyGuard)
+export class ProgressController {
+  constructor(private readonly progressService: ProgressService) {}
+
+  /**
+   * Progreso por tema de un alumno (preguntas hechas, aciertos y temas flojos).
+   * Ejemplo: GET /admin/students/:id/progress
+   */
+  @Get(':id/progress')
+  async findProgress(@Param('id', ParseUUIDPipe) studentId: string) {
+    return this.progressService.getStudentProgress(studentId);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TopicEvent } from './entities/topic-event.entity';
+import { Student } from '../student/entities/student.entity';
+import { ProgressAdapter } from './progress.adapter';
+import { ProgressService } from './progress.service';
+import { ProgressController } from './progress.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TopicEvent, Student])],
+  controllers: [ProgressController],
+  providers: [ProgressAdapter, ProgressService],
+  exports: [ProgressAdapter],
+})
+export class ProgressModule {}
@@ -0,0 +1,102 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TopicEvent } from './entities/topic-event.entity';
+import { TopicEventKind } from './enums/topic-event-kind.enum';
+import { Student } from '../student/entities/student.entity';
+import type {
+  StudentProgressData,
+  TopicProgressData,
+} from '../whatsapp/ports/progress.port';
+
+// Con menos respuestas, un tema no cuenta como "flojo" (1 error = 0%)
+const MIN_ANSWERS_FOR_WEAKNESS = 3;
+const MAX_WEAKEST_TOPICS = 3;
+
+/**
+ * Agrega los eventos por tema de un alumno: lo usan el comando
+ * "mi progreso" y el endpoint de administración.
+ */
+@Injectable()
+export class ProgressService {
+  constructor(
+    @InjectRepository(TopicEvent)
+    private readonly eventRepository: Repository<TopicEvent>,
+    @InjectRepository(Student)
+    private readonly studentRepository: Repository<Student>,
+  ) {}
+
+  /**
+   * Progreso para el endpoint de administración.
+   * @throws NotFoundException si el alumno no existe.
+   */
+  async getStudentProgress(studentId: string): Promise<StudentProgressData> {
+    if (!(await this.studentRepository.existsBy({ id: studentId }))) {
+      throw new NotFoundException(`Alumno ${studentId} no encontrado`);
+    }
+
+    return this.getProgress(studentId);
+  }
+
+  async getProgress(studentId: string): Promise<StudentProgressData> {
+    const rows = await this.eventRepository
+      .createQueryBuilder('e')
+      .select('e.topic', 'topic')
+      .addSelect(
+        `COUNT(*) FILTER (WHERE e.kind = :question)::int`,
+        'questionsAsked',
+      )
+      .addSelect(`COUNT(*) FILTER (WHERE e.kind = :answer)::int`, 'answered')
+      .addSelect(
+        `COUNT(*) FILTER (WHERE e.kind = :answer AND e.correct)::int`,
+        'correct',
+      )
+      .where('e.studentId = :studentId', { studentId })
+      .setParameters({
+        question: TopicEventKind.QUESTION,
+        answer: TopicEventKind.ANSWER,
+      })
+      .groupBy('e.topic')
+      .getRawMany<Omit<TopicProgressData, 'accuracy'>>();
+
+    const topics = rows
+      .map((row) => ({ ...row, accuracy: this.accuracy(row) }))
+      .sort(
+        (a, b) =>
+          b.questionsAsked + b.answered - (a.questionsAsked + a.answered),
+      );
+    const totals = topics.reduce(
+      (sum, topic) => ({
+        questionsAsked: sum.questionsAsked + topic.questionsAsked,
+        answered: sum.answered + topic.answered,
+        correct: sum.correct + topic.correct,
+      }),
+      { questionsAsked: 0, answered: 0, correct: 0 },
+    );
+    const weakestTopics = topics
+      .filter(
+        (topic) =>
+          topic.answered >= MIN_ANSWERS_FOR_WEAKNESS &&
+          topic.correct < topic.answered,
+      )
+      .sort((a, b) => (a.accuracy ?? 0) - (b.accuracy ?? 0))
+      .slice(0, MAX_WEAKEST_TOPICS);
+
+    return {
+      ...totals,
+      accuracy: this.accuracy(totals),
+      topics,
+      weakestTopics,
+    };
+  }
+
+  private accuracy({
+    answered,
+    correct,
+  }: {
+    answered: number;
+    correct: number;
+  }): number | null {
+    return answered > 0 ? correct / answered : null;
+  }
+}
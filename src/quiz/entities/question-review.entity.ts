@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Dominio de cada alumno sobre una pregunta del banco (repetición espaciada).
+ * Se crea cuando se equivoca en un quiz o simulacro.
+ */
+@Entity('question_reviews')
+@Index('UQ_question_reviews_student_question', ['studentId', 'questionId'], {
+  unique: true,
+})
+@Index('IDX_question_reviews_student_due', ['studentId', 'dueAt'])
+export class QuestionReview {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  studentId: string;
+
+  @Column({ type: 'uuid' })
+  questionId: string;
+
+  // Estado de SM-2 (ver spaced-repetition.ts)
+  @Column({ type: 'integer', default: 0 })
+  repetitions: number;
+
+  @Column({ type: 'real', default: 2.5 })
+  easeFactor: number;
+
+  @Column({ type: 'integer', default: 1 })
+  intervalDays: number;
+
+  @Column({ type: 'integer', default: 0 })
+  lapses: number;
+
+  // Desde cuándo toca repasarla
+  @Column({ type: 'timestamp' })
+  dueAt: Date;
+
+  @Column({ type: 'timestamp' })
+  lastReviewedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Banco de preguntas de práctica. Las arma el LLM a partir de la batería de
+ * preguntas del examen y se reutilizan entre alumnos (una llamada por pregunta
+ * nueva, no por cada quiz).
+ */
+@Entity('quiz_questions')
+export class QuizQuestion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Tema normalizado con el que se pidió (ej: "senales"); `null` = sin tema
+  @Index('IDX_quiz_questions_topic')
+  @Column({ type: 'varchar', nullable: true })
+  topic: string | null;
+
+  @Column({ type: 'text' })
+  question: string;
+
+  @Column({ type: 'jsonb' })
+  options: string[];
+
+  // Índice (desde 0) de la opción correcta
+  @Column({ type: 'integer' })
+  correctOption: number;
+
+  @Column({ type: 'text' })
+  explanation: string;
+
+  // Categoría de la base de conocimiento (ej: "Señales"), para el progreso por tema
+  @Column({ type: 'varchar', nullable: true })
+  category: string | null;
+
+  // Fragmento de knowledge_entries del que salió
+  @Column({ type: 'uuid', nullable: true })
+  sourceEntryId: string | null;
+
+  // Evita guardar dos veces la misma pregunta
+  @Index('UQ_quiz_questions_hash', { unique: true })
+  @Column({ type: 'varchar' })
+  contentHash: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { QuestionReview } from './entities/question-review.entity';
+import type {
+  QuestionReviewData,
+  QuestionReviewPort,
+} from '../whatsapp/ports/question-review.port';
+
+/**
+ * Adaptador: Implementa el puerto QuestionReviewPort usando TypeORM.
+ */
+@Injectable()
+export class QuestionReviewAdapter implements QuestionReviewPort {
+  constructor(
+    @InjectRepository(QuestionReview)
+    private readonly reviewRepository: Repository<QuestionReview>,
+  ) {}
+
+  async find(
+    studentId: string,
+    questionId: string,
+  ): Promise<QuestionReviewData | null> {
+    const review = await this.reviewRepository.findOneBy({
+      studentId,
+      questionId,
+    });
+
+    return review ? this.toData(review) : null;
+  }
+
+  async save(review: QuestionReviewData): Promise<void> {
+    await this.reviewRepository.upsert(review, ['studentId', 'questionId']);
+  }
+
+  async findDue(
+    studentId: string,
+    now: Date,
+    limit: number,
+  ): Promise<QuestionReviewData[]> {
+    const reviews = await this.reviewRepository.find({
+      where: { studentId, dueAt: LessThanOrEqual(now) },
+      order: { dueAt: 'ASC' },
+      take: limit,
+    });
+
+    return reviews.map((review) => this.toData(review));
+  }
+
+  countDue(studentId: string, now: Date): Promise<number> {
+    return this.reviewRepository.countBy({
+      studentId,
+      dueAt: LessThanOrEqual(now),
+    });
+  }
+
+  /**
+   * Mapper: Entidad -> DTO de dominio
+   */
+  private toData(review: QuestionReview): QuestionReviewData {
+    return {
+      studentId: review.studentId,
+      questionId: review.questionId,
+      repetitions: review.repetitions,
+      easeFactor: review.easeFactor,
+      intervalDays: review.intervalDays,
+      lapses: review.lapses,
+      dueAt: review.dueAt,
+      lastReviewedAt: review.lastReviewedAt,
+    };
+  }
+}
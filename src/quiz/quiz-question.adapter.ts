@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { In, Repository } from 'typeorm';
+import { QuizQuestion } from './entities/quiz-question.entity';
+import type {
+  NewQuizQuestion,
+  QuizQuestionData,
+  QuizQuestionPort,
+} from '../whatsapp/ports/quiz-question.port';
+
+/**
+ * Adaptador: Implementa el puerto QuizQuestionPort usando TypeORM.
+ */
+@Injectable()
+export class QuizQuestionAdapter implements QuizQuestionPort {
+  constructor(
+    @InjectRepository(QuizQuestion)
+    private readonly questionRepository: Repository<QuizQuestion>,
+  ) {}
+
+  async findRandom(
+    topic: string | null,
+    limit: number,
+    excludeIds: string[],
+  ): Promise<QuizQuestionData[]> {
+    const query = this.questionRepository
+      .createQueryBuilder('q')
+      .orderBy('RANDOM()')
+      .limit(limit);
+
+    if (topic) {
+      query.where('q.topic = :topic', { topic });
+    }
+
+    if (excludeIds.length > 0) {
+      query.andWhere('q.id NOT IN (:...excludeIds)', { excludeIds });
+    }
+
+    const questions = await query.getMany();
+
+    return questions.map((question) => this.toData(question));
+  }
+
+  async findByIds(ids: string[]): Promise<QuizQuestionData[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const questions = await this.questionRepository.findBy({ id: In(ids) });
+    const byId = new Map(questions.map((question) => [question.id, question]));
+
+    return ids
+      .map((id) => byId.get(id))
+      .filter((question): question is QuizQuestion => !!question)
+      .map((question) => this.toData(question));
+  }
+
+  async saveMany(questions: NewQuizQuestion[]): Promise<QuizQuestionData[]> {
+    if (questions.length === 0) {
+      return [];
+    }
+
+    const result = await this.questionRepository
+      .createQueryBuilder()
+      .insert()
+      .values(
+        questions.map((question) => ({
+          ...question,
+          contentHash: this.hash(question.question),
+        })),
+      )
+      .orIgnore()
+      .returning('*')
+      .execute();
+    const saved = result.raw as QuizQuestion[];
+
+    return saved.map((question) => this.toData(question));
+  }
+
+  private hash(question: string): string {
+    return createHash('sha256')
+      .update(question.trim().toLowerCase())
+      .digest('hex');
+  }
+
+  /**
+   * Mapper: Entidad -> DTO de dominio
+   */
+  private toData(question: QuizQuestion): QuizQuestionData {
+    return {
+      id: question.id,
+      topic: question.topic,
+      question: question.question,
+      options: question.options,
+      correctOption: question.correctOption,
+      explanation: question.explanation,
+      category: question.category,
+    };
+  }
+}
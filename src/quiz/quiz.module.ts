@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { QuizQuestion } from './entities/quiz-question.entity';
+import { QuizQuestionAdapter } from './quiz-question.adapter';
+import { QuestionReview } from './entities/question-review.entity';
+import { QuestionReviewAdapter } from './question-review.adapter';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([QuizQuestion, QuestionReview])],
+  providers: [QuizQuestionAdapter, QuestionReviewAdapter],
+  exports: [QuizQuestionAdapter, QuestionReviewAdapter],
+})
+export class QuizModule {}
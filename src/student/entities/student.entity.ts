@@ -4,10 +4,15 @@ import {
   PrimaryGeneratedColumn,
   CreateDateColumn,
   OneToMany,
+  Index,
 } from 'typeorm';
+import { Channel } from '../enums/channel.enum';
 import type { Conversation } from '../../conversation/entities/conversation.entity';
 
 @Entity('students')
+@Index('UQ_students_channel_external_id', ['channel', 'externalId'], {
+  unique: true,
+})
 export class Student {
   @PrimaryGeneratedColumn('uuid') // Usar UUID es más seguro y escalable que ID numérico
   id: string;
@@ -15,13 +20,40 @@ export class Student {
   @Column({ type: 'varchar', length: 50, nullable: true })
   name: string;
 
-  @Column({ type: 'varchar', unique: true }) // El teléfono es el identificador único de negocio
-  phoneNumber: string;
+  // Canal + id externo (teléfono o chat id de Telegram) identifican al alumno
+  @Column({ type: 'enum', enum: Channel, default: Channel.WHATSAPP })
+  channel: Channel;
+
+  @Column({ type: 'varchar' })
+  externalId: string;
+
+  // Solo alumnos de WhatsApp (Telegram no comparte el teléfono)
+  @Column({ type: 'varchar', unique: true, nullable: true })
+  phoneNumber: string | null;
 
   // --- NUEVO CAMPO: Fecha de Expiración ---
   @Column({ type: 'timestamp', nullable: true })
   accessExpiresAt: Date;
 
+  // Último mensaje recibido: define si podemos escribirle sin template
+  @Column({ type: 'timestamp', nullable: true })
+  lastInboundAt: Date | null;
+
+  // Pregunta diaria (opt-in): hora local argentina "HH:MM"
+  @Column({ default: false })
+  dailyQuestionEnabled: boolean;
+
+  @Column({ type: 'varchar', length: 5, nullable: true })
+  dailyQuestionTime: string | null;
+
+  // Último día (hora argentina) en que se le mandó: una por día
+  @Column({ type: 'date', nullable: true })
+  dailyQuestionLastSentOn: string | null;
+
+  // Marcado por faltar a varias clases (política de ausencias)
+  @Column({ type: 'timestamp', nullable: true })
+  noShowFlaggedAt: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,9 @@
+/**
+ * Canal de mensajería por el que el alumno habla con el bot.
+ */
+export enum Channel {
+  WHATSAPP = 'WHATSAPP',
+  TELEGRAM = 'TELEGRAM',
+  // Widget del sitio web (alumnos anónimos o ya registrados)
+  WEB = 'WEB',
+}
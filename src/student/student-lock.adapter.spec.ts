@@ -0,0 +1,162 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { StudentLockAdapter } from './student-lock.adapter';
+
+/**
+ * Pool y advisory locks en memoria: `connect` espera si no hay conexiones libres,
+ * igual que el pool de `pg`.
+ */
+class FakePostgres {
+  readonly locks = new Map<string, object>();
+  private readonly waiting: (() => void)[] = [];
+  connected = 0;
+
+  constructor(private readonly poolSize: number) {}
+
+  createQueryRunner() {
+    const session = {};
+    let connected = false;
+
+    return {
+      connect: async () => {
+        while (this.connected >= this.poolSize) {
+          await new Promise<void>((resolve) => this.waiting.push(resolve));
+        }
+
+        this.connected++;
+        connected = true;
+      },
+      release: () => {
+        if (connected) {
+          connected = false;
+          this.connected--;
+          this.waiting.shift()?.();
+        }
+
+        return Promise.resolve();
+      },
+      query: (sql: string, [key]: string[]) => {
+        if (sql.includes('pg_try_advisory_lock')) {
+          const owner = this.locks.get(key);
+          const locked = owner === undefined || owner === session;
+
+          if (locked) {
+            this.locks.set(key, session);
+          }
+
+          return Promise.resolve([{ locked }]);
+        }
+
+        if (sql.includes('pg_advisory_unlock')) {
+          this.locks.delete(key);
+        }
+
+        return Promise.resolve([]);
+      },
+    };
+  }
+}
+
+describe('StudentLockAdapter', () => {
+  const createAdapter = (postgres: FakePostgres, waitTimeoutMs?: string) =>
+    new StudentLockAdapter(
+      postgres as unknown as DataSource,
+      new ConfigService(
+        waitTimeoutMs ? { STUDENT_LOCK_WAIT_TIMEOUT_MS: waitTimeoutMs } : {},
+      ),
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should serialize contended tasks without exhausting the pool', async () => {
+    const postgres = new FakePostgres(3);
+    const adapter = createAdapter(postgres);
+    const order: number[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    // Cada tarea necesita otra conexión del mismo pool, como el flujo real
+    const tasks = Array.from({ length: 10 }, (_, index) =>
+      adapter.runExclusive('5491100000000', async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+
+        const runner = postgres.createQueryRunner();
+
+        await runner.connect();
+        await runner.release();
+
+        order.push(index);
+        running--;
+      }),
+    );
+
+    await jest.runAllTimersAsync();
+    await Promise.all(tasks);
+
+    expect(order).toHaveLength(10);
+    expect(maxRunning).toBe(1);
+    expect(postgres.connected).toBe(0);
+    expect(postgres.locks.size).toBe(0);
+  });
+
+  it('should run tasks for different keys in parallel', async () => {
+    const postgres = new FakePostgres(10);
+    const adapter = createAdapter(postgres);
+    let running = 0;
+    let maxRunning = 0;
+
+    const tasks = ['a', 'b', 'c'].map((key) =>
+      adapter.runExclusive(key, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+      }),
+    );
+
+    await jest.runAllTimersAsync();
+    await Promise.all(tasks);
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('should give up after the wait timeout and return the connection', async () => {
+    const postgres = new FakePostgres(3);
+    const adapter = createAdapter(postgres, '2000');
+
+    postgres.locks.set('student:5491100000000', {});
+
+    const task = jest.fn();
+    const result = adapter.runExclusive('5491100000000', task);
+    const assertion = expect(result).rejects.toThrow(
+      'Timeout esperando el lock student:5491100000000',
+    );
+
+    await jest.advanceTimersByTimeAsync(3000);
+    await assertion;
+
+    expect(task).not.toHaveBeenCalled();
+    expect(postgres.connected).toBe(0);
+  });
+
+  it('should release the lock when the task fails', async () => {
+    const postgres = new FakePostgres(3);
+    const adapter = createAdapter(postgres);
+
+    await expect(
+      adapter.runExclusive('5491100000000', () =>
+        Promise.reject(new Error('boom')),
+      ),
+    ).rejects.toThrow('boom');
+
+    expect(postgres.locks.size).toBe(0);
+    expect(postgres.connected).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, QueryRunner } from 'typeorm';
+import type { StudentLockPort } from '../whatsapp/ports/student-lock.port';
+
+const RETRY_BASE_MS = 50;
+const RETRY_MAX_MS = 1000;
+
+/**
+ * Adaptador: Implementa StudentLockPort con advisory locks de Postgres.
+ *
+ * Why: El lock es de sesión y vive en una conexión dedicada; si la instancia
+ * se cae, Postgres lo libera solo al cerrarse la conexión.
+ */
+@Injectable()
+export class StudentLockAdapter implements StudentLockPort {
+  private readonly waitTimeoutMs: number;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly configService: ConfigService,
+  ) {
+    const value = parseInt(
+      this.configService.get<string>('STUDENT_LOCK_WAIT_TIMEOUT_MS') ?? '',
+      10,
+    );
+
+    this.waitTimeoutMs = Number.isFinite(value) && value > 0 ? value : 30_000;
+  }
+
+  async runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const lockKey = `student:${key}`;
+    const queryRunner = await this.acquire(lockKey);
+
+    try {
+      return await task();
+    } finally {
+      try {
+        await queryRunner.query(
+          'SELECT pg_advisory_unlock(hashtextextended($1, 0))',
+          [lockKey],
+        );
+      } finally {
+        await queryRunner.release();
+      }
+    }
+  }
+
+  /**
+   * Toma el lock y devuelve la conexión que lo tiene.
+   *
+   * Why: Un `pg_advisory_lock` bloqueante deja al que espera ocupando una conexión
+   * del pool; con varios mensajes del mismo alumno en paralelo el pool se agota y
+   * `task()` ya no consigue conexión (deadlock). Con `pg_try_advisory_lock` la
+   * conexión se devuelve entre intentos y solo la ocupa quien tiene el lock.
+   */
+  private async acquire(lockKey: string): Promise<QueryRunner> {
+    const deadline = Date.now() + this.waitTimeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+      const queryRunner = this.dataSource.createQueryRunner();
+      let locked = false;
+
+      await queryRunner.connect();
+
+      try {
+        // hashtextextended convierte la key a bigint (lo que espera pg_advisory_lock)
+        const rows = (await queryRunner.query(
+          'SELECT pg_try_advisory_lock(hashtextextended($1, 0)) AS locked',
+          [lockKey],
+        )) as { locked: boolean }[];
+
+        locked = rows[0]?.locked === true;
+      } finally {
+        if (!locked) {
+          await queryRunner.release();
+        }
+      }
+
+      if (locked) {
+        return queryRunner;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timeout esperando el lock ${lockKey} (${this.waitTimeoutMs}ms)`,
+        );
+      }
+
+      const delay = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
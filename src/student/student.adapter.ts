@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Student } from './entities/student.entity';
+import { Channel } from './enums/channel.enum';
 import { StudentPort, StudentData } from '../whatsapp/ports/student.port';
 
 /**
@@ -14,8 +15,20 @@ export class StudentAdapter implements StudentPort {
     private readonly studentRepository: Repository<Student>,
   ) {}
 
-  async findByPhone(phoneNumber: string): Promise<StudentData | null> {
-    const student = await this.studentRepository.findOneBy({ phoneNumber });
+  async findById(studentId: string): Promise<StudentData | null> {
+    const student = await this.studentRepository.findOneBy({ id: studentId });
+
+    return student ? this.toData(student) : null;
+  }
+
+  async findByExternalId(
+    channel: Channel,
+    externalId: string,
+  ): Promise<StudentData | null> {
+    const student = await this.studentRepository.findOneBy({
+      channel,
+      externalId,
+    });
 
     if (!student) {
       return null;
@@ -24,9 +37,16 @@ export class StudentAdapter implements StudentPort {
     return this.toData(student);
   }
 
-  async create(phoneNumber: string, name: string): Promise<StudentData> {
+  async create(
+    channel: Channel,
+    externalId: string,
+    name: string,
+  ): Promise<StudentData> {
     const newStudent = this.studentRepository.create({
-      phoneNumber,
+      channel,
+      externalId,
+      // En WhatsApp el id externo ES el teléfono
+      phoneNumber: channel === Channel.WHATSAPP ? externalId : null,
       name,
     });
 
@@ -51,12 +71,115 @@ export class StudentAdapter implements StudentPort {
     return students.map((s) => this.toData(s));
   }
 
+  async touchLastInbound(studentId: string, at: Date): Promise<void> {
+    await this.studentRepository
+      .createQueryBuilder()
+      .update(Student)
+      .set({ lastInboundAt: at })
+      .where('id = :studentId', { studentId })
+      .andWhere('("lastInboundAt" IS NULL OR "lastInboundAt" < :at)', { at })
+      .execute();
+  }
+
+  async updateDailyQuestion(
+    studentId: string,
+    preferences: { enabled: boolean; time: string | null },
+  ): Promise<void> {
+    await this.studentRepository.update(studentId, {
+      dailyQuestionEnabled: preferences.enabled,
+      dailyQuestionTime: preferences.time,
+    });
+  }
+
+  async findDueForDailyQuestion(
+    today: string,
+    time: string,
+  ): Promise<StudentData[]> {
+    const students = await this.studentRepository
+      .createQueryBuilder('student')
+      .where('student.dailyQuestionEnabled = :enabled', { enabled: true })
+      .andWhere('student.isActive = :isActive', { isActive: true })
+      // Los visitantes web no tienen a dónde recibirla
+      .andWhere('student.channel != :web', { web: Channel.WEB })
+      .andWhere('student.accessExpiresAt > :now', { now: new Date() })
+      .andWhere('student.dailyQuestionTime <= :time', { time })
+      .andWhere(
+        '(student.dailyQuestionLastSentOn IS NULL OR student.dailyQuestionLastSentOn < :today)',
+        { today },
+      )
+      .getMany();
+
+    return students.map((s) => this.toData(s));
+  }
+
+  async claimDailyQuestion(studentId: string, today: string): Promise<boolean> {
+    const result = await this.studentRepository
+      .createQueryBuilder()
+      .update(Student)
+      .set({ dailyQuestionLastSentOn: today })
+      .where('id = :studentId', { studentId })
+      .andWhere(
+        '("dailyQuestionLastSentOn" IS NULL OR "dailyQuestionLastSentOn" < :today)',
+        { today },
+      )
+      .execute();
+
+    return result.affected === 1;
+  }
+
+  async setNoShowFlag(
+    studentId: string,
+    flaggedAt: Date | null,
+  ): Promise<void> {
+    await this.studentRepository.update(studentId, {
+      noShowFlaggedAt: flaggedAt,
+    });
+  }
+
+  async deleteInactiveVisitors(before: Date): Promise<number> {
+    return this.studentRepository.manager.transaction(async (manager) => {
+      const rows: { id: string }[] = await manager.query(
+        `SELECT "id" FROM "students"
+         WHERE "channel" = $1 AND COALESCE("lastInboundAt", "createdAt") < $2
+         FOR UPDATE SKIP LOCKED`,
+        [Channel.WEB, before],
+      );
+      const ids = rows.map((row) => row.id);
+
+      if (ids.length === 0) {
+        return 0;
+      }
+
+      // Las tablas sin FK a students no se borran solas (las con FK caen en cascada)
+      for (const table of [
+        'notifications',
+        'question_reviews',
+        'conversations',
+      ]) {
+        await manager.query(
+          `DELETE FROM "${table}" WHERE "studentId" = ANY($1)`,
+          [ids],
+        );
+      }
+
+      await manager.delete(Student, ids);
+
+      return ids.length;
+    });
+  }
+
   private toData(student: Student): StudentData {
     return {
       id: student.id,
       name: student.name,
+      channel: student.channel,
+      externalId: student.externalId,
       phoneNumber: student.phoneNumber,
       accessExpiresAt: student.accessExpiresAt,
+      lastInboundAt: student.lastInboundAt,
+      dailyQuestionEnabled: student.dailyQuestionEnabled,
+      dailyQuestionTime: student.dailyQuestionTime,
+      noShowFlaggedAt: student.noShowFlaggedAt,
     };
   }
 }
@@ -2,6 +2,7 @@ import { Injectable, ConflictException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Student } from './entities/student.entity';
+import { Channel } from './enums/channel.enum';
 
 @Injectable()
 export class StudentService {
@@ -11,7 +12,10 @@ export class StudentService {
   ) {}
 
   async findOneByPhone(phoneNumber: string): Promise<Student | null> {
-    return this.studentRepository.findOneBy({ phoneNumber });
+    return this.studentRepository.findOneBy({
+      channel: Channel.WHATSAPP,
+      externalId: phoneNumber,
+    });
   }
 
   /**
@@ -38,6 +42,8 @@ export class StudentService {
     accessExpiresAt.setDate(accessExpiresAt.getDate() + 30);
 
     const newStudent = this.studentRepository.create({
+      channel: Channel.WHATSAPP,
+      externalId: phoneNumber,
       phoneNumber,
       name,
       accessExpiresAt,
@@ -0,0 +1,49 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { lastValueFrom } from 'rxjs';
+import type { TranscriptionPort } from '../whatsapp/ports/transcription.port';
+
+/**
+ * Adaptador: Transcribe audio con la API de OpenAI (Whisper).
+ */
+@Injectable()
+export class OpenAiTranscriptionAdapter implements TranscriptionPort {
+  private readonly logger = new Logger(OpenAiTranscriptionAdapter.name);
+  private readonly apiUrl = 'https://api.openai.com/v1/audio/transcriptions';
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService,
+  ) {}
+
+  async transcribe(audio: Buffer, mimeType: string): Promise<string | null> {
+    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+    const model =
+      this.configService.get<string>('TRANSCRIPTION_MODEL') ?? 'whisper-1';
+    const form = new FormData();
+
+    // WhatsApp manda las notas de voz como "audio/ogg; codecs=opus"
+    const baseMimeType = mimeType.split(';')[0].trim();
+    const extension = baseMimeType.split('/')[1] ?? 'ogg';
+
+    form.append(
+      'file',
+      new Blob([new Uint8Array(audio)], { type: baseMimeType }),
+      `audio.${extension}`,
+    );
+    form.append('model', model);
+    form.append('language', 'es');
+
+    const response = await lastValueFrom(
+      this.httpService.post<{ text?: string }>(this.apiUrl, form, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+        timeout: 30_000,
+      }),
+    );
+    const text = response.data.text?.trim() ?? '';
+
+    this.logger.debug(`🎙️ Audio transcripto (${text.length} caracteres)`);
+    return text.length > 0 ? text : null;
+  }
+}
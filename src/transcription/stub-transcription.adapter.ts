@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { TranscriptionPort } from '../whatsapp/ports/transcription.port';
+
+/**
+ * Adaptador local: Devuelve un texto fijo sin llamar a ningún proveedor.
+ * Pensado para tests y desarrollo (TRANSCRIPTION_PROVIDER=stub).
+ */
+@Injectable()
+export class StubTranscriptionAdapter implements TranscriptionPort {
+  constructor(private readonly configService: ConfigService) {}
+
+  transcribe(): Promise<string | null> {
+    return Promise.resolve(
+      this.configService.get<string>('TRANSCRIPTION_STUB_TEXT') ??
+        '¿Cuál es la velocidad máxima en una avenida?',
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Channel } from '../../student/enums/channel.enum';
+import { WHATSAPP_PROVIDER } from '../ports/whatsapp-provider.port';
+import type { WhatsappProviderPort } from '../ports/whatsapp-provider.port';
+import type { ChannelMessengerPort } from '../ports/channel-messenger.port';
+import { TelegramProviderAdapter } from '../telegram/telegram-provider.adapter';
+import { TELEGRAM_CALLBACK_PREFIX } from '../telegram/telegram.utils';
+import { WebChatProviderAdapter } from '../web-chat/web-chat-provider.adapter';
+import type { ChannelAddress } from '../types/inbound-message.type';
+import type { WhatsappMedia } from '../types/whatsapp-media.type';
+import type { WhatsappSendMessageResponse } from '../types/whatsapp-send-message-response.type';
+import type {
+  WhatsappListMessage,
+  WhatsappOutboundMedia,
+  WhatsappReadOptions,
+  WhatsappReplyButton,
+  WhatsappSendOptions,
+} from '../types/whatsapp-outbound.type';
+
+/**
+ * Adaptador: Enruta cada envío al proveedor del canal del destinatario.
+ */
+@Injectable()
+export class ChannelMessengerAdapter implements ChannelMessengerPort {
+  constructor(
+    @Inject(WHATSAPP_PROVIDER)
+    private readonly whatsappProvider: WhatsappProviderPort,
+    private readonly telegramProvider: TelegramProviderAdapter,
+    private readonly webChatProvider: WebChatProviderAdapter,
+  ) {}
+
+  async sendText(
+    to: ChannelAddress,
+    text: string,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    if (to.channel === Channel.TELEGRAM) {
+      return this.telegramProvider.sendText(to.externalId, text, options);
+    }
+
+    if (to.channel === Channel.WEB) {
+      return this.webChatProvider.sendText(to.externalId, text, options);
+    }
+
+    return this.messageId(
+      await this.whatsappProvider.sendMessage(to.externalId, text, options),
+    );
+  }
+
+  async sendReplyButtons(
+    to: ChannelAddress,
+    body: string,
+    buttons: WhatsappReplyButton[],
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    if (to.channel === Channel.TELEGRAM) {
+      return this.telegramProvider.sendButtons(
+        to.externalId,
+        body,
+        buttons,
+        options,
+      );
+    }
+
+    if (to.channel === Channel.WEB) {
+      return this.webChatProvider.sendButtons(
+        to.externalId,
+        body,
+        buttons,
+        options,
+      );
+    }
+
+    return this.messageId(
+      await this.whatsappProvider.sendReplyButtons(
+        to.externalId,
+        body,
+        buttons,
+        options,
+      ),
+    );
+  }
+
+  async sendList(
+    to: ChannelAddress,
+    list: WhatsappListMessage,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    if (to.channel === Channel.TELEGRAM) {
+      return this.telegramProvider.sendList(to.externalId, list, options);
+    }
+
+    if (to.channel === Channel.WEB) {
+      return this.webChatProvider.sendList(to.externalId, list, options);
+    }
+
+    return this.messageId(
+      await this.whatsappProvider.sendList(to.externalId, list, options),
+    );
+  }
+
+  async sendMedia(
+    to: ChannelAddress,
+    media: WhatsappOutboundMedia,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    if (to.channel === Channel.TELEGRAM) {
+      return this.telegramProvider.sendMedia(to.externalId, media, options);
+    }
+
+    if (to.channel === Channel.WEB) {
+      return this.webChatProvider.sendMedia(to.externalId, media, options);
+    }
+
+    return this.messageId(
+      await this.whatsappProvider.sendMedia(to.externalId, media, options),
+    );
+  }
+
+  async sendReaction(
+    to: ChannelAddress,
+    messageId: string,
+    emoji: string,
+  ): Promise<void> {
+    if (to.channel === Channel.TELEGRAM) {
+      // A un toque de botón no se le puede reaccionar
+      if (!messageId.startsWith(TELEGRAM_CALLBACK_PREFIX)) {
+        await this.telegramProvider.setReaction(
+          to.externalId,
+          messageId,
+          emoji,
+        );
+      }
+      return;
+    }
+
+    // El widget no muestra reacciones
+    if (to.channel === Channel.WEB) {
+      return;
+    }
+
+    await this.whatsappProvider.sendReaction(to.externalId, messageId, emoji);
+  }
+
+  async markAsRead(
+    to: ChannelAddress,
+    messageId: string,
+    options?: WhatsappReadOptions,
+  ): Promise<void> {
+    if (to.channel === Channel.TELEGRAM) {
+      // Telegram no tiene confirmación de lectura para bots
+      if (messageId.startsWith(TELEGRAM_CALLBACK_PREFIX)) {
+        await this.telegramProvider.answerCallbackQuery(
+          messageId.slice(TELEGRAM_CALLBACK_PREFIX.length),
+        );
+      }
+
+      if (options?.showTyping) {
+        await this.telegramProvider.sendTyping(to.externalId);
+      }
+      return;
+    }
+
+    if (to.channel === Channel.WEB) {
+      if (options?.showTyping) {
+        this.webChatProvider.sendTyping(to.externalId);
+      }
+      return;
+    }
+
+    await this.whatsappProvider.markAsRead(messageId, options);
+  }
+
+  async downloadMedia(
+    to: ChannelAddress,
+    mediaId: string,
+  ): Promise<WhatsappMedia | undefined> {
+    switch (to.channel) {
+      case Channel.TELEGRAM:
+        return this.telegramProvider.downloadFile(mediaId);
+      case Channel.WEB:
+        // El widget solo manda texto y botones
+        return undefined;
+      default:
+        return this.whatsappProvider.downloadMedia(mediaId);
+    }
+  }
+
+  private messageId(
+    response: WhatsappSendMessageResponse | undefined,
+  ): string | null {
+    return response?.messages?.[0]?.id ?? null;
+  }
+}
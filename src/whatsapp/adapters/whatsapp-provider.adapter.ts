@@ -4,10 +4,20 @@ import { HttpService } from '@nestjs/axios';
 import { lastValueFrom } from 'rxjs';
 import { WhatsappProviderPort } from '../ports/whatsapp-provider.port';
 import { WhatsappSendMessageResponse } from '../types/whatsapp-send-message-response.type';
+import { WhatsappMedia } from '../types/whatsapp-media.type';
+import {
+  WhatsappListMessage,
+  WhatsappOutboundMedia,
+  WhatsappReadOptions,
+  WhatsappReplyButton,
+  WhatsappSendOptions,
+  WhatsappTemplate,
+} from '../types/whatsapp-outbound.type';
 import { extractWhatsappSendMessageErrorMessage } from '../utils/whatsapp.utils';
 
 /**
- * Adaptador: Implementa el envío de mensajes usando HttpService (Axios).
+ * Adaptador: Implementa el envío de mensajes usando HttpService (Axios)
+ * contra la Graph API de Meta (Cloud API).
  */
 @Injectable()
 export class WhatsappProviderAdapter implements WhatsappProviderPort {
@@ -22,15 +32,200 @@ export class WhatsappProviderAdapter implements WhatsappProviderPort {
   async sendMessage(
     to: string,
     text: string,
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    return this.post(
+      to,
+      { type: 'text', text: { body: text } },
+      'Mensaje',
+      options,
+    );
+  }
+
+  async sendReplyButtons(
+    to: string,
+    body: string,
+    buttons: WhatsappReplyButton[],
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    return this.post(
+      to,
+      {
+        type: 'interactive',
+        interactive: {
+          type: 'button',
+          body: { text: body },
+          action: {
+            buttons: buttons.map((button) => ({
+              type: 'reply',
+              reply: { id: button.id, title: button.title },
+            })),
+          },
+        },
+      },
+      'Botones',
+      options,
+    );
+  }
+
+  async sendList(
+    to: string,
+    list: WhatsappListMessage,
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    return this.post(
+      to,
+      {
+        type: 'interactive',
+        interactive: {
+          type: 'list',
+          ...(list.header && { header: { type: 'text', text: list.header } }),
+          body: { text: list.body },
+          ...(list.footer && { footer: { text: list.footer } }),
+          action: {
+            button: list.buttonText,
+            sections: list.sections,
+          },
+        },
+      },
+      'Lista',
+      options,
+    );
+  }
+
+  async sendMedia(
+    to: string,
+    media: WhatsappOutboundMedia,
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    const { type, ...content } = media;
+
+    return this.post(to, { type, [type]: content }, `Media (${type})`, options);
+  }
+
+  async sendTemplate(
+    to: string,
+    template: WhatsappTemplate,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    return this.post(
+      to,
+      {
+        type: 'template',
+        template: {
+          name: template.name,
+          language: { code: template.languageCode },
+          components: template.components?.map((component) => ({
+            type: component.type,
+            parameters: component.parameters,
+            ...(component.subType && { sub_type: component.subType }),
+            ...(component.index !== undefined && {
+              index: String(component.index),
+            }),
+          })),
+        },
+      },
+      `Template ${template.name}`,
+    );
+  }
+
+  async sendReaction(
+    to: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    return this.post(
+      to,
+      { type: 'reaction', reaction: { message_id: messageId, emoji } },
+      'Reacción',
+    );
+  }
+
+  async markAsRead(
+    messageId: string,
+    options?: WhatsappReadOptions,
+  ): Promise<boolean> {
+    const token = this.configService.get<string>('WHATSAPP_API_TOKEN');
+    const phoneId = this.configService.get<string>('WHATSAPP_PHONE_ID');
+    const url = `${this.apiUrl}/${phoneId}/messages`;
+    const data = {
+      messaging_product: 'whatsapp',
+      status: 'read',
+      message_id: messageId,
+      ...(options?.showTyping && { typing_indicator: { type: 'text' } }),
+    };
+    const headers = {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+
+    try {
+      await lastValueFrom(this.httpService.post(url, data, { headers }));
+      return true;
+    } catch (error: unknown) {
+      const errorMessage = extractWhatsappSendMessageErrorMessage(error);
+
+      this.logger.warn(
+        `⚠️ No se pudo marcar como leído ${messageId}: ${errorMessage}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * La Graph API entrega la media en dos pasos: primero la URL temporal
+   * (`GET /{media-id}`) y después el binario, ambos con el token de la app.
+   */
+  async downloadMedia(mediaId: string): Promise<WhatsappMedia | undefined> {
+    const token = this.configService.get<string>('WHATSAPP_API_TOKEN');
+    const headers = { Authorization: `Bearer ${token}` };
+
+    try {
+      const metadata = await lastValueFrom(
+        this.httpService.get<{ url: string; mime_type: string }>(
+          `${this.apiUrl}/${mediaId}`,
+          { headers },
+        ),
+      );
+      const file = await lastValueFrom(
+        this.httpService.get<ArrayBuffer>(metadata.data.url, {
+          headers,
+          responseType: 'arraybuffer',
+        }),
+      );
+
+      return {
+        data: Buffer.from(file.data),
+        mimeType: metadata.data.mime_type,
+      };
+    } catch (error: unknown) {
+      const errorMessage = extractWhatsappSendMessageErrorMessage(error);
+
+      this.logger.error(
+        `❌ Error descargando media ${mediaId}: ${errorMessage}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Todos los envíos comparten endpoint y sobre (`messaging_product`, `to`,
+   * `context`); cada método solo arma la parte específica de su tipo.
+   */
+  private async post(
+    to: string,
+    content: Record<string, unknown>,
+    description: string,
+    options?: WhatsappSendOptions,
   ): Promise<WhatsappSendMessageResponse | undefined> {
     const token = this.configService.get<string>('WHATSAPP_API_TOKEN');
     const phoneId = this.configService.get<string>('WHATSAPP_PHONE_ID');
     const url = `${this.apiUrl}/${phoneId}/messages`;
     const data = {
       messaging_product: 'whatsapp',
+      recipient_type: 'individual',
       to,
-      text: { body: text },
-      type: 'text',
+      ...(options?.replyTo && { context: { message_id: options.replyTo } }),
+      ...content,
     };
     const headers = {
       Authorization: `Bearer ${token}`,
@@ -44,12 +239,14 @@ export class WhatsappProviderAdapter implements WhatsappProviderPort {
         }),
       );
 
-      this.logger.log(`✅ Mensaje enviado a ${to}`);
+      this.logger.log(`✅ ${description} enviado a ${to}`);
       return response.data;
     } catch (error: unknown) {
       const errorMessage = extractWhatsappSendMessageErrorMessage(error);
 
-      this.logger.error(`❌ Error enviando mensaje: ${errorMessage}`);
+      this.logger.error(
+        `❌ Error enviando ${description.toLowerCase()}: ${errorMessage}`,
+      );
       return undefined;
     }
   }
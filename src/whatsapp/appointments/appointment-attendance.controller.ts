@@ -0,0 +1,60 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminApiKeyGuard } from '../../common/guards/admin-api-key.guard';
+import { NoShowPolicyService } from './no-show-policy.service';
+
+@Controller('admin/calendar')
+@UseGuards(AdminApiKeyGuard)
+export class AppointmentAttendanceController {
+  constructor(private readonly noShowPolicyService: NoShowPolicyService) {}
+
+  /**
+   * El instructor marca si el alumno vino (una vez empezada la clase).
+   * Una falta puede disparar la política de ausencias (NO_SHOW_POLICY).
+   * Ejemplo: POST /admin/calendar/appointments/:id/attendance { "attended": false }
+   */
+  @Post('appointments/:id/attendance')
+  async markAttendance(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: { attended?: unknown } | undefined,
+  ) {
+    if (typeof body?.attended !== 'boolean') {
+      throw new BadRequestException('"attended" debe ser true o false');
+    }
+
+    const result = await this.noShowPolicyService.markAttendance(
+      id,
+      body.attended,
+    );
+
+    if (!result) {
+      throw new NotFoundException(
+        'No hay un turno reservado con ese id que ya haya empezado',
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Levanta la marca por faltas de un alumno.
+   * Ejemplo: DELETE /admin/calendar/students/:id/no-show-flag
+   */
+  @Delete('students/:id/no-show-flag')
+  @HttpCode(204)
+  async clearNoShowFlag(
+    @Param('id', ParseUUIDPipe) studentId: string,
+  ): Promise<void> {
+    await this.noShowPolicyService.clearFlag(studentId);
+  }
+}
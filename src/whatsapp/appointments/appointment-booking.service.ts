@@ -0,0 +1,211 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { APPOINTMENT_PORT } from '../ports';
+import type {
+  AppointmentData,
+  AppointmentPort,
+  SlotData,
+} from '../ports/appointment.port';
+import { argentinaDate, argentinaDateTime } from '../utils/argentina-time';
+
+export type AvailableDay = {
+  // YYYY-MM-DD, hora argentina
+  date: string;
+  slots: SlotData[];
+};
+
+/**
+ * Reglas de la reserva de turnos: qué horarios se ofrecen y quién puede
+ * cancelar o cambiar cada turno.
+ */
+@Injectable()
+export class AppointmentBookingService {
+  private readonly logger = new Logger(AppointmentBookingService.name);
+
+  // Hasta cuántos días para adelante se puede reservar
+  private readonly daysAhead: number;
+  // Anticipación mínima: el instructor tiene que enterarse a tiempo
+  private readonly minNoticeMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(APPOINTMENT_PORT)
+    private readonly appointmentPort: AppointmentPort,
+  ) {
+    this.daysAhead = parseInt(
+      this.configService.get<string>('BOOKING_DAYS_AHEAD') ?? '14',
+      10,
+    );
+
+    const minNoticeHours = parseFloat(
+      this.configService.get<string>('BOOKING_MIN_NOTICE_HOURS') ?? '2',
+    );
+    this.minNoticeMs = minNoticeHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Días con horarios libres, del más próximo al más lejano.
+   */
+  async findAvailableDays(now: Date = new Date()): Promise<AvailableDay[]> {
+    const lastDay = argentinaDate(
+      new Date(now.getTime() + this.daysAhead * 24 * 60 * 60 * 1000),
+    );
+    const slots = await this.appointmentPort.findAvailableSlots(
+      this.earliestStart(now),
+      argentinaDateTime(lastDay, '23:59'),
+    );
+    const days = new Map<string, SlotData[]>();
+
+    for (const slot of slots) {
+      const date = argentinaDate(slot.startsAt);
+
+      days.set(date, [...(days.get(date) ?? []), slot]);
+    }
+
+    return [...days].map(([date, daySlots]) => ({ date, slots: daySlots }));
+  }
+
+  async findAvailableSlots(
+    date: string,
+    now: Date = new Date(),
+  ): Promise<SlotData[]> {
+    const dayStart = argentinaDateTime(date, '00:00');
+    const earliest = this.earliestStart(now);
+
+    return this.appointmentPort.findAvailableSlots(
+      dayStart > earliest ? dayStart : earliest,
+      argentinaDateTime(date, '23:59'),
+    );
+  }
+
+  findSlot(slotId: string): Promise<SlotData | null> {
+    return this.appointmentPort.findSlot(slotId);
+  }
+
+  /**
+   * Turno vigente del alumno que se superpone con el horario, sin contar
+   * `rescheduleId` (el que se está cambiando).
+   */
+  async findOverlapping(
+    studentId: string,
+    slot: SlotData,
+    rescheduleId?: string,
+  ): Promise<AppointmentData | null> {
+    const upcoming = await this.findUpcoming(studentId);
+
+    return (
+      upcoming.find(
+        (appointment) =>
+          appointment.id !== rescheduleId &&
+          appointment.slot.startsAt < slot.endsAt &&
+          slot.startsAt < appointment.slot.endsAt,
+      ) ?? null
+    );
+  }
+
+  /**
+   * Reserva el horario (o mueve ahí el turno `rescheduleId`).
+   * @returns `null` si el horario ya no está disponible o se superpone con
+   * otro turno del alumno.
+   */
+  async book(
+    studentId: string,
+    slotId: string,
+    rescheduleId?: string,
+  ): Promise<AppointmentData | null> {
+    const slot = await this.appointmentPort.findSlot(slotId);
+
+    if (!slot || slot.startsAt < this.earliestStart(new Date())) {
+      return null;
+    }
+
+    if (await this.findOverlapping(studentId, slot, rescheduleId)) {
+      return null;
+    }
+
+    if (rescheduleId) {
+      const current = await this.findOwned(studentId, rescheduleId);
+
+      if (!current) {
+        return null;
+      }
+
+      const moved = await this.appointmentPort.reschedule(current.id, slotId);
+
+      if (moved) {
+        this.logger.log(
+          `📅 Turno ${current.id} de ${studentId} movido a ${slotId}`,
+        );
+      }
+
+      return moved;
+    }
+
+    const appointment = await this.appointmentPort.book(studentId, slotId);
+
+    if (appointment) {
+      this.logger.log(`📅 Turno ${appointment.id} reservado por ${studentId}`);
+    }
+
+    return appointment;
+  }
+
+  findUpcoming(studentId: string): Promise<AppointmentData[]> {
+    return this.appointmentPort.findUpcomingByStudent(studentId, new Date());
+  }
+
+  /**
+   * @returns el turno cancelado o `null` si no era un turno vigente del alumno.
+   */
+  async cancel(
+    studentId: string,
+    appointmentId: string,
+  ): Promise<AppointmentData | null> {
+    const appointment = await this.findOwned(studentId, appointmentId);
+
+    if (!appointment || !(await this.appointmentPort.cancel(appointment.id))) {
+      return null;
+    }
+
+    this.logger.log(`📅 Turno ${appointment.id} cancelado por ${studentId}`);
+
+    return appointment;
+  }
+
+  /**
+   * El alumno confirma que viene (botón del recordatorio).
+   * @returns el turno o `null` si no era un turno vigente del alumno.
+   */
+  async confirm(
+    studentId: string,
+    appointmentId: string,
+  ): Promise<AppointmentData | null> {
+    const appointment = await this.findOwned(studentId, appointmentId);
+
+    if (!appointment || !(await this.appointmentPort.confirm(appointment.id))) {
+      return null;
+    }
+
+    this.logger.log(`📅 Turno ${appointment.id} confirmado por ${studentId}`);
+
+    return appointment;
+  }
+
+  private async findOwned(
+    studentId: string,
+    appointmentId: string,
+  ): Promise<AppointmentData | null> {
+    const appointment = await this.appointmentPort.findById(appointmentId);
+
+    // Una clase que ya empezó no se cancela ni se cambia
+    return appointment?.studentId === studentId &&
+      appointment.status === 'BOOKED' &&
+      appointment.slot.startsAt > new Date()
+      ? appointment
+      : null;
+  }
+
+  private earliestStart(now: Date): Date {
+    return new Date(now.getTime() + this.minNoticeMs);
+  }
+}
@@ -0,0 +1,31 @@
+import type { SlotData } from '../ports/appointment.port';
+import { argentinaDate, argentinaTime } from '../utils/argentina-time';
+
+const WEEKDAYS = [
+  'domingo',
+  'lunes',
+  'martes',
+  'miércoles',
+  'jueves',
+  'viernes',
+  'sábado',
+];
+
+/**
+ * "martes 3/3" para un día `YYYY-MM-DD`.
+ */
+export function formatDay(date: string): string {
+  // Mediodía UTC: el día de la semana no depende del huso del servidor
+  const day = new Date(`${date}T12:00:00Z`);
+
+  return `${WEEKDAYS[day.getUTCDay()]} ${day.getUTCDate()}/${day.getUTCMonth() + 1}`;
+}
+
+/**
+ * "martes 3/3 a las 10:00 con Carlos (Fiat Cronos)".
+ */
+export function formatSlot(slot: SlotData): string {
+  const vehicle = slot.vehicleName ? ` (${slot.vehicleName})` : '';
+
+  return `${formatDay(argentinaDate(slot.startsAt))} a las ${argentinaTime(slot.startsAt)} con ${slot.instructorName}${vehicle}`;
+}
@@ -0,0 +1,113 @@
+import type { ConfigService } from '@nestjs/config';
+import { Channel } from '../../student/enums/channel.enum';
+import type { NotificationService } from '../notifications/notification.service';
+import type { AppointmentPort, ReminderKind } from '../ports/appointment.port';
+import type { StudentPort } from '../ports/student.port';
+import type { ReplyService } from '../replies/reply.service';
+import { AppointmentReminderService } from './appointment-reminder.service';
+
+describe('AppointmentReminderService', () => {
+  const now = new Date('2026-03-02T11:00:00Z');
+  const student = {
+    id: 'student-1',
+    name: 'Ana',
+    channel: Channel.WHATSAPP,
+    externalId: '541122334455',
+    phoneNumber: '541122334455',
+  };
+  const appointment = {
+    id: 'appointment-1',
+    studentId: 'student-1',
+    status: 'BOOKED' as const,
+    confirmedAt: null,
+    slot: {
+      id: 'slot-1',
+      startsAt: new Date('2026-03-02T13:00:00Z'),
+      endsAt: new Date('2026-03-02T14:00:00Z'),
+      instructorName: 'Carlos',
+      vehicleName: null,
+    },
+  };
+
+  const findDueReminders = jest.fn();
+  const claimReminder = jest.fn();
+  const findById = jest.fn();
+  const canSendFreeForm = jest.fn();
+  const notify = jest.fn();
+  const sendButtons = jest.fn();
+
+  const buildService = () =>
+    new AppointmentReminderService(
+      { get: () => undefined } as unknown as ConfigService,
+      { findDueReminders, claimReminder } as unknown as AppointmentPort,
+      { findById } as unknown as StudentPort,
+      { canSendFreeForm, notify } as unknown as NotificationService,
+      { sendButtons } as unknown as ReplyService,
+    );
+
+  const dueFor = (due: ReminderKind) => (kind: ReminderKind) =>
+    Promise.resolve(kind === due ? [appointment] : []);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    claimReminder.mockResolvedValue(true);
+    findById.mockResolvedValue(student);
+    canSendFreeForm.mockReturnValue(true);
+    notify.mockResolvedValue(true);
+  });
+
+  it('should send the buttons and claim the 24h reminder along with the 2h one', async () => {
+    findDueReminders.mockImplementation(dueFor('2h'));
+
+    const sent = await buildService().sendDue(now);
+
+    expect(sent).toBe(1);
+    expect(claimReminder).toHaveBeenCalledWith('appointment-1', '2h');
+    expect(claimReminder).toHaveBeenCalledWith('appointment-1', '24h');
+    expect(sendButtons).toHaveBeenCalledWith(
+      student,
+      expect.stringContaining('te recordamos tu clase de manejo'),
+      [
+        expect.objectContaining({ id: 'appt:confirm:appointment-1' }),
+        expect.objectContaining({ id: 'appt:cancel:appointment-1' }),
+      ],
+    );
+  });
+
+  it('should only claim its own kind for the 24h reminder', async () => {
+    findDueReminders.mockImplementation(dueFor('24h'));
+
+    await buildService().sendDue(now);
+
+    expect(claimReminder).toHaveBeenCalledTimes(1);
+    expect(claimReminder).toHaveBeenCalledWith('appointment-1', '24h');
+  });
+
+  it('should fall back to the template when the window is closed', async () => {
+    findDueReminders.mockImplementation(dueFor('2h'));
+    canSendFreeForm.mockReturnValue(false);
+
+    const sent = await buildService().sendDue(now);
+
+    expect(sent).toBe(1);
+    expect(sendButtons).not.toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledWith(student, 'class_reminder', {
+      name: 'Ana',
+      date: expect.any(String) as string,
+      time: '10:00',
+    });
+  });
+
+  it('should skip the send when the claim fails', async () => {
+    findDueReminders.mockImplementation(dueFor('2h'));
+    claimReminder.mockResolvedValue(false);
+
+    const sent = await buildService().sendDue(now);
+
+    expect(sent).toBe(0);
+    expect(claimReminder).toHaveBeenCalledTimes(1);
+    expect(findById).not.toHaveBeenCalled();
+    expect(sendButtons).not.toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
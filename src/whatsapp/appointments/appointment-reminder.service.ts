@@ -0,0 +1,190 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { APPOINTMENT_PORT, STUDENT_PORT } from '../ports';
+import type {
+  AppointmentData,
+  AppointmentPort,
+  ReminderKind,
+} from '../ports/appointment.port';
+import type { StudentData, StudentPort } from '../ports/student.port';
+import { NotificationService } from '../notifications/notification.service';
+import { ReplyService } from '../replies/reply.service';
+import { argentinaDate, argentinaTime } from '../utils/argentina-time';
+import { formatDay, formatSlot } from './appointment-format.utils';
+
+// Los botones traen `appt:<confirm|cancel>:<turno>` como id
+export const REMINDER_REPLY_PREFIX = 'appt:';
+
+const HOUR_MS = 60 * 60 * 1000;
+// El de 2h va primero: si los dos vencieron juntos (ej: el proceso estuvo caído), sale solo ése
+const REMINDERS: Array<{ kind: ReminderKind; leadMs: number }> = [
+  { kind: '2h', leadMs: 2 * HOUR_MS },
+  { kind: '24h', leadMs: 24 * HOUR_MS },
+];
+
+/**
+ * Recordatorios de clases de manejo, 24h y 2h antes, con botones para
+ * confirmar o cancelar.
+ *
+ * Why: Con la ventana de 24h de WhatsApp cerrada no se pueden mandar
+ * botones: sale el template `recordatorio_clase` (el alumno puede responder
+ * *cancelar turno*).
+ */
+@Injectable()
+export class AppointmentReminderService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(AppointmentReminderService.name);
+
+  private readonly intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(APPOINTMENT_PORT)
+    private readonly appointmentPort: AppointmentPort,
+    @Inject(STUDENT_PORT)
+    private readonly studentPort: StudentPort,
+    private readonly notificationService: NotificationService,
+    private readonly replyService: ReplyService,
+  ) {
+    const intervalMinutes = parseFloat(
+      this.configService.get<string>('APPOINTMENT_REMINDER_INTERVAL_MINUTES') ??
+        '5',
+    );
+    this.intervalMs = intervalMinutes * 60 * 1000;
+  }
+
+  onModuleInit(): void {
+    if (this.intervalMs <= 0) {
+      this.logger.log('⏰ Recordatorios de turnos desactivados');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.sendDue();
+    }, this.intervalMs);
+    this.logger.log(
+      `⏰ Recordatorios de turnos: revisión cada ${this.intervalMs / 60_000} min`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.log('🛑 Recordatorios de turnos detenidos');
+    }
+  }
+
+  /**
+   * Manda los recordatorios que vencieron.
+   * @returns cuántos se mandaron.
+   */
+  async sendDue(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let sent = 0;
+
+    try {
+      for (const { kind, leadMs } of REMINDERS) {
+        const appointments = await this.appointmentPort.findDueReminders(
+          kind,
+          leadMs,
+          now,
+        );
+
+        for (const appointment of appointments) {
+          if (await this.remind(appointment, kind)) {
+            sent++;
+          }
+        }
+      }
+
+      if (sent > 0) {
+        this.logger.log(`⏰ ${sent} recordatorios de turnos enviados`);
+      }
+    } catch (error) {
+      const err = error as Error;
+
+      this.logger.error(
+        `Error mandando recordatorios de turnos: ${err.message}`,
+        err.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+
+    return sent;
+  }
+
+  private async remind(
+    appointment: AppointmentData,
+    kind: ReminderKind,
+  ): Promise<boolean> {
+    // Se marca antes de mandar: ante un error, mejor ninguno que dos
+    if (!(await this.appointmentPort.claimReminder(appointment.id, kind))) {
+      return false;
+    }
+
+    // Con el de 2h, el de 24h ya no tiene sentido
+    if (kind === '2h') {
+      await this.appointmentPort.claimReminder(appointment.id, '24h');
+    }
+
+    try {
+      const student = await this.studentPort.findById(appointment.studentId);
+
+      return student ? await this.send(student, appointment) : false;
+    } catch (error) {
+      const err = error as Error;
+
+      this.logger.warn(
+        `No se pudo mandar el recordatorio del turno ${appointment.id}: ${err.message}`,
+      );
+      return false;
+    }
+  }
+
+  private async send(
+    student: StudentData,
+    appointment: AppointmentData,
+  ): Promise<boolean> {
+    const { slot } = appointment;
+
+    if (!this.notificationService.canSendFreeForm(student)) {
+      return this.notificationService.notify(student, 'class_reminder', {
+        name: student.name,
+        date: formatDay(argentinaDate(slot.startsAt)),
+        time: argentinaTime(slot.startsAt),
+      });
+    }
+
+    await this.replyService.sendButtons(
+      student,
+      `⏰ Hola ${student.name}, te recordamos tu clase de manejo del *${formatSlot(slot)}*.\n\n¿Venís?`,
+      [
+        {
+          id: `${REMINDER_REPLY_PREFIX}confirm:${appointment.id}`,
+          title: '✅ Confirmo',
+        },
+        {
+          id: `${REMINDER_REPLY_PREFIX}cancel:${appointment.id}`,
+          title: '❌ Cancelar',
+        },
+      ],
+    );
+
+    return true;
+  }
+}
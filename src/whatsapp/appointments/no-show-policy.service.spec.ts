@@ -0,0 +1,100 @@
+import type { ConfigService } from '@nestjs/config';
+import { Channel } from '../../student/enums/channel.enum';
+import type { AppointmentPort } from '../ports/appointment.port';
+import type { StudentPort } from '../ports/student.port';
+import type { ReplyService } from '../replies/reply.service';
+import { NoShowPolicyService } from './no-show-policy.service';
+
+describe('NoShowPolicyService', () => {
+  const student = {
+    id: 'student-1',
+    name: 'Ana',
+    channel: Channel.WHATSAPP,
+    externalId: '541122334455',
+    phoneNumber: '541122334455',
+    noShowFlaggedAt: null,
+  };
+  const appointment = {
+    id: 'appointment-1',
+    studentId: 'student-1',
+    status: 'NO_SHOW' as const,
+    confirmedAt: null,
+    slot: {
+      id: 'slot-1',
+      startsAt: new Date('2026-03-02T13:00:00Z'),
+      endsAt: new Date('2026-03-02T14:00:00Z'),
+      instructorName: 'Carlos',
+      vehicleName: null,
+    },
+  };
+
+  const markAttendance = jest.fn();
+  const countNoShows = jest.fn();
+  const findById = jest.fn();
+  const setNoShowFlag = jest.fn();
+  const sendText = jest.fn();
+
+  const buildService = (config: Record<string, string> = {}) =>
+    new NoShowPolicyService(
+      {
+        get: (key: string) =>
+          ({ ADMIN_PHONE_NUMBER: '5492255000000', ...config })[key],
+      } as unknown as ConfigService,
+      { markAttendance, countNoShows } as unknown as AppointmentPort,
+      { findById, setNoShowFlag } as unknown as StudentPort,
+      { sendText } as unknown as ReplyService,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    markAttendance.mockResolvedValue(appointment);
+    findById.mockResolvedValue(student);
+  });
+
+  it('should not count anything when the student attended', async () => {
+    const result = await buildService().markAttendance('appointment-1', true);
+
+    expect(markAttendance).toHaveBeenCalledWith(
+      'appointment-1',
+      true,
+      expect.any(Date),
+    );
+    expect(countNoShows).not.toHaveBeenCalled();
+    expect(result?.flagged).toBe(false);
+  });
+
+  it('should flag the student and tell the admin on reaching the limit', async () => {
+    countNoShows.mockResolvedValue(2);
+
+    const result = await buildService().markAttendance('appointment-1', false);
+
+    expect(result).toEqual({ appointment, noShows: 2, flagged: true });
+    expect(setNoShowFlag).toHaveBeenCalledWith('student-1', expect.any(Date));
+    expect(sendText).toHaveBeenCalledWith(
+      { channel: Channel.WHATSAPP, externalId: '5492255000000' },
+      expect.stringContaining('faltó sin avisar a 2 clases'),
+    );
+  });
+
+  it('should not flag below the limit nor twice', async () => {
+    countNoShows.mockResolvedValueOnce(1).mockResolvedValueOnce(3);
+    findById.mockResolvedValue({ ...student, noShowFlaggedAt: new Date() });
+
+    const service = buildService();
+
+    await service.markAttendance('appointment-1', false);
+    await service.markAttendance('appointment-1', false);
+
+    expect(setNoShowFlag).not.toHaveBeenCalled();
+    expect(sendText).not.toHaveBeenCalled();
+  });
+
+  it('should only block bookings with the block policy', () => {
+    const flagged = { ...student, noShowFlaggedAt: new Date() };
+
+    expect(buildService().isBookingBlocked(flagged)).toBe(false);
+    expect(
+      buildService({ NO_SHOW_POLICY: 'block' }).isBookingBlocked(flagged),
+    ).toBe(true);
+  });
+});
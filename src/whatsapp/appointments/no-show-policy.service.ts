@@ -0,0 +1,165 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Channel } from '../../student/enums/channel.enum';
+import { APPOINTMENT_PORT, STUDENT_PORT } from '../ports';
+import type {
+  AppointmentData,
+  AppointmentPort,
+} from '../ports/appointment.port';
+import type { StudentData, StudentPort } from '../ports/student.port';
+import { ReplyService } from '../replies/reply.service';
+import { formatSlot } from './appointment-format.utils';
+
+const NO_SHOW_POLICIES = ['notify', 'block', 'none'] as const;
+
+// `notify`: marca al alumno y avisa al admin. `block`: además no puede reservar
+export type NoShowPolicy = (typeof NO_SHOW_POLICIES)[number];
+
+export type AttendanceResult = {
+  appointment: AppointmentData;
+  // Faltas dentro de la ventana (solo se cuentan al marcar una falta)
+  noShows: number;
+  // El alumno quedó marcado con esta falta
+  flagged: boolean;
+};
+
+/**
+ * Asistencia a las clases y política de ausencias: al llegar a
+ * NO_SHOW_LIMIT faltas en NO_SHOW_WINDOW_DAYS días, el alumno queda marcado
+ * y se avisa al admin por WhatsApp.
+ */
+@Injectable()
+export class NoShowPolicyService {
+  private readonly logger = new Logger(NoShowPolicyService.name);
+
+  private readonly policy: NoShowPolicy;
+  private readonly limit: number;
+  private readonly windowMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(APPOINTMENT_PORT)
+    private readonly appointmentPort: AppointmentPort,
+    @Inject(STUDENT_PORT)
+    private readonly studentPort: StudentPort,
+    private readonly replyService: ReplyService,
+  ) {
+    const policy = this.configService.get<string>('NO_SHOW_POLICY') ?? 'notify';
+
+    this.policy = NO_SHOW_POLICIES.includes(policy as NoShowPolicy)
+      ? (policy as NoShowPolicy)
+      : 'notify';
+    this.limit = parseInt(
+      this.configService.get<string>('NO_SHOW_LIMIT') ?? '2',
+      10,
+    );
+
+    const windowDays = parseFloat(
+      this.configService.get<string>('NO_SHOW_WINDOW_DAYS') ?? '90',
+    );
+    this.windowMs = windowDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * El instructor marca si el alumno vino a la clase.
+   * @returns `null` si el turno no estaba reservado o todavía no empezó.
+   */
+  async markAttendance(
+    appointmentId: string,
+    attended: boolean,
+  ): Promise<AttendanceResult | null> {
+    const now = new Date();
+    const appointment = await this.appointmentPort.markAttendance(
+      appointmentId,
+      attended,
+      now,
+    );
+
+    if (!appointment) {
+      return null;
+    }
+
+    if (attended) {
+      return { appointment, noShows: 0, flagged: false };
+    }
+
+    const noShows = await this.appointmentPort.countNoShows(
+      appointment.studentId,
+      new Date(now.getTime() - this.windowMs),
+    );
+    const flagged = await this.applyPolicy(appointment, noShows, now);
+
+    return { appointment, noShows, flagged };
+  }
+
+  /**
+   * Con la política `block`, un alumno marcado no puede reservar.
+   */
+  isBookingBlocked(student: StudentData): boolean {
+    return this.policy === 'block' && !!student.noShowFlaggedAt;
+  }
+
+  /**
+   * El admin levanta la marca (ej: el alumno justificó las faltas).
+   */
+  async clearFlag(studentId: string): Promise<void> {
+    await this.studentPort.setNoShowFlag(studentId, null);
+  }
+
+  private async applyPolicy(
+    appointment: AppointmentData,
+    noShows: number,
+    now: Date,
+  ): Promise<boolean> {
+    if (this.policy === 'none' || noShows < this.limit) {
+      return false;
+    }
+
+    const student = await this.studentPort.findById(appointment.studentId);
+
+    // Ya estaba marcado: el admin ya recibió el aviso
+    if (!student || student.noShowFlaggedAt) {
+      return false;
+    }
+
+    await this.studentPort.setNoShowFlag(student.id, now);
+    this.logger.warn(
+      `🚩 Alumno ${student.id} marcado: ${noShows} faltas sin aviso`,
+    );
+    await this.notifyAdmin(student, appointment, noShows);
+
+    return true;
+  }
+
+  private async notifyAdmin(
+    student: StudentData,
+    appointment: AppointmentData,
+    noShows: number,
+  ): Promise<void> {
+    const adminPhone = this.configService.get<string>('ADMIN_PHONE_NUMBER');
+
+    if (!adminPhone) {
+      return;
+    }
+
+    const days = Math.round(this.windowMs / (24 * 60 * 60 * 1000));
+    const consequence =
+      this.policy === 'block'
+        ? '\nNo puede reservar hasta que lo habilites.'
+        : '';
+
+    try {
+      await this.replyService.sendText(
+        { channel: Channel.WHATSAPP, externalId: adminPhone },
+        `🚩 *${student.name}* (${student.externalId}) faltó sin avisar a ${noShows} clases en los últimos ${days} días.\nÚltima: ${formatSlot(appointment.slot)}.${consequence}`,
+      );
+    } catch (error) {
+      const err = error as Error;
+
+      // La marca ya quedó: el aviso es un extra
+      this.logger.warn(
+        `No se pudo avisar al admin de las faltas de ${student.id}: ${err.message}`,
+      );
+    }
+  }
+}
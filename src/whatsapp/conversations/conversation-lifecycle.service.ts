@@ -0,0 +1,144 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Channel } from '../../student/enums/channel.enum';
+import { CONVERSATION_PORT } from '../ports';
+import type {
+  ConversationData,
+  ConversationPort,
+} from '../ports/conversation.port';
+import type { StudentData } from '../ports/student.port';
+
+/**
+ * Política de inactividad: una conversación sin mensajes durante
+ * CONVERSATION_INACTIVITY_HOURS se cierra y el próximo mensaje abre otra,
+ * con una bienvenida corta ("qué bueno verte de nuevo").
+ *
+ * Why: El barrido periódico cierra las que nadie retoma; el chequeo al
+ * recibir un mensaje cubre las que vencieron entre dos barridos.
+ */
+@Injectable()
+export class ConversationLifecycleService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(ConversationLifecycleService.name);
+
+  // 0 desactiva la política (las conversaciones no vencen)
+  private readonly inactivityMs: number;
+  private readonly sweepIntervalMs: number;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CONVERSATION_PORT)
+    private readonly conversationPort: ConversationPort,
+  ) {
+    const inactivityHours = parseFloat(
+      this.configService.get<string>('CONVERSATION_INACTIVITY_HOURS') ?? '72',
+    );
+    this.inactivityMs = Math.max(inactivityHours, 0) * 60 * 60 * 1000;
+
+    const sweepMinutes = parseFloat(
+      this.configService.get<string>('CONVERSATION_SWEEP_INTERVAL_MINUTES') ??
+        '15',
+    );
+    this.sweepIntervalMs = sweepMinutes * 60 * 1000;
+  }
+
+  onModuleInit(): void {
+    if (this.inactivityMs === 0 || this.sweepIntervalMs <= 0) {
+      this.logger.log('💤 Cierre de conversaciones inactivas desactivado');
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      void this.closeInactive();
+    }, this.sweepIntervalMs);
+    this.logger.log(
+      `💤 Cierre de conversaciones inactivas cada ${this.sweepIntervalMs / 60_000} min (inactividad=${this.inactivityMs / 3_600_000}h)`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+      this.logger.log('🛑 Cierre de conversaciones inactivas detenido');
+    }
+  }
+
+  /**
+   * Conversación activa del alumno en el canal. Si venció (o la última se
+   * cerró por inactividad) abre una nueva marcada como "de vuelta".
+   */
+  async resolve(
+    student: StudentData,
+    channel: Channel,
+  ): Promise<ConversationData> {
+    const active = await this.conversationPort.findActiveByStudent(
+      student.id,
+      channel,
+    );
+
+    if (active && !this.isStale(active)) {
+      return active;
+    }
+
+    let returning: boolean;
+
+    if (active) {
+      await this.conversationPort.deactivate(active.id, 'INACTIVITY');
+      this.logger.log(`💤 Conversación ${active.id} cerrada por inactividad`);
+      returning = true;
+    } else {
+      const lastClosed = await this.conversationPort.findLastClosed(
+        student.id,
+        channel,
+      );
+
+      returning = lastClosed?.closeReason === 'INACTIVITY';
+    }
+
+    return this.conversationPort.create(
+      student,
+      channel,
+      returning ? { returning: true } : {},
+    );
+  }
+
+  /**
+   * Cierra las conversaciones activas que pasaron el tiempo de inactividad.
+   */
+  async closeInactive(): Promise<void> {
+    try {
+      const closed = await this.conversationPort.closeInactive(
+        new Date(Date.now() - this.inactivityMs),
+      );
+
+      if (closed > 0) {
+        this.logger.log(`💤 ${closed} conversaciones cerradas por inactividad`);
+      }
+    } catch (error) {
+      const err = error as Error;
+
+      this.logger.error(
+        `Error cerrando conversaciones inactivas: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+
+  private isStale(conversation: ConversationData): boolean {
+    return (
+      this.inactivityMs > 0 &&
+      !!conversation.lastInteractionAt &&
+      Date.now() - new Date(conversation.lastInteractionAt).getTime() >
+        this.inactivityMs
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import type { ConfigService } from '@nestjs/config';
+import { Channel } from '../../student/enums/channel.enum';
+import type { StudentPort } from '../ports/student.port';
+import type { NotificationService } from '../notifications/notification.service';
+import type { StudentProgressService } from '../progress/student-progress.service';
+import type { QuizService } from '../quiz/quiz.service';
+import type { ReplyService } from '../replies/reply.service';
+import type { ReviewService } from '../review/review.service';
+import { DailyQuestionService } from './daily-question.service';
+
+describe('DailyQuestionService', () => {
+  const student = {
+    id: 'student-1',
+    name: 'Ana',
+    channel: Channel.WHATSAPP,
+    externalId: '541122334455',
+    phoneNumber: '541122334455',
+  };
+  const question = {
+    id: 'q1',
+    topic: null,
+    question: '¿Qué indica la luz amarilla?',
+    options: ['Acelerar', 'Detenerse si es seguro', 'Girar'],
+    correctOption: 1,
+    explanation: 'Anticipa el rojo.',
+    category: 'Señales',
+  };
+
+  const findDueForDailyQuestion = jest.fn();
+  const claimDailyQuestion = jest.fn();
+  const findDueQuestionIds = jest.fn();
+  const findQuestions = jest.fn();
+  const drawQuestions = jest.fn();
+  const findQuestion = jest.fn();
+  const recordReview = jest.fn();
+  const recordProgress = jest.fn();
+  const canSendFreeForm = jest.fn();
+  const notify = jest.fn();
+  const sendButtons = jest.fn();
+
+  let service: DailyQuestionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findDueForDailyQuestion.mockResolvedValue([student]);
+    claimDailyQuestion.mockResolvedValue(true);
+    findDueQuestionIds.mockResolvedValue([]);
+    drawQuestions.mockResolvedValue([question]);
+    canSendFreeForm.mockReturnValue(true);
+
+    service = new DailyQuestionService(
+      { get: () => undefined } as unknown as ConfigService,
+      {
+        findDueForDailyQuestion,
+        claimDailyQuestion,
+      } as unknown as StudentPort,
+      { findQuestions, drawQuestions, findQuestion } as unknown as QuizService,
+      {
+        findDueQuestionIds,
+        recordAnswer: recordReview,
+      } as unknown as ReviewService,
+      { recordAnswer: recordProgress } as unknown as StudentProgressService,
+      { canSendFreeForm, notify } as unknown as NotificationService,
+      { sendButtons } as unknown as ReplyService,
+    );
+  });
+
+  it('should look up students with the Argentina date and time', async () => {
+    // 22:30 UTC = 19:30 en Argentina
+    await service.sendDue(new Date('2026-03-02T22:30:00Z'));
+
+    expect(findDueForDailyQuestion).toHaveBeenCalledWith('2026-03-02', '19:30');
+    expect(claimDailyQuestion).toHaveBeenCalledWith('student-1', '2026-03-02');
+  });
+
+  it('should send a due review question with buttons while the window is open', async () => {
+    findDueQuestionIds.mockResolvedValue(['q1']);
+    findQuestions.mockResolvedValue([question]);
+
+    const sent = await service.sendDue();
+
+    expect(sent).toBe(1);
+    expect(drawQuestions).not.toHaveBeenCalled();
+    expect(sendButtons).toHaveBeenCalledWith(
+      student,
+      expect.stringContaining('Pregunta del día'),
+      expect.arrayContaining([{ id: 'daily:q1:1', title: '2' }]),
+    );
+  });
+
+  it('should fall back to the template when the WhatsApp window is closed', async () => {
+    canSendFreeForm.mockReturnValue(false);
+    notify.mockResolvedValue(true);
+
+    await service.sendDue();
+
+    expect(notify).toHaveBeenCalledWith(student, 'daily_question', {
+      name: 'Ana',
+    });
+    expect(sendButtons).not.toHaveBeenCalled();
+  });
+
+  it('should skip a student already claimed by another run', async () => {
+    claimDailyQuestion.mockResolvedValue(false);
+
+    const sent = await service.sendDue();
+
+    expect(sent).toBe(0);
+    expect(sendButtons).not.toHaveBeenCalled();
+  });
+
+  it('should grade a button answer and record it', async () => {
+    findQuestion.mockResolvedValue(question);
+
+    const feedback = await service.answer('student-1', 'daily:q1:0');
+
+    expect(feedback).toContain('❌');
+    expect(recordReview).toHaveBeenCalledWith('student-1', 'q1', false);
+    expect(recordProgress).toHaveBeenCalledWith('student-1', question, false);
+  });
+});
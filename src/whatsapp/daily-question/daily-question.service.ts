@@ -0,0 +1,221 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { STUDENT_PORT } from '../ports';
+import type { QuizQuestionData } from '../ports/quiz-question.port';
+import type { StudentData, StudentPort } from '../ports/student.port';
+import { NotificationService } from '../notifications/notification.service';
+import { StudentProgressService } from '../progress/student-progress.service';
+import {
+  buildQuestionMessage,
+  formatCorrectOption,
+} from '../quiz/quiz-question.utils';
+import { QuizService } from '../quiz/quiz.service';
+import { ReplyService } from '../replies/reply.service';
+import { ReviewService } from '../review/review.service';
+import { argentinaDate, argentinaTime } from '../utils/argentina-time';
+
+// Los botones traen `daily:<pregunta>:<opción>` como id
+export const DAILY_QUESTION_REPLY_PREFIX = 'daily:';
+
+/**
+ * Pregunta diaria: una pregunta de práctica por día, a la hora (argentina)
+ * que eligió cada alumno.
+ *
+ * Why: Solo les llega a los alumnos con acceso vigente. Con la ventana de
+ * 24h de WhatsApp cerrada no se pueden mandar botones: sale el template
+ * `pregunta_diaria`, que lo invita a escribir *quiz*.
+ */
+@Injectable()
+export class DailyQuestionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DailyQuestionService.name);
+
+  // Hora de `pregunta diaria on` sin hora ("HH:MM")
+  readonly defaultTime: string;
+  private readonly intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // Una pasada lenta (muchos alumnos) no se superpone con la siguiente
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(STUDENT_PORT)
+    private readonly studentPort: StudentPort,
+    private readonly quizService: QuizService,
+    private readonly reviewService: ReviewService,
+    private readonly progressService: StudentProgressService,
+    private readonly notificationService: NotificationService,
+    private readonly replyService: ReplyService,
+  ) {
+    this.defaultTime =
+      this.configService.get<string>('DAILY_QUESTION_DEFAULT_TIME') ?? '19:00';
+
+    const intervalMinutes = parseFloat(
+      this.configService.get<string>('DAILY_QUESTION_INTERVAL_MINUTES') ?? '5',
+    );
+    this.intervalMs = intervalMinutes * 60 * 1000;
+  }
+
+  onModuleInit(): void {
+    if (this.intervalMs <= 0) {
+      this.logger.log('🧠 Pregunta diaria desactivada');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.sendDue();
+    }, this.intervalMs);
+    this.logger.log(
+      `🧠 Pregunta diaria: revisión cada ${this.intervalMs / 60_000} min`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.log('🛑 Pregunta diaria detenida');
+    }
+  }
+
+  async updatePreferences(
+    studentId: string,
+    enabled: boolean,
+    time: string | null,
+  ): Promise<void> {
+    await this.studentPort.updateDailyQuestion(studentId, { enabled, time });
+  }
+
+  /**
+   * Manda la pregunta del día a los alumnos cuya hora ya pasó.
+   * @returns cuántas se mandaron.
+   */
+  async sendDue(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let sent = 0;
+
+    try {
+      const today = argentinaDate(now);
+      const students = await this.studentPort.findDueForDailyQuestion(
+        today,
+        argentinaTime(now),
+      );
+
+      for (const student of students) {
+        // Se marca antes de mandar: ante un error, mejor ninguna que dos
+        if (!(await this.studentPort.claimDailyQuestion(student.id, today))) {
+          continue;
+        }
+
+        try {
+          if (await this.send(student)) {
+            sent++;
+          }
+        } catch (error) {
+          const err = error as Error;
+
+          this.logger.warn(
+            `No se pudo mandar la pregunta diaria a ${student.id}: ${err.message}`,
+          );
+        }
+      }
+
+      if (sent > 0) {
+        this.logger.log(`🧠 ${sent} preguntas diarias enviadas`);
+      }
+    } catch (error) {
+      const err = error as Error;
+
+      this.logger.error(
+        `Error mandando preguntas diarias: ${err.message}`,
+        err.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Corrige la respuesta a una pregunta diaria (botón `daily:<id>:<opción>`).
+   * @returns el texto de la corrección o `null` si el botón no es válido.
+   */
+  async answer(studentId: string, replyId: string): Promise<string | null> {
+    const [questionId, option] = replyId
+      .slice(DAILY_QUESTION_REPLY_PREFIX.length)
+      .split(':');
+    const question = questionId
+      ? await this.quizService.findQuestion(questionId)
+      : null;
+    const selected = Number(option);
+
+    if (
+      !question ||
+      !Number.isInteger(selected) ||
+      selected < 0 ||
+      selected >= question.options.length
+    ) {
+      return null;
+    }
+
+    const isCorrect = selected === question.correctOption;
+
+    await this.reviewService.recordAnswer(studentId, question.id, isCorrect);
+    await this.progressService.recordAnswer(studentId, question, isCorrect);
+
+    return `${isCorrect ? '✅ ¡Correcto!' : `❌ No. La correcta es *${formatCorrectOption(question)}*`}\n\n📖 ${question.explanation}\n\nEscribí *quiz* si querés seguir practicando.`;
+  }
+
+  private async send(student: StudentData): Promise<boolean> {
+    if (!this.notificationService.canSendFreeForm(student)) {
+      return this.notificationService.notify(student, 'daily_question', {
+        name: student.name,
+      });
+    }
+
+    const question = await this.pickQuestion(student.id);
+
+    if (!question) {
+      this.logger.warn(
+        `🧠 Sin preguntas para la pregunta diaria de ${student.id}`,
+      );
+      return false;
+    }
+
+    const { body, buttons } = buildQuestionMessage(
+      question,
+      0,
+      1,
+      DAILY_QUESTION_REPLY_PREFIX,
+      '🧠 *Pregunta del día*',
+    );
+
+    await this.replyService.sendButtons(student, body, buttons);
+
+    return true;
+  }
+
+  /**
+   * Primero una pregunta que ya toca repasar; si no hay, una cualquiera.
+   */
+  private async pickQuestion(
+    studentId: string,
+  ): Promise<QuizQuestionData | null> {
+    const [dueId] = await this.reviewService.findDueQuestionIds(studentId, 1);
+    const [question] = dueId
+      ? await this.quizService.findQuestions([dueId])
+      : await this.quizService.drawQuestions(null, 1, studentId);
+
+    return question ?? null;
+  }
+}
@@ -0,0 +1,123 @@
+import type { ConfigService } from '@nestjs/config';
+import type { ExamAttemptData } from '../ports/exam-attempt.port';
+import type { QuizQuestionData } from '../ports/quiz-question.port';
+import type { QuizService } from '../quiz/quiz.service';
+import type { StudentProgressService } from '../progress/student-progress.service';
+import type { ReviewService } from '../review/review.service';
+import { MockExamService } from './mock-exam.service';
+
+describe('MockExamService', () => {
+  const question = (id: string): QuizQuestionData => ({
+    id,
+    topic: null,
+    question: `¿Pregunta ${id}?`,
+    options: ['A', 'B', 'C'],
+    correctOption: 0,
+    explanation: 'Porque sí',
+    category: null,
+  });
+  const attempt = (
+    overrides: Partial<ExamAttemptData> = {},
+  ): ExamAttemptData => ({
+    id: 'attempt-1',
+    studentId: 'student-1',
+    status: 'IN_PROGRESS',
+    questionIds: ['q1', 'q2', 'q3'],
+    answers: [],
+    correctCount: 0,
+    passScore: 2,
+    timeLimitMinutes: 10,
+    timedOut: false,
+    startedAt: new Date(),
+    finishedAt: null,
+    ...overrides,
+  });
+  const attemptPort = {
+    start: jest.fn(),
+    recordAnswer: jest.fn(),
+    finish: jest.fn(),
+    findById: jest.fn(),
+    findPreviousFinished: jest.fn(),
+  };
+  const drawQuestions = jest.fn();
+  const findQuestion = jest.fn();
+
+  let service: MockExamService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const config: Record<string, string> = {
+      MOCK_EXAM_QUESTIONS: '3',
+      MOCK_EXAM_PASS_SCORE: '2',
+      MOCK_EXAM_TIME_LIMIT_MINUTES: '10',
+    };
+
+    service = new MockExamService(
+      attemptPort,
+      { drawQuestions, findQuestion } as unknown as QuizService,
+      { recordAnswer: jest.fn() } as unknown as ReviewService,
+      { recordAnswer: jest.fn() } as unknown as StudentProgressService,
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+    );
+    findQuestion.mockImplementation((id: string) =>
+      Promise.resolve(question(id)),
+    );
+    attemptPort.findPreviousFinished.mockResolvedValue(null);
+  });
+
+  it('should not start an exam shorter than the configured one', async () => {
+    drawQuestions.mockResolvedValue([question('q1'), question('q2')]);
+
+    await expect(service.start('student-1', 'conversation-1')).resolves.toBe(
+      null,
+    );
+    expect(attemptPort.start).not.toHaveBeenCalled();
+  });
+
+  it('should pass an attempt that reaches the pass score', async () => {
+    attemptPort.findById.mockResolvedValue(
+      attempt({
+        correctCount: 2,
+        answers: [
+          { questionId: 'q1', selectedOption: 0, correct: true, elapsedMs: 1 },
+          { questionId: 'q2', selectedOption: 1, correct: false, elapsedMs: 1 },
+          { questionId: 'q3', selectedOption: 0, correct: true, elapsedMs: 1 },
+        ],
+      }),
+    );
+
+    const result = await service.finish('attempt-1', false);
+
+    expect(attemptPort.finish).toHaveBeenCalledWith(
+      'attempt-1',
+      'PASSED',
+      false,
+    );
+    expect(result?.wrong.map((q) => q.id)).toEqual(['q2']);
+    expect(result?.unanswered).toBe(0);
+  });
+
+  it('should fail a timed out attempt counting unanswered questions as wrong', async () => {
+    attemptPort.findById.mockResolvedValue(
+      attempt({
+        correctCount: 1,
+        answers: [
+          { questionId: 'q1', selectedOption: 0, correct: true, elapsedMs: 1 },
+        ],
+      }),
+    );
+
+    const result = await service.finish('attempt-1', true);
+
+    expect(attemptPort.finish).toHaveBeenCalledWith(
+      'attempt-1',
+      'FAILED',
+      true,
+    );
+    expect(result?.attempt).toEqual(
+      expect.objectContaining({ status: 'FAILED', timedOut: true }),
+    );
+    expect(result?.unanswered).toBe(2);
+  });
+});
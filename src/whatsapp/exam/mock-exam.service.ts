@@ -0,0 +1,172 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EXAM_ATTEMPT_PORT } from '../ports';
+import type {
+  ExamAttemptData,
+  ExamAttemptPort,
+} from '../ports/exam-attempt.port';
+import type { QuizQuestionData } from '../ports/quiz-question.port';
+import { QuizService } from '../quiz/quiz.service';
+import { StudentProgressService } from '../progress/student-progress.service';
+import { ReviewService } from '../review/review.service';
+
+export type MockExamRules = {
+  questions: number;
+  // Respuestas correctas necesarias para aprobar
+  passScore: number;
+  timeLimitMinutes: number;
+};
+
+export type MockExamResult = {
+  attempt: ExamAttemptData;
+  // Último simulacro terminado antes de este (para comparar)
+  previous: ExamAttemptData | null;
+  // Preguntas respondidas mal, en orden
+  wrong: QuizQuestionData[];
+  unanswered: number;
+};
+
+/**
+ * Simulacro del examen teórico: arma el intento con preguntas del banco,
+ * guarda cada respuesta y calcula el resultado contra el puntaje mínimo.
+ *
+ * Why: Cantidad de preguntas, mínimo y tiempo dependen del municipio, por
+ * eso son configurables. Cada intento guarda las reglas con las que se rindió.
+ */
+@Injectable()
+export class MockExamService {
+  private readonly logger = new Logger(MockExamService.name);
+  readonly rules: MockExamRules;
+
+  constructor(
+    @Inject(EXAM_ATTEMPT_PORT)
+    private readonly attemptPort: ExamAttemptPort,
+    private readonly quizService: QuizService,
+    private readonly reviewService: ReviewService,
+    private readonly progressService: StudentProgressService,
+    private readonly configService: ConfigService,
+  ) {
+    this.rules = {
+      questions: parseInt(
+        this.configService.get<string>('MOCK_EXAM_QUESTIONS') ?? '40',
+        10,
+      ),
+      passScore: parseInt(
+        this.configService.get<string>('MOCK_EXAM_PASS_SCORE') ?? '30',
+        10,
+      ),
+      timeLimitMinutes: parseInt(
+        this.configService.get<string>('MOCK_EXAM_TIME_LIMIT_MINUTES') ?? '45',
+        10,
+      ),
+    };
+  }
+
+  /**
+   * @returns `null` si el banco no tiene preguntas suficientes para un examen completo.
+   */
+  async start(
+    studentId: string,
+    conversationId: string | null,
+  ): Promise<{
+    attempt: ExamAttemptData;
+    questions: QuizQuestionData[];
+  } | null> {
+    const questions = await this.quizService.drawQuestions(
+      null,
+      this.rules.questions,
+      studentId,
+    );
+
+    // Un simulacro más corto no sirve para saber si aprobaría
+    if (questions.length < this.rules.questions) {
+      this.logger.warn(
+        `🎓 Simulacro sin preguntas suficientes (${questions.length}/${this.rules.questions})`,
+      );
+      return null;
+    }
+
+    const attempt = await this.attemptPort.start({
+      studentId,
+      conversationId,
+      questionIds: questions.map((question) => question.id),
+      passScore: this.rules.passScore,
+      timeLimitMinutes: this.rules.timeLimitMinutes,
+    });
+
+    this.logger.log(
+      `🎓 Simulacro ${attempt.id} iniciado (alumno ${studentId})`,
+    );
+
+    return { attempt, questions };
+  }
+
+  findQuestion(id: string): Promise<QuizQuestionData | null> {
+    return this.quizService.findQuestion(id);
+  }
+
+  async answer(
+    studentId: string,
+    attemptId: string,
+    question: QuizQuestionData,
+    selectedOption: number,
+    elapsedMs: number,
+  ): Promise<void> {
+    const correct = selectedOption === question.correctOption;
+
+    await this.attemptPort.recordAnswer(attemptId, {
+      questionId: question.id,
+      selectedOption,
+      correct,
+      elapsedMs,
+    });
+    await this.reviewService.recordAnswer(studentId, question.id, correct);
+    await this.progressService.recordAnswer(studentId, question, correct);
+  }
+
+  /**
+   * Cierra el intento: aprueba si llegó al mínimo. Las preguntas sin
+   * responder (ej: se acabó el tiempo) cuentan como mal.
+   */
+  async finish(
+    attemptId: string,
+    timedOut: boolean,
+  ): Promise<MockExamResult | null> {
+    const current = await this.attemptPort.findById(attemptId);
+
+    if (!current) {
+      return null;
+    }
+
+    const status =
+      current.correctCount >= current.passScore ? 'PASSED' : 'FAILED';
+
+    await this.attemptPort.finish(attemptId, status, timedOut);
+
+    const attempt = { ...current, status, timedOut } as const;
+    const wrongIds = attempt.answers
+      .filter((answer) => !answer.correct)
+      .map((answer) => answer.questionId);
+    const [wrong, previous] = await Promise.all([
+      Promise.all(wrongIds.map((id) => this.quizService.findQuestion(id))),
+      this.attemptPort.findPreviousFinished(attempt.studentId, attemptId),
+    ]);
+
+    this.logger.log(
+      `🎓 Simulacro ${attemptId}: ${attempt.correctCount}/${attempt.questionIds.length} (${status})`,
+    );
+
+    return {
+      attempt,
+      previous,
+      wrong: wrong.filter(
+        (question): question is QuizQuestionData => !!question,
+      ),
+      unanswered: attempt.questionIds.length - attempt.answers.length,
+    };
+  }
+
+  async abandon(attemptId: string): Promise<void> {
+    await this.attemptPort.finish(attemptId, 'ABANDONED', false);
+  }
+}
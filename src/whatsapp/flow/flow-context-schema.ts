@@ -0,0 +1,77 @@
+/**
+ * Esquemas tipados para el `context` JSONB de cada paso.
+ *
+ * Why: El contexto sale de la base como `unknown` y puede haber quedado de una
+ * versión anterior del flujo. Cada campo se valida y, si no cierra, toma su
+ * valor por defecto: un paso nunca recibe datos con otra forma.
+ */
+export type FieldParser<T> = (value: unknown) => T;
+
+export interface ContextSchema<T extends Record<string, unknown>> {
+  parse(raw: unknown): T;
+}
+
+type Shape<T extends Record<string, unknown>> = {
+  [K in keyof T]: FieldParser<T[K]>;
+};
+
+export const field = {
+  string:
+    (fallback = ''): FieldParser<string> =>
+    (value) =>
+      typeof value === 'string' ? value : fallback,
+
+  optionalString: (): FieldParser<string | undefined> => (value) =>
+    typeof value === 'string' ? value : undefined,
+
+  number:
+    (fallback = 0): FieldParser<number> =>
+    (value) =>
+      typeof value === 'number' && Number.isFinite(value) ? value : fallback,
+
+  optionalNumber: (): FieldParser<number | undefined> => (value) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined,
+
+  boolean:
+    (fallback = false): FieldParser<boolean> =>
+    (value) =>
+      typeof value === 'boolean' ? value : fallback,
+
+  stringArray: (): FieldParser<string[]> => (value) =>
+    Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === 'string')
+      : [],
+
+  /**
+   * Uno de los valores permitidos (ej: un enum de strings).
+   */
+  oneOf:
+    <T extends string>(values: readonly T[], fallback: T): FieldParser<T> =>
+    (value) =>
+      values.includes(value as T) ? (value as T) : fallback,
+};
+
+export function contextSchema<T extends Record<string, unknown>>(
+  shape: Shape<T>,
+): ContextSchema<T> {
+  return {
+    parse(raw: unknown): T {
+      const record =
+        typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+          ? (raw as Record<string, unknown>)
+          : {};
+      const parsed: Record<string, unknown> = {};
+
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        parsed[key] = shape[key](record[key]);
+      }
+
+      return parsed as T;
+    },
+  };
+}
+
+/**
+ * Para los pasos que no guardan nada.
+ */
+export const emptyContext = contextSchema<Record<string, never>>({});
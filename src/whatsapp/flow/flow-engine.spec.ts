@@ -0,0 +1,244 @@
+import type { DiscoveryService } from '@nestjs/core';
+import { Channel } from '../../student/enums/channel.enum';
+import type { ConversationData } from '../ports/conversation.port';
+import type { ConversationMemoryService } from '../memory/conversation-memory.service';
+import type { ReplyService } from '../replies/reply.service';
+import type { ConversationInput } from '../types/conversation-input.type';
+import { FlowEngine } from './flow-engine';
+import { FlowRegistry } from './flow-registry';
+import { contextSchema, emptyContext, field } from './flow-context-schema';
+import type {
+  FlowContext,
+  FlowInterruptHandler,
+  FlowStepHandler,
+} from './flow.types';
+
+describe('FlowEngine', () => {
+  const replyTo = { channel: Channel.WHATSAPP, externalId: '541122334455' };
+  const student = {
+    ...replyTo,
+    id: 'student-1',
+    name: 'Ana',
+    phoneNumber: '541122334455',
+  };
+  const replyService = {
+    sendText: jest.fn(),
+    sendButtons: jest.fn(),
+    sendList: jest.fn(),
+  };
+  const conversationPort = {
+    findActiveByStudent: jest.fn(),
+    create: jest.fn(),
+    updateStep: jest.fn(),
+    deactivate: jest.fn(),
+    closeInactive: jest.fn(),
+    findLastClosed: jest.fn(),
+  };
+  const memory = {
+    record: jest.fn(),
+    compact: jest.fn(),
+    getHistory: jest.fn(),
+  };
+
+  type QuizData = { questionId: string; attempts: number };
+
+  const quizHandle = jest.fn((ctx: FlowContext<QuizData>) =>
+    Promise.resolve({
+      data: { ...ctx.data, attempts: ctx.data.attempts + 1 },
+    }),
+  );
+  const quizStep: FlowStepHandler<QuizData> = {
+    step: 'QUIZ',
+    context: contextSchema<QuizData>({
+      questionId: field.string(),
+      attempts: field.number(),
+    }),
+    timeout: { afterMs: 60_000, next: 'LEARNING', message: '⌛ Quiz vencido' },
+    enter: async (ctx) => {
+      await ctx.reply('Primera pregunta');
+      return { data: { questionId: 'q1', attempts: 0 } };
+    },
+    handle: quizHandle,
+  };
+  const learningHandle = jest.fn(async (ctx: FlowContext) => {
+    if (ctx.input.text === 'quiz') {
+      return { next: 'QUIZ' };
+    }
+    if (ctx.input.text === 'quiz ya') {
+      return {
+        next: 'QUIZ',
+        data: { questionId: 'q1', attempts: 0 },
+        forward: true,
+      };
+    }
+    await ctx.reply(`Respuesta a ${ctx.input.text}`);
+  });
+  const learningStep: FlowStepHandler = {
+    step: 'LEARNING',
+    context: emptyContext,
+    handle: learningHandle,
+  };
+  const resetHandle = jest.fn(() => Promise.resolve({ ended: true }));
+  const resetInterrupt: FlowInterruptHandler = {
+    name: 'reset',
+    priority: 0,
+    matches: (input) => input.text === 'reset',
+    handle: resetHandle,
+  };
+
+  let engine: FlowEngine;
+
+  const buildConversation = (
+    overrides: Partial<ConversationData> = {},
+  ): ConversationData => ({
+    id: 'conversation-1',
+    step: 'LEARNING',
+    channel: Channel.WHATSAPP,
+    context: {},
+    isActive: true,
+    student,
+    lastInteractionAt: new Date(),
+    ...overrides,
+  });
+  const text = (value: string): ConversationInput => ({
+    kind: 'text',
+    text: value,
+    messageId: 'wamid.1',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const registry = new FlowRegistry({} as DiscoveryService);
+
+    registry.registerStep(learningStep);
+    registry.registerStep(quizStep as unknown as FlowStepHandler);
+    registry.registerInterrupt(resetInterrupt);
+    engine = new FlowEngine(
+      registry,
+      replyService as unknown as ReplyService,
+      conversationPort,
+      memory as unknown as ConversationMemoryService,
+    );
+  });
+
+  it('should let a global interrupt win over the current step', async () => {
+    await engine.process(buildConversation(), text('reset'), replyTo);
+
+    expect(resetHandle).toHaveBeenCalled();
+    expect(learningHandle).not.toHaveBeenCalled();
+    // `ended`: la interrupción ya se ocupó de la conversación
+    expect(conversationPort.updateStep).not.toHaveBeenCalled();
+    expect(memory.record).not.toHaveBeenCalled();
+  });
+
+  it('should record the inbound text and every reply once the step is done', async () => {
+    await engine.process(buildConversation(), text('quiz'), replyTo);
+
+    expect(memory.record).toHaveBeenCalledWith('conversation-1', [
+      { role: 'USER', content: 'quiz' },
+      { role: 'ASSISTANT', content: 'Primera pregunta' },
+    ]);
+    expect(memory.compact).toHaveBeenCalledWith('conversation-1');
+  });
+
+  it('should persist a transition and run the enter hook of the next step', async () => {
+    await engine.process(buildConversation(), text('quiz'), replyTo);
+
+    expect(conversationPort.updateStep).toHaveBeenNthCalledWith(
+      1,
+      'conversation-1',
+      'QUIZ',
+      {},
+    );
+    expect(replyService.sendText).toHaveBeenCalledWith(
+      replyTo,
+      'Primera pregunta',
+      undefined,
+    );
+    expect(conversationPort.updateStep).toHaveBeenNthCalledWith(
+      2,
+      'conversation-1',
+      'QUIZ',
+      { questionId: 'q1', attempts: 0 },
+    );
+  });
+
+  it('should hand the same input to the next step when forwarding', async () => {
+    await engine.process(buildConversation(), text('quiz ya'), replyTo);
+
+    expect(quizHandle).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { questionId: 'q1', attempts: 0 },
+        input: expect.objectContaining({ text: 'quiz ya' }) as unknown,
+      }),
+    );
+    // Sin `enter`: la pregunta inicial no se manda
+    expect(replyService.sendText).not.toHaveBeenCalled();
+    expect(conversationPort.updateStep).toHaveBeenLastCalledWith(
+      'conversation-1',
+      'QUIZ',
+      { questionId: 'q1', attempts: 1 },
+    );
+  });
+
+  it('should parse the stored context with the step schema', async () => {
+    await engine.process(
+      buildConversation({
+        step: 'QUIZ',
+        context: { questionId: 'q1', attempts: 'roto' },
+      }),
+      text('B'),
+      replyTo,
+    );
+
+    expect(conversationPort.updateStep).toHaveBeenCalledWith(
+      'conversation-1',
+      'QUIZ',
+      { questionId: 'q1', attempts: 1 },
+    );
+  });
+
+  it('should abandon a timed out step and hand the input to the timeout target', async () => {
+    await engine.process(
+      buildConversation({
+        step: 'QUIZ',
+        context: { questionId: 'q1', attempts: 0 },
+        lastInteractionAt: new Date(Date.now() - 2 * 60_000),
+      }),
+      text('¿Qué es la VTV?'),
+      replyTo,
+    );
+
+    expect(replyService.sendText).toHaveBeenNthCalledWith(
+      1,
+      replyTo,
+      '⌛ Quiz vencido',
+    );
+    expect(conversationPort.updateStep).toHaveBeenCalledWith(
+      'conversation-1',
+      'LEARNING',
+      {},
+    );
+    expect(quizHandle).not.toHaveBeenCalled();
+    expect(replyService.sendText).toHaveBeenLastCalledWith(
+      replyTo,
+      'Respuesta a ¿Qué es la VTV?',
+      undefined,
+    );
+  });
+
+  it('should tell the student when the stored step is not registered', async () => {
+    await engine.process(
+      buildConversation({ step: 'FINISHED' }),
+      text('hola'),
+      replyTo,
+    );
+
+    expect(replyService.sendText).toHaveBeenCalledWith(
+      replyTo,
+      expect.stringContaining('reset'),
+    );
+    expect(conversationPort.updateStep).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import type { ChatTurn } from '../../knowledge/types/chat-history.type';
+import { CONVERSATION_PORT } from '../ports';
+import type {
+  ConversationData,
+  ConversationPort,
+} from '../ports/conversation.port';
+import { ConversationMemoryService } from '../memory/conversation-memory.service';
+import { ReplyService } from '../replies/reply.service';
+import type { ConversationInput } from '../types/conversation-input.type';
+import type { ReplyTarget } from '../types/reply-target.type';
+import { FlowRegistry } from './flow-registry';
+import type { FlowContext, FlowData, FlowResult } from './flow.types';
+
+// Corta cadenas de `enter` que se derivan entre sí (ej: dos pasos mal configurados)
+const MAX_CHAINED_TRANSITIONS = 5;
+
+/**
+ * Motor de flujos: decide qué handler atiende cada mensaje y persiste
+ * la transición (paso + contexto) con `ConversationPort.updateStep`.
+ *
+ * Orden: interrupciones globales → timeout del paso actual → handler del paso.
+ * Al final guarda el mensaje del alumno y las respuestas en el historial.
+ */
+@Injectable()
+export class FlowEngine {
+  private readonly logger = new Logger(FlowEngine.name);
+
+  constructor(
+    private readonly registry: FlowRegistry,
+    private readonly replyService: ReplyService,
+    @Inject(CONVERSATION_PORT)
+    private readonly conversationPort: ConversationPort,
+    private readonly memory: ConversationMemoryService,
+  ) {}
+
+  async process(
+    conversation: ConversationData,
+    input: ConversationInput,
+    replyTo: ReplyTarget,
+  ): Promise<void> {
+    // Se guarda al final: así `ctx.history()` no incluye el mensaje actual
+    const transcript: ChatTurn[] = input.text
+      ? [{ role: 'USER', content: input.text }]
+      : [];
+    const interrupt = this.registry
+      .getInterrupts()
+      .find((candidate) => candidate.matches(input));
+
+    if (interrupt) {
+      this.logger.debug(`⚡ Interrupción ${interrupt.name}`);
+
+      const result = await interrupt.handle(
+        this.buildContext(
+          conversation,
+          input,
+          replyTo,
+          conversation.context,
+          transcript,
+        ),
+      );
+
+      await this.apply(conversation, result, input, replyTo, transcript);
+      await this.remember(conversation, result, transcript);
+      return;
+    }
+
+    let current = conversation;
+    let handler = this.registry.getStep(current.step);
+
+    if (
+      handler?.timeout &&
+      this.hasTimedOut(current, handler.timeout.afterMs)
+    ) {
+      const { next, message } = handler.timeout;
+
+      this.logger.log(`⌛ Paso ${current.step} vencido → ${next}`);
+
+      if (message) {
+        await this.replyService.sendText(replyTo, message);
+        transcript.push({ role: 'ASSISTANT', content: message });
+      }
+
+      await this.conversationPort.updateStep(current.id, next, {});
+      current = { ...current, step: next, context: {} };
+      handler = this.registry.getStep(next);
+    }
+
+    if (!handler) {
+      this.logger.warn(`Estado desconocido: ${current.step}`);
+
+      await this.replyService.sendText(
+        replyTo,
+        'Hubo un error en mi memoria. Escribí "reset" para reiniciar.',
+      );
+      return;
+    }
+
+    const result = await handler.handle(
+      this.buildContext(
+        current,
+        input,
+        replyTo,
+        handler.context.parse(current.context),
+        transcript,
+      ),
+    );
+
+    await this.apply(current, result, input, replyTo, transcript);
+    await this.remember(current, result, transcript);
+  }
+
+  /**
+   * Persiste el resultado y, si hubo cambio de paso, ejecuta el `enter` del nuevo
+   * (o su `handle` con la misma entrada, si se pidió `forward`).
+   */
+  private async apply(
+    conversation: ConversationData,
+    result: FlowResult | void,
+    input: ConversationInput,
+    replyTo: ReplyTarget,
+    transcript: ChatTurn[],
+    depth = 0,
+  ): Promise<void> {
+    if (result?.ended) {
+      return;
+    }
+
+    const next = result?.next ?? conversation.step;
+    const data = result?.data ?? (result?.next ? {} : conversation.context);
+
+    await this.conversationPort.updateStep(conversation.id, next, data);
+
+    if (!result?.next) {
+      return;
+    }
+
+    const handler = this.registry.getStep(next);
+
+    if (!handler) {
+      this.logger.error(`Transición a un paso no registrado: ${next}`);
+      return;
+    }
+
+    if (!result.forward && !handler.enter) {
+      return;
+    }
+
+    if (depth >= MAX_CHAINED_TRANSITIONS) {
+      this.logger.error(
+        `Demasiadas transiciones encadenadas (último: ${next})`,
+      );
+      return;
+    }
+
+    const entered = { ...conversation, step: next, context: data };
+    const enteredContext = this.buildContext(
+      entered,
+      input,
+      replyTo,
+      handler.context.parse(data),
+      transcript,
+    );
+    const enterResult = result.forward
+      ? await handler.handle(enteredContext)
+      : await handler.enter?.(enteredContext);
+
+    await this.apply(
+      entered,
+      enterResult,
+      input,
+      replyTo,
+      transcript,
+      depth + 1,
+    );
+  }
+
+  /**
+   * Guarda el intercambio en el historial y, si creció mucho, lo resume.
+   * Con `ended` la conversación ya no sigue (ej: `reset`): no se guarda nada.
+   */
+  private async remember(
+    conversation: ConversationData,
+    result: FlowResult | void,
+    transcript: ChatTurn[],
+  ): Promise<void> {
+    if (result?.ended) {
+      return;
+    }
+
+    await this.memory.record(conversation.id, transcript);
+    await this.memory.compact(conversation.id);
+  }
+
+  private hasTimedOut(
+    conversation: ConversationData,
+    afterMs: number,
+  ): boolean {
+    return (
+      !!conversation.lastInteractionAt &&
+      Date.now() - new Date(conversation.lastInteractionAt).getTime() > afterMs
+    );
+  }
+
+  private buildContext<TData extends FlowData>(
+    conversation: ConversationData,
+    input: ConversationInput,
+    replyTo: ReplyTarget,
+    data: TData,
+    transcript: ChatTurn[],
+  ): FlowContext<TData> {
+    return {
+      conversation,
+      student: conversation.student,
+      input,
+      replyTo,
+      data,
+      reply: async (text, options) => {
+        await this.replyService.sendText(replyTo, text, options);
+        transcript.push({ role: 'ASSISTANT', content: text });
+      },
+      replyButtons: async (body, buttons) => {
+        await this.replyService.sendButtons(replyTo, body, buttons);
+        transcript.push({ role: 'ASSISTANT', content: body });
+      },
+      replyList: async (list) => {
+        await this.replyService.sendList(replyTo, list);
+        transcript.push({ role: 'ASSISTANT', content: list.body });
+      },
+      history: () => this.memory.getHistory(conversation.id),
+    };
+  }
+}
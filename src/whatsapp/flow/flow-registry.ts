@@ -0,0 +1,75 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { FlowInterrupt, FlowStep } from './flow.decorators';
+import type {
+  FlowInterruptHandler,
+  FlowMenuEntry,
+  FlowStepHandler,
+} from './flow.types';
+
+/**
+ * Catálogo de pasos e interrupciones. Se arma al iniciar la app buscando
+ * los providers decorados con `@FlowStep()` y `@FlowInterrupt()`.
+ */
+@Injectable()
+export class FlowRegistry implements OnModuleInit {
+  private readonly logger = new Logger(FlowRegistry.name);
+  private readonly steps = new Map<string, FlowStepHandler>();
+  private interrupts: FlowInterruptHandler[] = [];
+
+  constructor(private readonly discoveryService: DiscoveryService) {}
+
+  onModuleInit(): void {
+    for (const wrapper of this.discoveryService.getProviders({
+      metadataKey: FlowStep.KEY,
+    })) {
+      this.registerStep(wrapper.instance as FlowStepHandler);
+    }
+
+    for (const wrapper of this.discoveryService.getProviders({
+      metadataKey: FlowInterrupt.KEY,
+    })) {
+      this.registerInterrupt(wrapper.instance as FlowInterruptHandler);
+    }
+
+    this.logger.log(
+      `🧭 Flujos: ${this.steps.size} pasos, ${this.interrupts.length} interrupciones`,
+    );
+  }
+
+  /**
+   * @throws Error si otro handler ya registró el mismo paso.
+   */
+  registerStep(handler: FlowStepHandler): void {
+    if (this.steps.has(handler.step)) {
+      throw new Error(`El paso ${handler.step} ya está registrado`);
+    }
+
+    this.steps.set(handler.step, handler);
+  }
+
+  registerInterrupt(handler: FlowInterruptHandler): void {
+    this.interrupts = [...this.interrupts, handler].sort(
+      (a, b) => a.priority - b.priority,
+    );
+  }
+
+  getStep(step: string): FlowStepHandler | undefined {
+    return this.steps.get(step);
+  }
+
+  getInterrupts(): readonly FlowInterruptHandler[] {
+    return this.interrupts;
+  }
+
+  /**
+   * Opciones del menú principal, ordenadas.
+   */
+  getMenuEntries(): Array<FlowMenuEntry & { step: string }> {
+    return [...this.steps.values()]
+      .flatMap((handler) =>
+        handler.menu ? [{ step: handler.step, ...handler.menu }] : [],
+      )
+      .sort((a, b) => (a.order ?? 100) - (b.order ?? 100));
+  }
+}
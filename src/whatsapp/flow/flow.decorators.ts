@@ -0,0 +1,13 @@
+import { DiscoveryService } from '@nestjs/core';
+
+/**
+ * Marca un provider como paso de un flujo (implementa `FlowStepHandler`).
+ * FlowRegistry lo encuentra en cualquier módulo: un flujo nuevo solo tiene
+ * que declarar sus pasos como providers.
+ */
+export const FlowStep = DiscoveryService.createDecorator<void>();
+
+/**
+ * Marca un provider como interrupción global (implementa `FlowInterruptHandler`).
+ */
+export const FlowInterrupt = DiscoveryService.createDecorator<void>();
@@ -0,0 +1,94 @@
+import type { ChatHistory } from '../../knowledge/types/chat-history.type';
+import type { ConversationData } from '../ports/conversation.port';
+import type { StudentData } from '../ports/student.port';
+import type { ConversationInput } from '../types/conversation-input.type';
+import type { ReplyOptions, ReplyTarget } from '../types/reply-target.type';
+import type {
+  WhatsappListMessage,
+  WhatsappReplyButton,
+} from '../types/whatsapp-outbound.type';
+import type { ContextSchema } from './flow-context-schema';
+
+export type FlowData = Record<string, unknown>;
+
+/**
+ * Lo que recibe cada paso: la conversación, la entrada del alumno,
+ * su contexto ya validado y cómo responderle (por el canal por el que escribió).
+ */
+export interface FlowContext<TData extends FlowData = FlowData> {
+  conversation: ConversationData;
+  student: StudentData;
+  input: ConversationInput;
+  replyTo: ReplyTarget;
+  data: TData;
+  reply(text: string, options?: ReplyOptions): Promise<void>;
+  replyButtons(body: string, buttons: WhatsappReplyButton[]): Promise<void>;
+  replyList(list: WhatsappListMessage): Promise<void>;
+  /**
+   * Mensajes previos de la conversación (sin el actual), para el RAG.
+   */
+  history(): Promise<ChatHistory>;
+}
+
+/**
+ * Resultado de un paso. Sin `next` la conversación sigue en el mismo paso.
+ * - `next`: paso al que pasa (si tiene `enter`, se ejecuta enseguida).
+ * - `data`: nuevo contexto. Al cambiar de paso, por defecto arranca vacío.
+ * - `forward`: en vez del `enter`, el paso siguiente atiende esta misma entrada.
+ * - `ended`: la conversación ya no sigue (ej: `reset` abrió otra); no se persiste nada.
+ */
+export type FlowResult = {
+  next?: string;
+  data?: FlowData;
+  forward?: boolean;
+  ended?: boolean;
+};
+
+/**
+ * Si el alumno tarda más de `afterMs` en contestar, el paso se abandona:
+ * se avisa (opcional) y la entrada la atiende `next`.
+ */
+export type FlowTimeout = {
+  afterMs: number;
+  next: string;
+  message?: string;
+};
+
+/**
+ * Opción del menú principal que lleva a este paso.
+ */
+export type FlowMenuEntry = {
+  title: string;
+  description?: string;
+  // Orden en el menú (menor primero)
+  order?: number;
+  // Mensaje al elegirlo en el menú (para pasos sin `enter`)
+  prompt?: string;
+};
+
+/**
+ * Un paso de un flujo. Se registra solo con `@FlowStep()`.
+ */
+export interface FlowStepHandler<TData extends FlowData = FlowData> {
+  readonly step: string;
+  readonly context: ContextSchema<TData>;
+  readonly timeout?: FlowTimeout;
+  readonly menu?: FlowMenuEntry;
+  /**
+   * Se ejecuta al entrar al paso (ej: mandar la primera pregunta).
+   */
+  enter?(ctx: FlowContext<TData>): Promise<FlowResult | void>;
+  handle(ctx: FlowContext<TData>): Promise<FlowResult | void>;
+}
+
+/**
+ * Interrupción global (ej: `reset`, `menu`): se evalúa antes que el paso
+ * actual, en cualquier flujo. Se registra sola con `@FlowInterrupt()`.
+ */
+export interface FlowInterruptHandler {
+  readonly name: string;
+  // Menor primero
+  readonly priority: number;
+  matches(input: ConversationInput): boolean;
+  handle(ctx: FlowContext): Promise<FlowResult | void>;
+}
@@ -0,0 +1,64 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AppointmentBookingService } from '../../appointments/appointment-booking.service';
+import { formatSlot } from '../../appointments/appointment-format.utils';
+import { REMINDER_REPLY_PREFIX } from '../../appointments/appointment-reminder.service';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { FlowInterrupt } from '../flow.decorators';
+import type { FlowContext, FlowInterruptHandler } from '../flow.types';
+
+/**
+ * Botones del recordatorio de un turno (confirmar o cancelar). No cambia de
+ * paso: el alumno puede tocarlos en medio de un quiz.
+ */
+@FlowInterrupt()
+@Injectable()
+export class AppointmentReminderInterrupt implements FlowInterruptHandler {
+  readonly name = 'appointment-reminder';
+  readonly priority = 20;
+  private readonly logger = new Logger(AppointmentReminderInterrupt.name);
+
+  constructor(private readonly bookingService: AppointmentBookingService) {}
+
+  matches(input: ConversationInput): boolean {
+    return !!input.replyId?.startsWith(REMINDER_REPLY_PREFIX);
+  }
+
+  async handle(ctx: FlowContext): Promise<void> {
+    const [action, appointmentId = ''] = (ctx.input.replyId ?? '')
+      .slice(REMINDER_REPLY_PREFIX.length)
+      .split(':');
+
+    if (action === 'confirm') {
+      const confirmed = await this.bookingService.confirm(
+        ctx.student.id,
+        appointmentId,
+      );
+
+      await ctx.reply(
+        confirmed
+          ? `👍 ¡Gracias! Te esperamos el *${formatSlot(confirmed.slot)}*.`
+          : '😕 Ese turno ya no está vigente. Escribí *mis turnos* para ver los tuyos.',
+      );
+      return;
+    }
+
+    // Why: Un id mal formado no puede terminar cancelando un turno por descarte
+    if (action !== 'cancel') {
+      this.logger.warn(
+        `⚠️ Acción de recordatorio desconocida: ${ctx.input.replyId}`,
+      );
+      return;
+    }
+
+    const cancelled = await this.bookingService.cancel(
+      ctx.student.id,
+      appointmentId,
+    );
+
+    await ctx.reply(
+      cancelled
+        ? `🗑️ Cancelé tu turno del *${formatSlot(cancelled.slot)}*. Gracias por avisar. Escribí *turno* para reservar otro.`
+        : '😕 Ese turno ya no está vigente. Escribí *mis turnos* para ver los tuyos.',
+    );
+  }
+}
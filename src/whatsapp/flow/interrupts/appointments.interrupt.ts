@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { AppointmentBookingService } from '../../appointments/appointment-booking.service';
+import { formatSlot } from '../../appointments/appointment-format.utils';
+import type { AppointmentData } from '../../ports/appointment.port';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { FlowInterrupt } from '../flow.decorators';
+import type {
+  FlowContext,
+  FlowInterruptHandler,
+  FlowResult,
+} from '../flow.types';
+import { BOOKING_STEP } from '../steps/booking.step';
+
+const LIST_COMMAND = /^mis turnos$/i;
+const CANCEL_COMMAND = /^cancelar turno(?:\s+(\d+))?$/i;
+const RESCHEDULE_COMMAND = /^(?:cambiar|reprogramar) turno(?:\s+(\d+))?$/i;
+
+/**
+ * `mis turnos`, `cancelar turno [n]` y `cambiar turno [n]`: los turnos
+ * reservados del alumno. `n` es el número que muestra `mis turnos` (hace
+ * falta solo si tiene más de uno).
+ */
+@FlowInterrupt()
+@Injectable()
+export class AppointmentsInterrupt implements FlowInterruptHandler {
+  readonly name = 'appointments';
+  readonly priority = 20;
+
+  constructor(private readonly bookingService: AppointmentBookingService) {}
+
+  matches(input: ConversationInput): boolean {
+    const text = input.text.trim();
+
+    return [LIST_COMMAND, CANCEL_COMMAND, RESCHEDULE_COMMAND].some((command) =>
+      command.test(text),
+    );
+  }
+
+  async handle(ctx: FlowContext): Promise<FlowResult | void> {
+    const text = ctx.input.text.trim();
+    const appointments = await this.bookingService.findUpcoming(ctx.student.id);
+
+    if (appointments.length === 0) {
+      await ctx.reply(
+        '📅 No tenés turnos reservados. Escribí *turno* para reservar una clase.',
+      );
+      return;
+    }
+
+    if (LIST_COMMAND.test(text)) {
+      await ctx.reply(
+        `📅 *Tus turnos*\n\n${this.listAppointments(appointments)}\n\nPara cambiar o cancelar: *cambiar turno${appointments.length > 1 ? ' 1' : ''}* o *cancelar turno${appointments.length > 1 ? ' 1' : ''}*.`,
+      );
+      return;
+    }
+
+    const cancel = CANCEL_COMMAND.exec(text);
+    const match = cancel ?? RESCHEDULE_COMMAND.exec(text);
+    const command = cancel ? 'cancelar turno' : 'cambiar turno';
+    const appointment = this.pick(appointments, match?.[1]);
+
+    if (!appointment) {
+      await ctx.reply(
+        `¿Cuál? Escribí *${command}* con el número:\n\n${this.listAppointments(appointments)}`,
+      );
+      return;
+    }
+
+    if (!cancel) {
+      return { next: BOOKING_STEP, data: { rescheduleId: appointment.id } };
+    }
+
+    const cancelled = await this.bookingService.cancel(
+      ctx.student.id,
+      appointment.id,
+    );
+
+    await ctx.reply(
+      cancelled
+        ? `🗑️ Cancelé tu turno del *${formatSlot(appointment.slot)}*.`
+        : '😕 No pude cancelar ese turno. Escribí *mis turnos* para ver cómo quedaron.',
+    );
+  }
+
+  private pick(
+    appointments: AppointmentData[],
+    number: string | undefined,
+  ): AppointmentData | null {
+    if (!number) {
+      return appointments.length === 1 ? appointments[0] : null;
+    }
+
+    return appointments[Number(number) - 1] ?? null;
+  }
+
+  private listAppointments(appointments: AppointmentData[]): string {
+    return appointments
+      .map((appointment, i) => `${i + 1}. ${formatSlot(appointment.slot)}`)
+      .join('\n');
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { FlowInterrupt } from '../flow.decorators';
+import type { FlowInterruptHandler, FlowResult } from '../flow.types';
+import { BOOKING_STEP } from '../steps/booking.step';
+
+const BOOKING_WORDS = [
+  'turno',
+  'sacar turno',
+  'reservar',
+  'reservar turno',
+  'reservar clase',
+];
+
+/**
+ * `turno`: arranca la reserva de una clase de manejo.
+ */
+@FlowInterrupt()
+@Injectable()
+export class BookingInterrupt implements FlowInterruptHandler {
+  readonly name = 'booking';
+  readonly priority = 20;
+
+  matches(input: ConversationInput): boolean {
+    return BOOKING_WORDS.includes(input.text.trim().toLowerCase());
+  }
+
+  handle(): Promise<FlowResult> {
+    return Promise.resolve({ next: BOOKING_STEP });
+  }
+}
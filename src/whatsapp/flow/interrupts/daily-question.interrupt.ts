@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { Channel } from '../../../student/enums/channel.enum';
+import {
+  DAILY_QUESTION_REPLY_PREFIX,
+  DailyQuestionService,
+} from '../../daily-question/daily-question.service';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { parseLocalTime } from '../../utils/argentina-time';
+import { FlowInterrupt } from '../flow.decorators';
+import type { FlowContext, FlowInterruptHandler } from '../flow.types';
+
+const DAILY_QUESTION_COMMAND = /^pregunta diaria(?:\s+(.+))?$/i;
+const ON_WORDS = ['on', 'si', 'sí', 'activar'];
+const OFF_WORDS = ['off', 'no', 'desactivar'];
+
+/**
+ * `pregunta diaria on|off|<hora>`: preferencias de la pregunta diaria.
+ * También corrige la respuesta a una pregunta diaria (botones `daily:`),
+ * sin cambiar de paso.
+ */
+@FlowInterrupt()
+@Injectable()
+export class DailyQuestionInterrupt implements FlowInterruptHandler {
+  readonly name = 'daily-question';
+  readonly priority = 20;
+
+  constructor(private readonly dailyQuestionService: DailyQuestionService) {}
+
+  matches(input: ConversationInput): boolean {
+    return (
+      !!input.replyId?.startsWith(DAILY_QUESTION_REPLY_PREFIX) ||
+      DAILY_QUESTION_COMMAND.test(input.text.trim())
+    );
+  }
+
+  async handle(ctx: FlowContext): Promise<void> {
+    const { replyId } = ctx.input;
+
+    if (replyId?.startsWith(DAILY_QUESTION_REPLY_PREFIX)) {
+      const feedback = await this.dailyQuestionService.answer(
+        ctx.student.id,
+        replyId,
+      );
+
+      await ctx.reply(
+        feedback ??
+          '🤷‍♂️ Esa pregunta ya no está disponible. Escribí *quiz* para practicar.',
+      );
+      return;
+    }
+
+    // El widget web no recibe mensajes si el visitante no tiene la página abierta
+    if (ctx.student.channel === Channel.WEB) {
+      await ctx.reply(
+        '🧠 La pregunta diaria llega por WhatsApp o Telegram. Desde acá podés practicar con *quiz*.',
+      );
+      return;
+    }
+
+    const args = (DAILY_QUESTION_COMMAND.exec(ctx.input.text.trim())?.[1] ?? '')
+      .trim()
+      .toLowerCase();
+    const [action = '', timeArg = ''] = args.split(/\s+/);
+
+    if (OFF_WORDS.includes(action)) {
+      await this.dailyQuestionService.updatePreferences(
+        ctx.student.id,
+        false,
+        ctx.student.dailyQuestionTime ?? null,
+      );
+      await ctx.reply(
+        '🔕 Listo, no te mando más la pregunta diaria. Escribí *pregunta diaria on* para volver a activarla.',
+      );
+      return;
+    }
+
+    const isOn = ON_WORDS.includes(action);
+    // "pregunta diaria 20:30" cambia la hora (y la activa)
+    const timeText = isOn ? timeArg : action;
+
+    if (!isOn && !timeText) {
+      await ctx.reply(this.buildStatus(ctx));
+      return;
+    }
+
+    const time = timeText
+      ? parseLocalTime(timeText)
+      : (ctx.student.dailyQuestionTime ??
+        this.dailyQuestionService.defaultTime);
+
+    if (!time) {
+      await ctx.reply(
+        `No entendí la hora "${timeText}". Probá con *pregunta diaria on 20:30*.`,
+      );
+      return;
+    }
+
+    await this.dailyQuestionService.updatePreferences(
+      ctx.student.id,
+      true,
+      time,
+    );
+    await ctx.reply(
+      `🔔 ¡Listo! Todos los días a las *${time}* te mando una pregunta para practicar.\nPara cambiar la hora: *pregunta diaria 20:30*. Para dejar de recibirla: *pregunta diaria off*.`,
+    );
+  }
+
+  private buildStatus(ctx: FlowContext): string {
+    const { dailyQuestionEnabled, dailyQuestionTime } = ctx.student;
+    const status =
+      dailyQuestionEnabled && dailyQuestionTime
+        ? `🔔 Tenés la pregunta diaria activada a las *${dailyQuestionTime}*.`
+        : '🔕 No tenés la pregunta diaria activada.';
+
+    return `${status}\n\n• *pregunta diaria on* (o *on 8:30*) para activarla\n• *pregunta diaria 20:30* para cambiar la hora\n• *pregunta diaria off* para desactivarla`;
+  }
+}
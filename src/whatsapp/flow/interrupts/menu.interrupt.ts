@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { FlowRegistry } from '../flow-registry';
+import { FlowInterrupt } from '../flow.decorators';
+import type {
+  FlowContext,
+  FlowInterruptHandler,
+  FlowResult,
+} from '../flow.types';
+
+// Las filas del menú traen `menu:<paso>` como id
+export const MENU_REPLY_PREFIX = 'menu:';
+
+const MENU_WORDS = ['menu', 'menú', 'opciones'];
+
+/**
+ * `menu`: muestra las opciones de todos los flujos registrados y, al elegir
+ * una, salta a ese paso desde donde esté el alumno.
+ */
+@FlowInterrupt()
+@Injectable()
+export class MenuInterrupt implements FlowInterruptHandler {
+  readonly name = 'menu';
+  readonly priority = 10;
+
+  constructor(private readonly registry: FlowRegistry) {}
+
+  matches(input: ConversationInput): boolean {
+    return (
+      MENU_WORDS.includes(input.text.trim().toLowerCase()) ||
+      input.replyId === 'menu' ||
+      !!input.replyId?.startsWith(MENU_REPLY_PREFIX)
+    );
+  }
+
+  async handle(ctx: FlowContext): Promise<FlowResult | void> {
+    const entries = this.registry.getMenuEntries();
+    const selected = ctx.input.replyId?.startsWith(MENU_REPLY_PREFIX)
+      ? ctx.input.replyId.slice(MENU_REPLY_PREFIX.length)
+      : undefined;
+
+    const entry = selected
+      ? entries.find((candidate) => candidate.step === selected)
+      : undefined;
+
+    if (entry) {
+      if (entry.prompt) {
+        await ctx.reply(entry.prompt);
+      }
+
+      return { next: entry.step };
+    }
+
+    // WhatsApp admite hasta 10 filas (dejamos una para reiniciar)
+    await ctx.replyList({
+      body: '¿Qué querés hacer?',
+      buttonText: 'Ver opciones',
+      sections: [
+        {
+          rows: [
+            ...entries.slice(0, 9).map((entry) => ({
+              id: `${MENU_REPLY_PREFIX}${entry.step}`,
+              title: entry.title,
+              description: entry.description,
+            })),
+            {
+              id: 'reset',
+              title: '🔄 Reiniciar',
+              description: 'Empezar la conversación de cero',
+            },
+          ],
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { FlowInterrupt } from '../flow.decorators';
+import type { FlowInterruptHandler, FlowResult } from '../flow.types';
+import { MOCK_EXAM_STEP } from '../steps/mock-exam.step';
+
+const MOCK_EXAM_WORDS = ['simulacro', 'simulacro de examen'];
+
+/**
+ * `simulacro`: arranca un simulacro del examen teórico desde cualquier paso.
+ */
+@FlowInterrupt()
+@Injectable()
+export class MockExamInterrupt implements FlowInterruptHandler {
+  readonly name = 'mock-exam';
+  readonly priority = 20;
+
+  matches(input: ConversationInput): boolean {
+    return MOCK_EXAM_WORDS.includes(input.text.trim().toLowerCase());
+  }
+
+  handle(): Promise<FlowResult> {
+    return Promise.resolve({ next: MOCK_EXAM_STEP });
+  }
+}
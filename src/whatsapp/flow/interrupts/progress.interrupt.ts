@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import type { StudentProgressData } from '../../ports/progress.port';
+import { StudentProgressService } from '../../progress/student-progress.service';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { FlowInterrupt } from '../flow.decorators';
+import type { FlowContext, FlowInterruptHandler } from '../flow.types';
+
+const PROGRESS_WORDS = ['mi progreso', 'progreso'];
+// El resumen es para WhatsApp: no más de 8 temas
+const MAX_TOPICS_IN_SUMMARY = 8;
+
+function percent(accuracy: number | null): string {
+  return accuracy === null ? '-' : `${Math.round(accuracy * 100)}%`;
+}
+
+/**
+ * `mi progreso`: resumen por tema de lo que preguntó y respondió el alumno.
+ * No cambia de paso (ej: se puede pedir en medio de un quiz).
+ */
+@FlowInterrupt()
+@Injectable()
+export class ProgressInterrupt implements FlowInterruptHandler {
+  readonly name = 'progress';
+  readonly priority = 20;
+
+  constructor(private readonly progressService: StudentProgressService) {}
+
+  matches(input: ConversationInput): boolean {
+    return PROGRESS_WORDS.includes(input.text.trim().toLowerCase());
+  }
+
+  async handle(ctx: FlowContext): Promise<void> {
+    const progress = await this.progressService.getProgress(ctx.student.id);
+
+    await ctx.reply(this.buildSummary(progress));
+  }
+
+  private buildSummary(progress: StudentProgressData): string {
+    if (progress.questionsAsked === 0 && progress.answered === 0) {
+      return '📊 Todavía no tengo datos de tu progreso. Hacé preguntas o escribí *quiz* para practicar.';
+    }
+
+    const lines = [
+      '📊 *Tu progreso*',
+      '',
+      `❓ Preguntas hechas: ${progress.questionsAsked}`,
+      `📝 Respuestas en quiz y simulacros: ${progress.answered} (${percent(progress.accuracy)} correctas)`,
+      '',
+      '*Por tema:*',
+      ...progress.topics
+        .slice(0, MAX_TOPICS_IN_SUMMARY)
+        .map((topic) =>
+          topic.answered > 0
+            ? `• ${topic.topic}: ${topic.correct}/${topic.answered} (${percent(topic.accuracy)}) · ${topic.questionsAsked} preguntas`
+            : `• ${topic.topic}: ${topic.questionsAsked} preguntas`,
+        ),
+    ];
+
+    const [weakest] = progress.weakestTopics;
+
+    if (weakest) {
+      lines.push(
+        '',
+        `⚠️ *Para reforzar:* ${progress.weakestTopics.map((topic) => topic.topic).join(', ')}`,
+        `Escribí *quiz ${weakest.topic.toLowerCase()}* para practicar.`,
+      );
+    }
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { FlowInterrupt } from '../flow.decorators';
+import type {
+  FlowContext,
+  FlowInterruptHandler,
+  FlowResult,
+} from '../flow.types';
+import { QUIZ_STEP } from '../steps/quiz.step';
+
+// "quiz" o "quiz <tema>" (ej: "quiz señales")
+const QUIZ_COMMAND = /^quiz(?:\s+(.+))?$/i;
+
+/**
+ * `quiz [tema]`: arranca una ronda de práctica desde cualquier paso.
+ */
+@FlowInterrupt()
+@Injectable()
+export class QuizInterrupt implements FlowInterruptHandler {
+  readonly name = 'quiz';
+  readonly priority = 20;
+
+  matches(input: ConversationInput): boolean {
+    return QUIZ_COMMAND.test(input.text.trim());
+  }
+
+  handle(ctx: FlowContext): Promise<FlowResult> {
+    const topic = QUIZ_COMMAND.exec(ctx.input.text.trim())?.[1] ?? '';
+
+    return Promise.resolve({ next: QUIZ_STEP, data: { topic: topic.trim() } });
+  }
+}
@@ -0,0 +1,37 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CONVERSATION_PORT } from '../../ports';
+import type { ConversationPort } from '../../ports/conversation.port';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { FlowInterrupt } from '../flow.decorators';
+import type {
+  FlowContext,
+  FlowInterruptHandler,
+  FlowResult,
+} from '../flow.types';
+
+/**
+ * `reset`: abandona cualquier flujo y arranca una conversación nueva.
+ */
+@FlowInterrupt()
+@Injectable()
+export class ResetInterrupt implements FlowInterruptHandler {
+  readonly name = 'reset';
+  readonly priority = 0;
+
+  constructor(
+    @Inject(CONVERSATION_PORT)
+    private readonly conversationPort: ConversationPort,
+  ) {}
+
+  matches(input: ConversationInput): boolean {
+    return (
+      input.text.trim().toLowerCase() === 'reset' || input.replyId === 'reset'
+    );
+  }
+
+  async handle(ctx: FlowContext): Promise<FlowResult> {
+    await this.conversationPort.create(ctx.student, ctx.replyTo.channel);
+    await ctx.reply('🔄 Conversación reiniciada. Escribí "Hola" para empezar.');
+    return { ended: true };
+  }
+}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { FlowInterrupt } from '../flow.decorators';
+import type { FlowInterruptHandler, FlowResult } from '../flow.types';
+import { QUIZ_STEP } from '../steps/quiz.step';
+
+const REVIEW_WORDS = ['repasar', 'repaso'];
+
+/**
+ * `repasar`: un quiz con las preguntas falladas que ya toca repasar.
+ */
+@FlowInterrupt()
+@Injectable()
+export class ReviewInterrupt implements FlowInterruptHandler {
+  readonly name = 'review';
+  readonly priority = 20;
+
+  matches(input: ConversationInput): boolean {
+    return REVIEW_WORDS.includes(input.text.trim().toLowerCase());
+  }
+
+  handle(): Promise<FlowResult> {
+    return Promise.resolve({ next: QUIZ_STEP, data: { mode: 'review' } });
+  }
+}
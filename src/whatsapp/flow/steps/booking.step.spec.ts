@@ -0,0 +1,168 @@
+import { Channel } from '../../../student/enums/channel.enum';
+import type { AppointmentBookingService } from '../../appointments/appointment-booking.service';
+import type { NoShowPolicyService } from '../../appointments/no-show-policy.service';
+import type { SlotData } from '../../ports/appointment.port';
+import type { FlowContext } from '../flow.types';
+import { BookingStep } from './booking.step';
+
+describe('BookingStep', () => {
+  // 10:00 y 11:00 del lunes 2/3 en Argentina
+  const slot = (id: string, hour: number): SlotData => ({
+    id,
+    startsAt: new Date(`2026-03-02T${hour + 3}:00:00Z`),
+    endsAt: new Date(`2026-03-02T${hour + 4}:00:00Z`),
+    instructorName: 'Carlos',
+    vehicleName: 'Fiat Cronos',
+  });
+  const findAvailableDays = jest.fn();
+  const findAvailableSlots = jest.fn();
+  const findSlot = jest.fn();
+  const book = jest.fn();
+  const isBookingBlocked = jest.fn();
+  const reply = jest.fn();
+  const replyButtons = jest.fn();
+  const replyList = jest.fn();
+
+  let step: BookingStep;
+
+  type BookingData = Parameters<BookingStep['handle']>[0]['data'];
+
+  const buildContext = (
+    data: Partial<BookingData>,
+    input: { text?: string; replyId?: string } = {},
+    channel = Channel.WHATSAPP,
+  ) =>
+    ({
+      conversation: {},
+      student: { id: 'student-1', name: 'Ana', channel },
+      input: { kind: 'text', messageId: 'wamid.1', text: '', ...input },
+      replyTo: { channel, externalId: '541122334455' },
+      data: step.context.parse(data),
+      reply,
+      replyButtons,
+      replyList,
+      history: jest.fn(),
+    }) as unknown as FlowContext<BookingData>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    isBookingBlocked.mockReturnValue(false);
+    step = new BookingStep(
+      {
+        findAvailableDays,
+        findAvailableSlots,
+        findSlot,
+        book,
+      } as unknown as AppointmentBookingService,
+      { isBookingBlocked } as unknown as NoShowPolicyService,
+    );
+  });
+
+  it('should list the days with free slots', async () => {
+    findAvailableDays.mockResolvedValue([
+      { date: '2026-03-02', slots: [slot('s1', 10), slot('s2', 11)] },
+    ]);
+
+    const result = await step.enter(buildContext({}));
+
+    expect(replyList).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sections: [
+          expect.objectContaining({
+            rows: [
+              {
+                id: 'booking:day:2026-03-02',
+                title: 'lunes 2/3',
+                description: '2 horarios libres',
+              },
+            ],
+          }),
+        ],
+      }),
+    );
+    expect(result).toEqual({
+      data: expect.objectContaining({
+        stage: 'day',
+        days: ['2026-03-02'],
+      }) as unknown,
+    });
+  });
+
+  it('should not let anonymous web visitors book', async () => {
+    const result = await step.enter(buildContext({}, {}, Channel.WEB));
+
+    expect(findAvailableDays).not.toHaveBeenCalled();
+    expect(result).toEqual({ next: 'LEARNING' });
+  });
+
+  it('should not let a student blocked for no-shows book', async () => {
+    isBookingBlocked.mockReturnValue(true);
+
+    const result = await step.enter(buildContext({}));
+
+    expect(reply).toHaveBeenCalledWith(expect.stringContaining('faltaste'));
+    expect(findAvailableDays).not.toHaveBeenCalled();
+    expect(result).toEqual({ next: 'LEARNING' });
+  });
+
+  it('should show the slots of the day picked by number', async () => {
+    findAvailableSlots.mockResolvedValue([slot('s1', 10), slot('s2', 11)]);
+
+    const result = await step.handle(
+      buildContext({ stage: 'day', days: ['2026-03-02'] }, { text: '1' }),
+    );
+
+    expect(findAvailableSlots).toHaveBeenCalledWith('2026-03-02');
+    expect(result).toEqual({
+      data: expect.objectContaining({
+        stage: 'slot',
+        day: '2026-03-02',
+        slotIds: ['s1', 's2'],
+      }) as unknown,
+    });
+  });
+
+  it('should book the slot once the student confirms', async () => {
+    book.mockResolvedValue({
+      id: 'appointment-1',
+      studentId: 'student-1',
+      status: 'BOOKED',
+      slot: slot('s1', 10),
+    });
+
+    const result = await step.handle(
+      buildContext(
+        { stage: 'confirm', day: '2026-03-02', slotId: 's1' },
+        { replyId: 'booking:confirm', text: '✅ Confirmar' },
+      ),
+    );
+
+    expect(book).toHaveBeenCalledWith('student-1', 's1', undefined);
+    expect(reply).toHaveBeenCalledWith(
+      expect.stringContaining('lunes 2/3 a las 10:00 con Carlos'),
+    );
+    expect(result).toEqual({ next: 'LEARNING' });
+  });
+
+  it('should offer the remaining slots when someone else took it first', async () => {
+    book.mockResolvedValue(null);
+    findAvailableSlots.mockResolvedValue([slot('s2', 11)]);
+
+    const result = await step.handle(
+      buildContext(
+        { stage: 'confirm', day: '2026-03-02', slotId: 's1' },
+        { replyId: 'booking:confirm', text: '✅ Confirmar' },
+      ),
+    );
+
+    expect(reply).toHaveBeenCalledWith(
+      expect.stringContaining('se acaba de ocupar'),
+    );
+    expect(result).toEqual({
+      data: expect.objectContaining({
+        stage: 'slot',
+        slotIds: ['s2'],
+      }) as unknown,
+    });
+  });
+});
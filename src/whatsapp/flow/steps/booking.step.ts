@@ -0,0 +1,314 @@
+import { Injectable } from '@nestjs/common';
+import { ConversationStep } from '../../../conversation/enums/conversation-step.enum';
+import { Channel } from '../../../student/enums/channel.enum';
+import {
+  AppointmentBookingService,
+  AvailableDay,
+} from '../../appointments/appointment-booking.service';
+import {
+  formatDay,
+  formatSlot,
+} from '../../appointments/appointment-format.utils';
+import { NoShowPolicyService } from '../../appointments/no-show-policy.service';
+import type { SlotData } from '../../ports/appointment.port';
+import type { ConversationInput } from '../../types/conversation-input.type';
+import { argentinaTime } from '../../utils/argentina-time';
+import { contextSchema, field } from '../flow-context-schema';
+import { FlowStep } from '../flow.decorators';
+import type { FlowContext, FlowResult, FlowStepHandler } from '../flow.types';
+
+export const BOOKING_STEP = 'BOOKING';
+
+// WhatsApp admite hasta 10 filas por lista
+const MAX_LIST_ROWS = 10;
+const DAY_PREFIX = 'booking:day:';
+const SLOT_PREFIX = 'booking:slot:';
+const CONFIRM_ID = 'booking:confirm';
+const BACK_ID = 'booking:back';
+const EXIT_WORDS = ['salir', 'terminar', 'basta'];
+const CONFIRM_WORDS = ['si', 'sí', 'confirmar', 'confirmo', 'dale'];
+const BACK_WORDS = ['no', 'otro', 'otro horario', 'volver'];
+const BOOKING_STAGES = ['day', 'slot', 'confirm'] as const;
+
+type BookingData = {
+  stage: (typeof BOOKING_STAGES)[number];
+  // Días y horarios ofrecidos en la última lista (para responder con el número)
+  days: string[];
+  slotIds: string[];
+  day: string;
+  slotId: string;
+  // Turno a reemplazar (`cambiar turno`); '' = reserva nueva
+  rescheduleId: string;
+};
+
+/**
+ * Opción elegida de una lista, por fila tocada o por número escrito.
+ */
+function parseChoice(
+  input: ConversationInput,
+  prefix: string,
+  options: string[],
+): string | null {
+  if (input.replyId?.startsWith(prefix)) {
+    const value = input.replyId.slice(prefix.length);
+
+    return options.includes(value) ? value : null;
+  }
+
+  const index = Number(/^(\d{1,2})\b/.exec(input.text.trim())?.[1]) - 1;
+
+  return options[index] ?? null;
+}
+
+/**
+ * Reserva de un turno de clase de manejo: día → horario → confirmación.
+ * También mueve un turno existente (`cambiar turno`).
+ */
+@FlowStep()
+@Injectable()
+export class BookingStep implements FlowStepHandler<BookingData> {
+  readonly step: string = BOOKING_STEP;
+  readonly context = contextSchema<BookingData>({
+    stage: field.oneOf(BOOKING_STAGES, 'day'),
+    days: field.stringArray(),
+    slotIds: field.stringArray(),
+    day: field.string(),
+    slotId: field.string(),
+    rescheduleId: field.string(),
+  });
+  readonly timeout = {
+    afterMs: 15 * 60 * 1000,
+    next: ConversationStep.LEARNING,
+    message:
+      '⌛ La reserva quedó sin terminar. Escribí *turno* cuando quieras retomarla.',
+  };
+  readonly menu = {
+    title: '📅 Reservar clase',
+    description: 'Turnos para clases de manejo',
+    order: 40,
+  };
+
+  constructor(
+    private readonly bookingService: AppointmentBookingService,
+    private readonly noShowPolicyService: NoShowPolicyService,
+  ) {}
+
+  async enter(ctx: FlowContext<BookingData>): Promise<FlowResult> {
+    // Los visitantes anónimos del sitio no tienen alta: no pueden reservar
+    if (ctx.student.channel === Channel.WEB) {
+      await ctx.reply(
+        '📅 Los turnos se reservan por WhatsApp, una vez que te inscribís en la academia.',
+      );
+      return { next: ConversationStep.LEARNING };
+    }
+
+    if (this.noShowPolicyService.isBookingBlocked(ctx.student)) {
+      await ctx.reply(
+        '⚠️ Tenés varias clases a las que faltaste sin avisar. Para reservar de nuevo, hablá con la academia.',
+      );
+      return { next: ConversationStep.LEARNING };
+    }
+
+    return this.showDays(ctx, ctx.data.rescheduleId);
+  }
+
+  async handle(ctx: FlowContext<BookingData>): Promise<FlowResult | void> {
+    const text = ctx.input.text.trim().toLowerCase();
+
+    if (EXIT_WORDS.includes(text)) {
+      await ctx.reply(
+        ctx.data.rescheduleId
+          ? '👌 Listo, tu turno queda como estaba.'
+          : '👌 Listo, no reservé nada.',
+      );
+      return { next: ConversationStep.LEARNING };
+    }
+
+    switch (ctx.data.stage) {
+      case 'day':
+        return this.handleDay(ctx);
+      case 'slot':
+        return this.handleSlot(ctx);
+      case 'confirm':
+        return this.handleConfirm(ctx);
+    }
+  }
+
+  private async handleDay(
+    ctx: FlowContext<BookingData>,
+  ): Promise<FlowResult | void> {
+    const day = parseChoice(ctx.input, DAY_PREFIX, ctx.data.days);
+
+    if (!day) {
+      await ctx.reply('Elegí un día de la lista (o *salir* para cancelar).');
+      return;
+    }
+
+    return this.showSlots(ctx, day);
+  }
+
+  private async handleSlot(
+    ctx: FlowContext<BookingData>,
+  ): Promise<FlowResult | void> {
+    if (BACK_WORDS.includes(ctx.input.text.trim().toLowerCase())) {
+      return this.showDays(ctx, ctx.data.rescheduleId);
+    }
+
+    const slotId = parseChoice(ctx.input, SLOT_PREFIX, ctx.data.slotIds);
+    const slot = slotId ? await this.bookingService.findSlot(slotId) : null;
+
+    if (!slot) {
+      await ctx.reply(
+        'Elegí un horario de la lista (*otro* para cambiar de día, *salir* para cancelar).',
+      );
+      return;
+    }
+
+    const overlapping = await this.bookingService.findOverlapping(
+      ctx.student.id,
+      slot,
+      ctx.data.rescheduleId || undefined,
+    );
+
+    if (overlapping) {
+      await ctx.reply(
+        `😕 Ya tenés un turno el *${formatSlot(overlapping.slot)}*. Elegí otro horario (*otro* para cambiar de día).`,
+      );
+      return;
+    }
+
+    await ctx.replyButtons(
+      `${ctx.data.rescheduleId ? '🔁 ¿Cambiamos tu turno al' : '📅 ¿Reservamos el'} *${formatSlot(slot)}*?`,
+      [
+        { id: CONFIRM_ID, title: '✅ Confirmar' },
+        { id: BACK_ID, title: '↩️ Otro horario' },
+      ],
+    );
+
+    return { data: { ...ctx.data, stage: 'confirm', slotId: slot.id } };
+  }
+
+  private async handleConfirm(
+    ctx: FlowContext<BookingData>,
+  ): Promise<FlowResult | void> {
+    const { replyId } = ctx.input;
+    const text = ctx.input.text.trim().toLowerCase();
+
+    if (replyId === BACK_ID || BACK_WORDS.includes(text)) {
+      return this.showSlots(ctx, ctx.data.day);
+    }
+
+    if (replyId !== CONFIRM_ID && !CONFIRM_WORDS.includes(text)) {
+      await ctx.reply(
+        'Tocá *Confirmar* u *Otro horario* (o *salir* para cancelar).',
+      );
+      return;
+    }
+
+    const appointment = await this.bookingService.book(
+      ctx.student.id,
+      ctx.data.slotId,
+      ctx.data.rescheduleId || undefined,
+    );
+
+    if (!appointment) {
+      await ctx.reply('😕 Ese horario se acaba de ocupar.');
+      return this.showSlots(ctx, ctx.data.day);
+    }
+
+    await ctx.reply(
+      `✅ ¡Listo! ${ctx.data.rescheduleId ? 'Cambiamos tu turno al' : 'Tu clase quedó reservada para el'} *${formatSlot(appointment.slot)}*.\n\nEscribí *mis turnos* para verlos, *cambiar turno* o *cancelar turno*.`,
+    );
+
+    return { next: ConversationStep.LEARNING };
+  }
+
+  private async showDays(
+    ctx: FlowContext<BookingData>,
+    rescheduleId: string,
+  ): Promise<FlowResult> {
+    const days = (await this.bookingService.findAvailableDays()).slice(
+      0,
+      MAX_LIST_ROWS,
+    );
+
+    if (days.length === 0) {
+      await ctx.reply(
+        '😕 No hay horarios libres en los próximos días. Probá de nuevo más adelante o consultá con la academia.',
+      );
+      return { next: ConversationStep.LEARNING };
+    }
+
+    await ctx.replyList({
+      body: `📅 *${rescheduleId ? 'Cambiar turno' : 'Reservar clase'}*\n\nElegí el día (o *salir* para cancelar):\n\n${days.map((day, i) => `${i + 1}. ${formatDay(day.date)}`).join('\n')}`,
+      buttonText: 'Ver días',
+      sections: [
+        {
+          title: 'Días con lugar',
+          rows: days.map((day) => this.buildDayRow(day)),
+        },
+      ],
+    });
+
+    return {
+      data: {
+        ...this.context.parse({}),
+        stage: 'day',
+        days: days.map((day) => day.date),
+        rescheduleId,
+      },
+    };
+  }
+
+  private async showSlots(
+    ctx: FlowContext<BookingData>,
+    day: string,
+  ): Promise<FlowResult> {
+    const slots = (await this.bookingService.findAvailableSlots(day)).slice(
+      0,
+      MAX_LIST_ROWS,
+    );
+
+    if (slots.length === 0) {
+      await ctx.reply(`😕 El ${formatDay(day)} ya no tiene horarios libres.`);
+      return this.showDays(ctx, ctx.data.rescheduleId);
+    }
+
+    await ctx.replyList({
+      body: `🕐 Horarios del *${formatDay(day)}* (*otro* para cambiar de día):\n\n${slots.map((slot, i) => `${i + 1}. ${this.describeSlot(slot)}`).join('\n')}`,
+      buttonText: 'Ver horarios',
+      sections: [
+        {
+          title: formatDay(day),
+          rows: slots.map((slot) => ({
+            id: `${SLOT_PREFIX}${slot.id}`,
+            title: argentinaTime(slot.startsAt),
+            description: this.describeSlot(slot).slice(0, 72),
+          })),
+        },
+      ],
+    });
+
+    return {
+      data: {
+        ...ctx.data,
+        stage: 'slot',
+        day,
+        slotIds: slots.map((slot) => slot.id),
+        slotId: '',
+      },
+    };
+  }
+
+  private buildDayRow(day: AvailableDay) {
+    return {
+      id: `${DAY_PREFIX}${day.date}`,
+      title: formatDay(day.date),
+      description: `${day.slots.length} ${day.slots.length === 1 ? 'horario libre' : 'horarios libres'}`,
+    };
+  }
+
+  private describeSlot(slot: SlotData): string {
+    return `${argentinaTime(slot.startsAt)} · ${slot.instructorName}${slot.vehicleName ? ` · ${slot.vehicleName}` : ''}`;
+  }
+}
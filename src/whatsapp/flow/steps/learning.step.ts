@@ -0,0 +1,140 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConversationStep } from '../../../conversation/enums/conversation-step.enum';
+import { KnowledgeService } from '../../../knowledge/knowledge.service';
+import { Channel } from '../../../student/enums/channel.enum';
+import { QuestionRateLimiter } from '../../rate-limit/question-rate-limiter';
+import { StudentProgressService } from '../../progress/student-progress.service';
+import { ReviewService } from '../../review/review.service';
+import { argentinaDate } from '../../utils/argentina-time';
+import { contextSchema, field } from '../flow-context-schema';
+import { FlowStep } from '../flow.decorators';
+import type { FlowContext, FlowResult, FlowStepHandler } from '../flow.types';
+import { buildWelcomeMessage, isGreeting } from './welcome.step';
+
+// 30 preguntas cada 1 hora por alumno
+const MAX_REQUESTS_PER_WINDOW = 30;
+// Visitantes anónimos del sitio: prueban sin alta, con un límite más bajo
+const MAX_VISITOR_REQUESTS_PER_WINDOW = 10;
+// Cupo compartido por todos los visitantes (cada sesión nueva trae 10 más)
+const VISITORS_RATE_LIMIT_KEY = 'webchat-visitors';
+
+type LearningData = {
+  // Día (YYYY-MM-DD, hora argentina) en que se sugirió repasar: una vez por día
+  reviewSuggestedOn: string;
+};
+
+/**
+ * Modo instructor: cada mensaje es una pregunta para el RAG.
+ */
+@FlowStep()
+@Injectable()
+export class LearningStep implements FlowStepHandler<LearningData> {
+  readonly step: string = ConversationStep.LEARNING;
+  readonly context = contextSchema<LearningData>({
+    reviewSuggestedOn: field.string(),
+  });
+  readonly menu = {
+    title: '❓ Hacer una pregunta',
+    description: 'Consultá cualquier duda del examen teórico',
+    order: 10,
+    // Sin `enter`: el paso también es el destino por defecto (bienvenida, fin de quiz, timeouts)
+    prompt: 'Dale, escribí tu duda sobre el examen teórico 👇',
+  };
+
+  // Preguntas por hora entre todos los visitantes anónimos del sitio
+  private readonly maxVisitorRequests: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly knowledgeService: KnowledgeService,
+    private readonly rateLimiter: QuestionRateLimiter,
+    private readonly reviewService: ReviewService,
+    private readonly progressService: StudentProgressService,
+  ) {
+    this.maxVisitorRequests = parseInt(
+      this.configService.get<string>(
+        'WEBCHAT_MAX_VISITOR_QUESTIONS_PER_HOUR',
+      ) ?? '300',
+      10,
+    );
+  }
+
+  async handle(ctx: FlowContext<LearningData>): Promise<FlowResult | void> {
+    const text = ctx.input.text;
+
+    // Ej: una imagen sin caption. No hay nada para preguntarle al RAG
+    if (!text) {
+      await ctx.reply(
+        '📎 Por ahora entiendo texto, audios y botones. ¿Me escribís tu duda?',
+      );
+      return;
+    }
+
+    if (isGreeting(text)) {
+      await ctx.reply(buildWelcomeMessage(ctx.student.name));
+      return;
+    }
+
+    const maxRequests =
+      ctx.student.channel === Channel.WEB
+        ? MAX_VISITOR_REQUESTS_PER_WINDOW
+        : MAX_REQUESTS_PER_WINDOW;
+
+    if (!this.rateLimiter.tryConsume(ctx.student.id, maxRequests)) {
+      await ctx.reply(
+        `⏳ Te pasaste un poco de velocidad.\n\nPara cuidar el sistema, tenés un límite de preguntas por hora. Esperá un ratito y volvé a intentar.`,
+      );
+      return;
+    }
+
+    if (
+      ctx.student.channel === Channel.WEB &&
+      !this.rateLimiter.tryConsume(
+        VISITORS_RATE_LIMIT_KEY,
+        this.maxVisitorRequests,
+      )
+    ) {
+      await ctx.reply(
+        '⏳ El chat del sitio está con mucha demanda. Probá de nuevo en un rato o escribinos por WhatsApp.',
+      );
+      return;
+    }
+
+    // El historial permite entender seguimientos como "¿y en moto?"
+    const { answer, model, topic } = await this.knowledgeService.ask(
+      text,
+      await ctx.history(),
+    );
+
+    await ctx.reply(answer, { model });
+    await this.progressService.recordQuestion(ctx.student.id, topic);
+
+    return this.suggestReview(ctx);
+  }
+
+  /**
+   * Si tiene preguntas falladas para repasar, lo sugiere (una vez por día).
+   */
+  private async suggestReview(
+    ctx: FlowContext<LearningData>,
+  ): Promise<FlowResult | void> {
+    const today = argentinaDate();
+
+    if (ctx.data.reviewSuggestedOn === today) {
+      return;
+    }
+
+    const due = await this.reviewService.countDue(ctx.student.id);
+
+    if (due === 0) {
+      return;
+    }
+
+    await ctx.reply(
+      `🔁 Tenés ${due === 1 ? '1 pregunta' : `${due} preguntas`} para repasar. Escribí *repasar* cuando quieras.`,
+    );
+
+    return { data: { reviewSuggestedOn: today } };
+  }
+}
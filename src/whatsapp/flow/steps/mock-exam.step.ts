@@ -0,0 +1,248 @@
+import { Injectable } from '@nestjs/common';
+import { ConversationStep } from '../../../conversation/enums/conversation-step.enum';
+import { MockExamResult, MockExamService } from '../../exam/mock-exam.service';
+import type { QuizQuestionData } from '../../ports/quiz-question.port';
+import {
+  buildQuestionMessage,
+  formatCorrectOption,
+  parseQuestionAnswer,
+} from '../../quiz/quiz-question.utils';
+import { contextSchema, field } from '../flow-context-schema';
+import { FlowStep } from '../flow.decorators';
+import type {
+  FlowContext,
+  FlowResult,
+  FlowStepHandler,
+  FlowTimeout,
+} from '../flow.types';
+
+export const MOCK_EXAM_STEP = 'MOCK_EXAM';
+
+// Los botones traen `exam:<pregunta>:<opción>` como id
+const EXAM_REPLY_PREFIX = 'exam:';
+const EXIT_WORDS = ['salir', 'terminar', 'basta'];
+
+type MockExamData = {
+  attemptId: string;
+  questionIds: string[];
+  index: number;
+  // Epoch (ms) en que se termina el tiempo
+  deadline: number;
+  // Epoch (ms) en que se mandó la pregunta actual
+  askedAt: number;
+};
+
+/**
+ * Simulacro del examen teórico: cantidad fija de preguntas, tiempo límite y
+ * sin corrección hasta el final, donde se informa si aprobó.
+ */
+@FlowStep()
+@Injectable()
+export class MockExamStep implements FlowStepHandler<MockExamData> {
+  readonly step: string = MOCK_EXAM_STEP;
+  readonly context = contextSchema<MockExamData>({
+    attemptId: field.string(),
+    questionIds: field.stringArray(),
+    index: field.number(),
+    deadline: field.number(),
+    askedAt: field.number(),
+  });
+  readonly timeout: FlowTimeout;
+  readonly menu = {
+    title: '🎓 Simulacro de examen',
+    description: 'Como el examen real: con tiempo y nota final',
+    order: 30,
+  };
+
+  constructor(private readonly mockExamService: MockExamService) {
+    // Sin respuestas durante todo el tiempo del examen: ya no puede terminarlo.
+    // El intento queda en curso y se marca abandonado al arrancar el próximo
+    this.timeout = {
+      afterMs: mockExamService.rules.timeLimitMinutes * 60 * 1000,
+      next: ConversationStep.LEARNING,
+      message:
+        '⌛ Se terminó el tiempo y el simulacro quedó sin terminar. Escribí *simulacro* para rendir otro.',
+    };
+  }
+
+  async enter(ctx: FlowContext<MockExamData>): Promise<FlowResult> {
+    const started = await this.mockExamService.start(
+      ctx.student.id,
+      ctx.conversation.id,
+    );
+
+    if (!started) {
+      await ctx.reply(
+        '🤷‍♂️ Todavía no tengo preguntas suficientes para un simulacro completo. Mientras, practicá con *quiz*.',
+      );
+      return { next: ConversationStep.LEARNING };
+    }
+
+    const { attempt, questions } = started;
+    const [first] = questions;
+
+    await ctx.reply(
+      `🎓 *Simulacro de examen*\n\n• ${questions.length} preguntas\n• ${attempt.timeLimitMinutes} minutos\n• Aprobás con ${attempt.passScore} correctas\n\nComo en el examen real, vas a ver los resultados al final. Respondé con el número o los botones (*salir* abandona el simulacro). ¡Suerte! 🍀`,
+    );
+    await this.askQuestion(ctx, first, 0, questions.length);
+
+    const now = Date.now();
+
+    return {
+      data: {
+        attemptId: attempt.id,
+        questionIds: attempt.questionIds,
+        index: 0,
+        deadline:
+          attempt.startedAt.getTime() + attempt.timeLimitMinutes * 60_000,
+        askedAt: now,
+      },
+    };
+  }
+
+  async handle(ctx: FlowContext<MockExamData>): Promise<FlowResult | void> {
+    const { attemptId, questionIds, index, deadline, askedAt } = ctx.data;
+    const questionId = questionIds[index];
+
+    if (!attemptId || !questionId) {
+      return { next: ConversationStep.LEARNING };
+    }
+
+    if (EXIT_WORDS.includes(ctx.input.text.trim().toLowerCase())) {
+      await this.mockExamService.abandon(attemptId);
+      await ctx.reply(
+        '👌 Simulacro abandonado (no cuenta para tu historial). Escribí *simulacro* cuando quieras rendir otro.',
+      );
+      return { next: ConversationStep.LEARNING };
+    }
+
+    if (Date.now() > deadline) {
+      return this.finish(ctx, true);
+    }
+
+    const question = await this.mockExamService.findQuestion(questionId);
+
+    if (question) {
+      const answer = parseQuestionAnswer(
+        ctx.input,
+        EXAM_REPLY_PREFIX,
+        question,
+      );
+
+      if (answer === null) {
+        await ctx.reply(
+          `Respondé con ${question.options.map((_, i) => i + 1).join(', ')} (o *salir* para abandonar).`,
+        );
+        return;
+      }
+
+      await this.mockExamService.answer(
+        ctx.student.id,
+        attemptId,
+        question,
+        answer,
+        Date.now() - askedAt,
+      );
+    }
+
+    // Sin corrección: directo a la próxima pregunta
+    for (let next = index + 1; next < questionIds.length; next++) {
+      const nextQuestion = await this.mockExamService.findQuestion(
+        questionIds[next],
+      );
+
+      if (nextQuestion) {
+        await this.askQuestion(ctx, nextQuestion, next, questionIds.length);
+        return { data: { ...ctx.data, index: next, askedAt: Date.now() } };
+      }
+    }
+
+    return this.finish(ctx, false);
+  }
+
+  private async finish(
+    ctx: FlowContext<MockExamData>,
+    timedOut: boolean,
+  ): Promise<FlowResult> {
+    const result = await this.mockExamService.finish(
+      ctx.data.attemptId,
+      timedOut,
+    );
+
+    if (result) {
+      await ctx.reply(this.buildResult(result));
+    }
+
+    return { next: ConversationStep.LEARNING };
+  }
+
+  private async askQuestion(
+    ctx: FlowContext<MockExamData>,
+    question: QuizQuestionData,
+    index: number,
+    total: number,
+  ): Promise<void> {
+    const { body, buttons } = buildQuestionMessage(
+      question,
+      index,
+      total,
+      EXAM_REPLY_PREFIX,
+    );
+
+    await ctx.replyButtons(body, buttons);
+  }
+
+  private buildResult({
+    attempt,
+    previous,
+    wrong,
+    unanswered,
+  }: MockExamResult): string {
+    const total = attempt.questionIds.length;
+    const minutes = Math.max(
+      1,
+      Math.round((Date.now() - attempt.startedAt.getTime()) / 60_000),
+    );
+    const lines = [
+      attempt.timedOut
+        ? '⏰ *Se acabó el tiempo del simulacro*'
+        : '🏁 *Simulacro terminado*',
+      '',
+      `Resultado: *${attempt.correctCount}/${total}* → ${
+        attempt.status === 'PASSED' ? '✅ *APROBADO*' : '❌ *NO APROBADO*'
+      } (mínimo ${attempt.passScore})`,
+      `⏱️ Tiempo: ${minutes} min`,
+    ];
+
+    if (previous) {
+      const diff = attempt.correctCount - previous.correctCount;
+
+      lines.push(
+        diff > 0
+          ? `📈 En el anterior sacaste ${previous.correctCount}: ¡mejoraste ${diff}!`
+          : diff < 0
+            ? `📉 En el anterior sacaste ${previous.correctCount}. ¡A no aflojar!`
+            : `➡️ Igual que en el anterior (${previous.correctCount}).`,
+      );
+    }
+
+    if (wrong.length > 0) {
+      lines.push('', '*Para repasar:*');
+      lines.push(
+        ...wrong.map(
+          (question) =>
+            `❌ ${question.question}\n   → ${formatCorrectOption(question)}`,
+        ),
+      );
+    }
+
+    if (unanswered > 0) {
+      lines.push(
+        '',
+        `Quedaron ${unanswered} sin responder (cuentan como mal).`,
+      );
+    }
+
+    return lines.join('\n');
+  }
+}
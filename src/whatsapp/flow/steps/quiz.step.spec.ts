@@ -0,0 +1,205 @@
+import { Channel } from '../../../student/enums/channel.enum';
+import type { QuizQuestionData } from '../../ports/quiz-question.port';
+import type { QuizService } from '../../quiz/quiz.service';
+import type { StudentProgressService } from '../../progress/student-progress.service';
+import type { ReviewService } from '../../review/review.service';
+import type { FlowContext } from '../flow.types';
+import { QuizStep } from './quiz.step';
+
+describe('QuizStep', () => {
+  const question = (id: string, correctOption = 1): QuizQuestionData => ({
+    id,
+    topic: 'senales',
+    question: `¿Pregunta ${id}?`,
+    options: ['Opción A', 'Opción B', 'Opción C'],
+    correctOption,
+    explanation: `Explicación ${id}`,
+    category: 'Señales',
+  });
+  const drawQuestions = jest.fn();
+  const findQuestions = jest.fn();
+  const findQuestion = jest.fn();
+  const findDueQuestionIds = jest.fn();
+  const recordAnswer = jest.fn();
+  const recordProgress = jest.fn();
+  const reply = jest.fn();
+  const replyButtons = jest.fn();
+
+  let step: QuizStep;
+
+  type QuizData = Parameters<QuizStep['handle']>[0]['data'];
+
+  const buildContext = (
+    data: Partial<QuizData>,
+    input: { text?: string; replyId?: string } = {},
+  ) =>
+    ({
+      conversation: {},
+      student: { id: 'student-1', name: 'Ana', channel: Channel.WHATSAPP },
+      input: { kind: 'text', messageId: 'wamid.1', text: '', ...input },
+      replyTo: { channel: Channel.WHATSAPP, externalId: '541122334455' },
+      data: step.context.parse(data),
+      reply,
+      replyButtons,
+      replyList: jest.fn(),
+      history: jest.fn(),
+    }) as unknown as FlowContext<QuizData>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    step = new QuizStep(
+      { drawQuestions, findQuestions, findQuestion } as unknown as QuizService,
+      { findDueQuestionIds, recordAnswer } as unknown as ReviewService,
+      { recordAnswer: recordProgress } as unknown as StudentProgressService,
+    );
+  });
+
+  it('should draw the questions for the topic and ask the first one with buttons', async () => {
+    drawQuestions.mockResolvedValue([question('q1'), question('q2')]);
+
+    const result = await step.enter(buildContext({ topic: 'señales' }));
+
+    expect(drawQuestions).toHaveBeenCalledWith('señales', 5, 'student-1');
+    expect(replyButtons).toHaveBeenCalledWith(
+      expect.stringContaining('Pregunta 1/2'),
+      [
+        { id: 'quiz:q1:0', title: '1' },
+        { id: 'quiz:q1:1', title: '2' },
+        { id: 'quiz:q1:2', title: '3' },
+      ],
+    );
+    expect(result).toEqual({
+      data: {
+        mode: 'practice',
+        topic: 'señales',
+        questionIds: ['q1', 'q2'],
+        index: 0,
+        answered: 0,
+        correct: 0,
+      },
+    });
+  });
+
+  it('should go back to learning when there are no questions for the topic', async () => {
+    drawQuestions.mockResolvedValue([]);
+
+    const result = await step.enter(buildContext({ topic: 'cocina' }));
+
+    expect(reply).toHaveBeenCalledWith(expect.stringContaining('"cocina"'));
+    expect(result).toEqual({ next: 'LEARNING' });
+  });
+
+  it('should grade a typed answer, explain it and ask the next question', async () => {
+    findQuestion.mockImplementation((id: string) =>
+      Promise.resolve(question(id)),
+    );
+
+    const result = await step.handle(
+      buildContext(
+        { questionIds: ['q1', 'q2'], index: 0, correct: 0 },
+        { text: '2' },
+      ),
+    );
+
+    expect(reply).toHaveBeenCalledWith(
+      expect.stringMatching(/^✅ ¡Correcto![\s\S]*📖 Explicación q1$/),
+    );
+    expect(replyButtons).toHaveBeenCalledWith(
+      expect.stringContaining('Pregunta 2/2'),
+      expect.any(Array),
+    );
+    expect(result).toEqual({
+      data: {
+        mode: 'practice',
+        topic: '',
+        questionIds: ['q1', 'q2'],
+        index: 1,
+        answered: 1,
+        correct: 1,
+      },
+    });
+  });
+
+  it('should finish with the score after the last question', async () => {
+    findQuestion.mockImplementation((id: string) =>
+      Promise.resolve(question(id)),
+    );
+
+    const result = await step.handle(
+      buildContext(
+        { questionIds: ['q1', 'q2'], index: 1, answered: 1, correct: 1 },
+        { text: 'Opción A', replyId: 'quiz:q2:0' },
+      ),
+    );
+
+    expect(reply).toHaveBeenNthCalledWith(
+      1,
+      expect.stringContaining('La correcta es *2. Opción B*'),
+    );
+    expect(reply).toHaveBeenLastCalledWith(
+      expect.stringContaining('Resultado: 1/2'),
+    );
+    expect(recordAnswer).toHaveBeenCalledWith('student-1', 'q2', false);
+    expect(recordProgress).toHaveBeenCalledWith(
+      'student-1',
+      expect.objectContaining({ id: 'q2', category: 'Señales' }),
+      false,
+    );
+    expect(result).toEqual({ next: 'LEARNING' });
+  });
+
+  it('should not count a question deleted from the bank as answered', async () => {
+    findQuestion.mockImplementation((id: string) =>
+      Promise.resolve(id === 'q2' ? null : question(id)),
+    );
+
+    const result = await step.handle(
+      buildContext(
+        { questionIds: ['q1', 'q2'], index: 1, answered: 1, correct: 1 },
+        { text: '1' },
+      ),
+    );
+
+    expect(recordAnswer).not.toHaveBeenCalled();
+    expect(reply).toHaveBeenCalledTimes(1);
+    expect(reply).toHaveBeenCalledWith(
+      expect.stringContaining('Resultado: 1/1'),
+    );
+    expect(result).toEqual({ next: 'LEARNING' });
+  });
+
+  it('should serve the questions due for review', async () => {
+    findDueQuestionIds.mockResolvedValue(['q7']);
+    findQuestions.mockResolvedValue([question('q7')]);
+
+    const result = await step.enter(buildContext({ mode: 'review' }));
+
+    expect(findDueQuestionIds).toHaveBeenCalledWith('student-1', 5);
+    expect(drawQuestions).not.toHaveBeenCalled();
+    expect(reply).toHaveBeenCalledWith(expect.stringContaining('Repaso'));
+    expect(result).toEqual({
+      data: {
+        mode: 'review',
+        topic: '',
+        questionIds: ['q7'],
+        index: 0,
+        answered: 0,
+        correct: 0,
+      },
+    });
+  });
+
+  it('should ignore a button from a previous question', async () => {
+    findQuestion.mockResolvedValue(question('q2'));
+
+    const result = await step.handle(
+      buildContext(
+        { questionIds: ['q1', 'q2'], index: 1, correct: 0 },
+        { text: '1', replyId: 'quiz:q1:0' },
+      ),
+    );
+
+    expect(reply).toHaveBeenCalledWith(expect.stringContaining('Respondé con'));
+    expect(result).toBeUndefined();
+  });
+});
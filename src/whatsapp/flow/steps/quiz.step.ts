@@ -0,0 +1,233 @@
+import { Injectable } from '@nestjs/common';
+import { ConversationStep } from '../../../conversation/enums/conversation-step.enum';
+import type { QuizQuestionData } from '../../ports/quiz-question.port';
+import {
+  buildQuestionMessage,
+  formatCorrectOption,
+  parseQuestionAnswer,
+} from '../../quiz/quiz-question.utils';
+import { QuizService } from '../../quiz/quiz.service';
+import { StudentProgressService } from '../../progress/student-progress.service';
+import { ReviewService } from '../../review/review.service';
+import { contextSchema, field } from '../flow-context-schema';
+import { FlowStep } from '../flow.decorators';
+import type { FlowContext, FlowResult, FlowStepHandler } from '../flow.types';
+
+export const QUIZ_STEP = 'QUIZ';
+
+// Preguntas por ronda
+const QUIZ_LENGTH = 5;
+// Los botones traen `quiz:<pregunta>:<opción>` como id
+const QUIZ_REPLY_PREFIX = 'quiz:';
+const EXIT_WORDS = ['salir', 'terminar', 'basta'];
+const QUIZ_MODES = ['practice', 'review'] as const;
+
+// `review`: las preguntas falladas que ya toca repasar (ver ReviewService)
+export type QuizMode = (typeof QUIZ_MODES)[number];
+
+type QuizData = {
+  mode: QuizMode;
+  // Tema tal como lo escribió el alumno ('' = cualquiera)
+  topic: string;
+  questionIds: string[];
+  // Pregunta actual (índice en `questionIds`)
+  index: number;
+  // Respuestas registradas: las preguntas que se borraron del banco no cuentan
+  answered: number;
+  correct: number;
+};
+
+/**
+ * Modo quiz: preguntas de opción múltiple de la batería del examen, con
+ * corrección y explicación después de cada respuesta.
+ */
+@FlowStep()
+@Injectable()
+export class QuizStep implements FlowStepHandler<QuizData> {
+  readonly step: string = QUIZ_STEP;
+  readonly context = contextSchema<QuizData>({
+    mode: field.oneOf(QUIZ_MODES, 'practice'),
+    topic: field.string(),
+    questionIds: field.stringArray(),
+    index: field.number(),
+    answered: field.number(),
+    correct: field.number(),
+  });
+  readonly timeout = {
+    afterMs: 30 * 60 * 1000,
+    next: ConversationStep.LEARNING,
+    message:
+      '⌛ El quiz quedó sin terminar. Escribí *quiz* cuando quieras arrancar otro.',
+  };
+  readonly menu = {
+    title: '📝 Quiz de práctica',
+    description: 'Preguntas de opción múltiple del examen',
+    order: 20,
+  };
+
+  constructor(
+    private readonly quizService: QuizService,
+    private readonly reviewService: ReviewService,
+    private readonly progressService: StudentProgressService,
+  ) {}
+
+  async enter(ctx: FlowContext<QuizData>): Promise<FlowResult> {
+    const { mode } = ctx.data;
+    const topic = ctx.data.topic.trim();
+    const questions =
+      mode === 'review'
+        ? await this.quizService.findQuestions(
+            await this.reviewService.findDueQuestionIds(
+              ctx.student.id,
+              QUIZ_LENGTH,
+            ),
+          )
+        : await this.quizService.drawQuestions(
+            topic || null,
+            QUIZ_LENGTH,
+            ctx.student.id,
+          );
+    const [first] = questions;
+
+    if (!first) {
+      await ctx.reply(
+        mode === 'review'
+          ? '🎉 No tenés preguntas para repasar hoy. Seguí practicando con *quiz*.'
+          : topic
+            ? `🤷‍♂️ No encontré preguntas sobre "${topic}". Probá con otro tema (ej: *quiz señales*) o escribí *quiz* solo.`
+            : '🤷‍♂️ Ahora no pude armar un quiz. Probá de nuevo en un rato.',
+      );
+      return { next: ConversationStep.LEARNING };
+    }
+
+    const title =
+      mode === 'review'
+        ? `🔁 *Repaso*: ${questions.length} preguntas que te costaron.`
+        : `📝 *Quiz${topic ? ` de ${topic}` : ''}*: ${questions.length} preguntas.`;
+
+    await ctx.reply(
+      `${title} Respondé con el número o los botones (*salir* para terminar).`,
+    );
+    await this.askQuestion(ctx, first, 0, questions.length);
+
+    return {
+      data: {
+        mode,
+        topic,
+        questionIds: questions.map((question) => question.id),
+        index: 0,
+        answered: 0,
+        correct: 0,
+      },
+    };
+  }
+
+  async handle(ctx: FlowContext<QuizData>): Promise<FlowResult | void> {
+    const { questionIds, index, answered, correct } = ctx.data;
+    const questionId = questionIds[index];
+
+    if (!questionId) {
+      return { next: ConversationStep.LEARNING };
+    }
+
+    if (EXIT_WORDS.includes(ctx.input.text.trim().toLowerCase())) {
+      await ctx.reply(this.buildSummary(ctx.data.mode, correct, answered));
+      return { next: ConversationStep.LEARNING };
+    }
+
+    const question = await this.quizService.findQuestion(questionId);
+
+    // La pregunta se borró del banco: seguimos con la próxima
+    if (!question) {
+      return this.advance(ctx, answered, correct);
+    }
+
+    const answer = parseQuestionAnswer(ctx.input, QUIZ_REPLY_PREFIX, question);
+
+    if (answer === null) {
+      await ctx.reply(
+        `Respondé con ${question.options.map((_, i) => i + 1).join(', ')} (o *salir* para terminar).`,
+      );
+      return;
+    }
+
+    const isCorrect = answer === question.correctOption;
+
+    await this.reviewService.recordAnswer(
+      ctx.student.id,
+      question.id,
+      isCorrect,
+    );
+    await this.progressService.recordAnswer(
+      ctx.student.id,
+      question,
+      isCorrect,
+    );
+
+    await ctx.reply(
+      `${isCorrect ? '✅ ¡Correcto!' : `❌ No. La correcta es *${formatCorrectOption(question)}*`}\n\n📖 ${question.explanation}`,
+    );
+
+    return this.advance(ctx, answered + 1, isCorrect ? correct + 1 : correct);
+  }
+
+  private async advance(
+    ctx: FlowContext<QuizData>,
+    answered: number,
+    correct: number,
+  ): Promise<FlowResult> {
+    const { questionIds } = ctx.data;
+    const index = ctx.data.index + 1;
+    const nextId = questionIds[index];
+    const next = nextId ? await this.quizService.findQuestion(nextId) : null;
+
+    if (!next) {
+      await ctx.reply(this.buildSummary(ctx.data.mode, correct, answered));
+      return { next: ConversationStep.LEARNING };
+    }
+
+    await this.askQuestion(ctx, next, index, questionIds.length);
+
+    return { data: { ...ctx.data, index, answered, correct } };
+  }
+
+  private async askQuestion(
+    ctx: FlowContext<QuizData>,
+    question: QuizQuestionData,
+    index: number,
+    total: number,
+  ): Promise<void> {
+    const { body, buttons } = buildQuestionMessage(
+      question,
+      index,
+      total,
+      QUIZ_REPLY_PREFIX,
+    );
+
+    await ctx.replyButtons(body, buttons);
+  }
+
+  private buildSummary(
+    mode: QuizMode,
+    correct: number,
+    answered: number,
+  ): string {
+    if (answered === 0) {
+      return '👌 Quiz cancelado. Escribí *quiz* cuando quieras practicar.';
+    }
+
+    const verdict =
+      correct === answered
+        ? '¡Perfecto! 🏆'
+        : correct / answered >= 0.7
+          ? '¡Muy bien! Vas por buen camino.'
+          : 'Seguí practicando, ¡vas a llegar! 💪';
+
+    const next =
+      mode === 'review'
+        ? 'Las que fallaste vuelven mañana; las que acertaste, más adelante.'
+        : 'Escribí *quiz* para otra ronda.';
+
+    return `🏁 *Resultado: ${correct}/${answered}* correctas. ${verdict}\n\n${next}`;
+  }
+}
@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { ConversationStep } from '../../../conversation/enums/conversation-step.enum';
+import { contextSchema, field } from '../flow-context-schema';
+import { FlowStep } from '../flow.decorators';
+import type { FlowContext, FlowResult, FlowStepHandler } from '../flow.types';
+
+// Detectar saludos para enviar Bienvenida predefinida (Ahorra AI + UX Consistente)
+const GREETINGS = ['hola', 'buen dia', 'buen día', 'buenas', 'hi', 'hello'];
+
+export function isGreeting(text: string): boolean {
+  return GREETINGS.includes(text.trim().toLowerCase());
+}
+
+function displayName(name: string | undefined): string {
+  const studentName = name?.trim();
+
+  return !studentName || studentName === 'Sin Nombre'
+    ? 'Futuro Conductor/a'
+    : studentName;
+}
+
+export function buildWelcomeMessage(name: string | undefined): string {
+  const studentName = displayName(name);
+
+  return `🚗 *Autoescuela GMC* \n\nHola ${studentName}! Soy tu asistente virtual para preparar el examen teórico de conducir. 🧠\n\nPreguntame lo que quieras sobre:\n• Señales de tránsito\n• Prioridades de paso\n• Velocidades máximas\n• Documentación obligatoria\n• Y mucho más...\n\n¡Escribí tu duda y te ayudo! (o *menu* para ver todas las opciones)`;
+}
+
+export function buildWelcomeBackMessage(name: string | undefined): string {
+  return `👋 ¡Qué bueno verte de nuevo, ${displayName(name)}! Arrancamos una charla nueva (escribí *menu* para ver las opciones).`;
+}
+
+type WelcomeData = {
+  // La conversación anterior se cerró por inactividad
+  returning: boolean;
+};
+
+/**
+ * Primer mensaje de la conversación: saluda y pasa al modo instructor.
+ * A quien vuelve después de un tiempo solo le da la bienvenida corta y
+ * le responde lo que escribió.
+ */
+@FlowStep()
+@Injectable()
+export class WelcomeStep implements FlowStepHandler<WelcomeData> {
+  readonly step: string = ConversationStep.WELCOME;
+  readonly context = contextSchema<WelcomeData>({
+    returning: field.boolean(),
+  });
+
+  async handle(ctx: FlowContext<WelcomeData>): Promise<FlowResult> {
+    if (!ctx.data.returning) {
+      await ctx.reply(buildWelcomeMessage(ctx.student.name));
+      return { next: ConversationStep.LEARNING };
+    }
+
+    await ctx.reply(buildWelcomeBackMessage(ctx.student.name));
+
+    // Un saludo no necesita respuesta; una duda la contesta el modo instructor
+    const text = ctx.input.text;
+    const forward = !!text && !isGreeting(text);
+
+    return { next: ConversationStep.LEARNING, forward };
+  }
+}
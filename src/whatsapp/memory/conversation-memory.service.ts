@@ -0,0 +1,100 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { KnowledgeService } from '../../knowledge/knowledge.service';
+import type {
+  ChatHistory,
+  ChatTurn,
+} from '../../knowledge/types/chat-history.type';
+import { CONVERSATION_HISTORY_PORT } from '../ports';
+import type { ConversationHistoryPort } from '../ports/conversation-history.port';
+
+// Últimos mensajes que van completos al prompt
+const MAX_RECENT_TURNS = 6;
+// Pasado este número de mensajes sin resumir, los más viejos se resumen
+const SUMMARIZE_AFTER_TURNS = 12;
+
+/**
+ * Memoria de corto plazo de cada conversación: guarda los mensajes y arma
+ * un historial acotado (resumen + últimos mensajes) para el RAG.
+ *
+ * Es de mejor esfuerzo (ver README): si falla la DB o el LLM del resumen,
+ * el RAG responde sin contexto previo.
+ */
+@Injectable()
+export class ConversationMemoryService {
+  private readonly logger = new Logger(ConversationMemoryService.name);
+
+  constructor(
+    @Inject(CONVERSATION_HISTORY_PORT)
+    private readonly historyPort: ConversationHistoryPort,
+    private readonly knowledgeService: KnowledgeService,
+  ) {}
+
+  async record(conversationId: string, turns: ChatTurn[]): Promise<void> {
+    if (turns.length === 0) {
+      return;
+    }
+
+    try {
+      await this.historyPort.append(conversationId, turns);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `No se pudo guardar el historial de ${conversationId}: ${err.message}`,
+      );
+    }
+  }
+
+  async getHistory(conversationId: string): Promise<ChatHistory> {
+    try {
+      const { summary, turns } = await this.historyPort.load(conversationId);
+
+      return {
+        summary,
+        turns: turns
+          .slice(-MAX_RECENT_TURNS)
+          .map(({ role, content }) => ({ role, content })),
+      };
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `No se pudo leer el historial de ${conversationId}: ${err.message}`,
+      );
+      return { summary: null, turns: [] };
+    }
+  }
+
+  /**
+   * Si se acumularon muchos mensajes, resume los más viejos (junto con el
+   * resumen anterior) y deja completos solo los últimos.
+   */
+  async compact(conversationId: string): Promise<void> {
+    try {
+      const { summary, turns } = await this.historyPort.load(conversationId);
+
+      if (turns.length <= SUMMARIZE_AFTER_TURNS) {
+        return;
+      }
+
+      const older = turns.slice(0, -MAX_RECENT_TURNS);
+      const newSummary = await this.knowledgeService.summarizeHistory(
+        summary,
+        older,
+      );
+
+      await this.historyPort.saveSummary(
+        conversationId,
+        newSummary,
+        older.map((turn) => turn.id),
+      );
+
+      this.logger.debug(
+        `🗜️ Historial de ${conversationId}: ${older.length} mensajes resumidos`,
+      );
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `No se pudo resumir el historial de ${conversationId}: ${err.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Parámetros de cada tipo de notificación.
+ * Why: El compilador obliga a pasar exactamente los datos que usa el template
+ * (un parámetro faltante hace que Meta rechace el envío con error 132000).
+ */
+export type NotificationParamsMap = {
+  access_expiring: { name: string; expiresAt: string };
+  class_reminder: { name: string; date: string; time: string };
+  broadcast: { message: string };
+  daily_question: { name: string };
+};
+
+export type NotificationKind = keyof NotificationParamsMap;
+
+export type NotificationTemplateDefinition<K extends NotificationKind> = {
+  // Nombre del template aprobado en Meta Business Manager
+  templateName: string;
+  languageCode: string;
+  // Orden de las variables {{1}}, {{2}}... del body del template
+  bodyParams: ReadonlyArray<keyof NotificationParamsMap[K]>;
+  // Texto equivalente para cuando la ventana de 24h sigue abierta
+  freeForm: (params: NotificationParamsMap[K]) => string;
+};
+
+export const NOTIFICATION_TEMPLATES: {
+  [K in NotificationKind]: NotificationTemplateDefinition<K>;
+} = {
+  access_expiring: {
+    templateName: 'acceso_por_vencer',
+    languageCode: 'es_AR',
+    bodyParams: ['name', 'expiresAt'],
+    freeForm: ({ name, expiresAt }) =>
+      `⏰ Hola ${name}, tu acceso al instructor virtual vence el *${expiresAt}*.\nSi querés seguir practicando, hablá con tu instructor para renovarlo.`,
+  },
+  class_reminder: {
+    templateName: 'recordatorio_clase',
+    languageCode: 'es_AR',
+    bodyParams: ['name', 'date', 'time'],
+    freeForm: ({ name, date, time }) =>
+      `🚗 Hola ${name}, te recordamos tu clase de manejo el *${date}* a las *${time}*.`,
+  },
+  broadcast: {
+    templateName: 'aviso_general',
+    languageCode: 'es_AR',
+    bodyParams: ['message'],
+    freeForm: ({ message }) => `📢 ${message}`,
+  },
+  // Solo sale con la ventana cerrada: con la ventana abierta va la pregunta con botones
+  daily_question: {
+    templateName: 'pregunta_diaria',
+    languageCode: 'es_AR',
+    bodyParams: ['name'],
+    freeForm: ({ name }) =>
+      `🧠 Hola ${name}, ¡llegó tu pregunta diaria! Escribí *quiz* para practicar.`,
+  },
+};
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationService } from './notification.service';
+import { Channel } from '../../student/enums/channel.enum';
+import {
+  CHANNEL_MESSENGER,
+  NOTIFICATION_PORT,
+  OUTBOUND_MESSAGE_PORT,
+  WHATSAPP_PROVIDER,
+} from '../ports';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+
+  const messenger = { sendText: jest.fn() };
+  const whatsappProvider = { sendTemplate: jest.fn() };
+  const outboundMessagePort = { recordAccepted: jest.fn() };
+  const notificationPort = { record: jest.fn() };
+
+  const buildStudent = (
+    lastInboundAt: Date | null,
+    channel = Channel.WHATSAPP,
+  ) => ({
+    id: 'student-1',
+    name: 'Ana',
+    channel,
+    externalId: '541122334455',
+    phoneNumber: '541122334455',
+    lastInboundAt,
+  });
+  const hoursAgo = (hours: number) =>
+    new Date(Date.now() - hours * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    messenger.sendText.mockResolvedValue('wamid.free');
+    whatsappProvider.sendTemplate.mockResolvedValue({
+      messages: [{ id: 'wamid.template' }],
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationService,
+        { provide: CHANNEL_MESSENGER, useValue: messenger },
+        { provide: WHATSAPP_PROVIDER, useValue: whatsappProvider },
+        { provide: OUTBOUND_MESSAGE_PORT, useValue: outboundMessagePort },
+        { provide: NOTIFICATION_PORT, useValue: notificationPort },
+      ],
+    }).compile();
+
+    service = module.get<NotificationService>(NotificationService);
+  });
+
+  it('should send free-form text while the 24h window is open', async () => {
+    const student = buildStudent(hoursAgo(2));
+    const sent = await service.notify(student, 'broadcast', {
+      message: 'Mañana no hay clases',
+    });
+
+    expect(sent).toBe(true);
+    expect(messenger.sendText).toHaveBeenCalledWith(
+      student,
+      '📢 Mañana no hay clases',
+    );
+    expect(whatsappProvider.sendTemplate).not.toHaveBeenCalled();
+    expect(notificationPort.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kind: 'broadcast',
+        delivery: 'FREE_FORM',
+        status: 'SENT',
+        waMessageId: 'wamid.free',
+      }),
+    );
+  });
+
+  it('should fall back to the approved template once the window closed', async () => {
+    await service.notify(buildStudent(hoursAgo(30)), 'class_reminder', {
+      name: 'Ana',
+      date: '12/03',
+      time: '10:00',
+    });
+
+    expect(messenger.sendText).not.toHaveBeenCalled();
+    expect(whatsappProvider.sendTemplate).toHaveBeenCalledWith('541122334455', {
+      name: 'recordatorio_clase',
+      languageCode: 'es_AR',
+      components: [
+        {
+          type: 'body',
+          parameters: [
+            { type: 'text', text: 'Ana' },
+            { type: 'text', text: '12/03' },
+            { type: 'text', text: '10:00' },
+          ],
+        },
+      ],
+    });
+    expect(outboundMessagePort.recordAccepted).toHaveBeenCalledWith(
+      'wamid.template',
+      '541122334455',
+    );
+  });
+
+  it('should use a template for students that never wrote and record failures', async () => {
+    whatsappProvider.sendTemplate.mockResolvedValue(undefined);
+
+    const sent = await service.notify(buildStudent(null), 'access_expiring', {
+      name: 'Ana',
+      expiresAt: '01/04',
+    });
+
+    expect(sent).toBe(false);
+    expect(notificationPort.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        delivery: 'TEMPLATE',
+        templateName: 'acceso_por_vencer',
+        status: 'FAILED',
+        waMessageId: null,
+      }),
+    );
+  });
+
+  it('should always send free-form text to Telegram students', async () => {
+    await service.notify(
+      buildStudent(hoursAgo(72), Channel.TELEGRAM),
+      'broadcast',
+      { message: 'Nuevo horario' },
+    );
+
+    expect(messenger.sendText).toHaveBeenCalled();
+    expect(whatsappProvider.sendTemplate).not.toHaveBeenCalled();
+    expect(outboundMessagePort.recordAccepted).not.toHaveBeenCalled();
+  });
+});
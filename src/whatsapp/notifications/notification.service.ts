@@ -0,0 +1,139 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  CHANNEL_MESSENGER,
+  NOTIFICATION_PORT,
+  OUTBOUND_MESSAGE_PORT,
+  WHATSAPP_PROVIDER,
+} from '../ports';
+import type { StudentData } from '../ports/student.port';
+import type { WhatsappProviderPort } from '../ports/whatsapp-provider.port';
+import type { OutboundMessagePort } from '../ports/outbound-message.port';
+import type { NotificationPort } from '../ports/notification.port';
+import type { ChannelMessengerPort } from '../ports/channel-messenger.port';
+import { Channel } from '../../student/enums/channel.enum';
+import { prepareWhatsappText } from '../utils/whatsapp-formatter';
+import {
+  NOTIFICATION_TEMPLATES,
+  NotificationKind,
+  NotificationParamsMap,
+} from './notification-templates';
+
+// Meta solo acepta texto libre hasta 24h después del último mensaje del alumno
+const CUSTOMER_SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Why: si la ventana cierra mientras el mensaje viaja, Meta lo rechaza (131047)
+const WINDOW_SAFETY_MARGIN_MS = 10 * 60 * 1000;
+
+/**
+ * NotificationService - Mensajes iniciados por el bot (no respuestas).
+ *
+ * En WhatsApp, si la ventana de atención de 24h sigue abierta manda texto libre;
+ * si no, usa el template aprobado equivalente. En Telegram siempre texto libre. Cada envío queda registrado.
+ */
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+
+  constructor(
+    @Inject(CHANNEL_MESSENGER)
+    private readonly messenger: ChannelMessengerPort,
+    // Los templates son exclusivos de WhatsApp
+    @Inject(WHATSAPP_PROVIDER)
+    private readonly whatsappProvider: WhatsappProviderPort,
+    @Inject(OUTBOUND_MESSAGE_PORT)
+    private readonly outboundMessagePort: OutboundMessagePort,
+    @Inject(NOTIFICATION_PORT)
+    private readonly notificationPort: NotificationPort,
+  ) {}
+
+  /**
+   * @returns `true` si el canal aceptó el envío.
+   */
+  async notify<K extends NotificationKind>(
+    student: StudentData,
+    kind: K,
+    params: NotificationParamsMap[K],
+  ): Promise<boolean> {
+    const definition = NOTIFICATION_TEMPLATES[kind];
+    // Telegram no tiene ventana: un bot puede escribir siempre que el alumno no lo bloquee
+    const useFreeForm = this.canSendFreeForm(student);
+    let messageId: string | null = null;
+
+    if (useFreeForm) {
+      // Un aviso largo sale en varios mensajes; el primero identifica la notificación
+      for (const chunk of prepareWhatsappText(definition.freeForm(params))) {
+        const chunkId = await this.messenger.sendText(student, chunk);
+
+        messageId ??= chunkId;
+      }
+    } else {
+      const response = await this.whatsappProvider.sendTemplate(
+        student.externalId,
+        {
+          name: definition.templateName,
+          languageCode: definition.languageCode,
+          components: [
+            {
+              type: 'body',
+              parameters: definition.bodyParams.map((key) => ({
+                type: 'text',
+                text: String(params[key]),
+              })),
+            },
+          ],
+        },
+      );
+
+      messageId = response?.messages?.[0]?.id ?? null;
+    }
+
+    try {
+      if (messageId && student.channel === Channel.WHATSAPP) {
+        await this.outboundMessagePort.recordAccepted(
+          messageId,
+          student.externalId,
+        );
+      }
+
+      await this.notificationPort.record({
+        studentId: student.id,
+        recipient: student.externalId,
+        kind,
+        delivery: useFreeForm ? 'FREE_FORM' : 'TEMPLATE',
+        templateName: useFreeForm ? null : definition.templateName,
+        params: { ...params },
+        status: messageId ? 'SENT' : 'FAILED',
+        waMessageId: messageId,
+      });
+    } catch (error) {
+      const err = error as Error;
+
+      // El mensaje ya salió (o ya falló): no reintentamos por un error de registro
+      this.logger.warn(
+        `No se pudo registrar la notificación ${kind} a ${student.externalId}: ${err.message}`,
+      );
+    }
+
+    return messageId !== null;
+  }
+
+  /**
+   * Si se le puede mandar un mensaje libre (texto, botones) sin template.
+   * Telegram no tiene ventana: un bot puede escribir siempre que el alumno no lo bloquee.
+   */
+  canSendFreeForm(student: StudentData): boolean {
+    return (
+      student.channel !== Channel.WHATSAPP ||
+      this.isWindowOpen(student.lastInboundAt)
+    );
+  }
+
+  private isWindowOpen(lastInboundAt: Date | null | undefined): boolean {
+    if (!lastInboundAt) {
+      return false;
+    }
+
+    const elapsed = Date.now() - new Date(lastInboundAt).getTime();
+
+    return elapsed < CUSTOMER_SERVICE_WINDOW_MS - WINDOW_SAFETY_MARGIN_MS;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Puerto de salida: Define el contrato para reservar turnos de clases de manejo.
+ */
+export interface AppointmentPort {
+  /**
+   * Horarios sin turno entre `from` y `to`, de instructores activos, del más
+   * próximo al más lejano.
+   */
+  findAvailableSlots(from: Date, to: Date): Promise<SlotData[]>;
+  findSlot(slotId: string): Promise<SlotData | null>;
+  /**
+   * @returns `null` si el horario ya está tomado (o no existe).
+   */
+  book(studentId: string, slotId: string): Promise<AppointmentData | null>;
+  /**
+   * Cancela el turno y reserva `slotId` en una transacción: si el horario
+   * nuevo ya está tomado, el turno original queda como estaba.
+   */
+  reschedule(
+    appointmentId: string,
+    slotId: string,
+  ): Promise<AppointmentData | null>;
+  /**
+   * @returns `false` si el turno no estaba reservado.
+   */
+  cancel(appointmentId: string): Promise<boolean>;
+  findById(appointmentId: string): Promise<AppointmentData | null>;
+  /**
+   * Turnos reservados del alumno que todavía no empezaron.
+   */
+  findUpcomingByStudent(
+    studentId: string,
+    now: Date,
+  ): Promise<AppointmentData[]>;
+  /**
+   * Turnos reservados que empiezan dentro de `leadMs` y todavía no
+   * recibieron ese recordatorio. Los reservados después del momento del
+   * recordatorio (ej: a la mañana para la tarde) no lo reciben.
+   */
+  findDueReminders(
+    kind: ReminderKind,
+    leadMs: number,
+    now: Date,
+  ): Promise<AppointmentData[]>;
+  /**
+   * Marca el recordatorio como enviado.
+   * @returns `false` si ya estaba marcado (ej: lo mandó otra instancia).
+   */
+  claimReminder(appointmentId: string, kind: ReminderKind): Promise<boolean>;
+  /**
+   * @returns `false` si el turno no estaba reservado.
+   */
+  confirm(appointmentId: string): Promise<boolean>;
+  /**
+   * Asistencia de un turno reservado que ya empezó.
+   * @returns `null` si no estaba reservado o todavía no empezó.
+   */
+  markAttendance(
+    appointmentId: string,
+    attended: boolean,
+    now: Date,
+  ): Promise<AppointmentData | null>;
+  countNoShows(studentId: string, since: Date): Promise<number>;
+}
+
+export interface SlotData {
+  id: string;
+  startsAt: Date;
+  endsAt: Date;
+  instructorName: string;
+  vehicleName: string | null;
+}
+
+export interface AppointmentData {
+  id: string;
+  studentId: string;
+  status: AppointmentStatusValue;
+  slot: SlotData;
+  confirmedAt: Date | null;
+}
+
+export type AppointmentStatusValue =
+  | 'BOOKED'
+  | 'CANCELLED'
+  | 'ATTENDED'
+  | 'NO_SHOW';
+
+// Recordatorio de 24h o de 2h antes de la clase
+export type ReminderKind = '24h' | '2h';
+
+export const APPOINTMENT_PORT = Symbol('APPOINTMENT_PORT');
@@ -0,0 +1,63 @@
+import type { ChannelAddress } from '../types/inbound-message.type';
+import type { WhatsappMedia } from '../types/whatsapp-media.type';
+import type {
+  WhatsappListMessage,
+  WhatsappOutboundMedia,
+  WhatsappReadOptions,
+  WhatsappReplyButton,
+  WhatsappSendOptions,
+} from '../types/whatsapp-outbound.type';
+
+/**
+ * Puerto de salida: Envíos independientes del canal (WhatsApp, Telegram, web).
+ *
+ * Why: Los pasos de la conversación solo deciden QUÉ responder; cada canal
+ * traduce botones, listas y acuses a lo que su API soporta.
+ *
+ * Los envíos devuelven el id del mensaje en el canal, o `null` si falló.
+ */
+export interface ChannelMessengerPort {
+  sendText(
+    to: ChannelAddress,
+    text: string,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null>;
+  sendReplyButtons(
+    to: ChannelAddress,
+    body: string,
+    buttons: WhatsappReplyButton[],
+    options?: WhatsappSendOptions,
+  ): Promise<string | null>;
+  sendList(
+    to: ChannelAddress,
+    list: WhatsappListMessage,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null>;
+  sendMedia(
+    to: ChannelAddress,
+    media: WhatsappOutboundMedia,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null>;
+  /**
+   * Reacciona a un mensaje del alumno. Un `emoji` vacío quita la reacción.
+   */
+  sendReaction(
+    to: ChannelAddress,
+    messageId: string,
+    emoji: string,
+  ): Promise<void>;
+  /**
+   * Acusa recibo (tildes azules en WhatsApp) y opcionalmente muestra "escribiendo...".
+   */
+  markAsRead(
+    to: ChannelAddress,
+    messageId: string,
+    options?: WhatsappReadOptions,
+  ): Promise<void>;
+  downloadMedia(
+    to: ChannelAddress,
+    mediaId: string,
+  ): Promise<WhatsappMedia | undefined>;
+}
+
+export const CHANNEL_MESSENGER = Symbol('CHANNEL_MESSENGER');
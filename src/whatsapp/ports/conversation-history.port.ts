@@ -0,0 +1,39 @@
+import type { ChatTurn } from '../../knowledge/types/chat-history.type';
+
+/**
+ * Puerto de salida: Define el contrato para guardar los mensajes de cada
+ * conversación (memoria de corto plazo del RAG).
+ *
+ * Why: Una conversación nueva (alta, `reset`) arranca sin historial; el
+ * adaptador de conversaciones borra el de las anteriores al crearla.
+ */
+export interface ConversationHistoryPort {
+  /**
+   * Agrega los mensajes en orden (el primero es el más viejo).
+   */
+  append(conversationId: string, turns: ChatTurn[]): Promise<void>;
+  /**
+   * Resumen guardado y mensajes que todavía no entraron en él (más viejo primero).
+   */
+  load(conversationId: string): Promise<ConversationHistoryData>;
+  /**
+   * Reemplaza el resumen y marca como resumidos los mensajes que incluye.
+   */
+  saveSummary(
+    conversationId: string,
+    summary: string,
+    summarizedTurnIds: string[],
+  ): Promise<void>;
+}
+
+export interface ConversationTurnData extends ChatTurn {
+  id: string;
+  createdAt: Date;
+}
+
+export interface ConversationHistoryData {
+  summary: string | null;
+  turns: ConversationTurnData[];
+}
+
+export const CONVERSATION_HISTORY_PORT = Symbol('CONVERSATION_HISTORY_PORT');
@@ -1,4 +1,4 @@
-import { ConversationStep } from '../../conversation/enums/conversation-step.enum';
+import { Channel } from '../../student/enums/channel.enum';
 import type { StudentData } from './student.port';
 
 /**
@@ -9,14 +9,47 @@ import type { StudentData } from './student.port';
  * la implementación concreta (TypeORM), solo este contrato.
  */
 export interface ConversationPort {
-  findActiveByStudent(studentId: string): Promise<ConversationData | null>;
-  create(student: StudentData): Promise<ConversationData>;
+  /**
+   * Cada canal tiene su propia conversación activa (ej: WhatsApp y web).
+   */
+  findActiveByStudent(
+    studentId: string,
+    channel: Channel,
+  ): Promise<ConversationData | null>;
+  /**
+   * La conversación nueva cierra las activas del mismo canal (`REPLACED`).
+   * @param context - Contexto inicial (ej: `{ returning: true }` para el paso WELCOME).
+   */
+  create(
+    student: StudentData,
+    channel: Channel,
+    context?: Record<string, unknown>,
+  ): Promise<ConversationData>;
   updateStep(
     conversationId: string,
-    step: ConversationStep,
+    step: string,
     context?: Record<string, unknown>,
   ): Promise<void>;
-  deactivate(conversationId: string): Promise<void>;
+  /**
+   * Cierra la conversación. Su paso y contexto se conservan; el historial
+   * del RAG se borra.
+   */
+  deactivate(
+    conversationId: string,
+    reason: ConversationCloseReasonValue,
+  ): Promise<void>;
+  /**
+   * Cierra (`INACTIVITY`) las conversaciones activas sin mensajes desde `before`.
+   * @returns Cuántas se cerraron.
+   */
+  closeInactive(before: Date): Promise<number>;
+  /**
+   * Última conversación cerrada del alumno en ese canal.
+   */
+  findLastClosed(
+    studentId: string,
+    channel: Channel,
+  ): Promise<ConversationData | null>;
 }
 
 /**
@@ -25,12 +58,19 @@ export interface ConversationPort {
  */
 export interface ConversationData {
   id: string;
-  step: ConversationStep;
+  // Paso de algún flujo registrado (ej: ConversationStep.LEARNING)
+  step: string;
+  channel: Channel;
   context: Record<string, unknown>;
   isActive: boolean;
+  lastInteractionAt?: Date;
+  closedAt?: Date | null;
+  closeReason?: ConversationCloseReasonValue | null;
   student: StudentData;
 }
 
+export type ConversationCloseReasonValue = 'INACTIVITY' | 'REPLACED';
+
 /**
  * Token de inyección para el puerto.
  * NestJS usará esto para resolver la dependencia.
@@ -0,0 +1,57 @@
+/**
+ * Puerto de salida: Define el contrato para guardar los simulacros de examen.
+ */
+export interface ExamAttemptPort {
+  /**
+   * Los intentos del alumno que quedaron en curso pasan a `ABANDONED`.
+   */
+  start(attempt: NewExamAttempt): Promise<ExamAttemptData>;
+  recordAnswer(attemptId: string, answer: ExamAnswerData): Promise<void>;
+  finish(
+    attemptId: string,
+    status: ExamAttemptStatusValue,
+    timedOut: boolean,
+  ): Promise<void>;
+  findById(attemptId: string): Promise<ExamAttemptData | null>;
+  /**
+   * Último intento terminado (aprobado o no) antes de `attemptId`.
+   */
+  findPreviousFinished(
+    studentId: string,
+    attemptId: string,
+  ): Promise<ExamAttemptData | null>;
+}
+
+export interface ExamAnswerData {
+  questionId: string;
+  selectedOption: number;
+  correct: boolean;
+  elapsedMs: number;
+}
+
+export interface ExamAttemptData {
+  id: string;
+  studentId: string;
+  status: ExamAttemptStatusValue;
+  questionIds: string[];
+  answers: ExamAnswerData[];
+  correctCount: number;
+  passScore: number;
+  timeLimitMinutes: number;
+  timedOut: boolean;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export type NewExamAttempt = Pick<
+  ExamAttemptData,
+  'studentId' | 'questionIds' | 'passScore' | 'timeLimitMinutes'
+> & { conversationId: string | null };
+
+export type ExamAttemptStatusValue =
+  | 'IN_PROGRESS'
+  | 'PASSED'
+  | 'FAILED'
+  | 'ABANDONED';
+
+export const EXAM_ATTEMPT_PORT = Symbol('EXAM_ATTEMPT_PORT');
@@ -0,0 +1,39 @@
+/**
+ * Puerto de salida: Define el contrato de la cola durable de webhooks entrantes.
+ *
+ * Why: Procesar "fire and forget" pierde la pregunta del alumno ante un crash,
+ * un deploy o un timeout del LLM. Con la cola, el webhook se persiste antes de
+ * responder 200 a Meta y se procesa con reintentos.
+ */
+export interface InboundQueuePort {
+  /**
+   * @param orderingKey Jobs con la misma key se procesan de a uno y en orden
+   * de llegada (ej: el teléfono del alumno). `null` = sin restricción de orden.
+   */
+  enqueue(
+    source: InboundJobSource,
+    payload: unknown,
+    orderingKey: string | null,
+  ): Promise<void>;
+  /**
+   * Toma el próximo job disponible (o uno "colgado" con lock vencido) y lo
+   * marca en proceso. Seguro entre múltiples instancias. Nunca devuelve un
+   * job si hay otro anterior con la misma `orderingKey` sin terminar.
+   */
+  claimNext(lockTimeoutMs: number): Promise<InboundJobData | null>;
+  complete(jobId: string): Promise<void>;
+  reschedule(jobId: string, runAt: Date, error: string): Promise<void>;
+  moveToDeadLetter(jobId: string, error: string): Promise<void>;
+}
+
+export type InboundJobSource = 'whatsapp' | 'telegram';
+
+export interface InboundJobData {
+  id: string;
+  source: InboundJobSource;
+  payload: unknown;
+  // Intentos realizados, incluyendo el actual
+  attempts: number;
+}
+
+export const INBOUND_QUEUE_PORT = Symbol('INBOUND_QUEUE_PORT');
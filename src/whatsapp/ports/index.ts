@@ -3,9 +3,101 @@ export type { StudentPort, StudentData } from './student.port';
 export { STUDENT_PORT } from './student.port';
 
 // Conversaciones
-export type { ConversationPort, ConversationData } from './conversation.port';
+export type {
+  ConversationPort,
+  ConversationData,
+  ConversationCloseReasonValue,
+} from './conversation.port';
 export { CONVERSATION_PORT } from './conversation.port';
 
+// Historial de cada conversación (memoria del RAG)
+export type {
+  ConversationHistoryPort,
+  ConversationHistoryData,
+  ConversationTurnData,
+} from './conversation-history.port';
+export { CONVERSATION_HISTORY_PORT } from './conversation-history.port';
+
 // Proveedor de WhatsApp
 export type { WhatsappProviderPort } from './whatsapp-provider.port';
 export { WHATSAPP_PROVIDER } from './whatsapp-provider.port';
+
+// Mensajes procesados (idempotencia)
+export type { ProcessedMessagePort } from './processed-message.port';
+export { PROCESSED_MESSAGE_PORT } from './processed-message.port';
+
+// Cola durable de webhooks entrantes
+export type {
+  InboundQueuePort,
+  InboundJobData,
+  InboundJobSource,
+} from './inbound-queue.port';
+export { INBOUND_QUEUE_PORT } from './inbound-queue.port';
+
+// Lock por alumno (procesamiento serializado)
+export type { StudentLockPort } from './student-lock.port';
+export { STUDENT_LOCK_PORT } from './student-lock.port';
+
+// Mensajes salientes (estado de entrega)
+export type { OutboundMessagePort } from './outbound-message.port';
+export { OUTBOUND_MESSAGE_PORT } from './outbound-message.port';
+
+// Transcripción de audio (notas de voz)
+export type { TranscriptionPort } from './transcription.port';
+export { TRANSCRIPTION_PORT } from './transcription.port';
+
+// Notificaciones proactivas (templates fuera de la ventana de 24h)
+export type { NotificationPort, NotificationRecord } from './notification.port';
+export { NOTIFICATION_PORT } from './notification.port';
+
+// Historial de mensajes (transcript de cada alumno)
+export type { MessageLogPort, MessageLogRecord } from './message-log.port';
+export { MESSAGE_LOG_PORT } from './message-log.port';
+
+// Banco de preguntas del modo quiz
+export type {
+  QuizQuestionPort,
+  QuizQuestionData,
+  NewQuizQuestion,
+} from './quiz-question.port';
+export { QUIZ_QUESTION_PORT } from './quiz-question.port';
+
+// Repaso espaciado de las preguntas falladas
+export type {
+  QuestionReviewPort,
+  QuestionReviewData,
+} from './question-review.port';
+export { QUESTION_REVIEW_PORT } from './question-review.port';
+
+// Progreso por tema de cada alumno
+export type {
+  ProgressPort,
+  TopicEventRecord,
+  StudentProgressData,
+  TopicProgressData,
+} from './progress.port';
+export { PROGRESS_PORT } from './progress.port';
+
+// Simulacros del examen teórico
+export type {
+  ExamAttemptPort,
+  ExamAttemptData,
+  ExamAnswerData,
+  ExamAttemptStatusValue,
+  NewExamAttempt,
+} from './exam-attempt.port';
+export { EXAM_ATTEMPT_PORT } from './exam-attempt.port';
+
+// Turnos de clases de manejo
+export type {
+  AppointmentPort,
+  AppointmentData,
+  AppointmentStatusValue,
+  ReminderKind,
+  SlotData,
+} from './appointment.port';
+export { APPOINTMENT_PORT } from './appointment.port';
+
+// Envíos multi-canal (WhatsApp, Telegram)
+export type { ChannelMessengerPort } from './channel-messenger.port';
+export { CHANNEL_MESSENGER } from './channel-messenger.port';
@@ -0,0 +1,21 @@
+/**
+ * Puerto de salida: Define el contrato para registrar cada mensaje
+ * entrante y saliente de un alumno (transcript para los instructores).
+ */
+export interface MessageLogPort {
+  record(message: MessageLogRecord): Promise<void>;
+}
+
+export interface MessageLogRecord {
+  studentId: string;
+  conversationId: string | null;
+  direction: 'INBOUND' | 'OUTBOUND';
+  type: string;
+  text: string | null;
+  waMessageId: string | null;
+  sentAt: Date;
+  latencyMs: number | null;
+  model: string | null;
+}
+
+export const MESSAGE_LOG_PORT = Symbol('MESSAGE_LOG_PORT');
@@ -0,0 +1,20 @@
+/**
+ * Puerto de salida: Define el contrato para registrar las notificaciones
+ * proactivas enviadas a los alumnos.
+ */
+export interface NotificationPort {
+  record(notification: NotificationRecord): Promise<void>;
+}
+
+export interface NotificationRecord {
+  studentId: string;
+  recipient: string;
+  kind: string;
+  delivery: 'FREE_FORM' | 'TEMPLATE';
+  templateName: string | null;
+  params: Record<string, string>;
+  status: 'SENT' | 'FAILED';
+  waMessageId: string | null;
+}
+
+export const NOTIFICATION_PORT = Symbol('NOTIFICATION_PORT');
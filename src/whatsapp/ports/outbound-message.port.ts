@@ -0,0 +1,16 @@
+import type { WhatsappStatusUpdate } from '../types/whatsapp-webhook.type';
+
+/**
+ * Puerto de salida: Define el contrato para registrar los mensajes enviados
+ * y su estado de entrega (sent, delivered, read, failed).
+ */
+export interface OutboundMessagePort {
+  recordAccepted(waMessageId: string, recipient: string): Promise<void>;
+  /**
+   * Aplica un callback de estado. Los estados solo avanzan: un `delivered`
+   * que llega después de un `read` se ignora.
+   */
+  applyStatus(update: WhatsappStatusUpdate): Promise<void>;
+}
+
+export const OUTBOUND_MESSAGE_PORT = Symbol('OUTBOUND_MESSAGE_PORT');
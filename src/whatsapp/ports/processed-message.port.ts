@@ -0,0 +1,28 @@
+/**
+ * Puerto de salida: Define el contrato para el registro de mensajes procesados.
+ *
+ * Why: Meta reintenta las entregas del webhook; sin este registro un reintento
+ * dispara otra llamada al LLM y una respuesta duplicada al alumno.
+ */
+export interface ProcessedMessagePort {
+  /**
+   * Reserva el mensaje para procesarlo.
+   * - `DUPLICATE`: ya se procesó después de `windowStart`.
+   * - `IN_PROGRESS`: otro lo está procesando (reserva posterior a `staleBefore`).
+   * Una reserva anterior a `staleBefore` sin terminar se vuelve a tomar.
+   */
+  claim(
+    messageId: string,
+    windowStart: Date,
+    staleBefore: Date,
+  ): Promise<ClaimResult>;
+  /** Marca el mensaje como procesado (cuenta para la ventana de duplicados). */
+  complete(messageId: string): Promise<void>;
+  /** Libera la reserva para que un reintento pueda volver a procesarlo. */
+  release(messageId: string): Promise<void>;
+  purgeOlderThan(date: Date): Promise<number>;
+}
+
+export type ClaimResult = 'CLAIMED' | 'DUPLICATE' | 'IN_PROGRESS';
+
+export const PROCESSED_MESSAGE_PORT = Symbol('PROCESSED_MESSAGE_PORT');
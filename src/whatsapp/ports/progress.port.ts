@@ -0,0 +1,43 @@
+/**
+ * Puerto de salida: Define el contrato del progreso por tema de cada alumno.
+ */
+export interface ProgressPort {
+  record(event: TopicEventRecord): Promise<void>;
+  getProgress(studentId: string): Promise<StudentProgressData>;
+  /**
+   * Preguntas del banco que el alumno respondió desde `since`.
+   */
+  findAnsweredQuestionIds(studentId: string, since: Date): Promise<string[]>;
+}
+
+export interface TopicEventRecord {
+  studentId: string;
+  kind: 'QUESTION' | 'ANSWER';
+  topic: string;
+  // Solo ANSWER
+  correct: boolean | null;
+  // Solo ANSWER de una pregunta del banco
+  questionId: string | null;
+}
+
+export interface TopicProgressData {
+  topic: string;
+  questionsAsked: number;
+  answered: number;
+  correct: number;
+  // correct / answered; `null` si no respondió nada del tema
+  accuracy: number | null;
+}
+
+export interface StudentProgressData {
+  questionsAsked: number;
+  answered: number;
+  correct: number;
+  accuracy: number | null;
+  // Más activos primero
+  topics: TopicProgressData[];
+  // Menor acierto primero (solo temas con respuestas suficientes)
+  weakestTopics: TopicProgressData[];
+}
+
+export const PROGRESS_PORT = Symbol('PROGRESS_PORT');
@@ -0,0 +1,35 @@
+/**
+ * Puerto de salida: Define el contrato del repaso espaciado de cada alumno.
+ */
+export interface QuestionReviewPort {
+  find(
+    studentId: string,
+    questionId: string,
+  ): Promise<QuestionReviewData | null>;
+  /**
+   * Crea o actualiza el estado del alumno para esa pregunta.
+   */
+  save(review: QuestionReviewData): Promise<void>;
+  /**
+   * Preguntas con `dueAt <= now`, las más atrasadas primero.
+   */
+  findDue(
+    studentId: string,
+    now: Date,
+    limit: number,
+  ): Promise<QuestionReviewData[]>;
+  countDue(studentId: string, now: Date): Promise<number>;
+}
+
+export interface QuestionReviewData {
+  studentId: string;
+  questionId: string;
+  repetitions: number;
+  easeFactor: number;
+  intervalDays: number;
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt: Date;
+}
+
+export const QUESTION_REVIEW_PORT = Symbol('QUESTION_REVIEW_PORT');
@@ -0,0 +1,37 @@
+/**
+ * Puerto de salida: Define el contrato del banco de preguntas de práctica.
+ */
+export interface QuizQuestionPort {
+  /**
+   * Preguntas al azar del tema (`null` = cualquiera), sin repetir `excludeIds`.
+   */
+  findRandom(
+    topic: string | null,
+    limit: number,
+    excludeIds: string[],
+  ): Promise<QuizQuestionData[]>;
+  /**
+   * Respeta el orden de `ids`; las que no existen se omiten.
+   */
+  findByIds(ids: string[]): Promise<QuizQuestionData[]>;
+  /**
+   * Guarda preguntas nuevas. Las repetidas (mismo texto) se ignoran.
+   */
+  saveMany(questions: NewQuizQuestion[]): Promise<QuizQuestionData[]>;
+}
+
+export interface QuizQuestionData {
+  id: string;
+  topic: string | null;
+  question: string;
+  options: string[];
+  correctOption: number;
+  explanation: string;
+  category: string | null;
+}
+
+export type NewQuizQuestion = Omit<QuizQuestionData, 'id'> & {
+  sourceEntryId: string | null;
+};
+
+export const QUIZ_QUESTION_PORT = Symbol('QUIZ_QUESTION_PORT');
@@ -0,0 +1,16 @@
+/**
+ * Puerto de salida: Define el contrato para serializar el trabajo por alumno.
+ *
+ * Why: Dos mensajes del mismo número procesados a la vez compiten dentro de
+ * `getOrCreateStudent` / `ConversationLifecycleService.resolve` y pueden responder fuera
+ * de orden. El lock tiene que valer entre varias instancias de la app.
+ */
+export interface StudentLockPort {
+  /**
+   * Ejecuta `task` con acceso exclusivo para `key` (ej: el teléfono).
+   * Tareas con distinta `key` corren en paralelo.
+   */
+  runExclusive<T>(key: string, task: () => Promise<T>): Promise<T>;
+}
+
+export const STUDENT_LOCK_PORT = Symbol('STUDENT_LOCK_PORT');
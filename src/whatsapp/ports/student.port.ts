@@ -1,18 +1,67 @@
+import { Channel } from '../../student/enums/channel.enum';
+
 /**
  * Puerto de salida: Define el contrato para gestionar estudiantes.
  */
 export interface StudentPort {
-  findByPhone(phoneNumber: string): Promise<StudentData | null>;
-  create(phoneNumber: string, name: string): Promise<StudentData>;
+  findById(studentId: string): Promise<StudentData | null>;
+  /**
+   * @param externalId Teléfono (WhatsApp), chat id (Telegram) o id de sesión (web).
+   */
+  findByExternalId(
+    channel: Channel,
+    externalId: string,
+  ): Promise<StudentData | null>;
+  create(
+    channel: Channel,
+    externalId: string,
+    name: string,
+  ): Promise<StudentData>;
   updateAccessExpiration(studentId: string, date: Date): Promise<void>;
   findAllWithActiveAccess(): Promise<StudentData[]>;
+  /**
+   * Registra el último mensaje del alumno (abre la ventana de 24h de Meta).
+   * Nunca retrocede: un mensaje viejo reprocesado no pisa uno más nuevo.
+   */
+  touchLastInbound(studentId: string, at: Date): Promise<void>;
+  updateDailyQuestion(
+    studentId: string,
+    preferences: { enabled: boolean; time: string | null },
+  ): Promise<void>;
+  /**
+   * Alumnos con acceso vigente y pregunta diaria activa cuya hora ya pasó
+   * hoy (`HH:MM`, hora argentina) y que todavía no la recibieron.
+   */
+  findDueForDailyQuestion(today: string, time: string): Promise<StudentData[]>;
+  /**
+   * Marca la pregunta de hoy como enviada.
+   * @returns `false` si ya estaba marcada (ej: la mandó otra instancia).
+   */
+  claimDailyQuestion(studentId: string, today: string): Promise<boolean>;
+  /**
+   * Marca (o desmarca con `null`) al alumno por faltar a clases.
+   */
+  setNoShowFlag(studentId: string, flaggedAt: Date | null): Promise<void>;
+  /**
+   * Borra los visitantes anónimos del sitio (`WEB`) sin mensajes desde
+   * `before`, con sus conversaciones y registros.
+   * @returns cuántos se borraron.
+   */
+  deleteInactiveVisitors(before: Date): Promise<number>;
 }
 
 export interface StudentData {
   id: string;
   name: string;
-  phoneNumber: string;
+  channel: Channel;
+  externalId: string;
+  // Solo alumnos de WhatsApp
+  phoneNumber: string | null;
   accessExpiresAt?: Date; // <--- New field
+  lastInboundAt?: Date | null;
+  dailyQuestionEnabled?: boolean;
+  dailyQuestionTime?: string | null;
+  noShowFlaggedAt?: Date | null;
 }
 
 export const STUDENT_PORT = Symbol('STUDENT_PORT');
@@ -0,0 +1,14 @@
+/**
+ * Puerto de salida: Define el contrato para transcribir audio a texto.
+ *
+ * Why: Muchos alumnos mandan notas de voz en vez de escribir. El dominio no
+ * debe saber qué proveedor de speech-to-text usamos (Whisper, stub local, etc.).
+ */
+export interface TranscriptionPort {
+  /**
+   * @returns El texto transcripto, o `null` si no se entendió nada.
+   */
+  transcribe(audio: Buffer, mimeType: string): Promise<string | null>;
+}
+
+export const TRANSCRIPTION_PORT = Symbol('TRANSCRIPTION_PORT');
@@ -1,16 +1,75 @@
 import { WhatsappSendMessageResponse } from '../types/whatsapp-send-message-response.type';
+import { WhatsappMedia } from '../types/whatsapp-media.type';
+import {
+  WhatsappListMessage,
+  WhatsappOutboundMedia,
+  WhatsappReadOptions,
+  WhatsappReplyButton,
+  WhatsappSendOptions,
+  WhatsappTemplate,
+} from '../types/whatsapp-outbound.type';
 
 /**
  * Puerto de salida: Define el contrato para enviar mensajes de WhatsApp.
  *
  * Why: Arquitectura Hexagonal - El dominio no debe saber si usamos Axios,
  * Fetch, o una librería externa para enviar los mensajes.
+ *
+ * Todos los envíos devuelven `undefined` si el proveedor rechazó el mensaje.
  */
 export interface WhatsappProviderPort {
   sendMessage(
     to: string,
     text: string,
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined>;
+  /**
+   * Texto con hasta 3 botones de respuesta rápida.
+   */
+  sendReplyButtons(
+    to: string,
+    body: string,
+    buttons: WhatsappReplyButton[],
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined>;
+  /**
+   * Menú desplegable con secciones y filas seleccionables.
+   */
+  sendList(
+    to: string,
+    list: WhatsappListMessage,
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined>;
+  sendMedia(
+    to: string,
+    media: WhatsappOutboundMedia,
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined>;
+  sendTemplate(
+    to: string,
+    template: WhatsappTemplate,
+  ): Promise<WhatsappSendMessageResponse | undefined>;
+  /**
+   * Reacciona a un mensaje. Un `emoji` vacío quita la reacción.
+   */
+  sendReaction(
+    to: string,
+    messageId: string,
+    emoji: string,
   ): Promise<WhatsappSendMessageResponse | undefined>;
+  /**
+   * Marca el mensaje recibido como leído (tildes azules) y, opcionalmente,
+   * muestra "escribiendo..." hasta que respondamos (o hasta 25s).
+   * @returns `false` si el proveedor rechazó el pedido.
+   */
+  markAsRead(
+    messageId: string,
+    options?: WhatsappReadOptions,
+  ): Promise<boolean>;
+  /**
+   * Descarga un archivo recibido (audio, imagen, etc.) a partir de su media id.
+   */
+  downloadMedia(mediaId: string): Promise<WhatsappMedia | undefined>;
 }
 
 export const WHATSAPP_PROVIDER = Symbol('WHATSAPP_PROVIDER');
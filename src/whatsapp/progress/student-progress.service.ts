@@ -0,0 +1,86 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PROGRESS_PORT } from '../ports';
+import type { QuizQuestionData } from '../ports/quiz-question.port';
+import type {
+  ProgressPort,
+  StudentProgressData,
+  TopicEventRecord,
+} from '../ports/progress.port';
+
+// Preguntas que no se pudieron asociar a una categoría
+export const GENERAL_TOPIC = 'General';
+
+/**
+ * Registra qué temas pregunta y responde cada alumno (RAG, quiz, repaso y
+ * simulacro) y arma su progreso.
+ *
+ * Es de mejor esfuerzo (ver README): si falla la DB, el evento falta en el
+ * progreso y el quiz puede repetir preguntas recientes.
+ */
+@Injectable()
+export class StudentProgressService {
+  private readonly logger = new Logger(StudentProgressService.name);
+
+  constructor(
+    @Inject(PROGRESS_PORT)
+    private readonly progressPort: ProgressPort,
+  ) {}
+
+  recordQuestion(studentId: string, topic: string | null): Promise<void> {
+    return this.record({
+      studentId,
+      kind: 'QUESTION',
+      topic: topic ?? GENERAL_TOPIC,
+      correct: null,
+      questionId: null,
+    });
+  }
+
+  recordAnswer(
+    studentId: string,
+    question: Pick<QuizQuestionData, 'id' | 'category'>,
+    correct: boolean,
+  ): Promise<void> {
+    return this.record({
+      studentId,
+      kind: 'ANSWER',
+      topic: question.category ?? GENERAL_TOPIC,
+      correct,
+      questionId: question.id,
+    });
+  }
+
+  /**
+   * Preguntas del banco que el alumno respondió desde `since`; ante un error,
+   * ninguna (a lo sumo se repite alguna).
+   */
+  async findAnsweredQuestionIds(
+    studentId: string,
+    since: Date,
+  ): Promise<string[]> {
+    try {
+      return await this.progressPort.findAnsweredQuestionIds(studentId, since);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `No se pudieron leer las respuestas de ${studentId}: ${err.message}`,
+      );
+      return [];
+    }
+  }
+
+  getProgress(studentId: string): Promise<StudentProgressData> {
+    return this.progressPort.getProgress(studentId);
+  }
+
+  private async record(event: TopicEventRecord): Promise<void> {
+    try {
+      await this.progressPort.record(event);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `No se pudo registrar el progreso de ${event.studentId}: ${err.message}`,
+      );
+    }
+  }
+}
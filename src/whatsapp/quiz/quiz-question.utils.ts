@@ -0,0 +1,60 @@
+import type { QuizQuestionData } from '../ports/quiz-question.port';
+import type { ConversationInput } from '../types/conversation-input.type';
+import type { WhatsappReplyButton } from '../types/whatsapp-outbound.type';
+
+/**
+ * Mensaje de una pregunta de opción múltiple (quiz o simulacro).
+ * Los botones traen `<prefijo><pregunta>:<opción>` como id.
+ */
+export function buildQuestionMessage(
+  question: QuizQuestionData,
+  index: number,
+  total: number,
+  replyPrefix: string,
+  title = `*Pregunta ${index + 1}/${total}*`,
+): { body: string; buttons: WhatsappReplyButton[] } {
+  const options = question.options
+    .map((option, i) => `${i + 1}. ${option}`)
+    .join('\n');
+
+  // Las opciones van en el texto: el título de un botón admite 20 caracteres
+  return {
+    body: `${title}\n\n${question.question}\n\n${options}`,
+    buttons: question.options.map((_, i) => ({
+      id: `${replyPrefix}${question.id}:${i}`,
+      title: String(i + 1),
+    })),
+  };
+}
+
+/**
+ * Índice de la opción elegida, por botón o por número escrito.
+ * Un botón de una pregunta anterior no cuenta como respuesta.
+ */
+export function parseQuestionAnswer(
+  input: ConversationInput,
+  replyPrefix: string,
+  question: QuizQuestionData,
+): number | null {
+  const replyId = input.replyId;
+  const buttonPrefix = `${replyPrefix}${question.id}:`;
+  let answer: number;
+
+  if (replyId?.startsWith(replyPrefix)) {
+    answer = replyId.startsWith(buttonPrefix)
+      ? Number(replyId.slice(buttonPrefix.length))
+      : NaN;
+  } else {
+    answer = Number(/^(\d)\b/.exec(input.text.trim())?.[1]) - 1;
+  }
+
+  return Number.isInteger(answer) &&
+    answer >= 0 &&
+    answer < question.options.length
+    ? answer
+    : null;
+}
+
+export function formatCorrectOption(question: QuizQuestionData): string {
+  return `${question.correctOption + 1}. ${question.options[question.correctOption]}`;
+}
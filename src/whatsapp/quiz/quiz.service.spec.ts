@@ -0,0 +1,91 @@
+import type { ConfigService } from '@nestjs/config';
+import type { KnowledgeService } from '../../knowledge/knowledge.service';
+import type { QuizQuestionPort } from '../ports/quiz-question.port';
+import type { StudentProgressService } from '../progress/student-progress.service';
+import { QuizService } from './quiz.service';
+
+describe('QuizService', () => {
+  const question = (id: string) => ({
+    id,
+    topic: 'senales',
+    question: `¿Pregunta ${id}?`,
+    options: ['Opción A', 'Opción B', 'Opción C'],
+    correctOption: 1,
+    explanation: `Explicación ${id}`,
+    category: 'Señales',
+  });
+
+  const findRandom = jest.fn();
+  const saveMany = jest.fn();
+  const generateQuizQuestions = jest.fn();
+  const findAnsweredQuestionIds = jest.fn();
+
+  const buildService = () =>
+    new QuizService(
+      {
+        get: (key: string) => ({ QUIZ_REPEAT_AFTER_DAYS: '7' })[key],
+      } as unknown as ConfigService,
+      { findRandom, saveMany } as unknown as QuizQuestionPort,
+      { generateQuizQuestions } as unknown as KnowledgeService,
+      { findAnsweredQuestionIds } as unknown as StudentProgressService,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findAnsweredQuestionIds.mockResolvedValue(['q1', 'q2']);
+    generateQuizQuestions.mockImplementation((_topic, count: number) =>
+      Promise.resolve(
+        Array.from({ length: count }, (_, i) => ({
+          ...question(`new-${i}`),
+          sourceEntryId: null,
+        })),
+      ),
+    );
+    saveMany.mockImplementation((questions: unknown[]) =>
+      Promise.resolve(questions),
+    );
+  });
+
+  it('should skip the questions the student answered recently', async () => {
+    findRandom.mockResolvedValue([question('q3'), question('q4')]);
+
+    const questions = await buildService().drawQuestions(
+      'Señales',
+      2,
+      'student-1',
+    );
+
+    expect(findAnsweredQuestionIds).toHaveBeenCalledWith(
+      'student-1',
+      expect.any(Date),
+    );
+    expect(findRandom).toHaveBeenCalledWith('senales', 2, ['q1', 'q2']);
+    expect(questions.map((q) => q.id)).toEqual(['q3', 'q4']);
+    expect(generateQuizQuestions).not.toHaveBeenCalled();
+  });
+
+  it('should top up the bank when everything left was already seen', async () => {
+    findRandom.mockResolvedValue([question('q3')]);
+
+    const questions = await buildService().drawQuestions(
+      'Señales',
+      3,
+      'student-1',
+    );
+
+    expect(generateQuizQuestions).toHaveBeenCalledWith('Señales', 2);
+    expect(questions.map((q) => q.id)).toEqual(['q3', 'new-0', 'new-1']);
+  });
+
+  it('should repeat seen questions when no new ones can be generated', async () => {
+    findRandom
+      .mockResolvedValueOnce([question('q3')])
+      .mockResolvedValueOnce([question('q1')]);
+    generateQuizQuestions.mockRejectedValue(new Error('LLM caído'));
+
+    const questions = await buildService().drawQuestions(null, 2, 'student-1');
+
+    expect(findRandom).toHaveBeenLastCalledWith(null, 1, ['q3']);
+    expect(questions.map((q) => q.id)).toEqual(['q3', 'q1']);
+  });
+});
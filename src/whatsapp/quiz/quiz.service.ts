@@ -0,0 +1,132 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { KnowledgeService } from '../../knowledge/knowledge.service';
+import { StudentProgressService } from '../progress/student-progress.service';
+import { QUIZ_QUESTION_PORT } from '../ports';
+import type {
+  QuizQuestionData,
+  QuizQuestionPort,
+} from '../ports/quiz-question.port';
+
+/**
+ * "Señales " / "señales" / "SEÑALES" → "senales" (clave del banco por tema).
+ */
+export function normalizeQuizTopic(topic: string): string {
+  return topic
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Arma los quizzes: primero saca preguntas del banco que el alumno no
+ * respondió hace poco y, si faltan, le pide al LLM preguntas nuevas de la
+ * batería del examen (y las guarda).
+ *
+ * Why: Generar cada pregunta cuesta una llamada al LLM y varios segundos;
+ * con el banco, los temas populares salen al instante y sin costo. Sin
+ * excluir las ya vistas, un alumno constante terminaría recibiendo siempre
+ * las mismas del banco.
+ */
+@Injectable()
+export class QuizService {
+  private readonly logger = new Logger(QuizService.name);
+
+  // Una pregunta respondida no se vuelve a sacar del banco durante este tiempo
+  private readonly repeatAfterMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(QUIZ_QUESTION_PORT)
+    private readonly questionPort: QuizQuestionPort,
+    private readonly knowledgeService: KnowledgeService,
+    private readonly progressService: StudentProgressService,
+  ) {
+    const repeatAfterDays = parseFloat(
+      this.configService.get<string>('QUIZ_REPEAT_AFTER_DAYS') ?? '14',
+    );
+    this.repeatAfterMs = repeatAfterDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * @returns Hasta `count` preguntas (menos si no hay material del tema).
+   */
+  async drawQuestions(
+    topic: string | null,
+    count: number,
+    studentId: string,
+  ): Promise<QuizQuestionData[]> {
+    const topicKey = topic ? normalizeQuizTopic(topic) || null : null;
+    const seenIds = await this.progressService.findAnsweredQuestionIds(
+      studentId,
+      new Date(Date.now() - this.repeatAfterMs),
+    );
+    const questions = await this.questionPort.findRandom(
+      topicKey,
+      count,
+      seenIds,
+    );
+
+    if (questions.length >= count) {
+      return questions;
+    }
+
+    const drawn = [
+      ...questions,
+      ...(await this.generate(topic, topicKey, count - questions.length)),
+    ];
+
+    if (drawn.length >= count || seenIds.length === 0) {
+      return drawn;
+    }
+
+    // Sin preguntas nuevas (ej: falló el LLM) se repiten las ya vistas
+    const repeated = await this.questionPort.findRandom(
+      topicKey,
+      count - drawn.length,
+      drawn.map((question) => question.id),
+    );
+
+    return [...drawn, ...repeated];
+  }
+
+  /**
+   * Preguntas puntuales del banco (ej: las que toca repasar), en ese orden.
+   */
+  findQuestions(ids: string[]): Promise<QuizQuestionData[]> {
+    return this.questionPort.findByIds(ids);
+  }
+
+  async findQuestion(id: string): Promise<QuizQuestionData | null> {
+    const [question] = await this.questionPort.findByIds([id]);
+
+    return question ?? null;
+  }
+
+  private async generate(
+    topic: string | null,
+    topicKey: string | null,
+    count: number,
+  ): Promise<QuizQuestionData[]> {
+    try {
+      const generated = await this.knowledgeService.generateQuizQuestions(
+        topic,
+        count,
+      );
+
+      return await this.questionPort.saveMany(
+        generated.map((question) => ({ ...question, topic: topicKey })),
+      );
+    } catch (error) {
+      const err = error as Error;
+
+      // Con lo que haya en el banco igual se puede jugar
+      this.logger.warn(
+        `No se pudieron generar preguntas (tema: ${topicKey ?? 'general'}): ${err.message}`,
+      );
+      return [];
+    }
+  }
+}
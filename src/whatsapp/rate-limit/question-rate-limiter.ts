@@ -0,0 +1,87 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+
+/**
+ * Rate Limiting (Anti-Factura Exorbitante): cuántas preguntas al LLM puede
+ * hacer cada alumno por hora. En memoria: alcanza con una aproximación.
+ */
+@Injectable()
+export class QuestionRateLimiter implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(QuestionRateLimiter.name);
+
+  private readonly RATE_LIMIT_WINDOW = 60 * 60 * 1000;
+  private readonly CLEANUP_INTERVAL = 5 * 60 * 1000; // Limpieza cada 5 minutos
+  private usageMap = new Map<string, { count: number; expiresAt: number }>();
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+  onModuleInit(): void {
+    // Iniciar limpieza periódica de rate limits expirados
+    this.cleanupTimer = setInterval(
+      () => this.cleanExpiredRateLimits(),
+      this.CLEANUP_INTERVAL,
+    );
+    this.logger.log('🧹 Rate limit cleanup timer iniciado');
+  }
+
+  onModuleDestroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+      this.logger.log('🛑 Rate limit cleanup timer detenido');
+    }
+  }
+
+  /**
+   * Consume un uso de `key` (el id del alumno, o una key propia como
+   * `webchat-session:<ip>`).
+   * @returns `false` si ya hubo `maxRequests` usos en la última hora.
+   */
+  tryConsume(key: string, maxRequests: number): boolean {
+    const now = Date.now();
+    const record = this.usageMap.get(key);
+
+    // Si no existe o ya expiró la ventana, reiniciamos
+    if (!record || now > record.expiresAt) {
+      this.usageMap.set(key, {
+        count: 1,
+        expiresAt: now + this.RATE_LIMIT_WINDOW,
+      });
+      return true;
+    }
+
+    // Si superó el límite
+    if (record.count >= maxRequests) {
+      return false;
+    }
+
+    // Incrementamos
+    record.count++;
+    return true;
+  }
+
+  /**
+   * Limpia entradas expiradas del mapa de rate limiting.
+   * Previene memory leak al eliminar registros que ya no son necesarios.
+   */
+  private cleanExpiredRateLimits(): void {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [key, record] of this.usageMap) {
+      if (now > record.expiresAt) {
+        this.usageMap.delete(key);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      this.logger.debug(
+        `🧹 Limpiadas ${cleaned} entradas de rate limit expiradas`,
+      );
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Channel } from '../../student/enums/channel.enum';
+import {
+  CHANNEL_MESSENGER,
+  MESSAGE_LOG_PORT,
+  OUTBOUND_MESSAGE_PORT,
+} from '../ports';
+import type { ChannelMessengerPort } from '../ports/channel-messenger.port';
+import type { MessageLogPort } from '../ports/message-log.port';
+import type { OutboundMessagePort } from '../ports/outbound-message.port';
+import type { ChannelAddress } from '../types/inbound-message.type';
+import type { ReplyOptions, ReplyTarget } from '../types/reply-target.type';
+import type {
+  WhatsappListMessage,
+  WhatsappReplyButton,
+} from '../types/whatsapp-outbound.type';
+import { prepareWhatsappText } from '../utils/whatsapp-formatter';
+
+/**
+ * Respuestas del bot dentro de una conversación (servicio, flujos y comandos).
+ *
+ * Why: Centraliza el formateo de textos y el registro de lo enviado (estado de
+ * entrega e historial de mensajes), así cada paso de un flujo responde igual
+ * sin conocer al messenger ni a Meta.
+ */
+@Injectable()
+export class ReplyService {
+  private readonly logger = new Logger(ReplyService.name);
+
+  constructor(
+    @Inject(CHANNEL_MESSENGER)
+    private readonly messenger: ChannelMessengerPort,
+    @Inject(OUTBOUND_MESSAGE_PORT)
+    private readonly outboundMessagePort: OutboundMessagePort,
+    @Inject(MESSAGE_LOG_PORT)
+    private readonly messageLogPort: MessageLogPort,
+  ) {}
+
+  /**
+   * Envía un texto por el canal del destinatario. En WhatsApp registra el id devuelto
+   * por Meta para seguir su entrega.
+   * El texto se adapta a la sintaxis de WhatsApp y, si es largo, se parte
+   * en varios mensajes (en orden).
+   */
+  async sendText(
+    to: ReplyTarget,
+    text: string,
+    options?: ReplyOptions,
+  ): Promise<void> {
+    const address = this.toAddress(to);
+    const chunks = prepareWhatsappText(text);
+    const sendOptions = options?.replyTo
+      ? { replyTo: options.replyTo }
+      : undefined;
+
+    for (const [index, chunk] of chunks.entries()) {
+      // Solo el primer fragmento cita el mensaje original
+      const messageId = await this.messenger.sendText(
+        address,
+        chunk,
+        index === 0 ? sendOptions : undefined,
+      );
+
+      await this.recordOutbound(address, messageId);
+      await this.logOutbound(to, 'text', chunk, messageId, options?.model);
+    }
+  }
+
+  async sendButtons(
+    to: ReplyTarget,
+    body: string,
+    buttons: WhatsappReplyButton[],
+  ): Promise<void> {
+    const address = this.toAddress(to);
+    const messageId = await this.messenger.sendReplyButtons(
+      address,
+      body,
+      buttons,
+    );
+
+    await this.recordOutbound(address, messageId);
+    await this.logOutbound(to, 'buttons', body, messageId);
+  }
+
+  async sendList(to: ReplyTarget, list: WhatsappListMessage): Promise<void> {
+    const address = this.toAddress(to);
+    const messageId = await this.messenger.sendList(address, list);
+
+    await this.recordOutbound(address, messageId);
+    await this.logOutbound(to, 'list', list.body, messageId);
+  }
+
+  /**
+   * Registra el wamid de cualquier envío para seguir sus estados de entrega
+   * (solo WhatsApp manda callbacks de estado).
+   */
+  private async recordOutbound(
+    to: ChannelAddress,
+    waMessageId: string | null,
+  ): Promise<void> {
+    if (!waMessageId || to.channel !== Channel.WHATSAPP) {
+      return;
+    }
+
+    try {
+      await this.outboundMessagePort.recordAccepted(waMessageId, to.externalId);
+    } catch (error) {
+      const err = error as Error;
+
+      // El mensaje ya salió: un fallo de registro no debe cortar el flujo
+      this.logger.warn(
+        `No se pudo registrar el envío ${waMessageId}: ${err.message}`,
+      );
+    }
+  }
+
+  /**
+   * Guarda la respuesta en el historial de mensajes del alumno.
+   */
+  private async logOutbound(
+    to: ReplyTarget,
+    type: string,
+    text: string,
+    waMessageId: string | null,
+    model?: string | null,
+  ): Promise<void> {
+    if (!to.trace) {
+      return;
+    }
+
+    const sentAt = new Date();
+
+    try {
+      await this.messageLogPort.record({
+        studentId: to.trace.studentId,
+        conversationId: to.trace.conversationId,
+        direction: 'OUTBOUND',
+        type,
+        text,
+        waMessageId,
+        sentAt,
+        latencyMs: sentAt.getTime() - to.trace.receivedAt.getTime(),
+        model: model ?? null,
+      });
+    } catch (error) {
+      const err = error as Error;
+
+      // Igual que con el estado de entrega: el mensaje ya salió
+      this.logger.warn(`No se pudo guardar el mensaje enviado: ${err.message}`);
+    }
+  }
+
+  private toAddress(to: ReplyTarget): ChannelAddress {
+    return { channel: to.channel, externalId: to.externalId };
+  }
+}
@@ -0,0 +1,86 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { QUESTION_REVIEW_PORT } from '../ports';
+import type { QuestionReviewPort } from '../ports/question-review.port';
+import { ReviewQuality, scheduleReview } from './spaced-repetition';
+
+// Calidad SM-2 de una respuesta: sin "más o menos", o la sabe o no
+const QUALITY_CORRECT: ReviewQuality = 4;
+const QUALITY_WRONG: ReviewQuality = 1;
+
+/**
+ * Repaso espaciado de las preguntas que el alumno falló (quiz, simulacro o
+ * el propio repaso).
+ *
+ * Es de mejor esfuerzo (ver README): si falla la DB, esa pregunta no
+ * vuelve al repaso.
+ */
+@Injectable()
+export class ReviewService {
+  private readonly logger = new Logger(ReviewService.name);
+
+  constructor(
+    @Inject(QUESTION_REVIEW_PORT)
+    private readonly reviewPort: QuestionReviewPort,
+  ) {}
+
+  /**
+   * Una pregunta fallada entra al repaso; una que ya estaba se reprograma.
+   * Acertar una pregunta que nunca falló no guarda nada.
+   */
+  async recordAnswer(
+    studentId: string,
+    questionId: string,
+    correct: boolean,
+  ): Promise<void> {
+    try {
+      const previous = await this.reviewPort.find(studentId, questionId);
+
+      if (!previous && correct) {
+        return;
+      }
+
+      const now = new Date();
+      const schedule = scheduleReview(
+        previous,
+        correct ? QUALITY_CORRECT : QUALITY_WRONG,
+        now,
+      );
+
+      await this.reviewPort.save({
+        studentId,
+        questionId,
+        ...schedule,
+        lastReviewedAt: now,
+      });
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `No se pudo registrar el repaso de ${questionId} (alumno ${studentId}): ${err.message}`,
+      );
+    }
+  }
+
+  /**
+   * Preguntas que ya toca repasar, las más atrasadas primero.
+   */
+  async findDueQuestionIds(
+    studentId: string,
+    limit: number,
+  ): Promise<string[]> {
+    const reviews = await this.reviewPort.findDue(studentId, new Date(), limit);
+
+    return reviews.map((review) => review.questionId);
+  }
+
+  async countDue(studentId: string): Promise<number> {
+    try {
+      return await this.reviewPort.countDue(studentId, new Date());
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `No se pudieron contar los repasos de ${studentId}: ${err.message}`,
+      );
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { ReviewSchedule, scheduleReview } from './spaced-repetition';
+
+describe('scheduleReview', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const days = (schedule: ReviewSchedule) =>
+    (schedule.dueAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+
+  it('should schedule a missed question for tomorrow', () => {
+    const schedule = scheduleReview(null, 1, now);
+
+    expect(schedule).toEqual(
+      expect.objectContaining({ repetitions: 0, intervalDays: 1, lapses: 0 }),
+    );
+    expect(days(schedule)).toBe(1);
+    expect(schedule.easeFactor).toBeCloseTo(1.96);
+  });
+
+  it('should space the reviews 1, 6 and then interval × ease factor days', () => {
+    const first = scheduleReview(null, 4, now);
+    const second = scheduleReview(first, 4, now);
+    const third = scheduleReview(second, 4, now);
+
+    expect([first, second, third].map((s) => s.intervalDays)).toEqual([
+      1, 6, 15,
+    ]);
+    expect(third.repetitions).toBe(3);
+    expect(days(third)).toBe(15);
+  });
+
+  it('should restart the repetitions and count a lapse when a known question is forgotten', () => {
+    const known = scheduleReview(scheduleReview(null, 5, now), 5, now);
+    const forgotten = scheduleReview(known, 2, now);
+
+    expect(forgotten).toEqual(
+      expect.objectContaining({ repetitions: 0, intervalDays: 1, lapses: 1 }),
+    );
+    expect(forgotten.easeFactor).toBeLessThan(known.easeFactor);
+  });
+
+  it('should never drop the ease factor below 1.3', () => {
+    let schedule = scheduleReview(null, 0, now);
+
+    for (let i = 0; i < 10; i++) {
+      schedule = scheduleReview(schedule, 0, now);
+    }
+
+    expect(schedule.easeFactor).toBe(1.3);
+  });
+});
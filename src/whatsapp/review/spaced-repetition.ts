@@ -0,0 +1,68 @@
+/**
+ * Repetición espaciada con SM-2 (SuperMemo 2): cuanto mejor recuerda el
+ * alumno una pregunta, más se espacian los repasos.
+ */
+export type ReviewSchedule = {
+  // Repasos correctos seguidos
+  repetitions: number;
+  // Facilidad de la pregunta para el alumno (mínimo 1.3)
+  easeFactor: number;
+  intervalDays: number;
+  // Veces que la olvidó después de haberla sabido
+  lapses: number;
+  dueAt: Date;
+};
+
+// Calidad de la respuesta de SM-2: 0 (en blanco) a 5 (perfecta)
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Próximo repaso según SM-2.
+ * @param previous - `null` si la pregunta todavía no estaba en repaso.
+ */
+export function scheduleReview(
+  previous: ReviewSchedule | null,
+  quality: ReviewQuality,
+  now: Date,
+): ReviewSchedule {
+  const repetitions = previous?.repetitions ?? 0;
+  const easeFactor = previous?.easeFactor ?? INITIAL_EASE_FACTOR;
+  const lapses = previous?.lapses ?? 0;
+
+  // La facilidad se ajusta siempre, también cuando la olvida
+  const penalty = 5 - quality;
+  const nextEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - penalty * (0.08 + penalty * 0.02)),
+  );
+
+  if (quality < 3) {
+    // La olvidó: vuelve a empezar mañana
+    return {
+      repetitions: 0,
+      easeFactor: nextEaseFactor,
+      intervalDays: 1,
+      lapses: repetitions > 0 ? lapses + 1 : lapses,
+      dueAt: new Date(now.getTime() + DAY_MS),
+    };
+  }
+
+  const intervalDays =
+    repetitions === 0
+      ? 1
+      : repetitions === 1
+        ? 6
+        : Math.round((previous?.intervalDays ?? 1) * easeFactor);
+
+  return {
+    repetitions: repetitions + 1,
+    easeFactor: nextEaseFactor,
+    intervalDays,
+    lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
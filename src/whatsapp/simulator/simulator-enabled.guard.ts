@@ -0,0 +1,20 @@
+import { Injectable, CanActivate, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * El simulador solo existe con WHATSAPP_PROVIDER=simulator.
+ * Why: En producción estos endpoints permitirían hacerse pasar por cualquier
+ * número (incluido el admin), así que respondemos 404 como si no existieran.
+ */
+@Injectable()
+export class SimulatorEnabledGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(): boolean {
+    if (this.configService.get<string>('WHATSAPP_PROVIDER') !== 'simulator') {
+      throw new NotFoundException();
+    }
+
+    return true;
+  }
+}
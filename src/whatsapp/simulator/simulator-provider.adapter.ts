@@ -0,0 +1,175 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { WhatsappProviderPort } from '../ports/whatsapp-provider.port';
+import { WhatsappSendMessageResponse } from '../types/whatsapp-send-message-response.type';
+import { WhatsappMedia } from '../types/whatsapp-media.type';
+import {
+  WhatsappListMessage,
+  WhatsappOutboundMedia,
+  WhatsappReplyButton,
+  WhatsappSendOptions,
+  WhatsappTemplate,
+} from '../types/whatsapp-outbound.type';
+import type { SimulatedOutboundMessage } from './simulator.type';
+
+// Evita que una sesión larga de pruebas crezca sin límite
+const MAX_STORED_MESSAGES = 500;
+
+/**
+ * Adaptador: Simula WhatsApp en memoria (WHATSAPP_PROVIDER=simulator).
+ *
+ * Why: Probar una conversación no debería requerir un número real,
+ * ngrok ni credenciales de Meta. Los envíos quedan guardados para que
+ * el SimulatorController los devuelva como respuesta.
+ */
+@Injectable()
+export class SimulatorProviderAdapter implements WhatsappProviderPort {
+  private readonly logger = new Logger(SimulatorProviderAdapter.name);
+  private readonly messages: SimulatedOutboundMessage[] = [];
+
+  sendMessage(
+    to: string,
+    text: string,
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    return this.capture(to, 'text', text, { text, ...options });
+  }
+
+  sendReplyButtons(
+    to: string,
+    body: string,
+    buttons: WhatsappReplyButton[],
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    const buttonLines = buttons.map(
+      (button) => `  [${button.title}] (${button.id})`,
+    );
+
+    return this.capture(to, 'buttons', [body, ...buttonLines].join('\n'), {
+      body,
+      buttons,
+      ...options,
+    });
+  }
+
+  sendList(
+    to: string,
+    list: WhatsappListMessage,
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    const rowLines = list.sections.flatMap((section) => [
+      ...(section.title ? [`  ${section.title}`] : []),
+      ...section.rows.map((row) => `  - ${row.title} (${row.id})`),
+    ]);
+
+    return this.capture(
+      to,
+      'list',
+      [list.header, list.body, `[${list.buttonText}]`, ...rowLines, list.footer]
+        .filter(Boolean)
+        .join('\n'),
+      { ...list, ...options },
+    );
+  }
+
+  sendMedia(
+    to: string,
+    media: WhatsappOutboundMedia,
+    options?: WhatsappSendOptions,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    const source = media.link ?? `media:${media.id}`;
+
+    return this.capture(
+      to,
+      media.type,
+      [`📎 ${media.type}: ${source}`, media.caption].filter(Boolean).join('\n'),
+      { ...media, ...options },
+    );
+  }
+
+  sendTemplate(
+    to: string,
+    template: WhatsappTemplate,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    const params = (template.components ?? [])
+      .flatMap((component) => component.parameters)
+      .map((parameter) => parameter.text);
+
+    return this.capture(
+      to,
+      'template',
+      `📄 Template ${template.name} (${params.join(', ')})`,
+      { ...template },
+    );
+  }
+
+  sendReaction(
+    to: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<WhatsappSendMessageResponse | undefined> {
+    return this.capture(
+      to,
+      'reaction',
+      emoji ? `Reacción ${emoji}` : 'Reacción quitada',
+      { messageId, emoji },
+    );
+  }
+
+  markAsRead(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  /**
+   * Devuelve un audio vacío: con TRANSCRIPTION_PROVIDER=stub alcanza
+   * para probar el flujo de notas de voz.
+   */
+  downloadMedia(mediaId: string): Promise<WhatsappMedia | undefined> {
+    this.logger.debug(`🧪 Media simulada ${mediaId}`);
+    return Promise.resolve({ data: Buffer.alloc(0), mimeType: 'audio/ogg' });
+  }
+
+  /**
+   * Mensajes capturados después de `afterId` (o todos si no se indica).
+   */
+  getMessages(afterId?: string): SimulatedOutboundMessage[] {
+    const index = afterId
+      ? this.messages.findIndex((message) => message.id === afterId)
+      : -1;
+
+    return this.messages.slice(index + 1);
+  }
+
+  /**
+   * Id del último mensaje capturado, para leer solo lo que venga después.
+   */
+  getLastMessageId(): string | undefined {
+    return this.messages[this.messages.length - 1]?.id;
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+
+  private capture(
+    to: string,
+    type: string,
+    text: string,
+    payload: Record<string, unknown>,
+  ): Promise<WhatsappSendMessageResponse> {
+    const id = `wamid.sim.out.${randomUUID()}`;
+
+    this.messages.push({ id, to, type, text, payload, createdAt: new Date() });
+
+    if (this.messages.length > MAX_STORED_MESSAGES) {
+      this.messages.splice(0, this.messages.length - MAX_STORED_MESSAGES);
+    }
+
+    this.logger.log(`🧪 [${type}] → ${to}: ${text}`);
+
+    return Promise.resolve({
+      contacts: [{ input: to, wa_id: to }],
+      messages: [{ id }],
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import type { SimulatedInboundMessage } from './simulator.type';
+
+/**
+ * Arma un payload con la misma forma que el webhook de Meta, para que el mensaje
+ * recorra el pipeline real (parser, admin, gatekeeper, flujo de conversación).
+ */
+export function buildSimulatedWebhook(input: SimulatedInboundMessage): {
+  messageId: string;
+  payload: Record<string, unknown>;
+} {
+  const messageId = `wamid.sim.in.${randomUUID()}`;
+  const base = {
+    id: messageId,
+    from: input.from,
+    timestamp: String(Math.floor(Date.now() / 1000)),
+  };
+  let message: Record<string, unknown>;
+
+  if (input.voice) {
+    message = {
+      ...base,
+      type: 'audio',
+      audio: {
+        id: `media.sim.${randomUUID()}`,
+        mime_type: 'audio/ogg',
+        voice: true,
+      },
+    };
+  } else if (input.replyId) {
+    message = {
+      ...base,
+      type: 'interactive',
+      interactive: {
+        type: 'button_reply',
+        button_reply: { id: input.replyId, title: input.text ?? input.replyId },
+      },
+    };
+  } else {
+    message = { ...base, type: 'text', text: { body: input.text ?? '' } };
+  }
+
+  return {
+    messageId,
+    payload: {
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          id: 'simulator',
+          changes: [
+            {
+              field: 'messages',
+              value: {
+                messaging_product: 'whatsapp',
+                metadata: { phone_number_id: 'simulator' },
+                contacts: [
+                  {
+                    wa_id: input.from,
+                    profile: { name: input.name ?? 'Simulador' },
+                  },
+                ],
+                messages: [message],
+              },
+            },
+          ],
+        },
+      ],
+    },
+  };
+}
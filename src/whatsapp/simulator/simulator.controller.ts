@@ -0,0 +1,70 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { WhatsappService } from '../whatsapp.service';
+import { SimulatorProviderAdapter } from './simulator-provider.adapter';
+import { SimulatorEnabledGuard } from './simulator-enabled.guard';
+import { buildSimulatedWebhook } from './simulator-webhook';
+import type { SimulatedInboundMessage } from './simulator.type';
+
+@Controller('simulator')
+@UseGuards(SimulatorEnabledGuard)
+export class SimulatorController {
+  constructor(
+    private readonly whatsappService: WhatsappService,
+    private readonly simulatorProvider: SimulatorProviderAdapter,
+  ) {}
+
+  /**
+   * Simula un mensaje entrante y devuelve lo que respondió el bot.
+   * Se procesa en el momento (sin pasar por la cola) para poder devolver
+   * las respuestas en la misma request.
+   * Ejemplo: POST /simulator/messages { "from": "5491122334455", "text": "Hola" }
+   */
+  @Post('messages')
+  @HttpCode(HttpStatus.OK)
+  async sendMessage(@Body() body: SimulatedInboundMessage) {
+    if (!body?.from || !/^\d+$/.test(body.from)) {
+      throw new BadRequestException('"from" debe ser un número de teléfono');
+    }
+
+    if (!body.text && !body.replyId && !body.voice) {
+      throw new BadRequestException('Falta "text", "replyId" o "voice"');
+    }
+
+    const lastMessageId = this.simulatorProvider.getLastMessageId();
+    const { messageId, payload } = buildSimulatedWebhook(body);
+
+    await this.whatsappService.handleMessage(payload);
+
+    return {
+      messageId,
+      replies: this.simulatorProvider.getMessages(lastMessageId),
+    };
+  }
+
+  /**
+   * Historial de lo que envió el bot (ej: notificaciones). GET /simulator/messages?to=54...
+   */
+  @Get('messages')
+  getMessages(@Query('to') to: string | undefined) {
+    const messages = this.simulatorProvider.getMessages();
+
+    return to ? messages.filter((message) => message.to === to) : messages;
+  }
+
+  @Delete('messages')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  clear(): void {
+    this.simulatorProvider.clear();
+  }
+}
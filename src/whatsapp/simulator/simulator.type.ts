@@ -0,0 +1,25 @@
+/**
+ * Mensaje entrante simulado (lo que "escribe" el alumno o el admin).
+ */
+export type SimulatedInboundMessage = {
+  from: string;
+  name?: string;
+  text?: string;
+  // Toque de un botón / fila de lista (llega como `interactive`)
+  replyId?: string;
+  // Nota de voz: el texto lo decide el adaptador de transcripción (usar TRANSCRIPTION_PROVIDER=stub)
+  voice?: boolean;
+};
+
+/**
+ * Mensaje que el bot "envió" y quedó capturado en memoria.
+ */
+export type SimulatedOutboundMessage = {
+  id: string;
+  to: string;
+  type: string;
+  // Representación legible para la consola (texto, botones, lista, etc.)
+  text: string;
+  payload: Record<string, unknown>;
+  createdAt: Date;
+};
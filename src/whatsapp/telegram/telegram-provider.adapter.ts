@@ -0,0 +1,284 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { isAxiosError } from 'axios';
+import { lastValueFrom } from 'rxjs';
+import { WhatsappMedia } from '../types/whatsapp-media.type';
+import {
+  WhatsappListMessage,
+  WhatsappOutboundMedia,
+  WhatsappReplyButton,
+  WhatsappSendOptions,
+} from '../types/whatsapp-outbound.type';
+
+type TelegramResponse<T> = {
+  ok: boolean;
+  result: T;
+  description?: string;
+};
+
+type TelegramSentMessage = {
+  message_id: number;
+};
+
+type TelegramInlineKeyboard = Array<
+  Array<{ text: string; callback_data: string }>
+>;
+
+// Método de la Bot API para cada tipo de media (y el campo donde va el archivo)
+const MEDIA_METHODS: Record<
+  WhatsappOutboundMedia['type'],
+  { method: string; field: string }
+> = {
+  image: { method: 'sendPhoto', field: 'photo' },
+  document: { method: 'sendDocument', field: 'document' },
+  audio: { method: 'sendAudio', field: 'audio' },
+  video: { method: 'sendVideo', field: 'video' },
+  sticker: { method: 'sendSticker', field: 'sticker' },
+};
+
+// Telegram solo acepta un set fijo de emojis como reacción (⏳ no está)
+const REACTION_FALLBACKS: Record<string, string> = {
+  '⏳': '👀',
+};
+
+/**
+ * Adaptador: Envía mensajes por la Bot API de Telegram usando HttpService (Axios).
+ *
+ * Los textos salen con el Markdown "legacy" de Telegram, que entiende
+ * `*negrita*` y `_cursiva_` igual que WhatsApp.
+ */
+@Injectable()
+export class TelegramProviderAdapter {
+  private readonly logger = new Logger(TelegramProviderAdapter.name);
+  private readonly apiUrl = 'https://api.telegram.org';
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService,
+  ) {}
+
+  async sendText(
+    chatId: string,
+    text: string,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    return this.sendMessage(chatId, text, options);
+  }
+
+  async sendButtons(
+    chatId: string,
+    body: string,
+    buttons: WhatsappReplyButton[],
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    return this.sendMessage(
+      chatId,
+      body,
+      options,
+      buttons.map((button) => [
+        { text: button.title, callback_data: button.id },
+      ]),
+    );
+  }
+
+  /**
+   * Telegram no tiene mensajes de lista: cada fila es un botón inline.
+   */
+  async sendList(
+    chatId: string,
+    list: WhatsappListMessage,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    const text = [list.header && `*${list.header}*`, list.body, list.footer]
+      .filter(Boolean)
+      .join('\n\n');
+
+    return this.sendMessage(
+      chatId,
+      text,
+      options,
+      list.sections.flatMap((section) =>
+        section.rows.map((row) => [{ text: row.title, callback_data: row.id }]),
+      ),
+    );
+  }
+
+  async sendMedia(
+    chatId: string,
+    media: WhatsappOutboundMedia,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    const { method, field } = MEDIA_METHODS[media.type];
+    const result = await this.call<TelegramSentMessage>(method, {
+      chat_id: chatId,
+      [field]: media.link ?? media.id,
+      ...(media.caption && { caption: media.caption }),
+      ...this.replyParameters(options),
+    });
+
+    return result ? String(result.message_id) : null;
+  }
+
+  /**
+   * Muestra "escribiendo..." (dura 5s o hasta que enviemos algo).
+   */
+  async sendTyping(chatId: string): Promise<void> {
+    await this.call('sendChatAction', { chat_id: chatId, action: 'typing' });
+  }
+
+  /**
+   * Apaga el "relojito" del botón tocado. Telegram lo exige en cada callback.
+   */
+  async answerCallbackQuery(callbackQueryId: string): Promise<void> {
+    await this.call('answerCallbackQuery', {
+      callback_query_id: callbackQueryId,
+    });
+  }
+
+  async setReaction(
+    chatId: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<void> {
+    await this.call('setMessageReaction', {
+      chat_id: chatId,
+      message_id: Number(messageId),
+      reaction: emoji
+        ? [{ type: 'emoji', emoji: REACTION_FALLBACKS[emoji] ?? emoji }]
+        : [],
+    });
+  }
+
+  /**
+   * Igual que en Meta, la descarga es en dos pasos: `getFile` devuelve
+   * la ruta y después se baja el binario.
+   */
+  async downloadFile(fileId: string): Promise<WhatsappMedia | undefined> {
+    const file = await this.call<{ file_path?: string }>('getFile', {
+      file_id: fileId,
+    });
+
+    if (!file?.file_path) {
+      return undefined;
+    }
+
+    try {
+      const response = await lastValueFrom(
+        this.httpService.get<ArrayBuffer>(
+          `${this.apiUrl}/file/bot${this.getToken()}/${file.file_path}`,
+          { responseType: 'arraybuffer' },
+        ),
+      );
+
+      return {
+        data: Buffer.from(response.data),
+        // Las notas de voz de Telegram son siempre OGG/Opus
+        mimeType: file.file_path.endsWith('.oga')
+          ? 'audio/ogg'
+          : String(response.headers['content-type'] ?? 'audio/ogg'),
+      };
+    } catch (error: unknown) {
+      this.logger.error(
+        `❌ Error descargando archivo ${fileId}: ${this.extractErrorMessage(error)}`,
+      );
+      return undefined;
+    }
+  }
+
+  private async sendMessage(
+    chatId: string,
+    text: string,
+    options?: WhatsappSendOptions,
+    keyboard?: TelegramInlineKeyboard,
+  ): Promise<string | null> {
+    const body = {
+      chat_id: chatId,
+      text,
+      ...this.replyParameters(options),
+      ...(keyboard && { reply_markup: { inline_keyboard: keyboard } }),
+    };
+
+    // Why: Un `*` o `_` suelto (ej: en una respuesta del LLM) hace que Telegram
+    // rechace el Markdown; en ese caso reenviamos como texto plano.
+    const result =
+      (await this.call<TelegramSentMessage>(
+        'sendMessage',
+        { ...body, parse_mode: 'Markdown' },
+        { quiet: true },
+      )) ?? (await this.call<TelegramSentMessage>('sendMessage', body));
+
+    if (result) {
+      this.logger.log(`✅ Mensaje de Telegram enviado a ${chatId}`);
+    }
+
+    return result ? String(result.message_id) : null;
+  }
+
+  private replyParameters(options?: WhatsappSendOptions) {
+    return options?.replyTo && /^\d+$/.test(options.replyTo)
+      ? {
+          reply_parameters: {
+            message_id: Number(options.replyTo),
+            allow_sending_without_reply: true,
+          },
+        }
+      : {};
+  }
+
+  /**
+   * @returns El `result` de la Bot API, o `undefined` si falló (ya logueado).
+   */
+  private async call<T = unknown>(
+    method: string,
+    body: Record<string, unknown>,
+    { quiet = false }: { quiet?: boolean } = {},
+  ): Promise<T | undefined> {
+    try {
+      const response = await lastValueFrom(
+        this.httpService.post<TelegramResponse<T>>(
+          `${this.apiUrl}/bot${this.getToken()}/${method}`,
+          body,
+        ),
+      );
+
+      return response.data.ok ? response.data.result : undefined;
+    } catch (error: unknown) {
+      const errorMessage = this.extractErrorMessage(error);
+
+      if (quiet) {
+        this.logger.debug(`Telegram ${method} rechazado: ${errorMessage}`);
+      } else {
+        this.logger.error(`❌ Error en Telegram ${method}: ${errorMessage}`);
+      }
+      return undefined;
+    }
+  }
+
+  private getToken(): string {
+    return this.configService.get<string>('TELEGRAM_BOT_TOKEN') ?? '';
+  }
+
+  /**
+   * Why: La Bot API explica el error en `description`; el mensaje de Axios
+   * ("Request failed with status code 400") no dice nada útil.
+   */
+  private extractErrorMessage(error: unknown): string {
+    if (isAxiosError(error)) {
+      const data: unknown = error.response?.data;
+
+      if (
+        typeof data === 'object' &&
+        data !== null &&
+        'description' in data &&
+        typeof data.description === 'string'
+      ) {
+        return data.description;
+      }
+
+      return error.message;
+    }
+
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import type { Request } from 'express';
+
+/**
+ * Valida que el webhook venga de Telegram: al registrar el webhook con
+ * `secret_token`, Telegram lo reenvía en el header `X-Telegram-Bot-Api-Secret-Token`.
+ */
+@Injectable()
+export class TelegramSecretGuard implements CanActivate {
+  private readonly logger = new Logger(TelegramSecretGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const secret = this.configService.get<string>('TELEGRAM_WEBHOOK_SECRET');
+    const received = request.headers['x-telegram-bot-api-secret-token'];
+
+    // A diferencia del webhook de Meta, sin secreto no aceptamos nada:
+    // cualquiera podría hacerse pasar por un alumno de Telegram.
+    if (!secret) {
+      this.logger.warn(
+        'TELEGRAM_WEBHOOK_SECRET no está configurado. Webhook de Telegram deshabilitado.',
+      );
+      throw new UnauthorizedException('Webhook de Telegram deshabilitado');
+    }
+
+    if (typeof received !== 'string' || !this.safeEqual(received, secret)) {
+      throw new UnauthorizedException('Secret token inválido');
+    }
+
+    return true;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+
+    return (
+      bufferA.length === bufferB.length &&
+      crypto.timingSafeEqual(bufferA, bufferB)
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { WhatsappService } from '../whatsapp.service';
+import { TelegramSecretGuard } from './telegram-secret.guard';
+
+@Controller('telegram')
+export class TelegramController {
+  constructor(private readonly whatsappService: WhatsappService) {}
+
+  /**
+   * Webhook del bot de Telegram (registrar con `setWebhook` + `secret_token`).
+   * Igual que con Meta: se persiste en la cola y se responde 200 enseguida;
+   * si el INSERT falla respondemos 500 y Telegram reintenta.
+   */
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(TelegramSecretGuard)
+  async handleUpdate(@Body() body: unknown): Promise<void> {
+    await this.whatsappService.enqueueTelegramUpdate(body);
+  }
+}
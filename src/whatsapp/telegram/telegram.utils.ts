@@ -0,0 +1,172 @@
+import { Channel } from '../../student/enums/channel.enum';
+import type { ConversationInput } from '../types/conversation-input.type';
+import type { InboundMessage } from '../types/inbound-message.type';
+
+// Prefijo de los ids de callback_query (botones), para distinguirlos de mensajes
+export const TELEGRAM_CALLBACK_PREFIX = 'cb:';
+
+// Comandos de Telegram que equivalen a texto del flujo
+const COMMAND_ALIASES: Record<string, string> = {
+  '/start': 'hola',
+  '/reset': 'reset',
+  '/menu': 'menu',
+  '/quiz': 'quiz',
+  '/simulacro': 'simulacro',
+  '/repasar': 'repasar',
+  '/progreso': 'mi progreso',
+  '/diaria': 'pregunta diaria',
+  '/turno': 'turno',
+  '/misturnos': 'mis turnos',
+};
+// "/quiz señales" → "quiz señales" (el resto de los comandos ignora lo que sigue)
+const COMMANDS_WITH_ARGS = new Set(['/quiz', '/diaria']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Traduce un `Update` del webhook de Telegram al mensaje entrante del dominio.
+ *
+ * Why: Solo atendemos chats privados (en un grupo se mezclarían alumnos).
+ * El payload es JSON no confiable: se valida cada nivel en vez de usar `any`.
+ */
+export function extractTelegramMessages(update: unknown): InboundMessage[] {
+  if (!isRecord(update)) {
+    return [];
+  }
+
+  if (isRecord(update.callback_query)) {
+    const callback = parseCallbackQuery(update.callback_query);
+
+    return callback ? [callback] : [];
+  }
+
+  const message = isRecord(update.message)
+    ? parseMessage(update.message)
+    : null;
+
+  return message ? [message] : [];
+}
+
+function parseMessage(raw: Record<string, unknown>): InboundMessage | null {
+  const chat = raw.chat;
+
+  if (
+    !isRecord(chat) ||
+    chat.type !== 'private' ||
+    typeof chat.id !== 'number' ||
+    typeof raw.message_id !== 'number'
+  ) {
+    return null;
+  }
+
+  const messageId = String(raw.message_id);
+  const base = {
+    channel: Channel.TELEGRAM,
+    externalId: String(chat.id),
+    messageId,
+    contactName: extractName(raw.from),
+    timestamp:
+      typeof raw.date === 'number' ? new Date(raw.date * 1000) : undefined,
+  };
+
+  if (isRecord(raw.voice) && typeof raw.voice.file_id === 'string') {
+    return { ...base, input: null, voiceMediaId: raw.voice.file_id };
+  }
+
+  return { ...base, input: parseInput(raw, messageId) };
+}
+
+function parseInput(
+  raw: Record<string, unknown>,
+  messageId: string,
+): ConversationInput | null {
+  if (typeof raw.text === 'string') {
+    const text = raw.text.trim();
+    // "/start@MiBot" también es /start
+    const command = text.split(/[\s@]/)[0].toLowerCase();
+    const alias = COMMAND_ALIASES[command];
+    const args = text.split(/\s+/).slice(1).join(' ');
+
+    return {
+      kind: 'text',
+      text:
+        alias && args && COMMANDS_WITH_ARGS.has(command)
+          ? `${alias} ${args}`
+          : (alias ?? text),
+      messageId,
+    };
+  }
+
+  const location = raw.location;
+
+  if (
+    isRecord(location) &&
+    typeof location.latitude === 'number' &&
+    typeof location.longitude === 'number'
+  ) {
+    return {
+      kind: 'location',
+      text: '',
+      messageId,
+      location: { latitude: location.latitude, longitude: location.longitude },
+    };
+  }
+
+  if (raw.photo !== undefined || raw.document !== undefined) {
+    return {
+      kind: 'media',
+      text: typeof raw.caption === 'string' ? raw.caption.trim() : '',
+      messageId,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Un toque en un botón inline llega como `callback_query`.
+ */
+function parseCallbackQuery(
+  raw: Record<string, unknown>,
+): InboundMessage | null {
+  const message = raw.message;
+  const chat = isRecord(message) ? message.chat : undefined;
+
+  if (
+    typeof raw.id !== 'string' ||
+    typeof raw.data !== 'string' ||
+    !isRecord(chat) ||
+    chat.type !== 'private' ||
+    typeof chat.id !== 'number'
+  ) {
+    return null;
+  }
+
+  const messageId = `${TELEGRAM_CALLBACK_PREFIX}${raw.id}`;
+
+  return {
+    channel: Channel.TELEGRAM,
+    externalId: String(chat.id),
+    messageId,
+    contactName: extractName(raw.from),
+    input: {
+      kind: 'interactive',
+      // Telegram no manda el título del botón; el id es lo que importa
+      text: raw.data,
+      replyId: raw.data,
+      messageId,
+    },
+  };
+}
+
+function extractName(from: unknown): string | undefined {
+  if (!isRecord(from) || typeof from.first_name !== 'string') {
+    return undefined;
+  }
+
+  return typeof from.last_name === 'string'
+    ? `${from.first_name} ${from.last_name}`
+    : from.first_name;
+}
@@ -0,0 +1,16 @@
+/**
+ * Entrada normalizada que recibe cada paso de la conversación,
+ * sin importar si el alumno escribió, habló o tocó un botón.
+ */
+export type ConversationInput = {
+  kind: 'text' | 'voice' | 'interactive' | 'button' | 'location' | 'media';
+  // Texto visible: cuerpo, transcripción, título del botón o caption
+  text: string;
+  // ID del botón / fila de lista tocada (o payload del quick reply)
+  replyId?: string;
+  messageId: string;
+  location?: {
+    latitude: number;
+    longitude: number;
+  };
+};
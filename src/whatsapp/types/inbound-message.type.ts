@@ -0,0 +1,29 @@
+import { Channel } from '../../student/enums/channel.enum';
+import { ConversationInput } from './conversation-input.type';
+
+/**
+ * Destinatario en un canal: teléfono en WhatsApp, chat id en Telegram,
+ * id de sesión en la web.
+ * `StudentData` cumple esta forma, así que se puede pasar el alumno directo.
+ */
+export type ChannelAddress = {
+  channel: Channel;
+  externalId: string;
+};
+
+/**
+ * Mensaje entrante independiente del canal. Cada canal traduce su payload
+ * a esta forma y el resto del pipeline (admin, gatekeeper, pasos) no sabe de dónde vino.
+ */
+export type InboundMessage = ChannelAddress & {
+  // ID único del mensaje en el canal (se usa para idempotencia y acuses)
+  messageId: string;
+  contactName?: string;
+  timestamp?: Date;
+  // `null` si el tipo de mensaje no se soporta (ej: stickers, reacciones)
+  input: ConversationInput | null;
+  // Nota de voz: se transcribe recién después del gatekeeper
+  voiceMediaId?: string;
+  // Alumno ya identificado por el canal (sesión web); si no, se busca por `externalId`
+  studentId?: string;
+};
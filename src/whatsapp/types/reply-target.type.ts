@@ -0,0 +1,27 @@
+import type { ChannelAddress } from './inbound-message.type';
+import type { WhatsappSendOptions } from './whatsapp-outbound.type';
+
+/**
+ * De qué mensaje del alumno es respuesta un envío: con esto queda en el
+ * historial de mensajes (alumno, conversación y latencia).
+ */
+export type MessageTrace = {
+  studentId: string;
+  // `null` mientras no haya conversación (ej: el gatekeeper lo frenó)
+  conversationId: string | null;
+  // Cuándo empezamos a procesar el mensaje del alumno
+  receivedAt: Date;
+};
+
+/**
+ * Destinatario de una respuesta. Sin `trace` (ej: comandos de admin) el
+ * envío no se registra en el historial.
+ */
+export type ReplyTarget = ChannelAddress & {
+  trace?: MessageTrace;
+};
+
+export type ReplyOptions = WhatsappSendOptions & {
+  // Modelo de chat que generó el texto (respuestas del RAG)
+  model?: string | null;
+};
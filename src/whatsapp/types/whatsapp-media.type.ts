@@ -0,0 +1,7 @@
+/**
+ * Archivo descargado desde el endpoint de media de la Graph API.
+ */
+export type WhatsappMedia = {
+  data: Buffer;
+  mimeType: string;
+};
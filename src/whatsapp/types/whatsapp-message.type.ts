@@ -1,7 +1,92 @@
-export type WhatsappMessage = {
+/**
+ * Mensaje entrante de WhatsApp, modelado como unión discriminada por `type`.
+ * Ver: https://developers.facebook.com/docs/whatsapp/cloud-api/webhooks/components
+ */
+type WhatsappMessageBase = {
+  id: string;
   from: string;
-  type: string;
-  text?: {
-    body?: string;
+  // Presente cuando el alumno responde (cita) a un mensaje nuestro
+  context?: {
+    messageId: string;
   };
 };
+
+export type WhatsappTextMessage = WhatsappMessageBase & {
+  type: 'text';
+  text: {
+    body: string;
+  };
+};
+
+/** Respuesta a reply buttons o a un list message */
+export type WhatsappInteractiveMessage = WhatsappMessageBase & {
+  type: 'interactive';
+  interactive: {
+    type: 'button_reply' | 'list_reply';
+    id: string;
+    title: string;
+    description?: string;
+  };
+};
+
+/** Quick reply de un template */
+export type WhatsappButtonMessage = WhatsappMessageBase & {
+  type: 'button';
+  button: {
+    payload: string;
+    text: string;
+  };
+};
+
+export type WhatsappLocationMessage = WhatsappMessageBase & {
+  type: 'location';
+  location: {
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
+  };
+};
+
+export type WhatsappMediaKind =
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'document'
+  | 'sticker';
+
+export type WhatsappMediaMessage = WhatsappMessageBase & {
+  type: WhatsappMediaKind;
+  media: {
+    id: string;
+    mimeType?: string;
+    caption?: string;
+    filename?: string;
+    // true si es una nota de voz grabada en el momento
+    voice?: boolean;
+  };
+};
+
+export type WhatsappReactionMessage = WhatsappMessageBase & {
+  type: 'reaction';
+  reaction: {
+    messageId: string;
+    // Vacío cuando el alumno quita la reacción
+    emoji?: string;
+  };
+};
+
+/** Cualquier tipo que todavía no modelamos (contacts, order, system, ...) */
+export type WhatsappUnsupportedMessage = WhatsappMessageBase & {
+  type: 'unsupported';
+  rawType: string;
+};
+
+export type WhatsappMessage =
+  | WhatsappTextMessage
+  | WhatsappInteractiveMessage
+  | WhatsappButtonMessage
+  | WhatsappLocationMessage
+  | WhatsappMediaMessage
+  | WhatsappReactionMessage
+  | WhatsappUnsupportedMessage;
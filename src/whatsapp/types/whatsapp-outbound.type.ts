@@ -0,0 +1,79 @@
+/**
+ * Opciones comunes a cualquier envío.
+ */
+export type WhatsappSendOptions = {
+  // wamid del mensaje a citar (se muestra como respuesta en el chat)
+  replyTo?: string;
+};
+
+export type WhatsappReadOptions = {
+  showTyping?: boolean;
+};
+
+/**
+ * Botón de respuesta rápida. WhatsApp admite hasta 3 por mensaje
+ * y el título no puede superar los 20 caracteres.
+ */
+export type WhatsappReplyButton = {
+  id: string;
+  title: string;
+};
+
+/**
+ * Fila de un mensaje de lista (máx. 10 filas entre todas las secciones).
+ */
+export type WhatsappListRow = {
+  id: string;
+  title: string;
+  description?: string;
+};
+
+export type WhatsappListSection = {
+  title?: string;
+  rows: WhatsappListRow[];
+};
+
+export type WhatsappListMessage = {
+  body: string;
+  // Texto del botón que despliega la lista
+  buttonText: string;
+  sections: WhatsappListSection[];
+  header?: string;
+  footer?: string;
+};
+
+/**
+ * Imagen o documento a enviar: por URL pública o por un media id ya subido.
+ */
+export type WhatsappOutboundMedia = {
+  type: 'image' | 'document' | 'audio' | 'video' | 'sticker';
+  caption?: string;
+  // Solo aplica a documentos
+  filename?: string;
+} & ({ link: string; id?: never } | { id: string; link?: never });
+
+/**
+ * Parámetro de un componente de template (solo usamos texto por ahora).
+ */
+export type WhatsappTemplateParameter = {
+  type: 'text';
+  text: string;
+};
+
+export type WhatsappTemplateComponent = {
+  type: 'header' | 'body' | 'button';
+  parameters: WhatsappTemplateParameter[];
+  // Requeridos para los componentes de tipo `button`
+  subType?: 'quick_reply' | 'url';
+  index?: number;
+};
+
+/**
+ * Template aprobado en Meta. Es la única forma de escribirle
+ * a un alumno fuera de la ventana de 24 horas.
+ */
+export type WhatsappTemplate = {
+  name: string;
+  languageCode: string;
+  components?: WhatsappTemplateComponent[];
+};
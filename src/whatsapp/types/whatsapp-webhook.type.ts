@@ -0,0 +1,29 @@
+import { WhatsappMessage } from './whatsapp-message.type';
+
+/**
+ * Mensaje entrante ya extraído del webhook, con los datos del `value`
+ * que lo contiene (contacto, número receptor y fecha de envío).
+ */
+export type WhatsappInboundMessage = {
+  message: WhatsappMessage;
+  contactName?: string;
+  phoneNumberId?: string;
+  timestamp?: Date;
+};
+
+export type WhatsappDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+/**
+ * Evento `statuses[]` del webhook: estado de entrega de un mensaje que enviamos.
+ */
+export type WhatsappStatusUpdate = {
+  messageId: string;
+  status: WhatsappDeliveryStatus;
+  recipientId: string;
+  timestamp?: Date;
+  errors: Array<{
+    code: number;
+    title?: string;
+    details?: string;
+  }>;
+};
@@ -0,0 +1,36 @@
+import {
+  argentinaDate,
+  argentinaDateTime,
+  argentinaTime,
+  parseLocalTime,
+} from './argentina-time';
+
+describe('argentina-time', () => {
+  it('should use the Buenos Aires date and time, not the server one', () => {
+    // 01:30 UTC del 2 de marzo = 22:30 del 1 de marzo en Argentina
+    const at = new Date('2026-03-02T01:30:00Z');
+
+    expect(argentinaDate(at)).toBe('2026-03-01');
+    expect(argentinaTime(at)).toBe('22:30');
+  });
+
+  it('should read the usual ways of writing a time', () => {
+    expect(parseLocalTime('19')).toBe('19:00');
+    expect(parseLocalTime('8:30')).toBe('08:30');
+    expect(parseLocalTime('19.30')).toBe('19:30');
+    expect(parseLocalTime('21hs')).toBe('21:00');
+    expect(parseLocalTime('0:05')).toBe('00:05');
+  });
+
+  it('should reject invalid times', () => {
+    expect(parseLocalTime('25:00')).toBeNull();
+    expect(parseLocalTime('19:75')).toBeNull();
+    expect(parseLocalTime('mañana')).toBeNull();
+  });
+
+  it('should build the instant of an Argentina date and time', () => {
+    expect(argentinaDateTime('2026-03-01', '22:30').toISOString()).toBe(
+      '2026-03-02T01:30:00.000Z',
+    );
+  });
+});
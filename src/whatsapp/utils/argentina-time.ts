@@ -0,0 +1,59 @@
+/**
+ * Fecha y hora local de los alumnos (la academia está en Villa Gesell).
+ *
+ * Why: El servidor corre en UTC. "Hoy" y "a las 19:00" se cuentan en hora
+ * argentina, si no la pregunta diaria llega 3 horas corrida.
+ */
+export const ARGENTINA_TIMEZONE = 'America/Argentina/Buenos_Aires';
+
+/**
+ * `YYYY-MM-DD` en hora argentina.
+ */
+export function argentinaDate(at: Date = new Date()): string {
+  return at.toLocaleDateString('en-CA', { timeZone: ARGENTINA_TIMEZONE });
+}
+
+/**
+ * `HH:MM` (24 h) en hora argentina.
+ */
+export function argentinaTime(at: Date = new Date()): string {
+  return at
+    .toLocaleTimeString('en-GB', {
+      timeZone: ARGENTINA_TIMEZONE,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+    .slice(0, 5);
+}
+
+/**
+ * Interpreta una hora escrita por el alumno: "19", "8:30", "19.30", "21hs".
+ * @returns `HH:MM` o `null` si no es una hora válida.
+ */
+export function parseLocalTime(text: string): string | null {
+  const match = /^(\d{1,2})(?:[:.](\d{2}))?\s*(?:h|hs|horas)?$/i.exec(
+    text.trim(),
+  );
+
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? '0');
+
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Instante de un día y hora argentinos (`YYYY-MM-DD`, `HH:MM`).
+ * Argentina no tiene horario de verano desde 2009: el offset es fijo.
+ */
+export function argentinaDateTime(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00-03:00`);
+}
@@ -0,0 +1,105 @@
+import {
+  formatWhatsappText,
+  prepareWhatsappText,
+  splitWhatsappText,
+} from './whatsapp-formatter';
+
+describe('formatWhatsappText', () => {
+  it('should convert Markdown emphasis, headings, lists and links', () => {
+    const markdown = [
+      '## Documentación **obligatoria**',
+      '',
+      'Tenés que llevar **siempre** la ~~cédula verde~~ cédula digital.',
+      '',
+      '- DNI',
+      '* Licencia',
+      '',
+      '---',
+      'Más info en [la web de la ANSV](https://www.argentina.gob.ar/seguridadvial).',
+    ].join('\n');
+
+    expect(formatWhatsappText(markdown)).toBe(
+      [
+        '*Documentación obligatoria*',
+        '',
+        'Tenés que llevar *siempre* la ~cédula verde~ cédula digital.',
+        '',
+        '• DNI',
+        '• Licencia',
+        '',
+        'Más info en la web de la ANSV (https://www.argentina.gob.ar/seguridadvial).',
+      ].join('\n'),
+    );
+  });
+
+  it('should flatten tables and keep WhatsApp bold and code blocks untouched', () => {
+    const markdown = [
+      '*Velocidades máximas:*',
+      '',
+      '| Zona | Máxima |',
+      '| --- | :---: |',
+      '| Urbana | 40 km/h |',
+      '',
+      '```',
+      '**sin tocar**',
+      '```',
+    ].join('\n');
+
+    expect(formatWhatsappText(markdown)).toBe(
+      [
+        '*Velocidades máximas:*',
+        '',
+        'Zona — Máxima',
+        'Urbana — 40 km/h',
+        '',
+        '```',
+        '**sin tocar**',
+        '```',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('splitWhatsappText', () => {
+  it('should return short texts as a single chunk', () => {
+    expect(splitWhatsappText('Hola')).toEqual(['Hola']);
+    expect(splitWhatsappText('   ')).toEqual([]);
+  });
+
+  it('should split at paragraph boundaries keeping the order', () => {
+    const paragraphs = ['a'.repeat(30), 'b'.repeat(30), 'c'.repeat(30)];
+
+    expect(splitWhatsappText(paragraphs.join('\n\n'), 70)).toEqual([
+      `${paragraphs[0]}\n\n${paragraphs[1]}`,
+      paragraphs[2],
+    ]);
+  });
+
+  it('should fall back to sentences, words and hard cuts for long paragraphs', () => {
+    const chunks = splitWhatsappText(
+      'Primera oración larga. Segunda oración larga. ' + 'x'.repeat(45),
+      20,
+    );
+
+    expect(chunks.every((chunk) => chunk.length <= 20)).toBe(true);
+    expect(chunks.slice(0, 4)).toEqual([
+      'Primera oración',
+      'larga.',
+      'Segunda oración',
+      'larga.',
+    ]);
+    expect(chunks.slice(4).join('')).toBe('x'.repeat(45));
+  });
+});
+
+describe('prepareWhatsappText', () => {
+  it('should format before splitting so every chunk fits the limit', () => {
+    const answer = `# Señales\n\n${'**Pare** obliga a detenerse. '.repeat(300)}`;
+    const chunks = prepareWhatsappText(answer);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].startsWith('*Señales*')).toBe(true);
+    expect(chunks.every((chunk) => chunk.length <= 4096)).toBe(true);
+    expect(chunks.join(' ')).not.toContain('**');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Límite de caracteres de un mensaje de texto de WhatsApp.
+ */
+export const WHATSAPP_MAX_TEXT_LENGTH = 4096;
+
+const CODE_FENCE = '```';
+
+// Separadores preferidos para cortar, de mayor a menor "naturalidad"
+const SPLIT_SEPARATORS = ['\n\n', '\n', '. ', ' '];
+
+/**
+ * Deja el texto listo para enviar: convierte Markdown a la sintaxis de WhatsApp
+ * y lo parte en mensajes que respetan el límite de caracteres.
+ */
+export function prepareWhatsappText(
+  text: string,
+  maxLength = WHATSAPP_MAX_TEXT_LENGTH,
+): string[] {
+  return splitWhatsappText(formatWhatsappText(text), maxLength);
+}
+
+/**
+ * Convierte Markdown (lo que suelen devolver los modelos) a la sintaxis de WhatsApp.
+ *
+ * Why: WhatsApp muestra `**`, `#` y las tablas como símbolos literales.
+ * Un `*texto*` simple se deja como está: ya es negrita de WhatsApp
+ * (así están escritos nuestros propios mensajes).
+ * Los bloques de código (```) no se tocan.
+ */
+export function formatWhatsappText(text: string): string {
+  const segments = text.replace(/\r\n/g, '\n').split(CODE_FENCE);
+
+  const formatted = segments
+    // Los segmentos impares quedan dentro de un bloque de código
+    .map((segment, index) =>
+      index % 2 === 1 ? segment : formatMarkdownSegment(segment),
+    )
+    .join(CODE_FENCE);
+
+  return formatted.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Parte el texto en mensajes de hasta `maxLength` caracteres, en orden.
+ * Corta preferentemente entre párrafos, después entre líneas, oraciones
+ * y palabras; solo corta una palabra si no queda otra opción.
+ */
+export function splitWhatsappText(
+  text: string,
+  maxLength = WHATSAPP_MAX_TEXT_LENGTH,
+): string[] {
+  const trimmed = text.trim();
+
+  if (!trimmed) {
+    return [];
+  }
+
+  return splitRecursive(trimmed, maxLength, 0)
+    .map((chunk) => chunk.trim())
+    .filter((chunk) => chunk.length > 0);
+}
+
+function splitRecursive(
+  text: string,
+  maxLength: number,
+  separatorIndex: number,
+): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  if (separatorIndex >= SPLIT_SEPARATORS.length) {
+    const hardChunks: string[] = [];
+
+    for (let i = 0; i < text.length; i += maxLength) {
+      hardChunks.push(text.slice(i, i + maxLength));
+    }
+
+    return hardChunks;
+  }
+
+  const separator = SPLIT_SEPARATORS[separatorIndex];
+  const pieces = text.split(separator);
+  const chunks: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < pieces.length; i++) {
+    // El separador de oración conserva su punto en el fragmento anterior
+    const piece =
+      i < pieces.length - 1 && separator === '. ' ? `${pieces[i]}.` : pieces[i];
+    const glue = separator === '. ' ? ' ' : separator;
+    const candidate = current ? `${current}${glue}${piece}` : piece;
+
+    if (candidate.length <= maxLength) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    if (piece.length <= maxLength) {
+      current = piece;
+    } else {
+      // El fragmento solo no entra: lo partimos con el separador siguiente
+      chunks.push(...splitRecursive(piece, maxLength, separatorIndex + 1));
+      current = '';
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+function formatMarkdownSegment(segment: string): string {
+  const lines = segment.split('\n').flatMap((line) => formatLine(line));
+
+  return lines
+    .join('\n')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/__(.+?)__/g, '*$1*')
+    .replace(/~~(.+?)~~/g, '~$1~')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '$1 ($2)');
+}
+
+/**
+ * Convierte una línea. Devuelve un array vacío para las líneas que se descartan
+ * (separadores de tablas y reglas horizontales).
+ */
+function formatLine(line: string): string[] {
+  const heading = line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+
+  if (heading) {
+    return [`*${stripBold(heading[1])}*`];
+  }
+
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+    return [];
+  }
+
+  if (/^\s*\|.*\|\s*$/.test(line)) {
+    return formatTableRow(line);
+  }
+
+  const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+
+  if (bullet) {
+    return [`${bullet[1]}• ${bullet[2]}`];
+  }
+
+  return [line];
+}
+
+function formatTableRow(line: string): string[] {
+  const cells = line
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split('|')
+    .map((cell) => cell.trim());
+
+  // Fila separadora: | --- | :---: |
+  if (cells.every((cell) => /^:?-{2,}:?$/.test(cell))) {
+    return [];
+  }
+
+  return [cells.filter((cell) => cell.length > 0).join(' — ')];
+}
+
+function stripBold(text: string): string {
+  return text.replace(/\*\*(.+?)\*\*/g, '$1').replace(/__(.+?)__/g, '$1');
+}
@@ -0,0 +1,295 @@
+import {
+  extractWhatsappMessages,
+  extractWhatsappStatuses,
+  toConversationInput,
+} from './whatsapp.utils';
+
+describe('extractWhatsappMessages', () => {
+  const buildValue = (
+    messages: unknown[],
+    contacts: unknown[] = [],
+    phoneNumberId = '111',
+  ) => ({
+    metadata: { phone_number_id: phoneNumberId },
+    contacts,
+    messages,
+  });
+
+  it('should return every message of every entry and change', () => {
+    const payload = {
+      entry: [
+        {
+          changes: [
+            {
+              value: buildValue(
+                [
+                  {
+                    id: 'wamid.1',
+                    from: '5491111',
+                    type: 'text',
+                    timestamp: '1700000000',
+                    text: { body: 'Hola' },
+                  },
+                  {
+                    id: 'wamid.2',
+                    from: '5491111',
+                    type: 'text',
+                    timestamp: '1700000001',
+                    text: { body: '¿Qué es la VTV?' },
+                  },
+                ],
+                [{ wa_id: '5491111', profile: { name: 'Ana' } }],
+              ),
+            },
+          ],
+        },
+        {
+          changes: [
+            {
+              value: buildValue(
+                [
+                  {
+                    id: 'wamid.3',
+                    from: '5492222',
+                    type: 'text',
+                    timestamp: '1700000002',
+                    text: { body: 'Buenas' },
+                  },
+                ],
+                [{ wa_id: '5492222', profile: { name: 'Beto' } }],
+                '222',
+              ),
+            },
+          ],
+        },
+      ],
+    };
+
+    const result = extractWhatsappMessages(payload);
+
+    expect(
+      result.map((m) =>
+        m.message.type === 'text' ? m.message.text.body : null,
+      ),
+    ).toEqual(['Hola', '¿Qué es la VTV?', 'Buenas']);
+    expect(result.map((m) => m.contactName)).toEqual(['Ana', 'Ana', 'Beto']);
+    expect(result.map((m) => m.phoneNumberId)).toEqual(['111', '111', '222']);
+    expect(result[0].timestamp).toEqual(new Date(1700000000 * 1000));
+  });
+
+  it('should sort messages of a batch by timestamp', () => {
+    const payload = {
+      entry: [
+        {
+          changes: [
+            {
+              value: buildValue([
+                {
+                  id: 'wamid.4',
+                  from: '1',
+                  type: 'text',
+                  timestamp: '20',
+                  text: { body: 'b' },
+                },
+                {
+                  id: 'wamid.5',
+                  from: '1',
+                  type: 'text',
+                  timestamp: '10',
+                  text: { body: 'a' },
+                },
+              ]),
+            },
+          ],
+        },
+      ],
+    };
+
+    const result = extractWhatsappMessages(payload);
+
+    expect(
+      result.map((m) =>
+        m.message.type === 'text' ? m.message.text.body : null,
+      ),
+    ).toEqual(['a', 'b']);
+  });
+
+  it('should skip malformed messages and ignore payloads without messages', () => {
+    expect(extractWhatsappMessages(null)).toEqual([]);
+    expect(extractWhatsappMessages({ entry: 'nope' })).toEqual([]);
+    expect(
+      extractWhatsappMessages({
+        entry: [{ changes: [{ value: { statuses: [] } }] }],
+      }),
+    ).toEqual([]);
+
+    const result = extractWhatsappMessages({
+      entry: [
+        {
+          changes: [
+            {
+              value: buildValue([
+                { type: 'text' },
+                { from: '2', type: 'text', text: { body: 'sin id' } },
+                {
+                  id: 'wamid.6',
+                  from: '1',
+                  type: 'text',
+                  text: { body: 'ok' },
+                },
+              ]),
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].message.from).toBe('1');
+  });
+});
+
+describe('toConversationInput', () => {
+  const parse = (message: unknown) =>
+    extractWhatsappMessages({
+      entry: [{ changes: [{ value: { messages: [message] } }] }],
+    })[0].message;
+
+  it('should normalize button and list replies with their reply id', () => {
+    const buttonReply = parse({
+      id: 'wamid.7',
+      from: '1',
+      type: 'interactive',
+      interactive: {
+        type: 'button_reply',
+        button_reply: { id: 'reset', title: 'Empezar de nuevo' },
+      },
+    });
+    const listReply = parse({
+      id: 'wamid.8',
+      from: '1',
+      type: 'interactive',
+      interactive: {
+        type: 'list_reply',
+        list_reply: { id: 'topic-vtv', title: 'VTV', description: 'Rev.' },
+      },
+    });
+    const quickReply = parse({
+      id: 'wamid.9',
+      from: '1',
+      type: 'button',
+      button: { payload: 'confirm', text: 'Confirmo' },
+    });
+
+    expect(toConversationInput(buttonReply)).toEqual({
+      kind: 'interactive',
+      text: 'Empezar de nuevo',
+      replyId: 'reset',
+      messageId: 'wamid.7',
+    });
+    expect(toConversationInput(listReply)).toMatchObject({
+      text: 'VTV',
+      replyId: 'topic-vtv',
+    });
+    expect(toConversationInput(quickReply)).toEqual({
+      kind: 'button',
+      text: 'Confirmo',
+      replyId: 'confirm',
+      messageId: 'wamid.9',
+    });
+  });
+
+  it('should use captions for media and ignore reactions', () => {
+    const image = parse({
+      id: 'wamid.10',
+      from: '1',
+      type: 'image',
+      image: {
+        id: 'media-2',
+        mime_type: 'image/jpeg',
+        caption: ' ¿Qué indica? ',
+      },
+    });
+    const reaction = parse({
+      id: 'wamid.11',
+      from: '1',
+      type: 'reaction',
+      reaction: { message_id: 'wamid.out', emoji: '👍' },
+    });
+
+    expect(toConversationInput(image)).toEqual({
+      kind: 'media',
+      text: '¿Qué indica?',
+      messageId: 'wamid.10',
+    });
+    expect(reaction).toMatchObject({
+      type: 'reaction',
+      reaction: { messageId: 'wamid.out', emoji: '👍' },
+    });
+    expect(toConversationInput(reaction)).toBeNull();
+  });
+});
+
+describe('extractWhatsappStatuses', () => {
+  it('should return status updates with Meta error codes', () => {
+    const payload = {
+      entry: [
+        {
+          changes: [
+            {
+              value: {
+                statuses: [
+                  {
+                    id: 'wamid.out.2',
+                    status: 'failed',
+                    recipient_id: '5491111',
+                    timestamp: '1700000010',
+                    errors: [
+                      {
+                        code: 131047,
+                        title: 'Re-engagement message',
+                        error_data: { details: 'More than 24 hours' },
+                      },
+                    ],
+                  },
+                  {
+                    id: 'wamid.out.1',
+                    status: 'delivered',
+                    recipient_id: '5491111',
+                    timestamp: '1700000005',
+                  },
+                  { id: 'wamid.out.3', status: 'deleted', recipient_id: '1' },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    };
+
+    const result = extractWhatsappStatuses(payload);
+
+    expect(result).toEqual([
+      {
+        messageId: 'wamid.out.1',
+        status: 'delivered',
+        recipientId: '5491111',
+        timestamp: new Date(1700000005 * 1000),
+        errors: [],
+      },
+      {
+        messageId: 'wamid.out.2',
+        status: 'failed',
+        recipientId: '5491111',
+        timestamp: new Date(1700000010 * 1000),
+        errors: [
+          {
+            code: 131047,
+            title: 'Re-engagement message',
+            details: 'More than 24 hours',
+          },
+        ],
+      },
+    ]);
+  });
+});
@@ -1,120 +1,455 @@
 import { isAxiosError } from 'axios';
-import { WhatsappMessage } from '../types/whatsapp-message.type';
+import {
+  WhatsappMessage,
+  WhatsappMediaKind,
+} from '../types/whatsapp-message.type';
+import { ConversationInput } from '../types/conversation-input.type';
+import { InboundMessage } from '../types/inbound-message.type';
+import { Channel } from '../../student/enums/channel.enum';
+import {
+  WhatsappDeliveryStatus,
+  WhatsappInboundMessage,
+  WhatsappStatusUpdate,
+} from '../types/whatsapp-webhook.type';
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
 
 /**
- * Why: La carga del webhook viene como JSON no confiable; tiparla como `unknown` y validarla
- * evita accesos inseguros (`any`) y reduce fallos cuando Meta cambia/omite campos (edge-cases).
+ * Why: Meta agrupa varios mensajes (e incluso varias `entry`) en un mismo POST cuando
+ * el alumno escribe rápido; recorrer todo el payload evita perder mensajes en silencio.
+ * La carga viene como JSON no confiable, por eso se valida cada nivel en vez de usar `any`.
  */
-export function extractFirstWhatsappMessage(
+export function extractWhatsappMessages(
   webhookData: unknown,
-): WhatsappMessage | null {
-  if (!isRecord(webhookData)) {
-    return null;
+): WhatsappInboundMessage[] {
+  const inbound: WhatsappInboundMessage[] = [];
+
+  for (const value of extractChangeValues(webhookData)) {
+    const messages = value.messages;
+
+    if (!Array.isArray(messages)) {
+      continue;
+    }
+
+    const metadata = value.metadata;
+    const phoneNumberId =
+      isRecord(metadata) && typeof metadata.phone_number_id === 'string'
+        ? metadata.phone_number_id
+        : undefined;
+    const contactNames = extractContactNames(value.contacts);
+    // Si el contacto no trae wa_id (o no coincide) y es el único, lo usamos igual
+    const fallbackName =
+      contactNames.size === 1 ? [...contactNames.values()][0] : undefined;
+
+    for (const rawMessage of messages) {
+      const message = parseWhatsappMessage(rawMessage);
+
+      if (!message) {
+        continue;
+      }
+
+      inbound.push({
+        message,
+        contactName: contactNames.get(message.from) ?? fallbackName,
+        phoneNumberId,
+        timestamp: parseUnixTimestamp(
+          isRecord(rawMessage) ? rawMessage.timestamp : undefined,
+        ),
+      });
+    }
   }
 
-  const entry = webhookData.entry;
+  // Orden estable por timestamp: Meta no garantiza el orden dentro del lote
+  return inbound.sort(
+    (a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0),
+  );
+}
+
+const DELIVERY_STATUSES: readonly WhatsappDeliveryStatus[] = [
+  'sent',
+  'delivered',
+  'read',
+  'failed',
+];
 
-  if (!Array.isArray(entry) || entry.length === 0 || !isRecord(entry[0])) {
-    return null;
+/**
+ * Why: Además de mensajes, el webhook trae `statuses` (sent/delivered/read/failed)
+ * de lo que enviamos; con ellos sabemos qué alumnos nunca recibieron la respuesta.
+ */
+export function extractWhatsappStatuses(
+  webhookData: unknown,
+): WhatsappStatusUpdate[] {
+  const updates: WhatsappStatusUpdate[] = [];
+
+  for (const value of extractChangeValues(webhookData)) {
+    if (!Array.isArray(value.statuses)) {
+      continue;
+    }
+
+    for (const rawStatus of value.statuses) {
+      if (!isRecord(rawStatus)) {
+        continue;
+      }
+
+      const { id, status, recipient_id: recipientId } = rawStatus;
+
+      if (
+        typeof id !== 'string' ||
+        typeof recipientId !== 'string' ||
+        !DELIVERY_STATUSES.includes(status as WhatsappDeliveryStatus)
+      ) {
+        continue;
+      }
+
+      updates.push({
+        messageId: id,
+        status: status as WhatsappDeliveryStatus,
+        recipientId,
+        timestamp: parseUnixTimestamp(rawStatus.timestamp),
+        errors: extractStatusErrors(rawStatus.errors),
+      });
+    }
+  }
+
+  return updates.sort(
+    (a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0),
+  );
+}
+
+function extractStatusErrors(errors: unknown): WhatsappStatusUpdate['errors'] {
+  if (!Array.isArray(errors)) {
+    return [];
   }
 
-  const changes = entry[0].changes;
+  return errors.filter(isRecord).flatMap((error) => {
+    if (typeof error.code !== 'number') {
+      return [];
+    }
 
-  if (
-    !Array.isArray(changes) ||
-    changes.length === 0 ||
-    !isRecord(changes[0])
-  ) {
-    return null;
+    const errorData = error.error_data;
+
+    return [
+      {
+        code: error.code,
+        title: typeof error.title === 'string' ? error.title : undefined,
+        details:
+          isRecord(errorData) && typeof errorData.details === 'string'
+            ? errorData.details
+            : typeof error.message === 'string'
+              ? error.message
+              : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Recorre `entry[].changes[].value` devolviendo solo los `value` que son objetos.
+ */
+function extractChangeValues(
+  webhookData: unknown,
+): Array<Record<string, unknown>> {
+  if (!isRecord(webhookData) || !Array.isArray(webhookData.entry)) {
+    return [];
   }
 
-  const value = changes[0].value;
+  const values: Array<Record<string, unknown>> = [];
 
-  if (!isRecord(value)) {
+  for (const entry of webhookData.entry) {
+    if (!isRecord(entry) || !Array.isArray(entry.changes)) {
+      continue;
+    }
+
+    for (const change of entry.changes) {
+      if (isRecord(change) && isRecord(change.value)) {
+        values.push(change.value);
+      }
+    }
+  }
+
+  return values;
+}
+
+const MEDIA_KINDS: readonly WhatsappMediaKind[] = [
+  'image',
+  'audio',
+  'video',
+  'document',
+  'sticker',
+];
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Convierte un mensaje crudo en la unión `WhatsappMessage`.
+ * Los tipos que no modelamos (o que vienen incompletos) quedan como `unsupported`.
+ */
+function parseWhatsappMessage(rawMessage: unknown): WhatsappMessage | null {
+  if (!isRecord(rawMessage)) {
     return null;
   }
 
-  const messages = value.messages;
+  const id = rawMessage.id;
+  const from = rawMessage.from;
+  const type = rawMessage.type;
 
+  // Sin `id` no podemos deduplicar reintentos de Meta: descartamos el mensaje
   if (
-    !Array.isArray(messages) ||
-    messages.length === 0 ||
-    !isRecord(messages[0])
+    typeof id !== 'string' ||
+    typeof from !== 'string' ||
+    typeof type !== 'string'
   ) {
     return null;
   }
 
-  const from = messages[0].from;
-  const type = messages[0].type;
+  const rawContext = rawMessage.context;
+  const base = {
+    id,
+    from,
+    context:
+      isRecord(rawContext) && typeof rawContext.id === 'string'
+        ? { messageId: rawContext.id }
+        : undefined,
+  };
+  const payload = rawMessage[type];
+  const unsupported = { ...base, type: 'unsupported' as const, rawType: type };
+
+  if (!isRecord(payload)) {
+    return unsupported;
+  }
 
-  if (typeof from !== 'string' || typeof type !== 'string') {
-    return null;
+  if (type === 'text') {
+    return {
+      ...base,
+      type,
+      text: { body: typeof payload.body === 'string' ? payload.body : '' },
+    };
+  }
+
+  if (type === 'interactive') {
+    const replyType = payload.type;
+    const reply =
+      replyType === 'button_reply' || replyType === 'list_reply'
+        ? payload[replyType]
+        : undefined;
+
+    if (!isRecord(reply) || typeof reply.id !== 'string') {
+      return unsupported;
+    }
+
+    return {
+      ...base,
+      type,
+      interactive: {
+        type: replyType as 'button_reply' | 'list_reply',
+        id: reply.id,
+        title: optionalString(reply.title) ?? '',
+        description: optionalString(reply.description),
+      },
+    };
+  }
+
+  if (type === 'button') {
+    return {
+      ...base,
+      type,
+      button: {
+        payload: optionalString(payload.payload) ?? '',
+        text: optionalString(payload.text) ?? '',
+      },
+    };
+  }
+
+  if (type === 'location') {
+    if (
+      typeof payload.latitude !== 'number' ||
+      typeof payload.longitude !== 'number'
+    ) {
+      return unsupported;
+    }
+
+    return {
+      ...base,
+      type,
+      location: {
+        latitude: payload.latitude,
+        longitude: payload.longitude,
+        name: optionalString(payload.name),
+        address: optionalString(payload.address),
+      },
+    };
+  }
+
+  if (type === 'reaction') {
+    if (typeof payload.message_id !== 'string') {
+      return unsupported;
+    }
+
+    return {
+      ...base,
+      type,
+      reaction: {
+        messageId: payload.message_id,
+        emoji: optionalString(payload.emoji) || undefined,
+      },
+    };
   }
 
-  const text = messages[0].text;
-  const normalizedText = isRecord(text)
-    ? { body: typeof text.body === 'string' ? text.body : undefined }
-    : undefined;
+  if (MEDIA_KINDS.includes(type as WhatsappMediaKind)) {
+    if (typeof payload.id !== 'string') {
+      return unsupported;
+    }
+
+    return {
+      ...base,
+      type: type as WhatsappMediaKind,
+      media: {
+        id: payload.id,
+        mimeType: optionalString(payload.mime_type),
+        caption: optionalString(payload.caption),
+        filename: optionalString(payload.filename),
+        voice: typeof payload.voice === 'boolean' ? payload.voice : undefined,
+      },
+    };
+  }
 
-  return { from, type, text: normalizedText };
+  return unsupported;
 }
 
 /**
- * Why: `webhookData` es `unknown`; extraer el nombre vía validación evita accesos inseguros
- * cuando Meta cambia/omite campos (edge-case común en webhooks).
+ * Normaliza el mensaje a la entrada que reciben los pasos de la conversación.
+ *
+ * Why: Los pasos (menús, quizzes) se manejan con el `replyId` de los botones
+ * además del texto, sin conocer la forma del payload de Meta.
+ * Devuelve `null` para lo que no es una entrada del alumno (reacciones,
+ * stickers, tipos no soportados). Los audios se resuelven aparte (transcripción).
  */
-export function extractWhatsappContactName(
-  webhookData: unknown,
-): string | undefined {
-  if (!isRecord(webhookData)) {
-    return undefined;
+export function toConversationInput(
+  message: WhatsappMessage,
+): ConversationInput | null {
+  switch (message.type) {
+    case 'text':
+      return {
+        kind: 'text',
+        text: message.text.body.trim(),
+        messageId: message.id,
+      };
+
+    case 'interactive':
+      return {
+        kind: 'interactive',
+        text: message.interactive.title,
+        replyId: message.interactive.id,
+        messageId: message.id,
+      };
+
+    case 'button':
+      return {
+        kind: 'button',
+        text: message.button.text,
+        replyId: message.button.payload || undefined,
+        messageId: message.id,
+      };
+
+    case 'location':
+      return {
+        kind: 'location',
+        text: [message.location.name, message.location.address]
+          .filter(Boolean)
+          .join(' - '),
+        messageId: message.id,
+        location: {
+          latitude: message.location.latitude,
+          longitude: message.location.longitude,
+        },
+      };
+
+    case 'image':
+    case 'video':
+    case 'document':
+      return {
+        kind: 'media',
+        text: message.media.caption?.trim() ?? '',
+        messageId: message.id,
+      };
+
+    default:
+      return null;
   }
+}
 
-  const entry = webhookData.entry;
+/**
+ * Traduce un mensaje de WhatsApp al mensaje entrante independiente del canal.
+ * Las notas de voz quedan pendientes de transcripción (`voiceMediaId`).
+ */
+export function toInboundMessage(
+  inbound: WhatsappInboundMessage,
+): InboundMessage {
+  const { message } = inbound;
+
+  return {
+    channel: Channel.WHATSAPP,
+    externalId: cleanWhatsappPhoneNumber(message.from),
+    messageId: message.id,
+    contactName: inbound.contactName,
+    timestamp: inbound.timestamp,
+    input: message.type === 'audio' ? null : toConversationInput(message),
+    voiceMediaId: message.type === 'audio' ? message.media.id : undefined,
+  };
+}
 
-  if (!Array.isArray(entry) || entry.length === 0 || !isRecord(entry[0])) {
-    return undefined;
+/**
+ * Limpia el número de teléfono removiendo el 9 del prefijo 549.
+ * Parche para Argentina en Sandbox: 549... → 54...
+ */
+export function cleanWhatsappPhoneNumber(phone: string): string {
+  if (phone.startsWith('549')) {
+    return phone.replace('549', '54');
   }
+  return phone;
+}
 
-  const changes = entry[0].changes;
+/**
+ * Mapa `wa_id -> nombre de perfil` de los contactos del `value`.
+ */
+function extractContactNames(contacts: unknown): Map<string, string> {
+  const names = new Map<string, string>();
 
-  if (
-    !Array.isArray(changes) ||
-    changes.length === 0 ||
-    !isRecord(changes[0])
-  ) {
-    return undefined;
+  if (!Array.isArray(contacts)) {
+    return names;
   }
 
-  const value = changes[0].value;
+  for (const contact of contacts) {
+    if (!isRecord(contact) || !isRecord(contact.profile)) {
+      continue;
+    }
 
-  if (!isRecord(value)) {
-    return undefined;
-  }
+    const name = contact.profile.name;
 
-  const contacts = value.contacts;
+    if (typeof name !== 'string' || name.length === 0) {
+      continue;
+    }
 
-  if (
-    !Array.isArray(contacts) ||
-    contacts.length === 0 ||
-    !isRecord(contacts[0])
-  ) {
-    return undefined;
+    const waId = typeof contact.wa_id === 'string' ? contact.wa_id : '';
+
+    names.set(waId, name);
   }
 
-  const profile = contacts[0].profile;
+  return names;
+}
 
-  if (!isRecord(profile)) {
+function parseUnixTimestamp(value: unknown): Date | undefined {
+  const seconds = typeof value === 'string' ? Number(value) : value;
+
+  if (typeof seconds !== 'number' || !Number.isFinite(seconds)) {
     return undefined;
   }
 
-  const name = profile.name;
-
-  return typeof name === 'string' && name.length > 0 ? name : undefined;
+  return new Date(seconds * 1000);
 }
 
 /**
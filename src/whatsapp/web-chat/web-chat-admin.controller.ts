@@ -0,0 +1,32 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { AdminApiKeyGuard } from '../../common/guards/admin-api-key.guard';
+import { WebChatSessionService } from './web-chat-session.service';
+
+@Controller('admin/webchat')
+@UseGuards(AdminApiKeyGuard)
+export class WebChatAdminController {
+  constructor(private readonly sessionService: WebChatSessionService) {}
+
+  /**
+   * Emite una sesión web para un alumno registrado. La llama el backend del
+   * sitio cuando el alumno ya inició sesión (nunca el navegador: lleva la API key).
+   * Ejemplo: POST /admin/webchat/sessions { "studentId": "..." }
+   */
+  @Post('sessions')
+  async createStudentSession(
+    @Body() body: { studentId?: unknown } | undefined,
+  ) {
+    if (typeof body?.studentId !== 'string' || !isUUID(body.studentId)) {
+      throw new BadRequestException('"studentId" debe ser un UUID');
+    }
+
+    return this.sessionService.startStudentSession(body.studentId);
+  }
+}
@@ -0,0 +1,177 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import {
+  WhatsappListMessage,
+  WhatsappOutboundMedia,
+  WhatsappReplyButton,
+  WhatsappSendOptions,
+} from '../types/whatsapp-outbound.type';
+import type { WebChatOutboundMessage } from './web-chat.type';
+
+// Historial por sesión para el fallback REST (el widget solo muestra lo último)
+const MAX_MESSAGES_PER_SESSION = 50;
+// Evita que miles de visitantes que no vuelven llenen la memoria
+const MAX_BUFFERED_SESSIONS = 1000;
+
+/**
+ * Adaptador: Entrega los mensajes del bot al widget web.
+ *
+ * Los envíos se empujan a los WebSockets abiertos de la sesión y además
+ * quedan en un buffer en memoria, para el widget que usa el fallback REST
+ * (ej: redes corporativas que bloquean WebSockets).
+ */
+@Injectable()
+export class WebChatProviderAdapter {
+  private readonly logger = new Logger(WebChatProviderAdapter.name);
+  private readonly sockets = new Map<string, Set<WebSocket>>();
+  private readonly buffers = new Map<string, WebChatOutboundMessage[]>();
+
+  attach(sessionId: string, socket: WebSocket): void {
+    const sockets = this.sockets.get(sessionId) ?? new Set<WebSocket>();
+
+    sockets.add(socket);
+    this.sockets.set(sessionId, sockets);
+  }
+
+  detach(sessionId: string, socket: WebSocket): void {
+    const sockets = this.sockets.get(sessionId);
+
+    sockets?.delete(socket);
+
+    if (sockets?.size === 0) {
+      this.sockets.delete(sessionId);
+    }
+  }
+
+  sendText(
+    sessionId: string,
+    text: string,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    return this.deliver(sessionId, { type: 'text', text }, options);
+  }
+
+  sendButtons(
+    sessionId: string,
+    body: string,
+    buttons: WhatsappReplyButton[],
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    return this.deliver(
+      sessionId,
+      { type: 'buttons', text: body, buttons },
+      options,
+    );
+  }
+
+  sendList(
+    sessionId: string,
+    list: WhatsappListMessage,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    return this.deliver(
+      sessionId,
+      {
+        type: 'list',
+        text: [list.header, list.body, list.footer]
+          .filter(Boolean)
+          .join('\n\n'),
+        buttons: list.sections.flatMap((section) =>
+          section.rows.map((row) => ({ id: row.id, title: row.title })),
+        ),
+      },
+      options,
+    );
+  }
+
+  sendMedia(
+    sessionId: string,
+    media: WhatsappOutboundMedia,
+    options?: WhatsappSendOptions,
+  ): Promise<string | null> {
+    return this.deliver(
+      sessionId,
+      { type: 'media', text: media.caption ?? '', media },
+      options,
+    );
+  }
+
+  /**
+   * Muestra "escribiendo..." en el widget (solo por WebSocket).
+   */
+  sendTyping(sessionId: string): void {
+    this.emit(sessionId, 'typing', {});
+  }
+
+  /**
+   * Mensajes de la sesión posteriores a `afterId` (o todos si no se indica).
+   */
+  getMessages(sessionId: string, afterId?: string): WebChatOutboundMessage[] {
+    const messages = this.buffers.get(sessionId) ?? [];
+    const index = afterId
+      ? messages.findIndex((message) => message.id === afterId)
+      : -1;
+
+    return messages.slice(index + 1);
+  }
+
+  /**
+   * Id del último mensaje de la sesión, para leer solo lo que venga después.
+   */
+  getLastMessageId(sessionId: string): string | undefined {
+    return this.buffers.get(sessionId)?.at(-1)?.id;
+  }
+
+  private deliver(
+    sessionId: string,
+    content: Pick<
+      WebChatOutboundMessage,
+      'type' | 'text' | 'buttons' | 'media'
+    >,
+    options?: WhatsappSendOptions,
+  ): Promise<string> {
+    const message: WebChatOutboundMessage = {
+      id: randomUUID(),
+      ...content,
+      ...(options?.replyTo && { replyTo: options.replyTo }),
+      createdAt: new Date(),
+    };
+
+    this.store(sessionId, message);
+    this.emit(sessionId, 'message', message);
+    this.logger.debug(`💬 [${message.type}] → web ${sessionId}`);
+
+    return Promise.resolve(message.id);
+  }
+
+  private store(sessionId: string, message: WebChatOutboundMessage): void {
+    const messages = this.buffers.get(sessionId) ?? [];
+
+    messages.push(message);
+
+    if (messages.length > MAX_MESSAGES_PER_SESSION) {
+      messages.splice(0, messages.length - MAX_MESSAGES_PER_SESSION);
+    }
+
+    // Reinsertar mueve la sesión al final: se descarta la menos reciente
+    this.buffers.delete(sessionId);
+    this.buffers.set(sessionId, messages);
+
+    if (this.buffers.size > MAX_BUFFERED_SESSIONS) {
+      const [oldest] = this.buffers.keys();
+
+      this.buffers.delete(oldest);
+    }
+  }
+
+  private emit(sessionId: string, event: string, data: unknown): void {
+    const payload = JSON.stringify({ event, data });
+
+    for (const socket of this.sockets.get(sessionId) ?? []) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Channel } from '../../student/enums/channel.enum';
+import { STUDENT_PORT } from '../ports';
+import type { StudentPort } from '../ports/student.port';
+import { QuestionRateLimiter } from '../rate-limit/question-rate-limiter';
+import { WebChatTokenService } from './web-chat-token.service';
+import type { WebChatSessionToken } from './web-chat.type';
+
+/**
+ * Abre sesiones del chat web para visitantes anónimos o alumnos registrados.
+ */
+@Injectable()
+export class WebChatSessionService {
+  private readonly logger = new Logger(WebChatSessionService.name);
+
+  // Sesiones anónimas por hora desde una misma IP
+  private readonly maxSessionsPerIp: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(STUDENT_PORT)
+    private readonly studentPort: StudentPort,
+    private readonly tokenService: WebChatTokenService,
+    private readonly rateLimiter: QuestionRateLimiter,
+  ) {
+    this.maxSessionsPerIp = parseInt(
+      this.configService.get<string>('WEBCHAT_MAX_SESSIONS_PER_IP_PER_HOUR') ??
+        '10',
+      10,
+    );
+  }
+
+  /**
+   * Visitante del sitio: se crea un alumno `WEB` cuyo id externo es la sesión.
+   *
+   * Why: El endpoint es público; sin un límite por IP, un cliente crea
+   * alumnos (y cupos de preguntas al LLM) sin fin.
+   * @throws HttpException 429 si la IP ya abrió demasiadas sesiones.
+   */
+  async startAnonymousSession(
+    clientIp: string,
+    name?: string,
+  ): Promise<WebChatSessionToken> {
+    // Antes de crear el alumno: si el chat web está deshabilitado no dejamos basura
+    this.tokenService.assertEnabled();
+
+    if (
+      !this.rateLimiter.tryConsume(
+        `webchat-session:${clientIp}`,
+        this.maxSessionsPerIp,
+      )
+    ) {
+      this.logger.warn(`🌐 Límite de sesiones web alcanzado para ${clientIp}`);
+      throw new HttpException(
+        'Demasiadas sesiones nuevas. Probá de nuevo más tarde.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const sessionId = randomUUID();
+    const student = await this.studentPort.create(
+      Channel.WEB,
+      sessionId,
+      name?.trim() || 'Sin Nombre',
+    );
+
+    this.logger.log(`🌐 Nueva sesión web anónima: ${sessionId}`);
+    return this.tokenService.sign(sessionId, student.id);
+  }
+
+  /**
+   * Alumno ya registrado (ej: logueado en el sitio). La sesión web tiene su
+   * propia conversación, pero comparte acceso y límites con el alumno.
+   * @throws NotFoundException si el alumno no existe.
+   */
+  async startStudentSession(studentId: string): Promise<WebChatSessionToken> {
+    const student = await this.studentPort.findById(studentId);
+
+    if (!student) {
+      throw new NotFoundException(`Alumno ${studentId} no encontrado`);
+    }
+
+    const sessionId = randomUUID();
+
+    this.logger.log(`🌐 Nueva sesión web de ${student.id}: ${sessionId}`);
+    return this.tokenService.sign(sessionId, student.id);
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { WebChatTokenService } from './web-chat-token.service';
+import type { WebChatSession } from './web-chat.type';
+
+export type WebChatRequest = Request & { webChatSession?: WebChatSession };
+
+/**
+ * Protege el fallback REST del chat web: exige `Authorization: Bearer <token>`
+ * y deja la sesión en `request.webChatSession`.
+ */
+@Injectable()
+export class WebChatTokenGuard implements CanActivate {
+  constructor(private readonly tokenService: WebChatTokenService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<WebChatRequest>();
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    const session =
+      scheme === 'Bearer' && token ? this.tokenService.verify(token) : null;
+
+    if (!session) {
+      throw new UnauthorizedException('Sesión de chat inválida o vencida');
+    }
+
+    request.webChatSession = session;
+    return true;
+  }
+}
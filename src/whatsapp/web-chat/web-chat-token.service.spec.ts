@@ -0,0 +1,53 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WebChatTokenService } from './web-chat-token.service';
+
+describe('WebChatTokenService', () => {
+  const buildService = (env: Record<string, string>) =>
+    new WebChatTokenService({
+      get: (key: string) => env[key],
+    } as unknown as ConfigService);
+
+  const service = buildService({ WEBCHAT_TOKEN_SECRET: 'secreto' });
+
+  it('should verify the tokens it signs', () => {
+    const { token, expiresAt } = service.sign('session-1', 'student-1');
+
+    expect(service.verify(token)).toEqual({
+      sessionId: 'session-1',
+      studentId: 'student-1',
+      expiresAt,
+    });
+  });
+
+  it('should reject a token whose payload was edited', () => {
+    const { token } = service.sign('session-1', 'student-1');
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sid: 'session-1', stu: 'otro', exp: Date.now() + 1000 }),
+    ).toString('base64url');
+
+    expect(service.verify(`${forged}.${signature}`)).toBeNull();
+    expect(service.verify('basura')).toBeNull();
+  });
+
+  it('should reject tokens signed with another secret or already expired', () => {
+    const { token } = buildService({ WEBCHAT_TOKEN_SECRET: 'otro' }).sign(
+      'session-1',
+      'student-1',
+    );
+    const expired = buildService({
+      WEBCHAT_TOKEN_SECRET: 'secreto',
+      WEBCHAT_TOKEN_TTL_HOURS: '-1',
+    }).sign('session-1', 'student-1');
+
+    expect(service.verify(token)).toBeNull();
+    expect(service.verify(expired.token)).toBeNull();
+  });
+
+  it('should refuse to sign when the secret is not configured', () => {
+    expect(() => buildService({}).sign('session-1', 'student-1')).toThrow(
+      ServiceUnavailableException,
+    );
+  });
+});
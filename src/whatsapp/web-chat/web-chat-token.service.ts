@@ -0,0 +1,141 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import type { WebChatSession, WebChatSessionToken } from './web-chat.type';
+
+type TokenPayload = {
+  sid: string;
+  stu: string;
+  exp: number;
+};
+
+/**
+ * Emite y valida los tokens de sesión del chat web: `<payload>.<firma>`,
+ * con el payload en base64url y la firma HMAC-SHA256 de WEBCHAT_TOKEN_SECRET.
+ *
+ * Why: El widget corre en el navegador del visitante; sin la firma cualquiera
+ * podría editar el token y hablar como otro alumno.
+ */
+@Injectable()
+export class WebChatTokenService {
+  private readonly logger = new Logger(WebChatTokenService.name);
+  private readonly secret: string | undefined;
+  private readonly ttlMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.secret = this.configService.get<string>('WEBCHAT_TOKEN_SECRET');
+
+    const ttlHours = parseFloat(
+      this.configService.get<string>('WEBCHAT_TOKEN_TTL_HOURS') ?? '24',
+    );
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * @returns El secreto de firma.
+   * @throws ServiceUnavailableException si el chat web no está configurado.
+   */
+  assertEnabled(): string {
+    if (!this.secret) {
+      this.logger.warn(
+        'WEBCHAT_TOKEN_SECRET no está configurado. Chat web deshabilitado.',
+      );
+      throw new ServiceUnavailableException('Chat web deshabilitado');
+    }
+
+    return this.secret;
+  }
+
+  /**
+   * @throws ServiceUnavailableException si el chat web no está configurado.
+   */
+  sign(sessionId: string, studentId: string): WebChatSessionToken {
+    const secret = this.assertEnabled();
+    const expiresAt = new Date(Date.now() + this.ttlMs);
+    const payload: TokenPayload = {
+      sid: sessionId,
+      stu: studentId,
+      exp: expiresAt.getTime(),
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+      sessionId,
+      token: `${encoded}.${this.signature(encoded, secret)}`,
+      expiresAt,
+    };
+  }
+
+  /**
+   * @returns La sesión, o `null` si el token es inválido o venció.
+   */
+  verify(token: string): WebChatSession | null {
+    const [encoded, signature] = token.split('.');
+
+    if (!this.secret || !encoded || !signature) {
+      return null;
+    }
+
+    if (!this.safeEqual(signature, this.signature(encoded, this.secret))) {
+      return null;
+    }
+
+    const payload = this.parsePayload(encoded);
+
+    if (!payload || payload.exp <= Date.now()) {
+      return null;
+    }
+
+    return {
+      sessionId: payload.sid,
+      studentId: payload.stu,
+      expiresAt: new Date(payload.exp),
+    };
+  }
+
+  private signature(encoded: string, secret: string): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(encoded)
+      .digest('base64url');
+  }
+
+  private parsePayload(encoded: string): TokenPayload | null {
+    try {
+      const payload: unknown = JSON.parse(
+        Buffer.from(encoded, 'base64url').toString('utf8'),
+      );
+
+      if (
+        typeof payload === 'object' &&
+        payload !== null &&
+        'sid' in payload &&
+        'stu' in payload &&
+        'exp' in payload &&
+        typeof payload.sid === 'string' &&
+        typeof payload.stu === 'string' &&
+        typeof payload.exp === 'number'
+      ) {
+        return { sid: payload.sid, stu: payload.stu, exp: payload.exp };
+      }
+    } catch {
+      // Firma válida pero payload roto: se trata como token inválido
+    }
+
+    return null;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+
+    return (
+      bufferA.length === bufferB.length &&
+      crypto.timingSafeEqual(bufferA, bufferB)
+    );
+  }
+}
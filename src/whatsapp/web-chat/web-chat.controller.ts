@@ -0,0 +1,108 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Post,
+  Query,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { WhatsappService } from '../whatsapp.service';
+import { WebChatProviderAdapter } from './web-chat-provider.adapter';
+import { WebChatSessionService } from './web-chat-session.service';
+import { WebChatTokenGuard } from './web-chat-token.guard';
+import type { WebChatRequest } from './web-chat-token.guard';
+import type { WebChatSession } from './web-chat.type';
+import { parseWebChatMessage } from './web-chat.utils';
+
+/**
+ * Endpoints públicos del widget web. El canal principal es el WebSocket
+ * (`/webchat/ws?token=...`); esto es el fallback REST.
+ */
+@Controller('webchat')
+export class WebChatController {
+  constructor(
+    private readonly whatsappService: WhatsappService,
+    private readonly webChatProvider: WebChatProviderAdapter,
+    private readonly sessionService: WebChatSessionService,
+  ) {}
+
+  /**
+   * Abre una sesión anónima para un visitante del sitio (429 si la IP abrió
+   * demasiadas en la última hora).
+   * Ejemplo: POST /webchat/sessions { "name": "Juan" }
+   */
+  @Post('sessions')
+  async createSession(
+    @Ip() clientIp: string,
+    @Body() body: { name?: unknown } | undefined,
+  ) {
+    const name = typeof body?.name === 'string' ? body.name : undefined;
+
+    return this.sessionService.startAnonymousSession(
+      clientIp,
+      name?.slice(0, 100),
+    );
+  }
+
+  /**
+   * Envía un mensaje y devuelve las respuestas del bot en la misma request.
+   * Ejemplo: POST /webchat/messages { "text": "¿Qué es la VTV?" }
+   */
+  @Post('messages')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(WebChatTokenGuard)
+  async sendMessage(@Req() request: WebChatRequest, @Body() body: unknown) {
+    const session = this.getSession(request);
+    const message = parseWebChatMessage(body);
+
+    if (typeof message === 'string') {
+      throw new BadRequestException(message);
+    }
+
+    const lastMessageId = this.webChatProvider.getLastMessageId(
+      session.sessionId,
+    );
+    const messageId = await this.whatsappService.handleWebChatMessage(
+      session,
+      message,
+    );
+
+    return {
+      messageId,
+      replies: this.webChatProvider.getMessages(
+        session.sessionId,
+        lastMessageId,
+      ),
+    };
+  }
+
+  /**
+   * Mensajes del bot posteriores a `after` (polling del widget).
+   */
+  @Get('messages')
+  @UseGuards(WebChatTokenGuard)
+  getMessages(
+    @Req() request: WebChatRequest,
+    @Query('after') after: string | undefined,
+  ) {
+    return this.webChatProvider.getMessages(
+      this.getSession(request).sessionId,
+      after,
+    );
+  }
+
+  private getSession(request: WebChatRequest): WebChatSession {
+    // El guard siempre la completa; esto solo protege contra un mal cableado
+    if (!request.webChatSession) {
+      throw new UnauthorizedException('Sesión de chat inválida o vencida');
+    }
+
+    return request.webChatSession;
+  }
+}
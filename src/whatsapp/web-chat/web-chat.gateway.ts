@@ -0,0 +1,101 @@
+import { Logger } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WsResponse,
+} from '@nestjs/websockets';
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import { WhatsappService } from '../whatsapp.service';
+import { WebChatProviderAdapter } from './web-chat-provider.adapter';
+import { WebChatTokenService } from './web-chat-token.service';
+import type { WebChatSession } from './web-chat.type';
+import { parseWebChatMessage } from './web-chat.utils';
+
+// Código de cierre propio (rango 4000-4999) para que el widget pida otra sesión
+const INVALID_SESSION_CLOSE_CODE = 4401;
+
+/**
+ * Gateway del widget web: `ws://<host>/webchat/ws?token=<token>`.
+ *
+ * Why: El token va en la query porque el WebSocket del navegador no permite
+ * mandar headers. Los mensajes usan el formato `{ event, data }`:
+ * el widget manda `message` y recibe `message`, `typing`, `ack` o `error`.
+ */
+@WebSocketGateway({ path: '/webchat/ws' })
+export class WebChatGateway
+  implements OnGatewayConnection<WebSocket>, OnGatewayDisconnect<WebSocket>
+{
+  private readonly logger = new Logger(WebChatGateway.name);
+  private readonly sessions = new WeakMap<WebSocket, WebChatSession>();
+
+  constructor(
+    private readonly whatsappService: WhatsappService,
+    private readonly webChatProvider: WebChatProviderAdapter,
+    private readonly tokenService: WebChatTokenService,
+  ) {}
+
+  handleConnection(client: WebSocket, request: IncomingMessage): void {
+    const token = new URL(
+      request.url ?? '',
+      'http://localhost',
+    ).searchParams.get('token');
+    const session = token ? this.tokenService.verify(token) : null;
+
+    if (!session) {
+      client.close(INVALID_SESSION_CLOSE_CODE, 'Sesión inválida o vencida');
+      return;
+    }
+
+    this.sessions.set(client, session);
+    this.webChatProvider.attach(session.sessionId, client);
+    this.logger.debug(`🔌 Widget conectado: ${session.sessionId}`);
+  }
+
+  handleDisconnect(client: WebSocket): void {
+    const session = this.sessions.get(client);
+
+    if (session) {
+      this.webChatProvider.detach(session.sessionId, client);
+    }
+  }
+
+  @SubscribeMessage('message')
+  async handleMessage(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() body: unknown,
+  ): Promise<WsResponse | undefined> {
+    const session = this.sessions.get(client);
+
+    // El token puede vencer con el socket abierto
+    if (!session || session.expiresAt.getTime() <= Date.now()) {
+      client.close(INVALID_SESSION_CLOSE_CODE, 'Sesión inválida o vencida');
+      return undefined;
+    }
+
+    const message = parseWebChatMessage(body);
+
+    if (typeof message === 'string') {
+      return { event: 'error', data: { message } };
+    }
+
+    try {
+      const messageId = await this.whatsappService.handleWebChatMessage(
+        session,
+        message,
+      );
+
+      return { event: 'ack', data: { messageId } };
+    } catch {
+      // El detalle ya quedó logueado en el servicio
+      return {
+        event: 'error',
+        data: { message: 'No pudimos procesar tu mensaje. Probá de nuevo.' },
+      };
+    }
+  }
+}
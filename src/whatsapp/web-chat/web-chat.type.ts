@@ -0,0 +1,47 @@
+import type {
+  WhatsappOutboundMedia,
+  WhatsappReplyButton,
+} from '../types/whatsapp-outbound.type';
+
+/**
+ * Sesión del widget web. Viaja firmada dentro del token: el servidor
+ * no guarda estado de sesión.
+ */
+export type WebChatSession = {
+  sessionId: string;
+  // Alumno anónimo (canal WEB) o uno ya registrado por otro canal
+  studentId: string;
+  expiresAt: Date;
+};
+
+/**
+ * Sesión recién emitida (lo que recibe el widget para conectarse).
+ */
+export type WebChatSessionToken = {
+  sessionId: string;
+  token: string;
+  expiresAt: Date;
+};
+
+/**
+ * Lo que escribe el visitante: texto o el toque de un botón.
+ */
+export type WebChatInboundMessage = {
+  text?: string;
+  replyId?: string;
+};
+
+/**
+ * Mensaje del bot hacia el widget. El texto usa la sintaxis de WhatsApp
+ * (`*negrita*`, `_cursiva_`), que el widget se encarga de renderizar.
+ */
+export type WebChatOutboundMessage = {
+  id: string;
+  type: 'text' | 'buttons' | 'list' | 'media';
+  text: string;
+  // Botones o filas de lista, en el orden en que se muestran
+  buttons?: WhatsappReplyButton[];
+  media?: WhatsappOutboundMedia;
+  replyTo?: string;
+  createdAt: Date;
+};
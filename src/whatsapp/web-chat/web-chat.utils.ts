@@ -0,0 +1,38 @@
+import type { WebChatInboundMessage } from './web-chat.type';
+
+// Igual que el límite de un mensaje de WhatsApp: frena pegados gigantes al LLM
+export const WEB_CHAT_MAX_TEXT_LENGTH = 4096;
+
+/**
+ * Valida lo que manda el widget (JSON no confiable, por WebSocket o REST).
+ * @returns El mensaje normalizado, o un texto con el error para devolverle al widget.
+ */
+export function parseWebChatMessage(
+  body: unknown,
+): WebChatInboundMessage | string {
+  if (typeof body !== 'object' || body === null) {
+    return 'El mensaje debe ser un objeto JSON';
+  }
+
+  const { text, replyId } = body as Record<string, unknown>;
+
+  if (text !== undefined && typeof text !== 'string') {
+    return '"text" debe ser un texto';
+  }
+
+  if (replyId !== undefined && typeof replyId !== 'string') {
+    return '"replyId" debe ser un texto';
+  }
+
+  const trimmed = text?.trim();
+
+  if (!trimmed && !replyId) {
+    return 'Falta "text" o "replyId"';
+  }
+
+  if (trimmed && trimmed.length > WEB_CHAT_MAX_TEXT_LENGTH) {
+    return `El mensaje supera los ${WEB_CHAT_MAX_TEXT_LENGTH} caracteres`;
+  }
+
+  return { text: trimmed, replyId: replyId || undefined };
+}
@@ -0,0 +1,96 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { STUDENT_PORT } from '../ports';
+import type { StudentPort } from '../ports/student.port';
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Borra los visitantes anónimos del chat web que dejaron de escribir hace
+ * más de WEBCHAT_VISITOR_RETENTION_DAYS.
+ *
+ * Why: Cada sesión anónima crea un alumno `WEB`; sin vencimiento la tabla
+ * crece con prospectos que nunca vuelven. Con una retención mayor que
+ * WEBCHAT_TOKEN_TTL_HOURS no se borra a nadie con una sesión vigente.
+ */
+@Injectable()
+export class WebVisitorCleanupService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebVisitorCleanupService.name);
+
+  // 0 desactiva el borrado
+  private readonly retentionMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(STUDENT_PORT)
+    private readonly studentPort: StudentPort,
+  ) {
+    const retentionDays = parseFloat(
+      this.configService.get<string>('WEBCHAT_VISITOR_RETENTION_DAYS') ?? '30',
+    );
+    this.retentionMs = Math.max(retentionDays, 0) * 24 * 60 * 60 * 1000;
+  }
+
+  onModuleInit(): void {
+    if (this.retentionMs === 0) {
+      this.logger.log('🧹 Borrado de visitantes web inactivos desactivado');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.deleteInactive();
+    }, CLEANUP_INTERVAL_MS);
+    this.logger.log(
+      `🧹 Borrado de visitantes web inactivos (retención=${this.retentionMs / 86_400_000} días)`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.log('🛑 Borrado de visitantes web inactivos detenido');
+    }
+  }
+
+  /**
+   * @returns cuántos visitantes se borraron.
+   */
+  async deleteInactive(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+
+    try {
+      const deleted = await this.studentPort.deleteInactiveVisitors(
+        new Date(now.getTime() - this.retentionMs),
+      );
+
+      if (deleted > 0) {
+        this.logger.log(`🧹 ${deleted} visitantes web inactivos borrados`);
+      }
+
+      return deleted;
+    } catch (error) {
+      const err = error as Error;
+
+      this.logger.error(
+        `Error borrando visitantes web inactivos: ${err.message}`,
+        err.stack,
+      );
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
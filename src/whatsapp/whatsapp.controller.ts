@@ -35,12 +35,13 @@ export class WhatsappController {
 
   @Post()
   @UseGuards(WhatsappSignatureGuard) // <--- Candado activado
-  handleIncomingMessage(@Body() body: any, @Res() res: Response) {
-    // 1. Siempre responder 200 OK a Meta inmediatamente.
-    // Si tardamos mucho procesando, Meta considera que falló y reintenta el envío.
-    res.status(HttpStatus.OK).send('EVENT_RECEIVED');
+  async handleIncomingMessage(@Body() body: any, @Res() res: Response) {
+    // 1. Persistir el payload en la cola durable (rápido: un INSERT).
+    // Si falla, respondemos 500 y Meta reintenta la entrega más tarde.
+    await this.whatsappService.enqueueWebhook(body);
 
-    // 2. Delegar el procesamiento al servicio (fire and forget)
-    void this.whatsappService.handleMessage(body);
+    // 2. Responder 200 OK a Meta. El worker de la cola procesa el mensaje
+    // con reintentos, así un crash o un timeout del LLM no pierde la pregunta.
+    res.status(HttpStatus.OK).send('EVENT_RECEIVED');
   }
 }
@@ -1,16 +1,103 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
 import { HttpModule } from '@nestjs/axios';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { WhatsappController } from './whatsapp.controller';
 import { WhatsappService } from './whatsapp.service';
 import { KnowledgeModule } from '../knowledge/knowledge.module'; // <--- Import logic
-import { STUDENT_PORT, CONVERSATION_PORT, WHATSAPP_PROVIDER } from './ports';
+import {
+  STUDENT_PORT,
+  CONVERSATION_PORT,
+  CONVERSATION_HISTORY_PORT,
+  WHATSAPP_PROVIDER,
+  PROCESSED_MESSAGE_PORT,
+  INBOUND_QUEUE_PORT,
+  STUDENT_LOCK_PORT,
+  OUTBOUND_MESSAGE_PORT,
+  TRANSCRIPTION_PORT,
+  NOTIFICATION_PORT,
+  CHANNEL_MESSENGER,
+  MESSAGE_LOG_PORT,
+  QUIZ_QUESTION_PORT,
+  EXAM_ATTEMPT_PORT,
+  QUESTION_REVIEW_PORT,
+  PROGRESS_PORT,
+  APPOINTMENT_PORT,
+} from './ports';
 import { StudentAdapter } from '../student/student.adapter';
+import { StudentLockAdapter } from '../student/student-lock.adapter';
 import { ConversationAdapter } from '../conversation/conversation.adapter';
+import { ConversationHistoryAdapter } from '../conversation/conversation-history.adapter';
 import { WhatsappProviderAdapter } from './adapters/whatsapp-provider.adapter';
+import { ProcessedMessageAdapter } from '../processed-message/processed-message.adapter';
 import { Student } from '../student/entities/student.entity';
 import { Conversation } from '../conversation/entities/conversation.entity';
+import { ConversationTurn } from '../conversation/entities/conversation-turn.entity';
+import { ProcessedMessage } from '../processed-message/entities/processed-message.entity';
+import { InboundQueueModule } from '../inbound-queue/inbound-queue.module';
+import { InboundQueueAdapter } from '../inbound-queue/inbound-queue.adapter';
+import { InboundQueueWorker } from './workers/inbound-queue.worker';
+import { OutboundMessageModule } from '../outbound-message/outbound-message.module';
+import { OutboundMessageAdapter } from '../outbound-message/outbound-message.adapter';
+import { OpenAiTranscriptionAdapter } from '../transcription/openai-transcription.adapter';
+import { StubTranscriptionAdapter } from '../transcription/stub-transcription.adapter';
+import { ChannelMessengerAdapter } from './adapters/channel-messenger.adapter';
+import { TelegramProviderAdapter } from './telegram/telegram-provider.adapter';
+import { TelegramController } from './telegram/telegram.controller';
+import { SimulatorProviderAdapter } from './simulator/simulator-provider.adapter';
+import { SimulatorController } from './simulator/simulator.controller';
+import { WebChatProviderAdapter } from './web-chat/web-chat-provider.adapter';
+import { WebChatTokenService } from './web-chat/web-chat-token.service';
+import { WebChatSessionService } from './web-chat/web-chat-session.service';
+import { WebVisitorCleanupService } from './web-chat/web-visitor-cleanup.service';
+import { WebChatGateway } from './web-chat/web-chat.gateway';
+import { WebChatController } from './web-chat/web-chat.controller';
+import { WebChatAdminController } from './web-chat/web-chat-admin.controller';
+import { NotificationModule } from '../notification/notification.module';
+import { NotificationAdapter } from '../notification/notification.adapter';
+import { MessageLogModule } from '../message-log/message-log.module';
+import { MessageLogAdapter } from '../message-log/message-log.adapter';
+import { QuizModule } from '../quiz/quiz.module';
+import { QuizQuestionAdapter } from '../quiz/quiz-question.adapter';
+import { QuestionReviewAdapter } from '../quiz/question-review.adapter';
+import { ExamModule } from '../exam/exam.module';
+import { ExamAttemptAdapter } from '../exam/exam-attempt.adapter';
+import { ProgressModule } from '../progress/progress.module';
+import { ProgressAdapter } from '../progress/progress.adapter';
+import { AppointmentModule } from '../appointment/appointment.module';
+import { AppointmentAdapter } from '../appointment/appointment.adapter';
+import { NotificationService } from './notifications/notification.service';
+import { ReplyService } from './replies/reply.service';
+import { QuestionRateLimiter } from './rate-limit/question-rate-limiter';
+import { ConversationMemoryService } from './memory/conversation-memory.service';
+import { ConversationLifecycleService } from './conversations/conversation-lifecycle.service';
+import { QuizService } from './quiz/quiz.service';
+import { MockExamService } from './exam/mock-exam.service';
+import { ReviewService } from './review/review.service';
+import { StudentProgressService } from './progress/student-progress.service';
+import { DailyQuestionService } from './daily-question/daily-question.service';
+import { AppointmentBookingService } from './appointments/appointment-booking.service';
+import { AppointmentReminderService } from './appointments/appointment-reminder.service';
+import { NoShowPolicyService } from './appointments/no-show-policy.service';
+import { AppointmentAttendanceController } from './appointments/appointment-attendance.controller';
+import { FlowRegistry } from './flow/flow-registry';
+import { FlowEngine } from './flow/flow-engine';
+import { WelcomeStep } from './flow/steps/welcome.step';
+import { LearningStep } from './flow/steps/learning.step';
+import { QuizStep } from './flow/steps/quiz.step';
+import { MockExamStep } from './flow/steps/mock-exam.step';
+import { BookingStep } from './flow/steps/booking.step';
+import { ResetInterrupt } from './flow/interrupts/reset.interrupt';
+import { MenuInterrupt } from './flow/interrupts/menu.interrupt';
+import { QuizInterrupt } from './flow/interrupts/quiz.interrupt';
+import { MockExamInterrupt } from './flow/interrupts/mock-exam.interrupt';
+import { ReviewInterrupt } from './flow/interrupts/review.interrupt';
+import { ProgressInterrupt } from './flow/interrupts/progress.interrupt';
+import { DailyQuestionInterrupt } from './flow/interrupts/daily-question.interrupt';
+import { BookingInterrupt } from './flow/interrupts/booking.interrupt';
+import { AppointmentsInterrupt } from './flow/interrupts/appointments.interrupt';
+import { AppointmentReminderInterrupt } from './flow/interrupts/appointment-reminder.interrupt';
 
 /**
  * WhatsappModule - Arquitectura Hexagonal
@@ -31,25 +118,172 @@ import { Conversation } from '../conversation/entities/conversation.entity';
   imports: [
     ConfigModule,
     HttpModule,
+    DiscoveryModule, // FlowRegistry encuentra los pasos de cualquier módulo
     KnowledgeModule, // <--- Add module
+    InboundQueueModule,
+    OutboundMessageModule,
+    NotificationModule,
+    MessageLogModule,
+    QuizModule,
+    ExamModule,
+    ProgressModule,
+    AppointmentModule,
     // TypeORM para los adaptadores
-    TypeOrmModule.forFeature([Student, Conversation]),
+    TypeOrmModule.forFeature([
+      Student,
+      Conversation,
+      ConversationTurn,
+      ProcessedMessage,
+    ]),
+  ],
+  controllers: [
+    WhatsappController,
+    TelegramController,
+    SimulatorController,
+    WebChatController,
+    WebChatAdminController,
+    AppointmentAttendanceController,
   ],
-  controllers: [WhatsappController],
   providers: [
     WhatsappService,
+    NotificationService,
+    InboundQueueWorker,
+    ReplyService,
+    QuestionRateLimiter,
+    ConversationMemoryService,
+    ConversationLifecycleService,
+    QuizService,
+    MockExamService,
+    ReviewService,
+    StudentProgressService,
+    DailyQuestionService,
+    AppointmentBookingService,
+    AppointmentReminderService,
+    NoShowPolicyService,
+    // Flujos: los pasos e interrupciones se registran solos (@FlowStep / @FlowInterrupt)
+    FlowRegistry,
+    FlowEngine,
+    WelcomeStep,
+    LearningStep,
+    QuizStep,
+    MockExamStep,
+    BookingStep,
+    ResetInterrupt,
+    MenuInterrupt,
+    QuizInterrupt,
+    MockExamInterrupt,
+    ReviewInterrupt,
+    ProgressInterrupt,
+    DailyQuestionInterrupt,
+    BookingInterrupt,
+    AppointmentsInterrupt,
+    AppointmentReminderInterrupt,
     // Inyección de Puertos -> Adaptadores
     {
       provide: STUDENT_PORT,
       useClass: StudentAdapter,
     },
+    {
+      provide: STUDENT_LOCK_PORT,
+      useClass: StudentLockAdapter,
+    },
     {
       provide: CONVERSATION_PORT,
       useClass: ConversationAdapter,
     },
+    {
+      provide: CONVERSATION_HISTORY_PORT,
+      useClass: ConversationHistoryAdapter,
+    },
+    // Proveedor: WHATSAPP_PROVIDER=simulator captura los envíos en memoria (dev local)
+    WhatsappProviderAdapter,
+    SimulatorProviderAdapter,
     {
       provide: WHATSAPP_PROVIDER,
-      useClass: WhatsappProviderAdapter,
+      inject: [
+        ConfigService,
+        WhatsappProviderAdapter,
+        SimulatorProviderAdapter,
+      ],
+      useFactory: (
+        configService: ConfigService,
+        meta: WhatsappProviderAdapter,
+        simulator: SimulatorProviderAdapter,
+      ) =>
+        configService.get<string>('WHATSAPP_PROVIDER') === 'simulator'
+          ? simulator
+          : meta,
+    },
+    // Canales: el messenger enruta cada envío a WhatsApp, Telegram o el widget web
+    TelegramProviderAdapter,
+    WebChatProviderAdapter,
+    WebChatTokenService,
+    WebChatSessionService,
+    WebVisitorCleanupService,
+    WebChatGateway,
+    {
+      provide: CHANNEL_MESSENGER,
+      useClass: ChannelMessengerAdapter,
+    },
+    {
+      provide: PROCESSED_MESSAGE_PORT,
+      useClass: ProcessedMessageAdapter,
+    },
+    {
+      // El adaptador vive en InboundQueueModule (lo comparte con el admin de dead letters)
+      provide: INBOUND_QUEUE_PORT,
+      useExisting: InboundQueueAdapter,
+    },
+    {
+      provide: OUTBOUND_MESSAGE_PORT,
+      useExisting: OutboundMessageAdapter,
+    },
+    {
+      provide: NOTIFICATION_PORT,
+      useExisting: NotificationAdapter,
+    },
+    {
+      provide: MESSAGE_LOG_PORT,
+      useExisting: MessageLogAdapter,
+    },
+    {
+      provide: QUIZ_QUESTION_PORT,
+      useExisting: QuizQuestionAdapter,
+    },
+    {
+      provide: EXAM_ATTEMPT_PORT,
+      useExisting: ExamAttemptAdapter,
+    },
+    {
+      provide: QUESTION_REVIEW_PORT,
+      useExisting: QuestionReviewAdapter,
+    },
+    {
+      provide: PROGRESS_PORT,
+      useExisting: ProgressAdapter,
+    },
+    {
+      provide: APPOINTMENT_PORT,
+      useExisting: AppointmentAdapter,
+    },
+    // Transcripción: TRANSCRIPTION_PROVIDER=stub evita llamar a OpenAI en dev/tests
+    OpenAiTranscriptionAdapter,
+    StubTranscriptionAdapter,
+    {
+      provide: TRANSCRIPTION_PORT,
+      inject: [
+        ConfigService,
+        OpenAiTranscriptionAdapter,
+        StubTranscriptionAdapter,
+      ],
+      useFactory: (
+        configService: ConfigService,
+        openAi: OpenAiTranscriptionAdapter,
+        stub: StubTranscriptionAdapter,
+      ) =>
+        configService.get<string>('TRANSCRIPTION_PROVIDER') === 'stub'
+          ? stub
+          : openAi,
     },
   ],
 })
@@ -0,0 +1,694 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { WhatsappService } from './whatsapp.service';
+import { KnowledgeService } from '../knowledge/knowledge.service';
+import {
+  STUDENT_PORT,
+  CONVERSATION_PORT,
+  CHANNEL_MESSENGER,
+  PROCESSED_MESSAGE_PORT,
+  INBOUND_QUEUE_PORT,
+  STUDENT_LOCK_PORT,
+  OUTBOUND_MESSAGE_PORT,
+  TRANSCRIPTION_PORT,
+  CONVERSATION_HISTORY_PORT,
+  MESSAGE_LOG_PORT,
+  QUESTION_REVIEW_PORT,
+  PROGRESS_PORT,
+} from './ports';
+import { NotificationService } from './notifications/notification.service';
+import { StubTranscriptionAdapter } from '../transcription/stub-transcription.adapter';
+import { ConversationStep } from '../conversation/enums/conversation-step.enum';
+import { Channel } from '../student/enums/channel.enum';
+import { ReplyService } from './replies/reply.service';
+import { QuestionRateLimiter } from './rate-limit/question-rate-limiter';
+import { FlowRegistry } from './flow/flow-registry';
+import { FlowEngine } from './flow/flow-engine';
+import { WelcomeStep } from './flow/steps/welcome.step';
+import { LearningStep } from './flow/steps/learning.step';
+import { ResetInterrupt } from './flow/interrupts/reset.interrupt';
+import { MenuInterrupt } from './flow/interrupts/menu.interrupt';
+import { ConversationMemoryService } from './memory/conversation-memory.service';
+import { ConversationLifecycleService } from './conversations/conversation-lifecycle.service';
+import { ReviewService } from './review/review.service';
+import { StudentProgressService } from './progress/student-progress.service';
+import type { ChatTurn } from '../knowledge/types/chat-history.type';
+
+describe('WhatsappService', () => {
+  let service: WhatsappService;
+
+  const env: Record<string, string> = {
+    ADMIN_PHONE_NUMBER: '5400000000',
+    TRANSCRIPTION_STUB_TEXT: '¿Qué documentos necesito?',
+  };
+  const student = {
+    id: 'student-1',
+    name: 'Ana',
+    channel: Channel.WHATSAPP,
+    externalId: '541122334455',
+    phoneNumber: '541122334455',
+    accessExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  };
+  const studentAddress = {
+    channel: Channel.WHATSAPP,
+    externalId: student.externalId,
+  };
+  const conversation = {
+    id: 'conversation-1',
+    step: ConversationStep.LEARNING,
+    channel: Channel.WHATSAPP,
+    context: {},
+    isActive: true,
+    student,
+  };
+
+  const knowledgeService = { ask: jest.fn(), summarizeHistory: jest.fn() };
+  const studentPort = {
+    findById: jest.fn(),
+    findByExternalId: jest.fn(),
+    create: jest.fn(),
+    updateAccessExpiration: jest.fn(),
+    findAllWithActiveAccess: jest.fn(),
+    touchLastInbound: jest.fn(),
+  };
+  const conversationPort = {
+    findActiveByStudent: jest.fn(),
+    create: jest.fn(),
+    updateStep: jest.fn(),
+    deactivate: jest.fn(),
+    closeInactive: jest.fn(),
+    findLastClosed: jest.fn(),
+  };
+  const messenger = {
+    sendText: jest.fn(),
+    sendReaction: jest.fn(),
+    markAsRead: jest.fn(),
+    downloadMedia: jest.fn(),
+  };
+  const processedMessagePort = {
+    claim: jest.fn(),
+    complete: jest.fn(),
+    release: jest.fn(),
+    purgeOlderThan: jest.fn(),
+  };
+  const outboundMessagePort = {
+    recordAccepted: jest.fn(),
+    applyStatus: jest.fn(),
+  };
+  // Historial en memoria: alcanza para ver qué le llega al RAG
+  const storedTurns: ChatTurn[] = [];
+  const historyPort = {
+    append: jest.fn((_conversationId: string, turns: ChatTurn[]) => {
+      storedTurns.push(...turns);
+      return Promise.resolve();
+    }),
+    load: jest.fn(() =>
+      Promise.resolve({
+        summary: null,
+        turns: storedTurns.map((turn, index) => ({
+          ...turn,
+          id: `turn-${index}`,
+          createdAt: new Date(),
+        })),
+      }),
+    ),
+    saveSummary: jest.fn(),
+  };
+  const messageLogPort = { record: jest.fn() };
+  const reviewPort = {
+    find: jest.fn(),
+    save: jest.fn(),
+    findDue: jest.fn(),
+    countDue: jest.fn(),
+  };
+  const progressPort = { record: jest.fn(), getProgress: jest.fn() };
+
+  const buildWebhook = (messages: unknown[]) => ({
+    entry: [
+      {
+        changes: [
+          {
+            value: {
+              contacts: [{ wa_id: '5491122334455', profile: { name: 'Ana' } }],
+              messages,
+            },
+          },
+        ],
+      },
+    ],
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    storedTurns.length = 0;
+    studentPort.findByExternalId.mockResolvedValue(student);
+    conversationPort.findActiveByStudent.mockResolvedValue(conversation);
+    processedMessagePort.claim.mockResolvedValue('CLAIMED');
+    knowledgeService.ask.mockResolvedValue({
+      answer: 'Respuesta del instructor',
+      model: 'google/gemini-flash-1.5',
+      topic: 'Documentación',
+    });
+    messenger.sendText.mockResolvedValue('wamid.out');
+    reviewPort.countDue.mockResolvedValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        WhatsappService,
+        ReplyService,
+        QuestionRateLimiter,
+        ConversationMemoryService,
+        ConversationLifecycleService,
+        ReviewService,
+        StudentProgressService,
+        FlowRegistry,
+        FlowEngine,
+        WelcomeStep,
+        LearningStep,
+        ResetInterrupt,
+        MenuInterrupt,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => env[key] },
+        },
+        { provide: KnowledgeService, useValue: knowledgeService },
+        { provide: STUDENT_PORT, useValue: studentPort },
+        { provide: CONVERSATION_PORT, useValue: conversationPort },
+        { provide: CONVERSATION_HISTORY_PORT, useValue: historyPort },
+        { provide: CHANNEL_MESSENGER, useValue: messenger },
+        { provide: PROCESSED_MESSAGE_PORT, useValue: processedMessagePort },
+        { provide: INBOUND_QUEUE_PORT, useValue: { enqueue: jest.fn() } },
+        {
+          provide: STUDENT_LOCK_PORT,
+          useValue: {
+            runExclusive: (_key: string, task: () => Promise<void>) => task(),
+          },
+        },
+        { provide: OUTBOUND_MESSAGE_PORT, useValue: outboundMessagePort },
+        { provide: MESSAGE_LOG_PORT, useValue: messageLogPort },
+        { provide: QUESTION_REVIEW_PORT, useValue: reviewPort },
+        { provide: PROGRESS_PORT, useValue: progressPort },
+        { provide: TRANSCRIPTION_PORT, useClass: StubTranscriptionAdapter },
+        { provide: NotificationService, useValue: { notify: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<WhatsappService>(WhatsappService);
+    module.get(FlowRegistry).onModuleInit();
+  });
+
+  it('should answer every text message of a batched webhook in order, with the previous exchange as history', async () => {
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.1',
+          from: '5491122334455',
+          type: 'text',
+          timestamp: '1',
+          text: { body: '¿Qué es la VTV?' },
+        },
+        {
+          id: 'wamid.2',
+          from: '5491122334455',
+          type: 'text',
+          timestamp: '2',
+          text: { body: '¿Y el seguro?' },
+        },
+      ]),
+    );
+
+    expect(knowledgeService.ask).toHaveBeenNthCalledWith(1, '¿Qué es la VTV?', {
+      summary: null,
+      turns: [],
+    });
+    expect(knowledgeService.ask).toHaveBeenNthCalledWith(2, '¿Y el seguro?', {
+      summary: null,
+      turns: [
+        { role: 'USER', content: '¿Qué es la VTV?' },
+        { role: 'ASSISTANT', content: 'Respuesta del instructor' },
+      ],
+    });
+    expect(outboundMessagePort.recordAccepted).toHaveBeenCalledWith(
+      'wamid.out',
+      student.externalId,
+    );
+  });
+
+  it('should mark each message as read and show the typing indicator first', async () => {
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.1',
+          from: '5491122334455',
+          type: 'text',
+          text: { body: '¿Qué es la VTV?' },
+        },
+      ]),
+    );
+
+    expect(messenger.markAsRead).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: Channel.WHATSAPP,
+        externalId: student.externalId,
+      }),
+      'wamid.1',
+      { showTyping: true },
+    );
+    expect(messenger.markAsRead.mock.invocationCallOrder[0]).toBeLessThan(
+      knowledgeService.ask.mock.invocationCallOrder[0],
+    );
+    expect(messenger.sendReaction).not.toHaveBeenCalled();
+  });
+
+  it('should skip messages already processed within the dedup window', async () => {
+    processedMessagePort.claim.mockResolvedValue('DUPLICATE');
+
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.1',
+          from: '5491122334455',
+          type: 'text',
+          text: { body: 'Hola' },
+        },
+      ]),
+    );
+
+    expect(knowledgeService.ask).not.toHaveBeenCalled();
+    expect(messenger.sendText).not.toHaveBeenCalled();
+  });
+
+  it('should transcribe voice notes and answer the transcript', async () => {
+    messenger.downloadMedia.mockResolvedValue({
+      data: Buffer.from('audio'),
+      mimeType: 'audio/ogg; codecs=opus',
+    });
+
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.audio',
+          from: '5491122334455',
+          type: 'audio',
+          audio: { id: 'media-1', mime_type: 'audio/ogg; codecs=opus' },
+        },
+      ]),
+    );
+
+    expect(messenger.downloadMedia).toHaveBeenCalledWith(
+      studentAddress,
+      'media-1',
+    );
+    expect(messenger.sendText).toHaveBeenCalledWith(
+      studentAddress,
+      expect.stringContaining('¿Qué documentos necesito?'),
+      { replyTo: 'wamid.audio' },
+    );
+    expect(knowledgeService.ask).toHaveBeenCalledWith(
+      '¿Qué documentos necesito?',
+      expect.anything(),
+    );
+  });
+
+  it('should run Telegram updates through the same gatekeeper and RAG flow', async () => {
+    const telegramStudent = {
+      ...student,
+      channel: Channel.TELEGRAM,
+      externalId: '777',
+      phoneNumber: null,
+    };
+
+    studentPort.findByExternalId.mockResolvedValue(telegramStudent);
+    conversationPort.findActiveByStudent.mockResolvedValue({
+      ...conversation,
+      student: telegramStudent,
+    });
+    messenger.sendText.mockResolvedValue('10');
+
+    await service.handleTelegramUpdate({
+      update_id: 1,
+      message: {
+        message_id: 10,
+        from: { id: 777, first_name: 'Ana' },
+        chat: { id: 777, type: 'private' },
+        date: 1700000000,
+        text: '¿Qué es la VTV?',
+      },
+    });
+
+    expect(processedMessagePort.claim).toHaveBeenCalledWith(
+      'TELEGRAM:777:10',
+      expect.any(Date),
+      expect.any(Date),
+    );
+    expect(studentPort.findByExternalId).toHaveBeenCalledWith(
+      Channel.TELEGRAM,
+      '777',
+    );
+    expect(knowledgeService.ask).toHaveBeenCalledWith(
+      '¿Qué es la VTV?',
+      expect.anything(),
+    );
+    expect(messenger.sendText).toHaveBeenCalledWith(
+      { channel: Channel.TELEGRAM, externalId: '777' },
+      'Respuesta del instructor',
+      undefined,
+    );
+    // Telegram no manda callbacks de estado
+    expect(outboundMessagePort.recordAccepted).not.toHaveBeenCalled();
+  });
+
+  it('should let anonymous web visitors ask without access and reply to their session', async () => {
+    const visitor = {
+      id: 'visitor-1',
+      name: 'Sin Nombre',
+      channel: Channel.WEB,
+      externalId: 'session-1',
+      phoneNumber: null,
+    };
+
+    studentPort.findById.mockResolvedValue(visitor);
+    conversationPort.findActiveByStudent.mockResolvedValue({
+      ...conversation,
+      channel: Channel.WEB,
+      student: visitor,
+    });
+
+    await service.handleWebChatMessage(
+      {
+        sessionId: 'session-1',
+        studentId: 'visitor-1',
+        expiresAt: new Date(Date.now() + 60_000),
+      },
+      { text: '¿Qué es la VTV?' },
+    );
+
+    expect(studentPort.findByExternalId).not.toHaveBeenCalled();
+    expect(conversationPort.findActiveByStudent).toHaveBeenCalledWith(
+      'visitor-1',
+      Channel.WEB,
+    );
+    expect(messenger.sendText).toHaveBeenCalledWith(
+      { channel: Channel.WEB, externalId: 'session-1' },
+      'Respuesta del instructor',
+      undefined,
+    );
+  });
+
+  it('should keep a registered student web session apart from their WhatsApp chat', async () => {
+    studentPort.findById.mockResolvedValue(student);
+
+    await service.handleWebChatMessage(
+      {
+        sessionId: 'session-2',
+        studentId: student.id,
+        expiresAt: new Date(Date.now() + 60_000),
+      },
+      { text: '¿Qué es la VTV?' },
+    );
+
+    expect(conversationPort.findActiveByStudent).toHaveBeenCalledWith(
+      student.id,
+      Channel.WEB,
+    );
+    expect(messenger.sendText).toHaveBeenCalledWith(
+      { channel: Channel.WEB, externalId: 'session-2' },
+      'Respuesta del instructor',
+      undefined,
+    );
+    expect(outboundMessagePort.recordAccepted).not.toHaveBeenCalled();
+  });
+
+  it('should log the question and the answer with its latency and model', async () => {
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.1',
+          from: '5491122334455',
+          type: 'text',
+          timestamp: '1700000000',
+          text: { body: '¿Qué es la VTV?' },
+        },
+      ]),
+    );
+
+    expect(messageLogPort.record).toHaveBeenNthCalledWith(1, {
+      studentId: student.id,
+      conversationId: conversation.id,
+      direction: 'INBOUND',
+      type: 'text',
+      text: '¿Qué es la VTV?',
+      waMessageId: 'wamid.1',
+      sentAt: new Date(1700000000 * 1000),
+      latencyMs: null,
+      model: null,
+    });
+    expect(messageLogPort.record).toHaveBeenNthCalledWith(2, {
+      studentId: student.id,
+      conversationId: conversation.id,
+      direction: 'OUTBOUND',
+      type: 'text',
+      text: 'Respuesta del instructor',
+      waMessageId: 'wamid.out',
+      sentAt: expect.any(Date) as Date,
+      latencyMs: expect.any(Number) as number,
+      model: 'google/gemini-flash-1.5',
+    });
+  });
+
+  it('should tag each question with the topic of the retrieved knowledge', async () => {
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.1',
+          from: '5491122334455',
+          type: 'text',
+          timestamp: '1',
+          text: { body: '¿Qué papeles tengo que llevar?' },
+        },
+      ]),
+    );
+
+    expect(progressPort.record).toHaveBeenCalledWith({
+      studentId: student.id,
+      kind: 'QUESTION',
+      topic: 'Documentación',
+      correct: null,
+      questionId: null,
+    });
+  });
+
+  it('should suggest reviewing missed questions once a day after an answer', async () => {
+    reviewPort.countDue.mockResolvedValue(3);
+
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.1',
+          from: '5491122334455',
+          type: 'text',
+          timestamp: '1',
+          text: { body: '¿Qué es la VTV?' },
+        },
+      ]),
+    );
+
+    expect(messenger.sendText).toHaveBeenLastCalledWith(
+      studentAddress,
+      expect.stringContaining('3 preguntas para repasar'),
+      undefined,
+    );
+    expect(conversationPort.updateStep).toHaveBeenCalledWith(
+      conversation.id,
+      ConversationStep.LEARNING,
+      { reviewSuggestedOn: expect.any(String) as string },
+    );
+  });
+
+  it('should only send the welcome message to a new student', async () => {
+    conversationPort.findActiveByStudent.mockResolvedValue({
+      ...conversation,
+      step: ConversationStep.WELCOME,
+      context: {},
+    });
+
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.1',
+          from: '5491122334455',
+          type: 'text',
+          text: { body: 'Hola' },
+        },
+      ]),
+    );
+
+    expect(messenger.sendText).toHaveBeenCalledTimes(1);
+    expect(messenger.sendText).toHaveBeenCalledWith(
+      studentAddress,
+      expect.stringContaining('Soy tu asistente virtual'),
+      undefined,
+    );
+    expect(conversationPort.updateStep).toHaveBeenLastCalledWith(
+      conversation.id,
+      ConversationStep.LEARNING,
+      {},
+    );
+  });
+
+  it('should roll over a stale conversation and welcome the student back before answering', async () => {
+    conversationPort.findActiveByStudent.mockResolvedValue({
+      ...conversation,
+      step: 'QUIZ',
+      context: { questionId: 'q1' },
+      lastInteractionAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+    });
+    conversationPort.create.mockResolvedValue({
+      ...conversation,
+      id: 'conversation-2',
+      step: ConversationStep.WELCOME,
+      context: { returning: true },
+    });
+
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.1',
+          from: '5491122334455',
+          type: 'text',
+          text: { body: '¿Qué es la VTV?' },
+        },
+      ]),
+    );
+
+    // El quiz queda archivado en la conversación vieja
+    expect(conversationPort.deactivate).toHaveBeenCalledWith(
+      conversation.id,
+      'INACTIVITY',
+    );
+    expect(conversationPort.create).toHaveBeenCalledWith(
+      student,
+      Channel.WHATSAPP,
+      { returning: true },
+    );
+    expect(messenger.sendText).toHaveBeenNthCalledWith(
+      1,
+      studentAddress,
+      expect.stringContaining('verte de nuevo'),
+      undefined,
+    );
+    expect(knowledgeService.ask).toHaveBeenCalledWith(
+      '¿Qué es la VTV?',
+      expect.anything(),
+    );
+    expect(conversationPort.updateStep).toHaveBeenLastCalledWith(
+      'conversation-2',
+      ConversationStep.LEARNING,
+      {},
+    );
+  });
+
+  it('should release the claim and rethrow when processing fails', async () => {
+    knowledgeService.ask.mockRejectedValue(new Error('LLM timeout'));
+
+    await expect(
+      service.handleMessage(
+        buildWebhook([
+          {
+            id: 'wamid.1',
+            from: '5491122334455',
+            type: 'text',
+            text: { body: '¿Qué es la VTV?' },
+          },
+        ]),
+      ),
+    ).rejects.toThrow('wamid.1');
+    expect(processedMessagePort.release).toHaveBeenCalledWith('wamid.1');
+    expect(processedMessagePort.complete).not.toHaveBeenCalled();
+  });
+
+  it('should mark the message as done only after answering it', async () => {
+    await service.handleMessage(
+      buildWebhook([
+        {
+          id: 'wamid.1',
+          from: '5491122334455',
+          type: 'text',
+          text: { body: '¿Qué es la VTV?' },
+        },
+      ]),
+    );
+
+    expect(processedMessagePort.complete).toHaveBeenCalledWith('wamid.1');
+    expect(
+      processedMessagePort.complete.mock.invocationCallOrder[0],
+    ).toBeGreaterThan(messenger.sendText.mock.invocationCallOrder[0]);
+  });
+
+  it('should retry a message whose claim was abandoned by a crash', async () => {
+    const webhook = buildWebhook([
+      {
+        id: 'wamid.1',
+        from: '5491122334455',
+        type: 'text',
+        text: { body: '¿Qué es la VTV?' },
+      },
+    ]);
+
+    // El proceso que lo reservó se cayó hace poco: la reserva todavía es reciente
+    processedMessagePort.claim.mockResolvedValueOnce('IN_PROGRESS');
+
+    await expect(service.handleMessage(webhook)).rejects.toThrow('wamid.1');
+    expect(knowledgeService.ask).not.toHaveBeenCalled();
+    // La reserva es de otro: no se borra
+    expect(processedMessagePort.release).not.toHaveBeenCalled();
+
+    // El reintento de la cola llega con la reserva ya vieja y la retoma
+    const before = Date.now();
+
+    await service.handleMessage(webhook);
+
+    const [, , staleBefore] = processedMessagePort.claim.mock.lastCall as [
+      string,
+      Date,
+      Date,
+    ];
+
+    expect(staleBefore.getTime()).toBeGreaterThanOrEqual(
+      before - 2 * 60 * 1000,
+    );
+    expect(staleBefore.getTime()).toBeLessThanOrEqual(
+      Date.now() - 2 * 60 * 1000,
+    );
+    expect(knowledgeService.ask).toHaveBeenCalledTimes(1);
+    expect(messenger.sendText).toHaveBeenCalled();
+    expect(processedMessagePort.complete).toHaveBeenCalledWith('wamid.1');
+  });
+
+  it('should keep the original error when releasing the claim also fails', async () => {
+    knowledgeService.ask.mockRejectedValue(new Error('LLM timeout'));
+    processedMessagePort.release.mockRejectedValueOnce(new Error('DB caída'));
+
+    await expect(
+      service.handleMessage(
+        buildWebhook([
+          {
+            id: 'wamid.1',
+            from: '5491122334455',
+            type: 'text',
+            text: { body: '¿Qué es la VTV?' },
+          },
+          {
+            id: 'wamid.2',
+            from: '5491122334455',
+            type: 'text',
+            text: { body: '¿Y la cédula?' },
+          },
+        ]),
+      ),
+    ).rejects.toThrow('Fallaron 2 mensajes: wamid.1, wamid.2');
+    expect(knowledgeService.ask).toHaveBeenCalledTimes(2);
+  });
+});
@@ -7,19 +7,52 @@ import {
   OnModuleDestroy,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { ConversationStep } from '../conversation/enums/conversation-step.enum';
-import { KnowledgeService } from '../knowledge/knowledge.service';
+import { randomUUID } from 'crypto';
+import { Channel } from '../student/enums/channel.enum';
+import { NotificationService } from './notifications/notification.service';
 import {
-  extractFirstWhatsappMessage,
-  extractWhatsappContactName,
+  cleanWhatsappPhoneNumber,
+  extractWhatsappMessages,
+  extractWhatsappStatuses,
+  toInboundMessage,
 } from './utils/whatsapp.utils';
-import { CONVERSATION_PORT, STUDENT_PORT, WHATSAPP_PROVIDER } from './ports';
-import type {
-  ConversationPort,
-  ConversationData,
-} from './ports/conversation.port';
+import { extractTelegramMessages } from './telegram/telegram.utils';
+import { FlowEngine } from './flow/flow-engine';
+import { ConversationLifecycleService } from './conversations/conversation-lifecycle.service';
+import { ReplyService } from './replies/reply.service';
+import {
+  STUDENT_PORT,
+  CHANNEL_MESSENGER,
+  PROCESSED_MESSAGE_PORT,
+  INBOUND_QUEUE_PORT,
+  STUDENT_LOCK_PORT,
+  OUTBOUND_MESSAGE_PORT,
+  TRANSCRIPTION_PORT,
+  MESSAGE_LOG_PORT,
+} from './ports';
 import type { StudentPort, StudentData } from './ports/student.port';
-import type { WhatsappProviderPort } from './ports/whatsapp-provider.port';
+import type { ChannelMessengerPort } from './ports/channel-messenger.port';
+import type {
+  ClaimResult,
+  ProcessedMessagePort,
+} from './ports/processed-message.port';
+import type { InboundQueuePort } from './ports/inbound-queue.port';
+import type { StudentLockPort } from './ports/student-lock.port';
+import type { OutboundMessagePort } from './ports/outbound-message.port';
+import type { TranscriptionPort } from './ports/transcription.port';
+import type { MessageLogPort } from './ports/message-log.port';
+import type { ConversationInput } from './types/conversation-input.type';
+import type {
+  ChannelAddress,
+  InboundMessage,
+} from './types/inbound-message.type';
+import type { ReplyTarget } from './types/reply-target.type';
+import type {
+  WebChatInboundMessage,
+  WebChatSession,
+} from './web-chat/web-chat.type';
+
+type WhatsappAckMode = 'typing' | 'reaction' | 'none';
 
 /**
  * WhatsappService - Arquitectura Hexagonal
@@ -36,31 +69,61 @@ import type { WhatsappProviderPort } from './ports/whatsapp-provider.port';
 export class WhatsappService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(WhatsappService.name);
 
-  // Rate Limiting (Anti-Factura Exorbitante)
-  // 30 preguntas cada 1 hora por alumno
-  private readonly RATE_LIMIT_WINDOW = 60 * 60 * 1000;
-  private readonly MAX_REQUESTS_PER_WINDOW = 30;
   private readonly CLEANUP_INTERVAL = 5 * 60 * 1000; // Limpieza cada 5 minutos
-  private usageMap = new Map<string, { count: number; expiresAt: number }>();
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
+  // Idempotencia: ventana en la que un reintento de Meta se ignora
+  private readonly dedupWindowMs: number;
+  // Una reserva sin terminar más vieja que esto es de un proceso que se cayó
+  private readonly claimTimeoutMs: number;
+
+  // Feedback mientras se procesa: "escribiendo...", reacción ⏳ o nada
+  private readonly ackMode: WhatsappAckMode;
+
   constructor(
     private readonly configService: ConfigService,
-    private readonly knowledgeService: KnowledgeService,
+    private readonly flowEngine: FlowEngine,
+    private readonly conversationLifecycle: ConversationLifecycleService,
+    private readonly replyService: ReplyService,
     @Inject(STUDENT_PORT)
     private readonly studentPort: StudentPort,
-    @Inject(CONVERSATION_PORT)
-    private readonly conversationPort: ConversationPort,
-    @Inject(WHATSAPP_PROVIDER)
-    private readonly whatsappProvider: WhatsappProviderPort,
-  ) {}
+    @Inject(CHANNEL_MESSENGER)
+    private readonly messenger: ChannelMessengerPort,
+    @Inject(PROCESSED_MESSAGE_PORT)
+    private readonly processedMessagePort: ProcessedMessagePort,
+    @Inject(INBOUND_QUEUE_PORT)
+    private readonly inboundQueue: InboundQueuePort,
+    @Inject(STUDENT_LOCK_PORT)
+    private readonly studentLock: StudentLockPort,
+    @Inject(OUTBOUND_MESSAGE_PORT)
+    private readonly outboundMessagePort: OutboundMessagePort,
+    @Inject(TRANSCRIPTION_PORT)
+    private readonly transcriptionPort: TranscriptionPort,
+    @Inject(MESSAGE_LOG_PORT)
+    private readonly messageLogPort: MessageLogPort,
+    private readonly notificationService: NotificationService,
+  ) {
+    const dedupWindowHours = parseFloat(
+      this.configService.get<string>('WEBHOOK_DEDUP_WINDOW_HOURS') ?? '24',
+    );
+    this.dedupWindowMs = dedupWindowHours * 60 * 60 * 1000;
+
+    const claimTimeoutMinutes = parseFloat(
+      this.configService.get<string>('WEBHOOK_CLAIM_TIMEOUT_MINUTES') ?? '2',
+    );
+    this.claimTimeoutMs = claimTimeoutMinutes * 60 * 1000;
+
+    const ackMode = this.configService.get<string>('WHATSAPP_ACK_MODE');
+    this.ackMode =
+      ackMode === 'reaction' || ackMode === 'none' ? ackMode : 'typing';
+  }
 
   onModuleInit(): void {
-    // Iniciar limpieza periódica de rate limits expirados
+    // Iniciar purga periódica del registro de idempotencia
     this.cleanupTimer = setInterval(() => {
-      this.cleanExpiredRateLimits();
+      void this.purgeProcessedMessages();
     }, this.CLEANUP_INTERVAL);
-    this.logger.log('🧹 Rate limit cleanup timer iniciado');
+    this.logger.log('🧹 Purga de mensajes procesados iniciada');
   }
 
   onModuleDestroy(): void {
@@ -68,28 +131,28 @@ export class WhatsappService implements OnModuleInit, OnModuleDestroy {
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = null;
-      this.logger.log('🛑 Rate limit cleanup timer detenido');
+      this.logger.log('🛑 Purga de mensajes procesados detenida');
     }
   }
 
   /**
-   * Limpia entradas expiradas del mapa de rate limiting.
-   * Previene memory leak al eliminar registros que ya no son necesarios.
+   * Elimina los registros de idempotencia que ya quedaron fuera de la ventana.
    */
-  private cleanExpiredRateLimits(): void {
-    const now = Date.now();
-    let cleaned = 0;
+  private async purgeProcessedMessages(): Promise<void> {
+    try {
+      const purged = await this.processedMessagePort.purgeOlderThan(
+        new Date(Date.now() - this.dedupWindowMs),
+      );
 
-    for (const [key, record] of this.usageMap) {
-      if (now > record.expiresAt) {
-        this.usageMap.delete(key);
-        cleaned++;
+      if (purged > 0) {
+        this.logger.debug(`🧹 Purgados ${purged} mensajes procesados`);
       }
-    }
+    } catch (error) {
+      const err = error as Error;
 
-    if (cleaned > 0) {
-      this.logger.debug(
-        `🧹 Limpiadas ${cleaned} entradas de rate limit expiradas`,
+      this.logger.error(
+        `Error purgando mensajes procesados: ${err.message}`,
+        err.stack,
       );
     }
   }
@@ -109,87 +172,360 @@ export class WhatsappService implements OnModuleInit, OnModuleDestroy {
     throw new ForbiddenException('Token de verificación inválido');
   }
 
+  /**
+   * Persiste el webhook en la cola durable. El procesamiento real lo hace
+   * InboundQueueWorker llamando a `handleMessage`.
+   *
+   * Si todos los mensajes son del mismo alumno, ese alumno es la ordering key:
+   * la cola no procesa un webhook del alumno hasta terminar el anterior.
+   */
+  async enqueueWebhook(webhookData: unknown): Promise<void> {
+    const messages = extractWhatsappMessages(webhookData).map(toInboundMessage);
+
+    await this.inboundQueue.enqueue(
+      'whatsapp',
+      webhookData,
+      this.getOrderingKey(messages),
+    );
+  }
+
+  /**
+   * Igual que `enqueueWebhook`, para los updates del bot de Telegram.
+   */
+  async enqueueTelegramUpdate(update: unknown): Promise<void> {
+    await this.inboundQueue.enqueue(
+      'telegram',
+      update,
+      this.getOrderingKey(extractTelegramMessages(update)),
+    );
+  }
+
+  /**
+   * Procesa un webhook de WhatsApp: estados de entrega y mensajes entrantes.
+   *
+   * @throws Error si algún mensaje falló, para que la cola reintente el payload
+   * (los que sí se procesaron se saltean gracias a la idempotencia).
+   */
   async handleMessage(webhookData: unknown): Promise<void> {
-    try {
-      const messageData = extractFirstWhatsappMessage(webhookData);
-      const contactName = extractWhatsappContactName(webhookData);
+    // Callbacks de estado de lo que enviamos (idempotentes, no requieren dedupe)
+    for (const statusUpdate of extractWhatsappStatuses(webhookData)) {
+      await this.outboundMessagePort.applyStatus(statusUpdate);
 
-      if (!messageData || messageData.type !== 'text') {
-        return;
+      if (statusUpdate.status === 'failed') {
+        const error = statusUpdate.errors[0];
+
+        this.logger.warn(
+          `📭 Mensaje ${statusUpdate.messageId} a ${statusUpdate.recipientId} no entregado: ${error ? `${error.code} ${error.title ?? ''}` : 'sin detalle'}`,
+        );
       }
+    }
 
-      const rawFrom = messageData.from;
-      const from = this.cleanPhoneNumber(rawFrom);
-      const textBody = messageData.text?.body?.trim() || '';
-      // 1. ZONA ADMIN: Comandos
-      const adminPhone = this.configService.get<string>('ADMIN_PHONE_NUMBER');
+    await this.processInboundMessages(
+      extractWhatsappMessages(webhookData).map(toInboundMessage),
+    );
+  }
 
-      if (from === adminPhone) {
-        if (await this.handleAdminCommands(from, textBody)) {
-          return;
-        }
+  /**
+   * Procesa un update del webhook de Telegram.
+   * @throws Error si el mensaje falló (la cola reintenta).
+   */
+  async handleTelegramUpdate(update: unknown): Promise<void> {
+    await this.processInboundMessages(extractTelegramMessages(update));
+  }
+
+  /**
+   * Procesa un mensaje del chat web en el momento (sin pasar por la cola).
+   * Why: La respuesta sale por el WebSocket abierto en ESTA instancia;
+   * un worker de otra instancia no tendría a quién entregársela.
+   * @returns El id asignado al mensaje.
+   * @throws Error si el procesamiento falló.
+   */
+  async handleWebChatMessage(
+    session: WebChatSession,
+    message: WebChatInboundMessage,
+  ): Promise<string> {
+    const messageId = randomUUID();
+
+    await this.processInboundMessages([
+      {
+        channel: Channel.WEB,
+        externalId: session.sessionId,
+        studentId: session.studentId,
+        messageId,
+        timestamp: new Date(),
+        input: {
+          kind: message.replyId ? 'interactive' : 'text',
+          text: message.text ?? '',
+          replyId: message.replyId,
+          messageId,
+        },
+      },
+    ]);
+    return messageId;
+  }
+
+  /**
+   * Procesa los mensajes en orden y de a uno, sin importar el canal.
+   * Why: Si un mensaje falla, los siguientes del mismo lote se siguen procesando.
+   * Los mensajes ya procesados dentro de la ventana de idempotencia se ignoran;
+   * los que otra instancia tiene reservados cuentan como fallidos, así la cola
+   * los reintenta (para entonces ya terminaron o la reserva quedó abandonada).
+   */
+  private async processInboundMessages(
+    messages: InboundMessage[],
+  ): Promise<void> {
+    const failedMessageIds: string[] = [];
+
+    for (const message of messages) {
+      const dedupKey = this.getDedupKey(message);
+      const claim = await this.claimMessage(dedupKey);
+
+      if (claim === 'DUPLICATE') {
+        this.logger.debug(`🔁 Mensaje duplicado ignorado: ${dedupKey}`);
+        continue;
       }
 
-      const student = await this.getOrCreateStudent(from, contactName || null);
-
-      // 2. GATEKEEPER (Fecha de Vencimiento)
-      if (from !== adminPhone) {
-        const now = new Date();
-        const expiresAt = student.accessExpiresAt
-          ? new Date(student.accessExpiresAt)
-          : null;
-
-        if (!expiresAt || now > expiresAt) {
-          await this.whatsappProvider.sendMessage(
-            from,
-            '⛔ *Acceso restringido.*\nTu permiso para usar el instructor virtual ha expirado o no está habilitado.\nPor favor, contactá a tu instructor para activarlo.',
-          );
-          return;
-        }
+      if (claim === 'IN_PROGRESS') {
+        this.logger.warn(`⏳ Mensaje ${dedupKey} reservado por otro proceso`);
+        failedMessageIds.push(dedupKey);
+        continue;
       }
 
-      if (textBody.toLowerCase() === 'reset') {
-        await this.handleReset(student);
-        return;
+      try {
+        // Un mensaje a la vez por alumno, incluso entre instancias
+        await this.studentLock.runExclusive(this.getStudentKey(message), () =>
+          this.withAcknowledgement(message, () =>
+            this.processIncomingMessage(message),
+          ),
+        );
+        await this.completeMessage(dedupKey);
+      } catch (error) {
+        const err = error as Error;
+
+        this.logger.error(`Error handling message: ${err.message}`, err.stack);
+        // Liberamos la reserva para que un reintento pueda procesarlo
+        await this.releaseMessage(dedupKey);
+        failedMessageIds.push(dedupKey);
       }
+    }
+
+    if (failedMessageIds.length > 0) {
+      throw new Error(
+        `Fallaron ${failedMessageIds.length} mensajes: ${failedMessageIds.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Muestra que el mensaje se está procesando (la respuesta del LLM puede tardar)
+   * y limpia la señal al terminar.
+   * - `typing`: tildes azules + "escribiendo..." (se apaga solo al responder).
+   * - `reaction`: tildes azules + reacción ⏳ que se quita al terminar.
+   * - `none`: sin feedback.
+   */
+  private async withAcknowledgement(
+    message: InboundMessage,
+    task: () => Promise<void>,
+  ): Promise<void> {
+    // Reacciones, stickers, etc.: no hay nada que responder
+    if (this.ackMode === 'none' || (!message.input && !message.voiceMediaId)) {
+      return task();
+    }
 
-      const conversation = await this.getOrCreateConversation(student);
+    const showReaction = this.ackMode === 'reaction';
 
-      await this.processConversationStep(conversation, textBody);
+    // El proveedor no lanza: si el acuse falla, el mensaje se procesa igual
+    await this.messenger.markAsRead(message, message.messageId, {
+      showTyping: !showReaction,
+    });
+
+    if (!showReaction) {
+      return task();
+    }
+
+    await this.messenger.sendReaction(message, message.messageId, '⏳');
+
+    try {
+      await task();
+    } finally {
+      await this.messenger.sendReaction(message, message.messageId, '');
+    }
+  }
+
+  /**
+   * Libera la reserva de un mensaje que falló.
+   * Why: Un error de la DB acá no debe tapar el error original ni cortar el
+   * resto del lote (en el peor caso, el reintento espera a que la reserva quede vieja).
+   */
+  private async releaseMessage(messageId: string): Promise<void> {
+    try {
+      await this.processedMessagePort.release(messageId);
     } catch (error) {
       const err = error as Error;
 
-      this.logger.error(`Error handling message: ${err.message}`, err.stack);
+      this.logger.warn(
+        `No se pudo liberar la reserva de ${messageId}: ${err.message}`,
+      );
     }
   }
 
+  /**
+   * Marca el mensaje como procesado.
+   * Why: Ya se respondió; si la DB falla acá, reprocesarlo duplicaría la
+   * respuesta. La reserva queda `PROCESSING` y un reintento la toma recién
+   * cuando se vuelve vieja.
+   */
+  private async completeMessage(messageId: string): Promise<void> {
+    try {
+      await this.processedMessagePort.complete(messageId);
+    } catch (error) {
+      const err = error as Error;
+
+      this.logger.warn(
+        `No se pudo marcar como procesado ${messageId}: ${err.message}`,
+      );
+    }
+  }
+
+  /**
+   * Reserva el mensaje en el registro de idempotencia.
+   * Why: Si la DB falla preferimos arriesgar un duplicado antes que perder el mensaje.
+   */
+  private async claimMessage(messageId: string): Promise<ClaimResult> {
+    const now = Date.now();
+
+    try {
+      return await this.processedMessagePort.claim(
+        messageId,
+        new Date(now - this.dedupWindowMs),
+        new Date(now - this.claimTimeoutMs),
+      );
+    } catch (error) {
+      const err = error as Error;
+
+      this.logger.warn(
+        `No se pudo verificar idempotencia de ${messageId}: ${err.message}`,
+      );
+      return 'CLAIMED';
+    }
+  }
+
+  private async processIncomingMessage(message: InboundMessage): Promise<void> {
+    const receivedAt = new Date();
+
+    // 1. ZONA ADMIN: Comandos (solo por texto y desde WhatsApp)
+    const adminPhone = this.configService.get<string>('ADMIN_PHONE_NUMBER');
+    const isAdmin =
+      message.channel === Channel.WHATSAPP && message.externalId === adminPhone;
+
+    if (isAdmin && message.input?.kind === 'text') {
+      if (await this.handleAdminCommands(message, message.input.text)) {
+        return;
+      }
+    }
+
+    if (!message.input && !message.voiceMediaId) {
+      this.logger.debug(`Mensaje ${message.messageId} sin contenido soportado`);
+      return;
+    }
+
+    const student = await this.getOrCreateStudent(message);
+    // Las respuestas van por donde llegó el mensaje (un alumno registrado puede escribir desde la web)
+    const trace = { studentId: student.id, conversationId: null, receivedAt };
+    const replyTo: ReplyTarget = {
+      channel: message.channel,
+      externalId: message.externalId,
+      trace,
+    };
+
+    // Cualquier mensaje (incluso sin acceso) reabre la ventana de 24h de Meta
+    await this.studentPort.touchLastInbound(
+      student.id,
+      message.timestamp ?? new Date(),
+    );
+
+    // 2. GATEKEEPER (Fecha de Vencimiento)
+    // Los visitantes anónimos del sitio pasan: son prospectos probando el asistente
+    if (!isAdmin && student.channel !== Channel.WEB) {
+      const now = new Date();
+      const expiresAt = student.accessExpiresAt
+        ? new Date(student.accessExpiresAt)
+        : null;
+
+      if (!expiresAt || now > expiresAt) {
+        await this.logInbound(message, student, null, message.input);
+        await this.replyService.sendText(
+          replyTo,
+          '⛔ *Acceso restringido.*\nTu permiso para usar el instructor virtual ha expirado o no está habilitado.\nPor favor, contactá a tu instructor para activarlo.',
+        );
+        return;
+      }
+    }
+
+    // Si la conversación venció por inactividad, arranca una nueva
+    const conversation = await this.conversationLifecycle.resolve(
+      student,
+      message.channel,
+    );
+    const conversationReplyTo: ReplyTarget = {
+      ...replyTo,
+      trace: { ...trace, conversationId: conversation.id },
+    };
+
+    // 3. Entrada normalizada (texto, transcripción o botón tocado).
+    // Los audios se transcriben recién acá, después del gatekeeper (cuesta plata)
+    const input = message.voiceMediaId
+      ? await this.transcribeAudio(
+          conversationReplyTo,
+          message.voiceMediaId,
+          message.messageId,
+        )
+      : message.input;
+
+    await this.logInbound(message, student, conversation.id, input);
+
+    if (!input) {
+      return;
+    }
+
+    // 4. Flujos: interrupciones (reset, menu) y el paso actual
+    await this.flowEngine.process(conversation, input, conversationReplyTo);
+  }
+
   // --- ADMIN COMMANDS ---
   private async handleAdminCommands(
-    adminPhone: string,
+    admin: ChannelAddress,
     text: string,
   ): Promise<boolean> {
     const parts = text.split(' ');
     const command = parts[0].toLowerCase();
 
-    // Comando: Alta 1122334455 [dias]
+    // Comando: Alta 1122334455 [dias] | Alta tg:123456789 [dias]
     if (command === 'alta') {
-      const rawTargetPhone = parts[1];
+      const rawTarget = parts[1];
 
-      if (!rawTargetPhone) {
-        await this.whatsappProvider.sendMessage(
-          adminPhone,
-          '❌ Faltó el número.\nUso: Alta [telefono] [dias]',
+      if (!rawTarget) {
+        await this.replyService.sendText(
+          admin,
+          '❌ Faltó el número.\nUso: Alta [telefono | tg:chat_id] [dias]',
         );
         return true;
       }
 
       const days = parseInt(parts[2] || '30');
-      const targetPhone = this.normalizePhoneNumber(rawTargetPhone);
+      const target = this.parseStudentTarget(rawTarget);
 
-      let student = await this.studentPort.findByPhone(targetPhone);
+      let student = await this.studentPort.findByExternalId(
+        target.channel,
+        target.externalId,
+      );
 
       if (!student) {
-        student = await this.studentPort.create(targetPhone, 'Alumno Nuevo');
+        student = await this.studentPort.create(
+          target.channel,
+          target.externalId,
+          'Alumno Nuevo',
+        );
       }
 
       const expiration = new Date();
@@ -197,42 +533,42 @@ export class WhatsappService implements OnModuleInit, OnModuleDestroy {
       expiration.setDate(expiration.getDate() + days);
 
       await this.studentPort.updateAccessExpiration(student.id, expiration);
-      await this.whatsappProvider.sendMessage(
-        adminPhone,
-        `✅ Habilitado ${targetPhone}\nHasta: ${expiration.toLocaleDateString()}`,
+      await this.replyService.sendText(
+        admin,
+        `✅ Habilitado ${this.formatStudentTarget(target)}\nHasta: ${expiration.toLocaleDateString()}`,
       );
 
       return true;
     }
 
-    // Comando: Baja 1122334455
+    // Comando: Baja 1122334455 | Baja tg:123456789
     if (command === 'baja') {
-      const rawTargetPhone = parts[1];
+      const rawTarget = parts[1];
 
-      if (!rawTargetPhone) {
-        await this.whatsappProvider.sendMessage(
-          adminPhone,
-          '❌ Faltó el número.\nUso: Baja [telefono]',
+      if (!rawTarget) {
+        await this.replyService.sendText(
+          admin,
+          '❌ Faltó el número.\nUso: Baja [telefono | tg:chat_id]',
         );
         return true;
       }
 
-      const targetPhone = this.normalizePhoneNumber(rawTargetPhone);
+      const target = this.parseStudentTarget(rawTarget);
 
-      const student = await this.studentPort.findByPhone(targetPhone);
+      const student = await this.studentPort.findByExternalId(
+        target.channel,
+        target.externalId,
+      );
 
       if (student) {
         // Fecha en el pasado = vencido
         await this.studentPort.updateAccessExpiration(student.id, new Date(0));
-        await this.whatsappProvider.sendMessage(
-          adminPhone,
-          `🚫 Acceso revocado para ${targetPhone}`,
+        await this.replyService.sendText(
+          admin,
+          `🚫 Acceso revocado para ${this.formatStudentTarget(target)}`,
         );
       } else {
-        await this.whatsappProvider.sendMessage(
-          adminPhone,
-          '⚠️ No encontré a ese alumno.',
-        );
+        await this.replyService.sendText(admin, '⚠️ No encontré a ese alumno.');
       }
       return true;
     }
@@ -242,8 +578,8 @@ export class WhatsappService implements OnModuleInit, OnModuleDestroy {
       const activeStudents = await this.studentPort.findAllWithActiveAccess();
 
       if (activeStudents.length === 0) {
-        await this.whatsappProvider.sendMessage(
-          adminPhone,
+        await this.replyService.sendText(
+          admin,
           '📋 No hay alumnos con acceso activo actualmente.',
         );
         return true;
@@ -254,175 +590,215 @@ export class WhatsappService implements OnModuleInit, OnModuleDestroy {
           const expDate = s.accessExpiresAt
             ? new Date(s.accessExpiresAt).toLocaleDateString()
             : 'N/A';
-          return `• ${s.phoneNumber} (${s.name}) - Acceso vence: ${expDate}`;
+          return `• ${this.formatStudentTarget(s)} (${s.name}) - Acceso vence: ${expDate}`;
         })
         .join('\n');
 
-      await this.whatsappProvider.sendMessage(
-        adminPhone,
+      await this.replyService.sendText(
+        admin,
         `📋 *Alumnos con acceso activo (${activeStudents.length}):*\n\n${studentList}`,
       );
       return true;
     }
 
+    // Comando: Aviso [mensaje] (a todos los alumnos con acceso activo)
+    if (command === 'aviso') {
+      const message = text.slice(parts[0].length).trim();
+
+      if (!message) {
+        await this.replyService.sendText(
+          admin,
+          '❌ Faltó el mensaje.\nUso: Aviso [mensaje]',
+        );
+        return true;
+      }
+
+      const activeStudents = await this.studentPort.findAllWithActiveAccess();
+      let delivered = 0;
+
+      for (const student of activeStudents) {
+        if (
+          await this.notificationService.notify(student, 'broadcast', {
+            message,
+          })
+        ) {
+          delivered++;
+        }
+      }
+
+      await this.replyService.sendText(
+        admin,
+        `📢 Aviso enviado a ${delivered}/${activeStudents.length} alumnos.`,
+      );
+      return true;
+    }
+
     return false;
   }
 
   // --- PRIVATE HELPERS (Clean Code) ---
 
   /**
-   * Limpia el número de teléfono removiendo el 9 del prefijo 549.
-   * Parche para Argentina en Sandbox: 549... → 54...
+   * Clave del alumno para el lock y la ordering key de la cola.
    */
-  private cleanPhoneNumber(phone: string): string {
-    if (phone.startsWith('549')) {
-      return phone.replace('549', '54');
-    }
-    return phone;
+  private getStudentKey(address: ChannelAddress): string {
+    return `${address.channel}:${address.externalId}`;
   }
 
   /**
-   * Normaliza un número de teléfono:
-   * 1. Agrega prefijo 54 si no lo tiene
-   * 2. Limpia el 9 de 549 si existe
+   * Clave de idempotencia. Los wamid de Meta son únicos globalmente;
+   * los ids de Telegram solo son únicos dentro de cada chat.
    */
-  private normalizePhoneNumber(phone: string): string {
-    let normalized = phone;
+  private getDedupKey(message: InboundMessage): string {
+    return message.channel === Channel.WHATSAPP
+      ? message.messageId
+      : `${this.getStudentKey(message)}:${message.messageId}`;
+  }
 
-    if (!normalized.startsWith('54')) {
-      normalized = '54' + normalized;
-    }
+  private getOrderingKey(messages: InboundMessage[]): string | null {
+    const students = new Set(messages.map((m) => this.getStudentKey(m)));
 
-    return this.cleanPhoneNumber(normalized);
+    return students.size === 1 ? [...students][0] : null;
   }
 
-  private async getOrCreateStudent(
-    from: string,
-    contactName: string | null,
-  ): Promise<StudentData> {
-    let student = await this.studentPort.findByPhone(from);
-
-    if (!student) {
-      student = await this.studentPort.create(
-        from,
-        contactName || 'Sin Nombre',
-      );
-      this.logger.log(`🆕 Nuevo alumno creado: ${from}`);
+  /**
+   * Interpreta el alumno de un comando de admin: `tg:<chat_id>` es Telegram,
+   * cualquier otro valor es un teléfono de WhatsApp.
+   */
+  private parseStudentTarget(raw: string): ChannelAddress {
+    if (raw.toLowerCase().startsWith('tg:')) {
+      return { channel: Channel.TELEGRAM, externalId: raw.slice(3) };
     }
-    return student;
+
+    return {
+      channel: Channel.WHATSAPP,
+      externalId: this.normalizePhoneNumber(raw),
+    };
   }
 
-  private async handleReset(student: StudentData) {
-    await this.conversationPort.create(student);
-    await this.whatsappProvider.sendMessage(
-      student.phoneNumber,
-      '🔄 Conversación reiniciada. Escribí "Hola" para empezar.',
-    );
+  private formatStudentTarget(address: ChannelAddress): string {
+    return address.channel === Channel.TELEGRAM
+      ? `tg:${address.externalId}`
+      : address.externalId;
   }
 
-  private async getOrCreateConversation(student: StudentData) {
-    let conversation = await this.conversationPort.findActiveByStudent(
-      student.id,
-    );
+  /**
+   * Normaliza un número de teléfono:
+   * 1. Agrega prefijo 54 si no lo tiene
+   * 2. Limpia el 9 de 549 si existe
+   */
+  private normalizePhoneNumber(phone: string): string {
+    let normalized = phone;
 
-    if (!conversation) {
-      conversation = await this.conversationPort.create(student);
+    if (!normalized.startsWith('54')) {
+      normalized = '54' + normalized;
     }
 
-    return conversation;
+    return cleanWhatsappPhoneNumber(normalized);
   }
 
-  private async processConversationStep(
-    conversation: ConversationData,
-    textBody: string,
-  ) {
-    switch (conversation.step) {
-      case ConversationStep.WELCOME:
-        await this.handleWelcome(conversation);
-        break;
-
-      case ConversationStep.LEARNING:
-        await this.handleLearning(conversation, textBody);
-        break;
-
-      default:
-        this.logger.warn(`Estado desconocido: ${conversation.step}`);
+  /**
+   * Descarga la nota de voz, la transcribe y le confirma al alumno qué se entendió.
+   * @returns La entrada con la transcripción, o `null` si no se pudo (el alumno ya fue avisado).
+   */
+  private async transcribeAudio(
+    replyTo: ReplyTarget,
+    mediaId: string,
+    messageId: string,
+  ): Promise<ConversationInput | null> {
+    const media = await this.messenger.downloadMedia(
+      { channel: replyTo.channel, externalId: replyTo.externalId },
+      mediaId,
+    );
+    let transcript: string | null = null;
 
-        await this.whatsappProvider.sendMessage(
-          conversation.student.phoneNumber,
-          'Hubo un error en mi memoria. Escribí "reset" para reiniciar.',
+    if (media) {
+      try {
+        transcript = await this.transcriptionPort.transcribe(
+          media.data,
+          media.mimeType,
         );
-    }
-  }
+      } catch (error) {
+        const err = error as Error;
 
-  // --- HANDLERS DE ESTADOS ---
-
-  private async handleWelcome(conversation: ConversationData): Promise<void> {
-    let studentName = conversation.student.name?.trim();
-
-    if (!studentName || studentName === 'Sin Nombre') {
-      studentName = 'Futuro Conductor/a';
+        this.logger.error(`Error transcribiendo audio: ${err.message}`);
+      }
     }
 
-    const welcomeMessage = `🚗 *Autoescuela GMC* \n\nHola ${studentName}! Soy tu asistente virtual para preparar el examen teórico de conducir. 🧠\n\nPreguntame lo que quieras sobre:\n• Señales de tránsito\n• Prioridades de paso\n• Velocidades máximas\n• Documentación obligatoria\n• Y mucho más...\n\n¡Escribí tu duda y te ayudo!`;
+    if (!transcript) {
+      await this.replyService.sendText(
+        replyTo,
+        '🎙️ No pude entender el audio. ¿Me lo escribís o probás grabarlo de nuevo?',
+      );
+      return null;
+    }
 
-    await this.whatsappProvider.sendMessage(
-      conversation.student.phoneNumber,
-      welcomeMessage,
-    );
-    await this.conversationPort.updateStep(
-      conversation.id,
-      ConversationStep.LEARNING,
-    );
+    // Citamos la nota de voz para que quede claro qué se transcribió
+    await this.replyService.sendText(replyTo, `🎙️ Entendí: _"${transcript}"_`, {
+      replyTo: messageId,
+    });
+    return { kind: 'voice', text: transcript, messageId };
   }
 
-  private async handleLearning(conversation: ConversationData, text: string) {
-    // Detectar saludos para enviar Bienvenida predefinida (Ahorra AI + UX Consistente)
-    const greetings = ['hola', 'buen dia', 'buen día', 'buenas', 'hi', 'hello'];
-
-    if (greetings.includes(text.trim().toLowerCase())) {
-      await this.handleWelcome(conversation);
-      return;
-    }
+  /**
+   * Guarda el mensaje del alumno en su historial (las notas de voz, con la
+   * transcripción). Si falla, el mensaje se atiende igual.
+   */
+  private async logInbound(
+    message: InboundMessage,
+    student: StudentData,
+    conversationId: string | null,
+    input: ConversationInput | null,
+  ): Promise<void> {
+    try {
+      await this.messageLogPort.record({
+        studentId: student.id,
+        conversationId,
+        direction: 'INBOUND',
+        type: message.voiceMediaId ? 'voice' : (input?.kind ?? 'media'),
+        text: input?.text || null,
+        waMessageId: message.messageId,
+        sentAt: message.timestamp ?? new Date(),
+        latencyMs: null,
+        model: null,
+      });
+    } catch (error) {
+      const err = error as Error;
 
-    if (!this.checkRateLimit(conversation.student.phoneNumber)) {
-      await this.whatsappProvider.sendMessage(
-        conversation.student.phoneNumber,
-        `⏳ Te pasaste un poco de velocidad.\n\nPara cuidar el sistema, tenés un límite de preguntas por hora. Esperá un ratito y volvé a intentar.`,
+      this.logger.warn(
+        `No se pudo guardar el mensaje ${message.messageId}: ${err.message}`,
       );
-      return;
     }
-
-    const aiResponse = await this.knowledgeService.ask(text);
-
-    await this.whatsappProvider.sendMessage(
-      conversation.student.phoneNumber,
-      aiResponse,
-    );
   }
 
-  // --- UTILS ---
-
-  private checkRateLimit(phoneNumber: string): boolean {
-    const now = Date.now();
-    const record = this.usageMap.get(phoneNumber);
+  private async getOrCreateStudent(
+    message: InboundMessage,
+  ): Promise<StudentData> {
+    // El canal ya identificó al alumno (sesión web)
+    if (message.studentId) {
+      const known = await this.studentPort.findById(message.studentId);
 
-    // Si no existe o ya expiró la ventana, reiniciamos
-    if (!record || now > record.expiresAt) {
-      this.usageMap.set(phoneNumber, {
-        count: 1,
-        expiresAt: now + this.RATE_LIMIT_WINDOW,
-      });
-      return true;
+      if (!known) {
+        throw new Error(`Alumno ${message.studentId} no encontrado`);
+      }
+      return known;
     }
 
-    // Si superó el límite
-    if (record.count >= this.MAX_REQUESTS_PER_WINDOW) {
-      return false;
-    }
+    let student = await this.studentPort.findByExternalId(
+      message.channel,
+      message.externalId,
+    );
 
-    // Incrementamos
-    record.count++;
-    return true;
+    if (!student) {
+      student = await this.studentPort.create(
+        message.channel,
+        message.externalId,
+        message.contactName || 'Sin Nombre',
+      );
+      this.logger.log(
+        `🆕 Nuevo alumno creado: ${this.formatStudentTarget(message)}`,
+      );
+    }
+    return student;
   }
 }
@@ -0,0 +1,142 @@
+import type { ConfigService } from '@nestjs/config';
+import type { InboundJobData } from '../ports/inbound-queue.port';
+import type { WhatsappService } from '../whatsapp.service';
+import { InboundQueueWorker } from './inbound-queue.worker';
+
+describe('InboundQueueWorker', () => {
+  const config: Record<string, string> = {
+    INBOUND_QUEUE_MAX_ATTEMPTS: '3',
+    INBOUND_QUEUE_BACKOFF_BASE_MS: '1000',
+    INBOUND_QUEUE_DRAIN_TIMEOUT_MS: '5000',
+  };
+  const claimNext = jest.fn();
+  const complete = jest.fn();
+  const reschedule = jest.fn();
+  const moveToDeadLetter = jest.fn();
+  const handleMessage = jest.fn();
+  const handleTelegramUpdate = jest.fn();
+
+  let worker: InboundQueueWorker;
+
+  const job = (attempts: number): InboundJobData => ({
+    id: 'job-1',
+    source: 'whatsapp',
+    payload: { entry: [] },
+    attempts,
+  });
+
+  // Devuelve el job una sola vez; después la cola queda vacía
+  const enqueueOnce = (data: InboundJobData) =>
+    claimNext.mockResolvedValueOnce(data).mockResolvedValue(null);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T12:00:00Z') });
+    jest.clearAllMocks();
+    claimNext.mockResolvedValue(null);
+
+    worker = new InboundQueueWorker(
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+      { handleMessage, handleTelegramUpdate } as unknown as WhatsappService,
+      { claimNext, complete, reschedule, moveToDeadLetter, enqueue: jest.fn() },
+    );
+  });
+
+  afterEach(async () => {
+    // Un job colgado haría esperar el drenado: se adelanta el reloj
+    const stopped = worker.onModuleDestroy();
+
+    await jest.advanceTimersByTimeAsync(5000);
+    await stopped;
+    jest.useRealTimers();
+  });
+
+  it('should complete a job once it is dispatched', async () => {
+    enqueueOnce(job(1));
+    handleMessage.mockResolvedValue(undefined);
+
+    worker.onModuleInit();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(handleMessage).toHaveBeenCalledWith({ entry: [] });
+    expect(complete).toHaveBeenCalledWith('job-1');
+    expect(reschedule).not.toHaveBeenCalled();
+  });
+
+  it('should reschedule a failed job with exponential backoff', async () => {
+    enqueueOnce(job(2));
+    handleMessage.mockRejectedValue(new Error('LLM timeout'));
+
+    worker.onModuleInit();
+    await jest.advanceTimersByTimeAsync(0);
+
+    // base * 2^(intento-1) = 1000 * 2
+    expect(reschedule).toHaveBeenCalledWith(
+      'job-1',
+      new Date(Date.now() + 2000),
+      'LLM timeout',
+    );
+    expect(complete).not.toHaveBeenCalled();
+    expect(moveToDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it('should move the job to dead letters after the last attempt', async () => {
+    enqueueOnce(job(3));
+    handleMessage.mockRejectedValue(new Error('payload roto'));
+
+    worker.onModuleInit();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(moveToDeadLetter).toHaveBeenCalledWith('job-1', 'payload roto');
+    expect(reschedule).not.toHaveBeenCalled();
+  });
+
+  it('should wait for the jobs in flight before shutting down', async () => {
+    let finish: () => void = () => undefined;
+
+    enqueueOnce(job(1));
+    handleMessage.mockReturnValue(
+      new Promise<void>((resolve) => {
+        finish = resolve;
+      }),
+    );
+
+    worker.onModuleInit();
+    await jest.advanceTimersByTimeAsync(0);
+
+    let stopped = false;
+    const shutdown = worker.onModuleDestroy().then(() => {
+      stopped = true;
+    });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(stopped).toBe(false);
+
+    finish();
+    await shutdown;
+
+    expect(complete).toHaveBeenCalledWith('job-1');
+    // Apagado: no vuelve a buscar jobs
+    claimNext.mockClear();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(claimNext).not.toHaveBeenCalled();
+  });
+
+  it('should give up waiting after the drain timeout', async () => {
+    enqueueOnce(job(1));
+    handleMessage.mockReturnValue(new Promise<void>(() => undefined));
+
+    worker.onModuleInit();
+    await jest.advanceTimersByTimeAsync(0);
+
+    let stopped = false;
+    const shutdown = worker.onModuleDestroy().then(() => {
+      stopped = true;
+    });
+
+    await jest.advanceTimersByTimeAsync(5000);
+    await shutdown;
+
+    expect(stopped).toBe(true);
+    expect(complete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WhatsappService } from '../whatsapp.service';
+import { INBOUND_QUEUE_PORT } from '../ports';
+import type {
+  InboundQueuePort,
+  InboundJobData,
+} from '../ports/inbound-queue.port';
+
+/**
+ * InboundQueueWorker - Consume la cola durable de webhooks.
+ *
+ * - Hace polling de la tabla y procesa hasta `concurrency` jobs en paralelo.
+ * - Si un job falla se reprograma con backoff exponencial (base * 2^(intento-1)).
+ * - Al agotar `maxAttempts` el job pasa a la tabla de dead letters.
+ * - Al apagar la app deja de tomar jobs y espera a que terminen los que están en curso.
+ */
+@Injectable()
+export class InboundQueueWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(InboundQueueWorker.name);
+
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  // Un job "en proceso" con lock más viejo que esto se considera abandonado (crash)
+  private readonly lockTimeoutMs: number;
+  private readonly drainTimeoutMs: number;
+
+  private running = false;
+  private isPolling = false;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly whatsappService: WhatsappService,
+    @Inject(INBOUND_QUEUE_PORT)
+    private readonly inboundQueue: InboundQueuePort,
+  ) {
+    this.concurrency = this.getNumber('INBOUND_QUEUE_CONCURRENCY', 4);
+    this.pollIntervalMs = this.getNumber(
+      'INBOUND_QUEUE_POLL_INTERVAL_MS',
+      1000,
+    );
+    this.maxAttempts = this.getNumber('INBOUND_QUEUE_MAX_ATTEMPTS', 5);
+    this.backoffBaseMs = this.getNumber('INBOUND_QUEUE_BACKOFF_BASE_MS', 2000);
+    this.lockTimeoutMs = this.getNumber(
+      'INBOUND_QUEUE_LOCK_TIMEOUT_MS',
+      5 * 60 * 1000,
+    );
+    this.drainTimeoutMs = this.getNumber(
+      'INBOUND_QUEUE_DRAIN_TIMEOUT_MS',
+      30_000,
+    );
+  }
+
+  onModuleInit(): void {
+    this.running = true;
+    this.schedulePoll(0);
+    this.logger.log(
+      `📥 Worker de cola iniciado (concurrency=${this.concurrency}, maxAttempts=${this.maxAttempts})`,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (this.inFlight.size === 0) {
+      return;
+    }
+
+    this.logger.log(`⏳ Esperando ${this.inFlight.size} jobs en curso...`);
+
+    // Si no terminan a tiempo, el lock vence y otra instancia los retoma
+    let drainTimer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+      drainTimer = setTimeout(() => resolve('timeout'), this.drainTimeoutMs);
+    });
+    const result = await Promise.race([
+      Promise.allSettled([...this.inFlight]).then(() => 'drained' as const),
+      timeout,
+    ]);
+
+    clearTimeout(drainTimer);
+
+    if (result === 'timeout') {
+      this.logger.warn(
+        `⚠️ Quedaron ${this.inFlight.size} jobs sin terminar al apagar; se reintentarán.`,
+      );
+    } else {
+      this.logger.log('🛑 Worker de cola detenido');
+    }
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      void this.poll();
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+
+    try {
+      while (this.running && this.inFlight.size < this.concurrency) {
+        const job = await this.inboundQueue.claimNext(this.lockTimeoutMs);
+
+        if (!job) {
+          break;
+        }
+
+        const task: Promise<void> = this.processJob(job).finally(() => {
+          this.inFlight.delete(task);
+          // Hay un lugar libre: buscamos el siguiente sin esperar al intervalo
+          this.schedulePoll(0);
+        });
+
+        this.inFlight.add(task);
+      }
+    } catch (error) {
+      const err = error as Error;
+
+      this.logger.error(`Error tomando jobs de la cola: ${err.message}`);
+    } finally {
+      this.isPolling = false;
+      this.schedulePoll(this.pollIntervalMs);
+    }
+  }
+
+  private async processJob(job: InboundJobData): Promise<void> {
+    try {
+      await this.dispatch(job);
+      await this.inboundQueue.complete(job.id);
+    } catch (error) {
+      const err = error as Error;
+
+      try {
+        await this.handleFailure(job, err.message);
+      } catch (failureError) {
+        const failErr = failureError as Error;
+
+        // El lock vencido hará que el job se retome más adelante
+        this.logger.error(
+          `Error registrando el fallo del job ${job.id}: ${failErr.message}`,
+        );
+      }
+    }
+  }
+
+  private async dispatch(job: InboundJobData): Promise<void> {
+    switch (job.source) {
+      case 'whatsapp':
+        await this.whatsappService.handleMessage(job.payload);
+        break;
+
+      case 'telegram':
+        await this.whatsappService.handleTelegramUpdate(job.payload);
+        break;
+
+      default:
+        throw new Error(`Origen de job desconocido: ${String(job.source)}`);
+    }
+  }
+
+  private async handleFailure(
+    job: InboundJobData,
+    errorMessage: string,
+  ): Promise<void> {
+    if (job.attempts >= this.maxAttempts) {
+      await this.inboundQueue.moveToDeadLetter(job.id, errorMessage);
+      this.logger.error(
+        `☠️ Job ${job.id} movido a dead letters tras ${job.attempts} intentos: ${errorMessage}`,
+      );
+      return;
+    }
+
+    const delayMs = this.backoffBaseMs * 2 ** (job.attempts - 1);
+
+    await this.inboundQueue.reschedule(
+      job.id,
+      new Date(Date.now() + delayMs),
+      errorMessage,
+    );
+    this.logger.warn(
+      `🔁 Job ${job.id} falló (intento ${job.attempts}/${this.maxAttempts}), reintento en ${delayMs}ms: ${errorMessage}`,
+    );
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    const value = parseInt(this.configService.get<string>(key) ?? '', 10);
+
+    return Number.isFinite(value) && value > 0 ? value : defaultValue;
+  }
+}